@@ -0,0 +1,3439 @@
+// client/src/generated.ts
+//
+// Generated by scripts/generate-client.mjs from the Bloggly API 0.1.0
+// OpenAPI document. Do not edit by hand; run `npm run generate:client`.
+import {
+  ApiResponse,
+  BlogglyClientBase,
+  CursorPagination,
+  PagePagination,
+  paginateByCursor,
+  paginateByPage,
+  RequestOptions,
+} from "./runtime";
+
+export type ApiErrorCode =
+  | "VALIDATION_FAILED"
+  | "BAD_REQUEST"
+  | "AUTH_REQUIRED"
+  | "FORBIDDEN"
+  | "USER_BANNED"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "PAYLOAD_TOO_LARGE"
+  | "RATE_LIMITED"
+  | "INTERNAL_ERROR"
+  | "SERVICE_UNAVAILABLE";
+
+export interface DeleteAdminAnnouncementsByIdParams {
+  id: string;
+}
+
+export interface DeleteAdminAnnouncementsByIdData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface DeleteAdminAnnouncementsByIdArgs {
+  params: DeleteAdminAnnouncementsByIdParams;
+}
+
+export interface DeleteAdminCommentsByIdParams {
+  id: string;
+}
+
+export interface DeleteAdminCommentsByIdData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface DeleteAdminCommentsByIdArgs {
+  params: DeleteAdminCommentsByIdParams;
+}
+
+export interface DeleteAdminUsersByIdParams {
+  id: string;
+}
+
+export interface DeleteAdminUsersByIdData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface DeleteAdminUsersByIdArgs {
+  params: DeleteAdminUsersByIdParams;
+}
+
+export interface DeleteAdminUsersByIdBanParams {
+  id: string;
+}
+
+export interface DeleteAdminUsersByIdBanData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface DeleteAdminUsersByIdBanArgs {
+  params: DeleteAdminUsersByIdBanParams;
+}
+
+export interface DeleteAdminUsersByIdRoleParams {
+  id: string;
+}
+
+export interface DeleteAdminUsersByIdRoleBody {
+  reason?: string;
+}
+
+export interface DeleteAdminUsersByIdRoleData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface DeleteAdminUsersByIdRoleArgs {
+  params: DeleteAdminUsersByIdRoleParams;
+  body: DeleteAdminUsersByIdRoleBody;
+}
+
+export interface DeleteCommentsByIdParams {
+  id: string;
+}
+
+export interface DeleteCommentsByIdData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface DeleteCommentsByIdArgs {
+  params: DeleteCommentsByIdParams;
+}
+
+export interface DeleteNotificationsQuery {
+  ids?: string;
+  all?: "true" | "false";
+  read?: "true" | "false";
+}
+
+export interface DeleteNotificationsData {
+  message: string;
+  deleted_count: number;
+  [key: string]: unknown;
+}
+
+export interface DeleteNotificationsArgs {
+  query?: DeleteNotificationsQuery;
+}
+
+export interface DeleteNotificationsPushSubscriptionsBody {
+  endpoint: string;
+}
+
+export interface DeleteNotificationsPushSubscriptionsData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface DeleteNotificationsPushSubscriptionsArgs {
+  body: DeleteNotificationsPushSubscriptionsBody;
+}
+
+export interface DeletePostsByIdOrSlugParams {
+  idOrSlug: string;
+}
+
+export interface DeletePostsByIdOrSlugData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface DeletePostsByIdOrSlugArgs {
+  params: DeletePostsByIdOrSlugParams;
+}
+
+export interface DeletePostsByIdOrSlugCollaboratorsByUserIdParams {
+  idOrSlug: string;
+  userId: string;
+}
+
+export interface DeletePostsByIdOrSlugCollaboratorsByUserIdData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface DeletePostsByIdOrSlugCollaboratorsByUserIdArgs {
+  params: DeletePostsByIdOrSlugCollaboratorsByUserIdParams;
+}
+
+export interface DeleteTagsBySlugFollowParams {
+  slug: string;
+}
+
+export interface DeleteTagsBySlugFollowData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface DeleteTagsBySlugFollowArgs {
+  params: DeleteTagsBySlugFollowParams;
+}
+
+export interface DeleteUploadQuery {
+  id: string;
+}
+
+export interface DeleteUploadData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface DeleteUploadArgs {
+  query: DeleteUploadQuery;
+}
+
+export interface DeleteUsersByIdFollowParams {
+  id: string;
+}
+
+export interface DeleteUsersByIdFollowData {
+  is_following: boolean;
+  follows_you: boolean;
+  is_mutual: boolean;
+}
+
+export interface DeleteUsersByIdFollowArgs {
+  params: DeleteUsersByIdFollowParams;
+}
+
+export interface GetAdminAnalyticsQuery {
+  period?: "7d" | "30d" | "90d" | "1y";
+  metrics?: Array<"users" | "posts" | "comments" | "views" | "engagement">;
+}
+
+export type GetAdminAnalyticsData = Record<string, unknown>;
+
+export interface GetAdminAnalyticsArgs {
+  query?: GetAdminAnalyticsQuery;
+}
+
+export interface GetAdminCommentsQuery {
+  page?: number;
+  limit?: number;
+  search?: string;
+  status?: "all" | "published" | "flagged" | "deleted" | "pending";
+  spam_filter?: "all" | "spam" | "not_spam";
+  sort?: "newest" | "oldest" | "most_reported";
+  user_id?: string;
+  post_id?: string;
+}
+
+export interface GetAdminCommentsData {
+  comments: Array<{
+    id: string;
+    post_id: string;
+    parent_id: string | null;
+    content: string;
+    created_at: string;
+    updated_at?: string;
+    [key: string]: unknown;
+  }>;
+  [key: string]: unknown;
+}
+
+export interface GetAdminCommentsArgs {
+  query?: GetAdminCommentsQuery;
+}
+
+export interface GetAdminCommentsByIdParams {
+  id: string;
+}
+
+export interface GetAdminCommentsByIdData {
+  comment: {
+    id: string;
+    post_id: string;
+    parent_id: string | null;
+    content: string;
+    created_at: string;
+    updated_at?: string;
+    [key: string]: unknown;
+  };
+}
+
+export interface GetAdminCommentsByIdArgs {
+  params: GetAdminCommentsByIdParams;
+}
+
+export interface GetAdminMaintenanceQuery {
+  type?: "maintenance" | "announcements" | "all";
+}
+
+export type GetAdminMaintenanceData = Record<string, unknown>;
+
+export interface GetAdminMaintenanceArgs {
+  query?: GetAdminMaintenanceQuery;
+}
+
+export interface GetAdminPostsQuery {
+  page?: number;
+  limit?: number;
+  search?: string;
+  status?: "all" | "published" | "draft" | "archived";
+  reported?: "all" | "reported" | "not_reported";
+  sort?: "newest" | "oldest" | "most_viewed" | "most_commented";
+}
+
+export interface GetAdminPostsData {
+  posts: Array<{
+    id: string;
+    author_id: string;
+    title: string;
+    slug: string;
+    content_markdown?: string;
+    excerpt?: string | null;
+    cover_image_url?: string | null;
+    tags?: Array<string>;
+    status: "draft" | "published" | "archived";
+    allow_comments?: boolean;
+    published_at: string | null;
+    scheduled_for?: string | null;
+    unpublish_at?: string | null;
+    created_at: string;
+    updated_at: string;
+    [key: string]: unknown;
+  }>;
+  [key: string]: unknown;
+}
+
+export interface GetAdminPostsArgs {
+  query?: GetAdminPostsQuery;
+}
+
+export interface GetAdminReportsQuery {
+  page?: number;
+  limit?: number;
+  type?: "all" | "post" | "comment" | "user";
+  status?: "all" | "pending" | "reviewed" | "resolved" | "dismissed";
+  severity?: "all" | "low" | "medium" | "high";
+  sort?: "newest" | "oldest" | "severity" | "status";
+}
+
+export interface GetAdminReportsData {
+  reports: Array<Record<string, unknown>>;
+  [key: string]: unknown;
+}
+
+export interface GetAdminReportsArgs {
+  query?: GetAdminReportsQuery;
+}
+
+export interface GetAdminReportsByIdParams {
+  id: string;
+}
+
+export interface GetAdminReportsByIdData {
+  report: Record<string, unknown>;
+}
+
+export interface GetAdminReportsByIdArgs {
+  params: GetAdminReportsByIdParams;
+}
+
+export type GetAdminRolesData = Record<string, unknown>;
+
+export interface GetAdminSettingsQuery {
+  category?: string;
+  search?: string;
+}
+
+export type GetAdminSettingsData = Record<string, unknown>;
+
+export interface GetAdminSettingsArgs {
+  query?: GetAdminSettingsQuery;
+}
+
+export interface GetAdminUsersByIdParams {
+  id: string;
+}
+
+export interface GetAdminUsersByIdData {
+  user: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface GetAdminUsersByIdArgs {
+  params: GetAdminUsersByIdParams;
+}
+
+export interface GetAdminUsersByIdRoleParams {
+  id: string;
+}
+
+export type GetAdminUsersByIdRoleData = Record<string, unknown>;
+
+export interface GetAdminUsersByIdRoleArgs {
+  params: GetAdminUsersByIdRoleParams;
+}
+
+export interface GetAnalyticsDashboardQuery {
+  timeframe?: number;
+}
+
+export type GetAnalyticsDashboardData = Record<string, unknown>;
+
+export interface GetAnalyticsDashboardArgs {
+  query?: GetAnalyticsDashboardQuery;
+}
+
+export interface GetAnnouncementsData {
+  announcements: Array<{
+    id: string;
+    title: string;
+    message: string;
+    type: "info" | "warning" | "success" | "error";
+    priority: "low" | "medium" | "high";
+    target_audience: "all" | "users" | "admins";
+    starts_at: string | null;
+    expires_at: string | null;
+    created_at: string;
+    [key: string]: unknown;
+  }>;
+}
+
+export interface GetCommentsQuery {
+  post_id: string;
+  limit?: number;
+  cursor?: string;
+  sort?: "newest" | "oldest" | "top";
+}
+
+export interface GetCommentsData {
+  comments: Array<{
+    id: string;
+    post_id: string;
+    parent_id: string | null;
+    content: string;
+    created_at: string;
+    updated_at?: string;
+    author: {
+      id: string;
+      username: string;
+      display_name: string | null;
+      avatar_url: string | null;
+      [key: string]: unknown;
+    };
+    reactions_count: Record<string, number>;
+    replies_count: number;
+    replies: Array<{
+      id: string;
+      post_id: string;
+      parent_id: string | null;
+      content: string;
+      created_at: string;
+      updated_at?: string;
+      author: {
+        id: string;
+        username: string;
+        display_name: string | null;
+        avatar_url: string | null;
+        [key: string]: unknown;
+      };
+      reactions_count: Record<string, number>;
+      [key: string]: unknown;
+    }>;
+    [key: string]: unknown;
+  }>;
+}
+
+export interface GetCommentsArgs {
+  query: GetCommentsQuery;
+}
+
+export interface GetCommentsByIdReactionsParams {
+  id: string;
+}
+
+export interface GetCommentsByIdReactionsData {
+  reaction_counts: Record<string, number>;
+  total_reactions: number;
+  [key: string]: unknown;
+}
+
+export interface GetCommentsByIdReactionsArgs {
+  params: GetCommentsByIdReactionsParams;
+}
+
+export interface GetFeedQuery {
+  limit?: number;
+  cursor?: string;
+}
+
+export interface GetFeedData {
+  posts: Array<{
+    id: string;
+    author_id: string;
+    title: string;
+    slug: string;
+    content_markdown?: string;
+    excerpt?: string | null;
+    cover_image_url?: string | null;
+    tags?: Array<string>;
+    status: "draft" | "published" | "archived";
+    allow_comments?: boolean;
+    published_at: string | null;
+    scheduled_for?: string | null;
+    unpublish_at?: string | null;
+    created_at: string;
+    updated_at: string;
+    [key: string]: unknown;
+  }>;
+}
+
+export interface GetFeedArgs {
+  query?: GetFeedQuery;
+}
+
+export type GetHealthData = Record<string, unknown>;
+
+export interface GetNotificationsQuery {
+  page?: number;
+  limit?: number;
+  type?: string;
+  unread?: "true" | "false";
+  grouped?: "true" | "false";
+}
+
+export interface GetNotificationsData {
+  notifications?: Array<{
+    id: string;
+    type: string;
+    title: string;
+    message: string;
+    is_read: boolean;
+    created_at: string;
+    updated_at: string;
+    data: Record<string, unknown>;
+    group_key: string | null;
+    actor_count: number;
+    [key: string]: unknown;
+  }>;
+  groups?: Array<Record<string, unknown>>;
+  unread_count: number;
+}
+
+export interface GetNotificationsArgs {
+  query?: GetNotificationsQuery;
+}
+
+export interface GetNotificationsPreferencesData {
+  preferences: {
+    email_notifications?: boolean;
+    push_notifications?: boolean;
+    comment_notifications?: boolean;
+    reaction_notifications?: boolean;
+    follow_notifications?: boolean;
+    mention_notifications?: boolean;
+    post_published_notifications?: boolean;
+    comment_emails?: boolean;
+    mention_emails?: boolean;
+    collaboration_emails?: boolean;
+    weekly_digest?: boolean;
+    marketing_emails?: boolean;
+  };
+}
+
+export interface GetNotificationsPushSubscriptionsData {
+  vapid_public_key: string | null;
+  subscriptions: Array<Record<string, unknown>>;
+  [key: string]: unknown;
+}
+
+export interface GetPostsQuery {
+  limit?: number;
+  cursor?: string;
+  author_id?: string;
+  tag?: string;
+  mine?: "true" | "false";
+  status?: "draft" | "published" | "archived";
+}
+
+export interface GetPostsData {
+  posts: Array<{
+    id: string;
+    author_id: string;
+    title: string;
+    slug: string;
+    content_markdown?: string;
+    excerpt?: string | null;
+    cover_image_url?: string | null;
+    tags?: Array<string>;
+    status: "draft" | "published" | "archived";
+    allow_comments?: boolean;
+    published_at: string | null;
+    scheduled_for?: string | null;
+    unpublish_at?: string | null;
+    created_at: string;
+    updated_at: string;
+    [key: string]: unknown;
+  }>;
+}
+
+export interface GetPostsArgs {
+  query?: GetPostsQuery;
+}
+
+export interface GetPostsByIdOrSlugParams {
+  idOrSlug: string;
+}
+
+export interface GetPostsByIdOrSlugData {
+  id: string;
+  author_id: string;
+  title: string;
+  slug: string;
+  content_markdown?: string;
+  excerpt?: string | null;
+  cover_image_url?: string | null;
+  tags?: Array<string>;
+  status: "draft" | "published" | "archived";
+  allow_comments?: boolean;
+  published_at: string | null;
+  scheduled_for?: string | null;
+  unpublish_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  [key: string]: unknown;
+}
+
+export interface GetPostsByIdOrSlugArgs {
+  params: GetPostsByIdOrSlugParams;
+}
+
+export interface GetPostsByIdOrSlugCollaboratorsParams {
+  idOrSlug: string;
+}
+
+export interface GetPostsByIdOrSlugCollaboratorsData {
+  collaborators: Array<{
+    post_id: string;
+    user_id: string;
+    role: string;
+    [key: string]: unknown;
+  }>;
+}
+
+export interface GetPostsByIdOrSlugCollaboratorsArgs {
+  params: GetPostsByIdOrSlugCollaboratorsParams;
+}
+
+export interface GetPostsByIdOrSlugRevisionsParams {
+  idOrSlug: string;
+}
+
+export interface GetPostsByIdOrSlugRevisionsQuery {
+  limit?: number;
+  cursor?: number;
+}
+
+export interface GetPostsByIdOrSlugRevisionsData {
+  revisions: Array<{
+    revision_number: number;
+    title: string;
+    created_at: string;
+    [key: string]: unknown;
+  }>;
+}
+
+export interface GetPostsByIdOrSlugRevisionsArgs {
+  params: GetPostsByIdOrSlugRevisionsParams;
+  query?: GetPostsByIdOrSlugRevisionsQuery;
+}
+
+export interface GetPostsByIdOrSlugRevisionsByRevisionParams {
+  idOrSlug: string;
+  revision: string;
+}
+
+export interface GetPostsByIdOrSlugRevisionsByRevisionData {
+  revision_number: number;
+  title: string;
+  created_at: string;
+  [key: string]: unknown;
+}
+
+export interface GetPostsByIdOrSlugRevisionsByRevisionArgs {
+  params: GetPostsByIdOrSlugRevisionsByRevisionParams;
+}
+
+export interface GetPostsByIdOrSlugRevisionsDiffParams {
+  idOrSlug: string;
+}
+
+export interface GetPostsByIdOrSlugRevisionsDiffQuery {
+  from: number;
+  to: number;
+  granularity?: "line" | "word";
+}
+
+export type GetPostsByIdOrSlugRevisionsDiffData = Record<string, unknown>;
+
+export interface GetPostsByIdOrSlugRevisionsDiffArgs {
+  params: GetPostsByIdOrSlugRevisionsDiffParams;
+  query: GetPostsByIdOrSlugRevisionsDiffQuery;
+}
+
+export interface GetSearchQuery {
+  q: string;
+  type?: "all" | "posts" | "comments" | "users" | "tags";
+  tag?: string;
+  author_id?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export type GetSearchData = Record<string, unknown>;
+
+export interface GetSearchArgs {
+  query: GetSearchQuery;
+}
+
+export interface GetTagsQuery {
+  page?: number;
+  limit?: number;
+  q?: string;
+}
+
+export interface GetTagsData {
+  tags: Array<{
+    id: string;
+    name: string;
+    slug: string;
+    description?: string | null;
+    [key: string]: unknown;
+  }>;
+}
+
+export interface GetTagsArgs {
+  query?: GetTagsQuery;
+}
+
+export interface GetTagsBySlugParams {
+  slug: string;
+}
+
+export interface GetTagsBySlugData {
+  redirected_from: string | null;
+  synonyms: Array<{
+    id: string;
+    name: string;
+    slug: string;
+    description?: string | null;
+    [key: string]: unknown;
+  }> | null;
+  post_count: number;
+  [key: string]: unknown;
+}
+
+export interface GetTagsBySlugArgs {
+  params: GetTagsBySlugParams;
+}
+
+export interface GetTagsBySlugPostsParams {
+  slug: string;
+}
+
+export interface GetTagsBySlugPostsQuery {
+  limit?: number;
+  cursor?: string;
+}
+
+export interface GetTagsBySlugPostsData {
+  tag: {
+    id: string;
+    name: string;
+    slug: string;
+    description?: string | null;
+    [key: string]: unknown;
+  };
+  posts: Array<{
+    id: string;
+    author_id: string;
+    title: string;
+    slug: string;
+    content_markdown?: string;
+    excerpt?: string | null;
+    cover_image_url?: string | null;
+    tags?: Array<string>;
+    status: "draft" | "published" | "archived";
+    allow_comments?: boolean;
+    published_at: string | null;
+    scheduled_for?: string | null;
+    unpublish_at?: string | null;
+    created_at: string;
+    updated_at: string;
+    [key: string]: unknown;
+  }>;
+}
+
+export interface GetTagsBySlugPostsArgs {
+  params: GetTagsBySlugPostsParams;
+  query?: GetTagsBySlugPostsQuery;
+}
+
+export interface GetUploadQuery {
+  context?: "post" | "avatar" | "general";
+  limit?: number;
+}
+
+export interface GetUploadData {
+  uploads: Array<{
+    id: string;
+    url: string;
+    filename: string;
+    [key: string]: unknown;
+  }>;
+  total: number;
+}
+
+export interface GetUploadArgs {
+  query?: GetUploadQuery;
+}
+
+export interface GetUsersByIdFollowParams {
+  id: string;
+}
+
+export interface GetUsersByIdFollowData {
+  is_following: boolean;
+  follows_you: boolean;
+  is_mutual: boolean;
+}
+
+export interface GetUsersByIdFollowArgs {
+  params: GetUsersByIdFollowParams;
+}
+
+export interface GetUsersByIdFollowersParams {
+  id: string;
+}
+
+export interface GetUsersByIdFollowersQuery {
+  limit?: number;
+  cursor?: string;
+}
+
+export interface GetUsersByIdFollowersData {
+  followers: Array<{
+    id: string;
+    username: string;
+    display_name: string | null;
+    avatar_url: string | null;
+    [key: string]: unknown;
+  }>;
+}
+
+export interface GetUsersByIdFollowersArgs {
+  params: GetUsersByIdFollowersParams;
+  query?: GetUsersByIdFollowersQuery;
+}
+
+export interface GetUsersByIdFollowingParams {
+  id: string;
+}
+
+export interface GetUsersByIdFollowingQuery {
+  limit?: number;
+  cursor?: string;
+}
+
+export interface GetUsersByIdFollowingData {
+  following: Array<{
+    id: string;
+    username: string;
+    display_name: string | null;
+    avatar_url: string | null;
+    [key: string]: unknown;
+  }>;
+}
+
+export interface GetUsersByIdFollowingArgs {
+  params: GetUsersByIdFollowingParams;
+  query?: GetUsersByIdFollowingQuery;
+}
+
+export interface PostAdminCommentsByIdParams {
+  id: string;
+}
+
+export interface PostAdminCommentsByIdBody {
+  action_type:
+    | "approve_comment"
+    | "delete_comment"
+    | "flag_comment"
+    | "mark_spam"
+    | "unmark_spam"
+    | "edit_comment"
+    | "restore_comment";
+  reason?: string;
+  new_content?: string;
+}
+
+export interface PostAdminCommentsByIdData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface PostAdminCommentsByIdArgs {
+  params: PostAdminCommentsByIdParams;
+  body: PostAdminCommentsByIdBody;
+}
+
+export interface PostAdminMaintenanceBody {
+  title: string;
+  message: string;
+  type?: "info" | "warning" | "success" | "error";
+  is_active?: boolean;
+  priority?: "low" | "medium" | "high";
+  starts_at?: string;
+  expires_at?: string;
+  target_audience?: "all" | "users" | "admins";
+}
+
+export interface PostAdminMaintenanceData {
+  message: string;
+  announcement: {
+    id: string;
+    title: string;
+    message: string;
+    type: "info" | "warning" | "success" | "error";
+    priority: "low" | "medium" | "high";
+    target_audience: "all" | "users" | "admins";
+    starts_at: string | null;
+    expires_at: string | null;
+    created_at: string;
+    [key: string]: unknown;
+  };
+  notifications: {
+    status: "pending" | "sent" | "expired";
+    in_app: number;
+    push: number;
+    created_at: string;
+    completed_at: string | null;
+  } | null;
+  [key: string]: unknown;
+}
+
+export interface PostAdminMaintenanceArgs {
+  body: PostAdminMaintenanceBody;
+}
+
+export interface PostAdminReportsByIdParams {
+  id: string;
+}
+
+export interface PostAdminReportsByIdBody {
+  action_type:
+    | "approve_content"
+    | "delete_content"
+    | "flag_content"
+    | "ban_user"
+    | "warn_user"
+    | "dismiss_report";
+  reason?: string;
+  duration_days?: number;
+}
+
+export interface PostAdminReportsByIdData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface PostAdminReportsByIdArgs {
+  params: PostAdminReportsByIdParams;
+  body: PostAdminReportsByIdBody;
+}
+
+export interface PostAdminSettingsBody {
+  action: "reset_to_defaults" | "export_settings" | "validate_settings";
+}
+
+export interface PostAdminSettingsData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface PostAdminSettingsArgs {
+  body: PostAdminSettingsBody;
+}
+
+export interface PostAdminTagsMergeBody {
+  source_tag_ids: Array<string>;
+  target_tag_id: string;
+  reason?: string;
+}
+
+export interface PostAdminTagsMergeData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface PostAdminTagsMergeArgs {
+  body: PostAdminTagsMergeBody;
+}
+
+export interface PostAdminUsersByIdBanParams {
+  id: string;
+}
+
+export interface PostAdminUsersByIdBanBody {
+  reason: string;
+  duration_days?: number;
+}
+
+export interface PostAdminUsersByIdBanData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface PostAdminUsersByIdBanArgs {
+  params: PostAdminUsersByIdBanParams;
+  body: PostAdminUsersByIdBanBody;
+}
+
+export interface PostAnalyticsEventsBody {
+  event_type:
+    | "page_view"
+    | "post_view"
+    | "post_read"
+    | "search"
+    | "click"
+    | "scroll"
+    | "time_spent";
+  post_id?: string;
+  data?: Record<string, unknown>;
+  timestamp?: string;
+}
+
+export interface PostAnalyticsEventsData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface PostAnalyticsEventsArgs {
+  body: PostAnalyticsEventsBody;
+}
+
+export interface PostAnnouncementsByIdDismissParams {
+  id: string;
+}
+
+export interface PostAnnouncementsByIdDismissData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface PostAnnouncementsByIdDismissArgs {
+  params: PostAnnouncementsByIdDismissParams;
+}
+
+export interface PostCommentsBody {
+  post_id: string;
+  content: string;
+  parent_id?: string;
+}
+
+export interface PostCommentsData {
+  id: string;
+  post_id: string;
+  parent_id: string | null;
+  content: string;
+  created_at: string;
+  updated_at?: string;
+  [key: string]: unknown;
+}
+
+export interface PostCommentsArgs {
+  body: PostCommentsBody;
+}
+
+export interface PostCommentsByIdReactionsParams {
+  id: string;
+}
+
+export interface PostCommentsByIdReactionsBody {
+  reaction_type: "like" | "love" | "insightful" | "unicorn";
+}
+
+export interface PostCommentsByIdReactionsData {
+  message: string;
+  action: "added" | "updated" | "removed";
+  [key: string]: unknown;
+}
+
+export interface PostCommentsByIdReactionsArgs {
+  params: PostCommentsByIdReactionsParams;
+  body: PostCommentsByIdReactionsBody;
+}
+
+export interface PostCronAnnouncementNotificationsBody {
+  limit?: number;
+}
+
+export interface PostCronAnnouncementNotificationsData {
+  processed_at: string;
+  [key: string]: unknown;
+}
+
+export interface PostCronAnnouncementNotificationsArgs {
+  body: PostCronAnnouncementNotificationsBody;
+}
+
+export interface PostCronNotificationEmailsData {
+  processed_at: string;
+  [key: string]: unknown;
+}
+
+export interface PostCronScheduledPostsData {
+  processed_at: string;
+  [key: string]: unknown;
+}
+
+export interface PostCronWeeklyDigestBody {
+  reference_date?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface PostCronWeeklyDigestData {
+  processed_at: string;
+  [key: string]: unknown;
+}
+
+export interface PostCronWeeklyDigestArgs {
+  body: PostCronWeeklyDigestBody;
+}
+
+export interface PostHealthBody {
+  check_type: "detailed";
+}
+
+export interface PostHealthData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface PostHealthArgs {
+  body: PostHealthBody;
+}
+
+export interface PostNotificationsBody {
+  notification_ids?: Array<string>;
+  group_keys?: Array<string>;
+  action?: "mark_read" | "mark_unread";
+}
+
+export interface PostNotificationsData {
+  message: string;
+  updated_notifications: Array<{
+    id: string;
+    type: string;
+    title: string;
+    message: string;
+    is_read: boolean;
+    created_at: string;
+    updated_at: string;
+    data: Record<string, unknown>;
+    group_key: string | null;
+    actor_count: number;
+    [key: string]: unknown;
+  }>;
+  [key: string]: unknown;
+}
+
+export interface PostNotificationsArgs {
+  body: PostNotificationsBody;
+}
+
+export interface PostNotificationsPushSubscriptionsBody {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export interface PostNotificationsPushSubscriptionsData {
+  id: string;
+  endpoint: string;
+  created_at: string;
+  [key: string]: unknown;
+}
+
+export interface PostNotificationsPushSubscriptionsArgs {
+  body: PostNotificationsPushSubscriptionsBody;
+}
+
+export type PostNotificationsPushTestData = Record<string, unknown>;
+
+export interface PostNotificationsUnsubscribeData {
+  message: string;
+  preference: string;
+  [key: string]: unknown;
+}
+
+export interface PostPostsBody {
+  title: string;
+  content_markdown: string;
+  excerpt?: string;
+  cover_image_url?: string;
+  tags?: Array<string>;
+  allow_comments?: boolean;
+  status?: "draft" | "published";
+  scheduled_for?: string;
+  unpublish_at?: string;
+}
+
+export interface PostPostsData {
+  id: string;
+  author_id: string;
+  title: string;
+  slug: string;
+  content_markdown?: string;
+  excerpt?: string | null;
+  cover_image_url?: string | null;
+  tags?: Array<string>;
+  status: "draft" | "published" | "archived";
+  allow_comments?: boolean;
+  published_at: string | null;
+  scheduled_for?: string | null;
+  unpublish_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  [key: string]: unknown;
+}
+
+export interface PostPostsArgs {
+  body: PostPostsBody;
+}
+
+export interface PostPostsByIdOrSlugParams {
+  idOrSlug: string;
+}
+
+export interface PostPostsByIdOrSlugBody {
+  action: "publish" | "unpublish" | "archive";
+}
+
+export interface PostPostsByIdOrSlugData {
+  id: string;
+  author_id: string;
+  title: string;
+  slug: string;
+  content_markdown?: string;
+  excerpt?: string | null;
+  cover_image_url?: string | null;
+  tags?: Array<string>;
+  status: "draft" | "published" | "archived";
+  allow_comments?: boolean;
+  published_at: string | null;
+  scheduled_for?: string | null;
+  unpublish_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  [key: string]: unknown;
+}
+
+export interface PostPostsByIdOrSlugArgs {
+  params: PostPostsByIdOrSlugParams;
+  body: PostPostsByIdOrSlugBody;
+}
+
+export interface PostPostsByIdOrSlugCollaboratorsParams {
+  idOrSlug: string;
+}
+
+export interface PostPostsByIdOrSlugCollaboratorsBody {
+  user_id: string;
+  role: "editor" | "author";
+}
+
+export interface PostPostsByIdOrSlugCollaboratorsData {
+  post_id: string;
+  user_id: string;
+  role: string;
+  [key: string]: unknown;
+}
+
+export interface PostPostsByIdOrSlugCollaboratorsArgs {
+  params: PostPostsByIdOrSlugCollaboratorsParams;
+  body: PostPostsByIdOrSlugCollaboratorsBody;
+}
+
+export interface PostPostsByIdOrSlugCollaboratorsByUserIdParams {
+  idOrSlug: string;
+  userId: string;
+}
+
+export interface PostPostsByIdOrSlugCollaboratorsByUserIdBody {
+  action: "accept" | "decline";
+}
+
+export interface PostPostsByIdOrSlugCollaboratorsByUserIdData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface PostPostsByIdOrSlugCollaboratorsByUserIdArgs {
+  params: PostPostsByIdOrSlugCollaboratorsByUserIdParams;
+  body: PostPostsByIdOrSlugCollaboratorsByUserIdBody;
+}
+
+export interface PostPostsByIdOrSlugRevisionsByRevisionRestoreParams {
+  idOrSlug: string;
+  revision: string;
+}
+
+export interface PostPostsByIdOrSlugRevisionsByRevisionRestoreData {
+  message: string;
+  post: {
+    id: string;
+    author_id: string;
+    title: string;
+    slug: string;
+    content_markdown?: string;
+    excerpt?: string | null;
+    cover_image_url?: string | null;
+    tags?: Array<string>;
+    status: "draft" | "published" | "archived";
+    allow_comments?: boolean;
+    published_at: string | null;
+    scheduled_for?: string | null;
+    unpublish_at?: string | null;
+    created_at: string;
+    updated_at: string;
+    [key: string]: unknown;
+  };
+  revision: {
+    revision_number: number;
+    title: string;
+    created_at: string;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export interface PostPostsByIdOrSlugRevisionsByRevisionRestoreArgs {
+  params: PostPostsByIdOrSlugRevisionsByRevisionRestoreParams;
+}
+
+export interface PostTagsBody {
+  name: string;
+  description?: string;
+}
+
+export interface PostTagsData {
+  id: string;
+  name: string;
+  slug: string;
+  description?: string | null;
+  [key: string]: unknown;
+}
+
+export interface PostTagsArgs {
+  body: PostTagsBody;
+}
+
+export interface PostTagsBySlugFollowParams {
+  slug: string;
+}
+
+export interface PostTagsBySlugFollowData {
+  message: string;
+  tag: {
+    id: string;
+    name: string;
+    slug: string;
+    description?: string | null;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export interface PostTagsBySlugFollowArgs {
+  params: PostTagsBySlugFollowParams;
+}
+
+export interface PostUploadBody {
+  file: Blob;
+  context?: "post" | "avatar" | "general";
+}
+
+export interface PostUploadData {
+  id: string;
+  url: string;
+  filename: string;
+  [key: string]: unknown;
+}
+
+export interface PostUploadArgs {
+  body: PostUploadBody;
+}
+
+export interface PostUsersByIdFollowParams {
+  id: string;
+}
+
+export interface PostUsersByIdFollowData {
+  is_following: boolean;
+  follows_you: boolean;
+  is_mutual: boolean;
+}
+
+export interface PostUsersByIdFollowArgs {
+  params: PostUsersByIdFollowParams;
+}
+
+export interface PutAdminAnnouncementsByIdParams {
+  id: string;
+}
+
+export interface PutAdminAnnouncementsByIdBody {
+  title?: string;
+  message?: string;
+  type?: "info" | "warning" | "success" | "error";
+  is_active?: boolean;
+  priority?: "low" | "medium" | "high";
+  starts_at?: string | null;
+  expires_at?: string | null;
+  target_audience?: "all" | "users" | "admins";
+}
+
+export interface PutAdminAnnouncementsByIdData {
+  message: string;
+  announcement: {
+    id: string;
+    title: string;
+    message: string;
+    type: "info" | "warning" | "success" | "error";
+    priority: "low" | "medium" | "high";
+    target_audience: "all" | "users" | "admins";
+    starts_at: string | null;
+    expires_at: string | null;
+    created_at: string;
+    [key: string]: unknown;
+  };
+  notifications: {
+    status: "pending" | "sent" | "expired";
+    in_app: number;
+    push: number;
+    created_at: string;
+    completed_at: string | null;
+  } | null;
+  [key: string]: unknown;
+}
+
+export interface PutAdminAnnouncementsByIdArgs {
+  params: PutAdminAnnouncementsByIdParams;
+  body: PutAdminAnnouncementsByIdBody;
+}
+
+export interface PutAdminCommentsBody {
+  comment_ids: Array<string>;
+  action: "approve" | "flag" | "delete" | "mark_spam" | "unmark_spam";
+  reason?: string;
+}
+
+export interface PutAdminCommentsData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface PutAdminCommentsArgs {
+  body: PutAdminCommentsBody;
+}
+
+export interface PutAdminCommentsByIdParams {
+  id: string;
+}
+
+export interface PutAdminCommentsByIdBody {
+  status?: "published" | "flagged" | "deleted" | "pending";
+  is_flagged_as_spam?: boolean;
+  admin_notes?: string;
+}
+
+export interface PutAdminCommentsByIdData {
+  message: string;
+  comment: {
+    id: string;
+    post_id: string;
+    parent_id: string | null;
+    content: string;
+    created_at: string;
+    updated_at?: string;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
+export interface PutAdminCommentsByIdArgs {
+  params: PutAdminCommentsByIdParams;
+  body: PutAdminCommentsByIdBody;
+}
+
+export interface PutAdminMaintenanceBody {
+  action: "maintenance";
+  data: {
+    is_enabled: boolean;
+    message?: string;
+    estimated_duration?: string;
+    start_time?: string;
+    end_time?: string;
+    allowed_ips?: Array<unknown>;
+  };
+}
+
+export interface PutAdminMaintenanceData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface PutAdminMaintenanceArgs {
+  body: PutAdminMaintenanceBody;
+}
+
+export interface PutAdminReportsBody {
+  report_ids: Array<string>;
+  status: "reviewed" | "resolved" | "dismissed";
+  admin_notes?: string;
+  action_taken?: string;
+}
+
+export interface PutAdminReportsData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface PutAdminReportsArgs {
+  body: PutAdminReportsBody;
+}
+
+export interface PutAdminReportsByIdParams {
+  id: string;
+}
+
+export interface PutAdminReportsByIdBody {
+  status: "reviewed" | "resolved" | "dismissed";
+  admin_notes?: string;
+  action_taken?: string;
+}
+
+export interface PutAdminReportsByIdData {
+  message: string;
+  report: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface PutAdminReportsByIdArgs {
+  params: PutAdminReportsByIdParams;
+  body: PutAdminReportsByIdBody;
+}
+
+export type PutAdminSettingsBody =
+  | {
+      setting_key:
+        | "site_name"
+        | "max_post_length"
+        | "max_comment_length"
+        | "allow_user_registration"
+        | "require_email_verification"
+        | "rate_limit_posts"
+        | "rate_limit_comments"
+        | "rate_limit_reactions"
+        | "rate_limit_uploads"
+        | "rate_limit_trusted_multiplier"
+        | "enable_spam_detection"
+        | "auto_flag_threshold"
+        | "smtp_enabled"
+        | "file_upload_enabled"
+        | "max_file_size_mb"
+        | "maintenance_mode_enabled"
+        | "maintenance_message"
+        | "maintenance_estimated_duration"
+        | "maintenance_start_time"
+        | "maintenance_end_time"
+        | "maintenance_allowed_ips";
+      setting_value?: unknown;
+      description?: string;
+    }
+  | {
+      settings: Array<{
+        key:
+          | "site_name"
+          | "max_post_length"
+          | "max_comment_length"
+          | "allow_user_registration"
+          | "require_email_verification"
+          | "rate_limit_posts"
+          | "rate_limit_comments"
+          | "rate_limit_reactions"
+          | "rate_limit_uploads"
+          | "rate_limit_trusted_multiplier"
+          | "enable_spam_detection"
+          | "auto_flag_threshold"
+          | "smtp_enabled"
+          | "file_upload_enabled"
+          | "max_file_size_mb"
+          | "maintenance_mode_enabled"
+          | "maintenance_message"
+          | "maintenance_estimated_duration"
+          | "maintenance_start_time"
+          | "maintenance_end_time"
+          | "maintenance_allowed_ips";
+        value?: unknown;
+        description?: string;
+      }>;
+    };
+
+export interface PutAdminSettingsData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface PutAdminSettingsArgs {
+  body: PutAdminSettingsBody;
+}
+
+export interface PutAdminUsersByIdRoleParams {
+  id: string;
+}
+
+export interface PutAdminUsersByIdRoleBody {
+  role: "admin" | "moderator" | "support" | "author" | "reader";
+  reason?: string;
+}
+
+export interface PutAdminUsersByIdRoleData {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface PutAdminUsersByIdRoleArgs {
+  params: PutAdminUsersByIdRoleParams;
+  body: PutAdminUsersByIdRoleBody;
+}
+
+export interface PutCommentsByIdParams {
+  id: string;
+}
+
+export interface PutCommentsByIdBody {
+  content: string;
+}
+
+export interface PutCommentsByIdData {
+  id: string;
+  post_id: string;
+  parent_id: string | null;
+  content: string;
+  created_at: string;
+  updated_at?: string;
+  [key: string]: unknown;
+}
+
+export interface PutCommentsByIdArgs {
+  params: PutCommentsByIdParams;
+  body: PutCommentsByIdBody;
+}
+
+export interface PutNotificationsPreferencesBody {
+  email_notifications?: boolean;
+  push_notifications?: boolean;
+  comment_notifications?: boolean;
+  reaction_notifications?: boolean;
+  follow_notifications?: boolean;
+  mention_notifications?: boolean;
+  post_published_notifications?: boolean;
+  comment_emails?: boolean;
+  mention_emails?: boolean;
+  collaboration_emails?: boolean;
+  weekly_digest?: boolean;
+  marketing_emails?: boolean;
+}
+
+export interface PutNotificationsPreferencesData {
+  message: string;
+  preferences: {
+    email_notifications?: boolean;
+    push_notifications?: boolean;
+    comment_notifications?: boolean;
+    reaction_notifications?: boolean;
+    follow_notifications?: boolean;
+    mention_notifications?: boolean;
+    post_published_notifications?: boolean;
+    comment_emails?: boolean;
+    mention_emails?: boolean;
+    collaboration_emails?: boolean;
+    weekly_digest?: boolean;
+    marketing_emails?: boolean;
+  };
+  [key: string]: unknown;
+}
+
+export interface PutNotificationsPreferencesArgs {
+  body: PutNotificationsPreferencesBody;
+}
+
+export interface PutPostsByIdOrSlugParams {
+  idOrSlug: string;
+}
+
+export interface PutPostsByIdOrSlugBody {
+  title?: string;
+  content_markdown?: string;
+  excerpt?: string;
+  cover_image_url?: string | null;
+  tags?: Array<string>;
+  allow_comments?: boolean;
+  scheduled_for?: string | null;
+  unpublish_at?: string | null;
+  change_summary?: string;
+}
+
+export interface PutPostsByIdOrSlugData {
+  id: string;
+  author_id: string;
+  title: string;
+  slug: string;
+  content_markdown?: string;
+  excerpt?: string | null;
+  cover_image_url?: string | null;
+  tags?: Array<string>;
+  status: "draft" | "published" | "archived";
+  allow_comments?: boolean;
+  published_at: string | null;
+  scheduled_for?: string | null;
+  unpublish_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  [key: string]: unknown;
+}
+
+export interface PutPostsByIdOrSlugArgs {
+  params: PutPostsByIdOrSlugParams;
+  body: PutPostsByIdOrSlugBody;
+}
+
+export interface PutPostsByIdOrSlugCollaboratorsByUserIdParams {
+  idOrSlug: string;
+  userId: string;
+}
+
+export interface PutPostsByIdOrSlugCollaboratorsByUserIdBody {
+  role: "editor" | "author";
+}
+
+export interface PutPostsByIdOrSlugCollaboratorsByUserIdData {
+  post_id: string;
+  user_id: string;
+  role: string;
+  [key: string]: unknown;
+}
+
+export interface PutPostsByIdOrSlugCollaboratorsByUserIdArgs {
+  params: PutPostsByIdOrSlugCollaboratorsByUserIdParams;
+  body: PutPostsByIdOrSlugCollaboratorsByUserIdBody;
+}
+
+export interface PutTagsBySlugParams {
+  slug: string;
+}
+
+export interface PutTagsBySlugBody {
+  description: string | null;
+}
+
+export interface PutTagsBySlugData {
+  id: string;
+  name: string;
+  slug: string;
+  description?: string | null;
+  [key: string]: unknown;
+}
+
+export interface PutTagsBySlugArgs {
+  params: PutTagsBySlugParams;
+  body: PutTagsBySlugBody;
+}
+
+export class BlogglyClient extends BlogglyClientBase {
+  /**
+   * DELETE /api/admin/announcements/{id}
+   *
+   * Delete an announcement
+   */
+  deleteAdminAnnouncementsById(
+    args: DeleteAdminAnnouncementsByIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<DeleteAdminAnnouncementsByIdData, never>> {
+    return this.request(
+      { method: "DELETE", path: "/api/admin/announcements/{id}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * DELETE /api/admin/comments/{id}
+   *
+   * Permanently delete a comment
+   */
+  deleteAdminCommentsById(
+    args: DeleteAdminCommentsByIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<DeleteAdminCommentsByIdData, never>> {
+    return this.request(
+      { method: "DELETE", path: "/api/admin/comments/{id}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * DELETE /api/admin/users/{id}
+   *
+   * Permanently delete a user
+   */
+  deleteAdminUsersById(
+    args: DeleteAdminUsersByIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<DeleteAdminUsersByIdData, never>> {
+    return this.request(
+      { method: "DELETE", path: "/api/admin/users/{id}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * DELETE /api/admin/users/{id}/ban
+   *
+   * Unban a user
+   */
+  deleteAdminUsersByIdBan(
+    args: DeleteAdminUsersByIdBanArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<DeleteAdminUsersByIdBanData, never>> {
+    return this.request(
+      { method: "DELETE", path: "/api/admin/users/{id}/ban" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * DELETE /api/admin/users/{id}/role
+   *
+   * Revoke a role
+   */
+  deleteAdminUsersByIdRole(
+    args: DeleteAdminUsersByIdRoleArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<DeleteAdminUsersByIdRoleData, never>> {
+    return this.request(
+      { method: "DELETE", path: "/api/admin/users/{id}/role" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * DELETE /api/comments/{id}
+   *
+   * Delete a comment
+   */
+  deleteCommentsById(
+    args: DeleteCommentsByIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<DeleteCommentsByIdData, never>> {
+    return this.request(
+      { method: "DELETE", path: "/api/comments/{id}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * DELETE /api/notifications
+   *
+   * Delete notifications by id, all read ones, or all of them
+   */
+  deleteNotifications(
+    args?: DeleteNotificationsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<DeleteNotificationsData, never>> {
+    return this.request(
+      { method: "DELETE", path: "/api/notifications" },
+      args ?? {},
+      options
+    );
+  }
+
+  /**
+   * DELETE /api/notifications/push/subscriptions
+   *
+   * Remove a push subscription
+   */
+  deleteNotificationsPushSubscriptions(
+    args: DeleteNotificationsPushSubscriptionsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<DeleteNotificationsPushSubscriptionsData, never>> {
+    return this.request(
+      { method: "DELETE", path: "/api/notifications/push/subscriptions" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * DELETE /api/posts/{idOrSlug}
+   *
+   * Delete a post
+   */
+  deletePostsByIdOrSlug(
+    args: DeletePostsByIdOrSlugArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<DeletePostsByIdOrSlugData, never>> {
+    return this.request(
+      { method: "DELETE", path: "/api/posts/{idOrSlug}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * DELETE /api/posts/{idOrSlug}/collaborators/{userId}
+   *
+   * Remove a collaborator or leave a post
+   */
+  deletePostsByIdOrSlugCollaboratorsByUserId(
+    args: DeletePostsByIdOrSlugCollaboratorsByUserIdArgs,
+    options?: RequestOptions
+  ): Promise<
+    ApiResponse<DeletePostsByIdOrSlugCollaboratorsByUserIdData, never>
+  > {
+    return this.request(
+      {
+        method: "DELETE",
+        path: "/api/posts/{idOrSlug}/collaborators/{userId}",
+      },
+      args,
+      options
+    );
+  }
+
+  /**
+   * DELETE /api/tags/{slug}/follow
+   *
+   * Unfollow a tag
+   */
+  deleteTagsBySlugFollow(
+    args: DeleteTagsBySlugFollowArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<DeleteTagsBySlugFollowData, never>> {
+    return this.request(
+      { method: "DELETE", path: "/api/tags/{slug}/follow" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * DELETE /api/upload
+   *
+   * Delete an upload
+   */
+  deleteUpload(
+    args: DeleteUploadArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<DeleteUploadData, never>> {
+    return this.request(
+      { method: "DELETE", path: "/api/upload" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * DELETE /api/users/{id}/follow
+   *
+   * Unfollow a user
+   */
+  deleteUsersByIdFollow(
+    args: DeleteUsersByIdFollowArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<DeleteUsersByIdFollowData, never>> {
+    return this.request(
+      { method: "DELETE", path: "/api/users/{id}/follow" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * GET /api/admin/analytics
+   *
+   * Platform-wide analytics
+   */
+  getAdminAnalytics(
+    args?: GetAdminAnalyticsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetAdminAnalyticsData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/admin/analytics" },
+      args ?? {},
+      options
+    );
+  }
+
+  /**
+   * GET /api/admin/comments
+   *
+   * Search and filter all comments
+   */
+  getAdminComments(
+    args?: GetAdminCommentsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetAdminCommentsData, PagePagination>> {
+    return this.request(
+      { method: "GET", path: "/api/admin/comments" },
+      args ?? {},
+      options
+    );
+  }
+
+  /** Every page of getAdminComments, fetched lazily */
+  getAdminCommentsPages(
+    args?: GetAdminCommentsArgs,
+    options?: RequestOptions
+  ): AsyncGenerator<ApiResponse<GetAdminCommentsData, PagePagination>> {
+    const base: GetAdminCommentsArgs = args ?? {};
+    return paginateByPage((page) =>
+      this.getAdminComments(
+        { ...base, query: { ...base.query, ...page } as GetAdminCommentsQuery },
+        options
+      )
+    );
+  }
+
+  /**
+   * GET /api/admin/comments/{id}
+   *
+   * A comment with reports and moderation history
+   */
+  getAdminCommentsById(
+    args: GetAdminCommentsByIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetAdminCommentsByIdData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/admin/comments/{id}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * GET /api/admin/maintenance
+   *
+   * Maintenance status, announcements and system status
+   */
+  getAdminMaintenance(
+    args?: GetAdminMaintenanceArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetAdminMaintenanceData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/admin/maintenance" },
+      args ?? {},
+      options
+    );
+  }
+
+  /**
+   * GET /api/admin/posts
+   *
+   * Search and filter all posts
+   */
+  getAdminPosts(
+    args?: GetAdminPostsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetAdminPostsData, PagePagination>> {
+    return this.request(
+      { method: "GET", path: "/api/admin/posts" },
+      args ?? {},
+      options
+    );
+  }
+
+  /** Every page of getAdminPosts, fetched lazily */
+  getAdminPostsPages(
+    args?: GetAdminPostsArgs,
+    options?: RequestOptions
+  ): AsyncGenerator<ApiResponse<GetAdminPostsData, PagePagination>> {
+    const base: GetAdminPostsArgs = args ?? {};
+    return paginateByPage((page) =>
+      this.getAdminPosts(
+        { ...base, query: { ...base.query, ...page } as GetAdminPostsQuery },
+        options
+      )
+    );
+  }
+
+  /**
+   * GET /api/admin/reports
+   *
+   * List content reports
+   */
+  getAdminReports(
+    args?: GetAdminReportsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetAdminReportsData, PagePagination>> {
+    return this.request(
+      { method: "GET", path: "/api/admin/reports" },
+      args ?? {},
+      options
+    );
+  }
+
+  /** Every page of getAdminReports, fetched lazily */
+  getAdminReportsPages(
+    args?: GetAdminReportsArgs,
+    options?: RequestOptions
+  ): AsyncGenerator<ApiResponse<GetAdminReportsData, PagePagination>> {
+    const base: GetAdminReportsArgs = args ?? {};
+    return paginateByPage((page) =>
+      this.getAdminReports(
+        { ...base, query: { ...base.query, ...page } as GetAdminReportsQuery },
+        options
+      )
+    );
+  }
+
+  /**
+   * GET /api/admin/reports/{id}
+   *
+   * A report with the reported content and related reports
+   */
+  getAdminReportsById(
+    args: GetAdminReportsByIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetAdminReportsByIdData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/admin/reports/{id}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * GET /api/admin/roles
+   *
+   * Roles, their permissions and staff members
+   */
+  getAdminRoles(
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetAdminRolesData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/admin/roles" },
+      {},
+      options
+    );
+  }
+
+  /**
+   * GET /api/admin/settings
+   *
+   * Platform settings grouped by category
+   */
+  getAdminSettings(
+    args?: GetAdminSettingsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetAdminSettingsData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/admin/settings" },
+      args ?? {},
+      options
+    );
+  }
+
+  /**
+   * GET /api/admin/users/{id}
+   *
+   * A user's profile and activity statistics
+   */
+  getAdminUsersById(
+    args: GetAdminUsersByIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetAdminUsersByIdData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/admin/users/{id}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * GET /api/admin/users/{id}/role
+   *
+   * A user's role and permissions
+   */
+  getAdminUsersByIdRole(
+    args: GetAdminUsersByIdRoleArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetAdminUsersByIdRoleData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/admin/users/{id}/role" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * GET /api/analytics/dashboard
+   *
+   * The caller's author and reading statistics
+   */
+  getAnalyticsDashboard(
+    args?: GetAnalyticsDashboardArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetAnalyticsDashboardData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/analytics/dashboard" },
+      args ?? {},
+      options
+    );
+  }
+
+  /**
+   * GET /api/announcements
+   *
+   * Announcements showing now for the caller
+   *
+   * Active announcements between starts_at and expires_at for the caller's audience (all, plus users or admins when signed in), highest priority first. Dismissed ones are left out.
+   */
+  getAnnouncements(
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetAnnouncementsData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/announcements" },
+      {},
+      options
+    );
+  }
+
+  /**
+   * GET /api/comments
+   *
+   * List top-level comments on a post with their replies
+   */
+  getComments(
+    args: GetCommentsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetCommentsData, CursorPagination>> {
+    return this.request(
+      { method: "GET", path: "/api/comments" },
+      args,
+      options
+    );
+  }
+
+  /** Every page of getComments, fetched lazily */
+  getCommentsPages(
+    args: GetCommentsArgs,
+    options?: RequestOptions
+  ): AsyncGenerator<ApiResponse<GetCommentsData, CursorPagination>> {
+    const base: GetCommentsArgs = args;
+    return paginateByCursor((page) =>
+      this.getComments(
+        { ...base, query: { ...base.query, ...page } as GetCommentsQuery },
+        options
+      )
+    );
+  }
+
+  /**
+   * GET /api/comments/{id}/reactions
+   *
+   * Reaction counts and reacting users for a comment
+   */
+  getCommentsByIdReactions(
+    args: GetCommentsByIdReactionsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetCommentsByIdReactionsData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/comments/{id}/reactions" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * GET /api/docs
+   *
+   * Rendered API reference
+   */
+  getDocs(options?: RequestOptions): Promise<Response> {
+    return this.requestRaw(
+      { method: "GET", path: "/api/docs", accept: "text/html" },
+      {},
+      options
+    );
+  }
+
+  /**
+   * GET /api/feed
+   *
+   * Posts from followed authors and tags
+   */
+  getFeed(
+    args?: GetFeedArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetFeedData, CursorPagination>> {
+    return this.request(
+      { method: "GET", path: "/api/feed" },
+      args ?? {},
+      options
+    );
+  }
+
+  /** Every page of getFeed, fetched lazily */
+  getFeedPages(
+    args?: GetFeedArgs,
+    options?: RequestOptions
+  ): AsyncGenerator<ApiResponse<GetFeedData, CursorPagination>> {
+    const base: GetFeedArgs = args ?? {};
+    return paginateByCursor((page) =>
+      this.getFeed(
+        { ...base, query: { ...base.query, ...page } as GetFeedQuery },
+        options
+      )
+    );
+  }
+
+  /**
+   * GET /api/health
+   *
+   * Service health
+   */
+  getHealth(
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetHealthData, never>> {
+    return this.request({ method: "GET", path: "/api/health" }, {}, options);
+  }
+
+  /**
+   * GET /api/notifications
+   *
+   * List notifications, optionally grouped by target
+   */
+  getNotifications(
+    args?: GetNotificationsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetNotificationsData, PagePagination>> {
+    return this.request(
+      { method: "GET", path: "/api/notifications" },
+      args ?? {},
+      options
+    );
+  }
+
+  /** Every page of getNotifications, fetched lazily */
+  getNotificationsPages(
+    args?: GetNotificationsArgs,
+    options?: RequestOptions
+  ): AsyncGenerator<ApiResponse<GetNotificationsData, PagePagination>> {
+    const base: GetNotificationsArgs = args ?? {};
+    return paginateByPage((page) =>
+      this.getNotifications(
+        { ...base, query: { ...base.query, ...page } as GetNotificationsQuery },
+        options
+      )
+    );
+  }
+
+  /**
+   * GET /api/notifications/preferences
+   *
+   * Get notification preferences
+   */
+  getNotificationsPreferences(
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetNotificationsPreferencesData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/notifications/preferences" },
+      {},
+      options
+    );
+  }
+
+  /**
+   * GET /api/notifications/push/subscriptions
+   *
+   * List the caller's push subscriptions and the VAPID public key
+   */
+  getNotificationsPushSubscriptions(
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetNotificationsPushSubscriptionsData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/notifications/push/subscriptions" },
+      {},
+      options
+    );
+  }
+
+  /**
+   * GET /api/notifications/stream
+   *
+   * Server-Sent Events stream of notifications and unread counts
+   *
+   * Grouped notifications that take in another event are sent again as `notification_updated`. Send Last-Event-ID (or ?last_event_id=) to replay notifications missed while disconnected.
+   */
+  getNotificationsStream(options?: RequestOptions): Promise<Response> {
+    return this.requestRaw(
+      {
+        method: "GET",
+        path: "/api/notifications/stream",
+        accept: "text/event-stream",
+      },
+      {},
+      options
+    );
+  }
+
+  /**
+   * GET /api/notifications/unsubscribe
+   *
+   * Confirmation page for a signed unsubscribe link
+   *
+   * Changes nothing; the page's form POSTs to the same URL to unsubscribe.
+   */
+  getNotificationsUnsubscribe(options?: RequestOptions): Promise<Response> {
+    return this.requestRaw(
+      {
+        method: "GET",
+        path: "/api/notifications/unsubscribe",
+        accept: "text/html",
+      },
+      {},
+      options
+    );
+  }
+
+  /**
+   * GET /api/openapi.json
+   *
+   * This OpenAPI document
+   */
+  getOpenapiJson(options?: RequestOptions): Promise<Response> {
+    return this.requestRaw(
+      { method: "GET", path: "/api/openapi.json", accept: "application/json" },
+      {},
+      options
+    );
+  }
+
+  /**
+   * GET /api/posts
+   *
+   * List published posts, or the caller's own posts with mine=true
+   */
+  getPosts(
+    args?: GetPostsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetPostsData, CursorPagination>> {
+    return this.request(
+      { method: "GET", path: "/api/posts" },
+      args ?? {},
+      options
+    );
+  }
+
+  /** Every page of getPosts, fetched lazily */
+  getPostsPages(
+    args?: GetPostsArgs,
+    options?: RequestOptions
+  ): AsyncGenerator<ApiResponse<GetPostsData, CursorPagination>> {
+    const base: GetPostsArgs = args ?? {};
+    return paginateByCursor((page) =>
+      this.getPosts(
+        { ...base, query: { ...base.query, ...page } as GetPostsQuery },
+        options
+      )
+    );
+  }
+
+  /**
+   * GET /api/posts/{idOrSlug}
+   *
+   * Get a post by id or slug
+   */
+  getPostsByIdOrSlug(
+    args: GetPostsByIdOrSlugArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetPostsByIdOrSlugData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/posts/{idOrSlug}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * GET /api/posts/{idOrSlug}/collaborators
+   *
+   * List a post's collaborators and pending invitations
+   */
+  getPostsByIdOrSlugCollaborators(
+    args: GetPostsByIdOrSlugCollaboratorsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetPostsByIdOrSlugCollaboratorsData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/posts/{idOrSlug}/collaborators" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * GET /api/posts/{idOrSlug}/revisions
+   *
+   * List a post's revisions, newest first
+   */
+  getPostsByIdOrSlugRevisions(
+    args: GetPostsByIdOrSlugRevisionsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetPostsByIdOrSlugRevisionsData, CursorPagination>> {
+    return this.request(
+      { method: "GET", path: "/api/posts/{idOrSlug}/revisions" },
+      args,
+      options
+    );
+  }
+
+  /** Every page of getPostsByIdOrSlugRevisions, fetched lazily */
+  getPostsByIdOrSlugRevisionsPages(
+    args: GetPostsByIdOrSlugRevisionsArgs,
+    options?: RequestOptions
+  ): AsyncGenerator<
+    ApiResponse<GetPostsByIdOrSlugRevisionsData, CursorPagination>
+  > {
+    const base: GetPostsByIdOrSlugRevisionsArgs = args;
+    return paginateByCursor((page) =>
+      this.getPostsByIdOrSlugRevisions(
+        {
+          ...base,
+          query: { ...base.query, ...page } as GetPostsByIdOrSlugRevisionsQuery,
+        },
+        options
+      )
+    );
+  }
+
+  /**
+   * GET /api/posts/{idOrSlug}/revisions/{revision}
+   *
+   * Get a single revision
+   */
+  getPostsByIdOrSlugRevisionsByRevision(
+    args: GetPostsByIdOrSlugRevisionsByRevisionArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetPostsByIdOrSlugRevisionsByRevisionData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/posts/{idOrSlug}/revisions/{revision}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * GET /api/posts/{idOrSlug}/revisions/diff
+   *
+   * Diff two revisions of a post
+   */
+  getPostsByIdOrSlugRevisionsDiff(
+    args: GetPostsByIdOrSlugRevisionsDiffArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetPostsByIdOrSlugRevisionsDiffData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/posts/{idOrSlug}/revisions/diff" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * GET /api/search
+   *
+   * Search posts, users and tags
+   */
+  getSearch(
+    args: GetSearchArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetSearchData, CursorPagination>> {
+    return this.request({ method: "GET", path: "/api/search" }, args, options);
+  }
+
+  /** Every page of getSearch, fetched lazily */
+  getSearchPages(
+    args: GetSearchArgs,
+    options?: RequestOptions
+  ): AsyncGenerator<ApiResponse<GetSearchData, CursorPagination>> {
+    const base: GetSearchArgs = args;
+    return paginateByCursor((page) =>
+      this.getSearch(
+        { ...base, query: { ...base.query, ...page } as GetSearchQuery },
+        options
+      )
+    );
+  }
+
+  /**
+   * GET /api/tags
+   *
+   * List tags
+   */
+  getTags(
+    args?: GetTagsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetTagsData, PagePagination>> {
+    return this.request(
+      { method: "GET", path: "/api/tags" },
+      args ?? {},
+      options
+    );
+  }
+
+  /** Every page of getTags, fetched lazily */
+  getTagsPages(
+    args?: GetTagsArgs,
+    options?: RequestOptions
+  ): AsyncGenerator<ApiResponse<GetTagsData, PagePagination>> {
+    const base: GetTagsArgs = args ?? {};
+    return paginateByPage((page) =>
+      this.getTags(
+        { ...base, query: { ...base.query, ...page } as GetTagsQuery },
+        options
+      )
+    );
+  }
+
+  /**
+   * GET /api/tags/{slug}
+   *
+   * Get a tag, following synonyms to the canonical tag
+   */
+  getTagsBySlug(
+    args: GetTagsBySlugArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetTagsBySlugData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/tags/{slug}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * GET /api/tags/{slug}/posts
+   *
+   * Published posts with a tag
+   */
+  getTagsBySlugPosts(
+    args: GetTagsBySlugPostsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetTagsBySlugPostsData, CursorPagination>> {
+    return this.request(
+      { method: "GET", path: "/api/tags/{slug}/posts" },
+      args,
+      options
+    );
+  }
+
+  /** Every page of getTagsBySlugPosts, fetched lazily */
+  getTagsBySlugPostsPages(
+    args: GetTagsBySlugPostsArgs,
+    options?: RequestOptions
+  ): AsyncGenerator<ApiResponse<GetTagsBySlugPostsData, CursorPagination>> {
+    const base: GetTagsBySlugPostsArgs = args;
+    return paginateByCursor((page) =>
+      this.getTagsBySlugPosts(
+        {
+          ...base,
+          query: { ...base.query, ...page } as GetTagsBySlugPostsQuery,
+        },
+        options
+      )
+    );
+  }
+
+  /**
+   * GET /api/upload
+   *
+   * List the caller's uploads
+   */
+  getUpload(
+    args?: GetUploadArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetUploadData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/upload" },
+      args ?? {},
+      options
+    );
+  }
+
+  /**
+   * GET /api/users/{id}/follow
+   *
+   * Follow relationship between the caller and a user
+   */
+  getUsersByIdFollow(
+    args: GetUsersByIdFollowArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetUsersByIdFollowData, never>> {
+    return this.request(
+      { method: "GET", path: "/api/users/{id}/follow" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * GET /api/users/{id}/followers
+   *
+   * A user's followers
+   */
+  getUsersByIdFollowers(
+    args: GetUsersByIdFollowersArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetUsersByIdFollowersData, CursorPagination>> {
+    return this.request(
+      { method: "GET", path: "/api/users/{id}/followers" },
+      args,
+      options
+    );
+  }
+
+  /** Every page of getUsersByIdFollowers, fetched lazily */
+  getUsersByIdFollowersPages(
+    args: GetUsersByIdFollowersArgs,
+    options?: RequestOptions
+  ): AsyncGenerator<ApiResponse<GetUsersByIdFollowersData, CursorPagination>> {
+    const base: GetUsersByIdFollowersArgs = args;
+    return paginateByCursor((page) =>
+      this.getUsersByIdFollowers(
+        {
+          ...base,
+          query: { ...base.query, ...page } as GetUsersByIdFollowersQuery,
+        },
+        options
+      )
+    );
+  }
+
+  /**
+   * GET /api/users/{id}/following
+   *
+   * Users a user follows
+   */
+  getUsersByIdFollowing(
+    args: GetUsersByIdFollowingArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<GetUsersByIdFollowingData, CursorPagination>> {
+    return this.request(
+      { method: "GET", path: "/api/users/{id}/following" },
+      args,
+      options
+    );
+  }
+
+  /** Every page of getUsersByIdFollowing, fetched lazily */
+  getUsersByIdFollowingPages(
+    args: GetUsersByIdFollowingArgs,
+    options?: RequestOptions
+  ): AsyncGenerator<ApiResponse<GetUsersByIdFollowingData, CursorPagination>> {
+    const base: GetUsersByIdFollowingArgs = args;
+    return paginateByCursor((page) =>
+      this.getUsersByIdFollowing(
+        {
+          ...base,
+          query: { ...base.query, ...page } as GetUsersByIdFollowingQuery,
+        },
+        options
+      )
+    );
+  }
+
+  /**
+   * POST /api/admin/comments/{id}
+   *
+   * Run a moderation action on a comment
+   */
+  postAdminCommentsById(
+    args: PostAdminCommentsByIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostAdminCommentsByIdData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/admin/comments/{id}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/admin/maintenance
+   *
+   * Create an announcement
+   *
+   * High priority announcements are also queued to be pushed to their whole audience once starts_at has passed; `notifications` reports progress.
+   */
+  postAdminMaintenance(
+    args: PostAdminMaintenanceArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostAdminMaintenanceData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/admin/maintenance" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/admin/reports/{id}
+   *
+   * Run a moderation action on a report
+   */
+  postAdminReportsById(
+    args: PostAdminReportsByIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostAdminReportsByIdData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/admin/reports/{id}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/admin/settings
+   *
+   * Reset, export or validate settings
+   */
+  postAdminSettings(
+    args: PostAdminSettingsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostAdminSettingsData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/admin/settings" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/admin/tags/merge
+   *
+   * Merge tags into a target tag
+   */
+  postAdminTagsMerge(
+    args: PostAdminTagsMergeArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostAdminTagsMergeData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/admin/tags/merge" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/admin/users/{id}/ban
+   *
+   * Ban a user, permanently or for a number of days
+   */
+  postAdminUsersByIdBan(
+    args: PostAdminUsersByIdBanArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostAdminUsersByIdBanData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/admin/users/{id}/ban" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/analytics/events
+   *
+   * Track a client event
+   */
+  postAnalyticsEvents(
+    args: PostAnalyticsEventsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostAnalyticsEventsData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/analytics/events" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/announcements/{id}/dismiss
+   *
+   * Dismiss an announcement for the caller
+   */
+  postAnnouncementsByIdDismiss(
+    args: PostAnnouncementsByIdDismissArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostAnnouncementsByIdDismissData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/announcements/{id}/dismiss" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/comments
+   *
+   * Comment on a post or reply to a comment
+   *
+   * Limited per hour by the rate_limit_comments setting.
+   */
+  postComments(
+    args: PostCommentsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostCommentsData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/comments" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/comments/{id}/reactions
+   *
+   * Add, change or remove (by repeating) a reaction
+   *
+   * Limited per hour by the rate_limit_reactions setting.
+   */
+  postCommentsByIdReactions(
+    args: PostCommentsByIdReactionsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostCommentsByIdReactionsData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/comments/{id}/reactions" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/cron/announcement-notifications
+   *
+   * Push a batch of high priority announcements
+   *
+   * Sends queued announcements that are active and have started, resuming each after the last recipient reached. Expired ones are dropped.
+   */
+  postCronAnnouncementNotifications(
+    args: PostCronAnnouncementNotificationsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostCronAnnouncementNotificationsData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/cron/announcement-notifications" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/cron/notification-emails
+   *
+   * Send pending notification emails
+   */
+  postCronNotificationEmails(
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostCronNotificationEmailsData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/cron/notification-emails" },
+      {},
+      options
+    );
+  }
+
+  /**
+   * POST /api/cron/scheduled-posts
+   *
+   * Publish and unpublish posts whose scheduled time has passed
+   */
+  postCronScheduledPosts(
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostCronScheduledPostsData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/cron/scheduled-posts" },
+      {},
+      options
+    );
+  }
+
+  /**
+   * POST /api/cron/weekly-digest
+   *
+   * Send a batch of weekly digest emails
+   */
+  postCronWeeklyDigest(
+    args: PostCronWeeklyDigestArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostCronWeeklyDigestData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/cron/weekly-digest" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/health
+   *
+   * Run detailed health checks
+   */
+  postHealth(
+    args: PostHealthArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostHealthData, never>> {
+    return this.request({ method: "POST", path: "/api/health" }, args, options);
+  }
+
+  /**
+   * POST /api/notifications
+   *
+   * Mark notifications or notification groups read or unread
+   */
+  postNotifications(
+    args: PostNotificationsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostNotificationsData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/notifications" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/notifications/push/subscriptions
+   *
+   * Register a browser push subscription
+   */
+  postNotificationsPushSubscriptions(
+    args: PostNotificationsPushSubscriptionsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostNotificationsPushSubscriptionsData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/notifications/push/subscriptions" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/notifications/push/test
+   *
+   * Send a test push to the caller's devices
+   */
+  postNotificationsPushTest(
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostNotificationsPushTestData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/notifications/push/test" },
+      {},
+      options
+    );
+  }
+
+  /**
+   * POST /api/notifications/unsubscribe
+   *
+   * One-click unsubscribe (RFC 8058)
+   *
+   * Switches off only the email preference the token names. Returns an HTML page when the request accepts text/html.
+   */
+  postNotificationsUnsubscribe(
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostNotificationsUnsubscribeData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/notifications/unsubscribe" },
+      {},
+      options
+    );
+  }
+
+  /**
+   * POST /api/posts
+   *
+   * Create a post
+   *
+   * content_markdown is limited by the max_post_length platform setting. Limited per hour by the rate_limit_posts setting.
+   */
+  postPosts(
+    args: PostPostsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostPostsData, never>> {
+    return this.request({ method: "POST", path: "/api/posts" }, args, options);
+  }
+
+  /**
+   * POST /api/posts/{idOrSlug}
+   *
+   * Publish, unpublish or archive a post
+   */
+  postPostsByIdOrSlug(
+    args: PostPostsByIdOrSlugArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostPostsByIdOrSlugData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/posts/{idOrSlug}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/posts/{idOrSlug}/collaborators
+   *
+   * Invite a collaborator
+   */
+  postPostsByIdOrSlugCollaborators(
+    args: PostPostsByIdOrSlugCollaboratorsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostPostsByIdOrSlugCollaboratorsData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/posts/{idOrSlug}/collaborators" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/posts/{idOrSlug}/collaborators/{userId}
+   *
+   * Accept or decline an invitation
+   */
+  postPostsByIdOrSlugCollaboratorsByUserId(
+    args: PostPostsByIdOrSlugCollaboratorsByUserIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostPostsByIdOrSlugCollaboratorsByUserIdData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/posts/{idOrSlug}/collaborators/{userId}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/posts/{idOrSlug}/revisions/{revision}/restore
+   *
+   * Restore a post to an earlier revision
+   */
+  postPostsByIdOrSlugRevisionsByRevisionRestore(
+    args: PostPostsByIdOrSlugRevisionsByRevisionRestoreArgs,
+    options?: RequestOptions
+  ): Promise<
+    ApiResponse<PostPostsByIdOrSlugRevisionsByRevisionRestoreData, never>
+  > {
+    return this.request(
+      {
+        method: "POST",
+        path: "/api/posts/{idOrSlug}/revisions/{revision}/restore",
+      },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/tags
+   *
+   * Create a tag
+   */
+  postTags(
+    args: PostTagsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostTagsData, never>> {
+    return this.request({ method: "POST", path: "/api/tags" }, args, options);
+  }
+
+  /**
+   * POST /api/tags/{slug}/follow
+   *
+   * Follow a tag
+   */
+  postTagsBySlugFollow(
+    args: PostTagsBySlugFollowArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostTagsBySlugFollowData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/tags/{slug}/follow" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/upload
+   *
+   * Upload an image (JPEG, PNG, WebP or GIF)
+   *
+   * Files may be up to the max_file_size_mb setting (5MB by default). Limited per hour by the rate_limit_uploads setting.
+   */
+  postUpload(
+    args: PostUploadArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostUploadData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/upload", multipart: true },
+      args,
+      options
+    );
+  }
+
+  /**
+   * POST /api/users/{id}/follow
+   *
+   * Follow a user
+   */
+  postUsersByIdFollow(
+    args: PostUsersByIdFollowArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PostUsersByIdFollowData, never>> {
+    return this.request(
+      { method: "POST", path: "/api/users/{id}/follow" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * PUT /api/admin/announcements/{id}
+   *
+   * Update or deactivate an announcement
+   *
+   * Set is_active to false to deactivate. Raising an announcement to high priority queues it to be pushed to its audience, unless it already was.
+   */
+  putAdminAnnouncementsById(
+    args: PutAdminAnnouncementsByIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PutAdminAnnouncementsByIdData, never>> {
+    return this.request(
+      { method: "PUT", path: "/api/admin/announcements/{id}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * PUT /api/admin/comments
+   *
+   * Bulk-moderate comments
+   */
+  putAdminComments(
+    args: PutAdminCommentsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PutAdminCommentsData, never>> {
+    return this.request(
+      { method: "PUT", path: "/api/admin/comments" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * PUT /api/admin/comments/{id}
+   *
+   * Edit a comment as a moderator
+   */
+  putAdminCommentsById(
+    args: PutAdminCommentsByIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PutAdminCommentsByIdData, never>> {
+    return this.request(
+      { method: "PUT", path: "/api/admin/comments/{id}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * PUT /api/admin/maintenance
+   *
+   * Enable or disable maintenance mode
+   *
+   * While enabled and between start_time and end_time, every route except /api/health and GET /api/announcements answers 503 SERVICE_UNAVAILABLE with the message and a Retry-After until end_time. Admins and allowed_ips are let through; client IPs are only known behind TRUSTED_PROXY_COUNT trusted proxies. Changes can take 15 seconds to apply.
+   */
+  putAdminMaintenance(
+    args: PutAdminMaintenanceArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PutAdminMaintenanceData, never>> {
+    return this.request(
+      { method: "PUT", path: "/api/admin/maintenance" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * PUT /api/admin/reports
+   *
+   * Bulk-update report status
+   */
+  putAdminReports(
+    args: PutAdminReportsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PutAdminReportsData, never>> {
+    return this.request(
+      { method: "PUT", path: "/api/admin/reports" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * PUT /api/admin/reports/{id}
+   *
+   * Update a report
+   */
+  putAdminReportsById(
+    args: PutAdminReportsByIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PutAdminReportsByIdData, never>> {
+    return this.request(
+      { method: "PUT", path: "/api/admin/reports/{id}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * PUT /api/admin/settings
+   *
+   * Update one setting, or several with { settings: [...] }
+   */
+  putAdminSettings(
+    args: PutAdminSettingsArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PutAdminSettingsData, never>> {
+    return this.request(
+      { method: "PUT", path: "/api/admin/settings" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * PUT /api/admin/users/{id}/role
+   *
+   * Grant a role
+   */
+  putAdminUsersByIdRole(
+    args: PutAdminUsersByIdRoleArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PutAdminUsersByIdRoleData, never>> {
+    return this.request(
+      { method: "PUT", path: "/api/admin/users/{id}/role" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * PUT /api/comments/{id}
+   *
+   * Edit a comment
+   */
+  putCommentsById(
+    args: PutCommentsByIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PutCommentsByIdData, never>> {
+    return this.request(
+      { method: "PUT", path: "/api/comments/{id}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * PUT /api/notifications/preferences
+   *
+   * Update notification preferences
+   */
+  putNotificationsPreferences(
+    args: PutNotificationsPreferencesArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PutNotificationsPreferencesData, never>> {
+    return this.request(
+      { method: "PUT", path: "/api/notifications/preferences" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * PUT /api/posts/{idOrSlug}
+   *
+   * Update a post and record a revision
+   */
+  putPostsByIdOrSlug(
+    args: PutPostsByIdOrSlugArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PutPostsByIdOrSlugData, never>> {
+    return this.request(
+      { method: "PUT", path: "/api/posts/{idOrSlug}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * PUT /api/posts/{idOrSlug}/collaborators/{userId}
+   *
+   * Change a collaborator's role
+   */
+  putPostsByIdOrSlugCollaboratorsByUserId(
+    args: PutPostsByIdOrSlugCollaboratorsByUserIdArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PutPostsByIdOrSlugCollaboratorsByUserIdData, never>> {
+    return this.request(
+      { method: "PUT", path: "/api/posts/{idOrSlug}/collaborators/{userId}" },
+      args,
+      options
+    );
+  }
+
+  /**
+   * PUT /api/tags/{slug}
+   *
+   * Update a tag
+   */
+  putTagsBySlug(
+    args: PutTagsBySlugArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<PutTagsBySlugData, never>> {
+    return this.request(
+      { method: "PUT", path: "/api/tags/{slug}" },
+      args,
+      options
+    );
+  }
+}
@@ -0,0 +1,30 @@
+// client/src/index.ts
+//
+//   const client = new BlogglyClient({
+//     baseUrl: "https://api.bloggly.example",
+//     token: async () => (await supabase.auth.getSession()).data.session?.access_token,
+//   });
+//
+//   const { data: post } = await client.getPostsByIdOrSlug({
+//     params: { idOrSlug: "hello-world" },
+//   });
+//
+//   for await (const page of client.getCommentsPages({ query: { post_id } })) {
+//     render(page.data.comments);
+//   }
+//
+// Failed requests throw BlogglyApiError; branch on `error.code`.
+export * from "./generated";
+export {
+  BlogglyApiError,
+  getRetryAfterSeconds,
+  isBlogglyApiError,
+} from "./runtime";
+export type {
+  ApiResponse,
+  ClientOptions,
+  CursorPagination,
+  PagePagination,
+  RequestOptions,
+  TokenProvider,
+} from "./runtime";
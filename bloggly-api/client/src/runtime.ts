@@ -0,0 +1,362 @@
+// client/src/runtime.ts
+import type { ApiErrorCode } from "./generated";
+
+export interface PagePagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+export interface CursorPagination {
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+// A successful response: the `data` and `meta` of the envelope plus the
+// request id to quote when reporting problems
+export interface ApiResponse<T, P = never> {
+  data: T;
+  meta: [P] extends [never] ? Record<string, unknown> : { pagination: P };
+  status: number;
+  requestId: string | null;
+}
+
+// An access token, or a function returning the current one (e.g. from the
+// Supabase session). Requests are sent without a token when it is empty.
+export type TokenProvider =
+  | string
+  | (() => string | null | undefined | Promise<string | null | undefined>);
+
+export interface ClientOptions {
+  // Where the API is served, e.g. "https://api.bloggly.example"
+  baseUrl: string;
+  token?: TokenProvider;
+  fetch?: typeof fetch;
+  headers?: Record<string, string>;
+  // How often a request rejected with 429 is retried (default 2)
+  maxRetries?: number;
+  // Longer waits than this are not attempted and the 429 is thrown (default 60s)
+  maxRetryDelayMs?: number;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+  maxRetries?: number;
+}
+
+export interface RouteInfo {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  path: string;
+  multipart?: boolean;
+  // Media type of routes that do not return JSON
+  accept?: string;
+}
+
+export interface RequestArgs {
+  params?: object;
+  query?: object;
+  body?: unknown;
+}
+
+const REQUEST_ID_HEADER = "x-request-id";
+
+/**
+ * Thrown for every non-2xx response. `code` is the stable error code from
+ * the API's error envelope ({ error: { code, message, details } }) and is
+ * what callers should branch on.
+ */
+export class BlogglyApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: ApiErrorCode,
+    readonly details: unknown,
+    readonly requestId: string | null,
+    // Seconds until a rate limit resets, for RATE_LIMITED errors
+    readonly retryAfter: number | null = null
+  ) {
+    super(message);
+    this.name = "BlogglyApiError";
+  }
+}
+
+export function isBlogglyApiError(
+  error: unknown,
+  code?: ApiErrorCode
+): error is BlogglyApiError {
+  return (
+    error instanceof BlogglyApiError &&
+    (code === undefined || error.code === code)
+  );
+}
+
+// Mirrors the API's fallback for responses without an error envelope, such
+// as a proxy's 502 page
+function codeForStatus(status: number): ApiErrorCode {
+  switch (status) {
+    case 401:
+      return "AUTH_REQUIRED";
+    case 403:
+      return "FORBIDDEN";
+    case 404:
+      return "NOT_FOUND";
+    case 409:
+      return "CONFLICT";
+    case 413:
+      return "PAYLOAD_TOO_LARGE";
+    case 429:
+      return "RATE_LIMITED";
+    case 503:
+      return "SERVICE_UNAVAILABLE";
+    default:
+      return status >= 500 ? "INTERNAL_ERROR" : "BAD_REQUEST";
+  }
+}
+
+// Seconds to wait before retrying, from Retry-After (seconds or an HTTP
+// date) or RateLimit-Reset (seconds)
+export function getRetryAfterSeconds(headers: Headers): number | null {
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(seconds, 0);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(Math.ceil((date - Date.now()) / 1000), 0);
+    }
+  }
+
+  const reset = Number(headers.get("ratelimit-reset"));
+  return headers.has("ratelimit-reset") && Number.isFinite(reset)
+    ? Math.max(reset, 0)
+    : null;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function buildPath(path: string, params: object = {}): string {
+  return path.replace(/\{([^}]+)\}/g, (_, name: string) => {
+    const value = (params as Record<string, unknown>)[name];
+    if (value === undefined || value === null || value === "") {
+      throw new Error(`Missing path parameter "${name}" for ${path}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
+
+function buildQuery(query: object = {}): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    search.set(key, Array.isArray(value) ? value.join(",") : String(value));
+  }
+  const queryString = search.toString();
+  return queryString ? `?${queryString}` : "";
+}
+
+function buildFormData(body: object): FormData {
+  const formData = new FormData();
+  for (const [key, value] of Object.entries(body)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    formData.append(key, value instanceof Blob ? value : String(value));
+  }
+  return formData;
+}
+
+async function toApiError(response: Response): Promise<BlogglyApiError> {
+  const requestId = response.headers.get(REQUEST_ID_HEADER);
+  const retryAfter =
+    response.status === 429 ? getRetryAfterSeconds(response.headers) : null;
+  const payload = await response.json().catch(() => null);
+  const error = payload?.error;
+
+  if (error && typeof error.code === "string") {
+    return new BlogglyApiError(
+      error.message || response.statusText,
+      response.status,
+      error.code as ApiErrorCode,
+      error.details,
+      requestId,
+      retryAfter
+    );
+  }
+
+  return new BlogglyApiError(
+    response.statusText || `Request failed with status ${response.status}`,
+    response.status,
+    codeForStatus(response.status),
+    undefined,
+    requestId,
+    retryAfter
+  );
+}
+
+export class BlogglyClientBase {
+  private token: TokenProvider | undefined;
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+  private readonly headers: Record<string, string>;
+  private readonly maxRetries: number;
+  private readonly maxRetryDelayMs: number;
+
+  constructor(options: ClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.token = options.token;
+    this.fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+    this.headers = options.headers ?? {};
+    this.maxRetries = options.maxRetries ?? 2;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 60_000;
+  }
+
+  setToken(token: TokenProvider | undefined): void {
+    this.token = token;
+  }
+
+  private async resolveToken(): Promise<string | null | undefined> {
+    return typeof this.token === "function" ? this.token() : this.token;
+  }
+
+  // Sends the request, retrying 429s after the reset time the API reports
+  // (or with exponential backoff when it reports none). Returns the final
+  // response whatever its status.
+  protected async send(
+    route: RouteInfo,
+    args: RequestArgs,
+    options: RequestOptions = {}
+  ): Promise<Response> {
+    const url =
+      this.baseUrl +
+      buildPath(route.path, args.params) +
+      buildQuery(args.query);
+    const maxRetries = options.maxRetries ?? this.maxRetries;
+
+    for (let attempt = 0; ; attempt++) {
+      const token = await this.resolveToken();
+      const headers: Record<string, string> = {
+        Accept: route.accept ?? "application/json",
+        ...this.headers,
+        ...options.headers,
+      };
+      if (token) {
+        headers.Authorization = `Bearer ${token}`;
+      }
+
+      let body: BodyInit | undefined;
+      if (args.body !== undefined) {
+        if (route.multipart) {
+          body = buildFormData(args.body as object);
+        } else {
+          headers["Content-Type"] = "application/json";
+          body = JSON.stringify(args.body);
+        }
+      }
+
+      const response = await this.fetchImpl(url, {
+        method: route.method,
+        headers,
+        body,
+        signal: options.signal,
+      });
+
+      if (response.status !== 429 || attempt >= maxRetries) {
+        return response;
+      }
+
+      const retryAfter = getRetryAfterSeconds(response.headers);
+      const delayMs =
+        retryAfter !== null ? retryAfter * 1000 : 1000 * 2 ** attempt;
+      if (delayMs > this.maxRetryDelayMs) {
+        return response;
+      }
+
+      await response.body?.cancel();
+      await sleep(delayMs, options.signal);
+    }
+  }
+
+  protected async request<T, P>(
+    route: RouteInfo,
+    args: RequestArgs,
+    options?: RequestOptions
+  ): Promise<ApiResponse<T, P>> {
+    const response = await this.send(route, args, options);
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    const payload = await response.json();
+    return {
+      data: payload.data as T,
+      meta: payload.meta ?? {},
+      status: response.status,
+      requestId: response.headers.get(REQUEST_ID_HEADER),
+    };
+  }
+
+  // For routes that do not return the JSON envelope (event streams, HTML)
+  protected async requestRaw(
+    route: RouteInfo,
+    args: RequestArgs,
+    options?: RequestOptions
+  ): Promise<Response> {
+    const response = await this.send(route, args, options);
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+    return response;
+  }
+}
+
+// Follows meta.pagination.next_cursor until has_more is false
+export async function* paginateByCursor<T>(
+  fetchPage: (query: {
+    cursor?: string;
+  }) => Promise<ApiResponse<T, CursorPagination>>
+): AsyncGenerator<ApiResponse<T, CursorPagination>> {
+  let cursor: string | undefined;
+  do {
+    const page = await fetchPage(cursor === undefined ? {} : { cursor });
+    yield page;
+    const { has_more, next_cursor } = page.meta.pagination;
+    cursor = has_more && next_cursor !== null ? String(next_cursor) : undefined;
+  } while (cursor !== undefined);
+}
+
+// Requests page 1, 2, ... up to meta.pagination.pages
+export async function* paginateByPage<T>(
+  fetchPage: (query: {
+    page: number;
+  }) => Promise<ApiResponse<T, PagePagination>>
+): AsyncGenerator<ApiResponse<T, PagePagination>> {
+  for (let page = 1; ; page++) {
+    const result = await fetchPage({ page });
+    yield result;
+    if (page >= result.meta.pagination.pages) {
+      return;
+    }
+  }
+}
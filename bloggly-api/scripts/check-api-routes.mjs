@@ -0,0 +1,69 @@
+// scripts/check-api-routes.mjs
+//
+// Fails when a route handler under src/app/api has no entry in API_ROUTES
+// (src/lib/apiRoutes.ts), or an entry no longer has a handler, so the
+// OpenAPI spec always covers the whole API. Runs before `next build`.
+import { readdirSync, readFileSync } from "fs";
+import { dirname, join, relative, sep } from "path";
+import { fileURLToPath } from "url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const apiDir = join(root, "src", "app", "api");
+const registryFile = join(root, "src", "lib", "apiRoutes.ts");
+
+function findRouteFiles(dir) {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return findRouteFiles(path);
+    }
+    return entry.name === "route.ts" ? [path] : [];
+  });
+}
+
+// src/app/api/posts/[idOrSlug]/route.ts -> /api/posts/{idOrSlug}
+function toApiPath(file) {
+  const segments = relative(apiDir, dirname(file))
+    .split(sep)
+    .filter(Boolean)
+    .map((segment) => segment.replace(/^\[(.+)\]$/, "{$1}"));
+  return ["/api", ...segments].join("/");
+}
+
+const handlers = new Set(
+  findRouteFiles(apiDir).flatMap((file) => {
+    const source = readFileSync(file, "utf8");
+    const methods = [
+      ...source.matchAll(
+        /export\s+(?:(?:async\s+)?function\s+|const\s+)(GET|POST|PUT|PATCH|DELETE)\b/g
+      ),
+    ].map(([, method]) => method);
+    return methods.map((method) => `${method} ${toApiPath(file)}`);
+  })
+);
+
+const registered = new Set(
+  [
+    ...readFileSync(registryFile, "utf8").matchAll(
+      /^\s*"((?:GET|POST|PUT|PATCH|DELETE) \/api[^"]*)":/gm
+    ),
+  ].map(([, key]) => key)
+);
+
+const missing = [...handlers].filter((key) => !registered.has(key)).sort();
+const stale = [...registered].filter((key) => !handlers.has(key)).sort();
+
+if (missing.length > 0 || stale.length > 0) {
+  for (const key of missing) {
+    console.error(`Unregistered route handler: ${key}`);
+  }
+  for (const key of stale) {
+    console.error(`Registered route has no handler: ${key}`);
+  }
+  console.error(
+    `\nUpdate API_ROUTES in ${relative(root, registryFile)} so the OpenAPI spec matches the handlers.`
+  );
+  process.exit(1);
+}
+
+console.log(`All ${handlers.size} API route handlers are registered.`);
@@ -0,0 +1,74 @@
+// src/__tests__/admin.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  GET as listSettings,
+  PUT as updateSetting,
+} from "@/app/api/admin/settings/route";
+import { PUT as grantRole } from "@/app/api/admin/users/[id]/role/route";
+import { apiRequest, createTestApi, params, profile } from "./support/api";
+
+describe("admin", () => {
+  const admin = profile("admin", "admin");
+  const reader = profile("reader");
+
+  it("stores a setting and lists it in place of the default", async () => {
+    const store = createTestApi({ profiles: [admin] });
+
+    const response = await updateSetting(
+      apiRequest("/api/admin/settings", {
+        method: "PUT",
+        as: admin,
+        body: { setting_key: "max_file_size_mb", setting_value: 10 },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(store.settings).toMatchObject([
+      {
+        setting_key: "max_file_size_mb",
+        setting_value: 10,
+        category: "storage",
+        updated_by: admin.id,
+      },
+    ]);
+    expect(store.adminActions).toMatchObject([
+      {
+        action_type: "setting_updated",
+        details: { previous_value: null, new_value: 10 },
+      },
+    ]);
+
+    const listed = await listSettings(
+      apiRequest("/api/admin/settings?category=storage", { as: admin })
+    );
+    const { data } = await listed.json();
+    expect(data.settings.storage).toContainEqual(
+      expect.objectContaining({
+        setting_key: "max_file_size_mb",
+        setting_value: 10,
+        is_default: false,
+      })
+    );
+  });
+
+  it("grants a role and refuses to grant it twice", async () => {
+    const store = createTestApi({ profiles: [admin, reader] });
+    const grant = () =>
+      grantRole(
+        apiRequest(`/api/admin/users/${reader.id}/role`, {
+          method: "PUT",
+          as: admin,
+          body: { role: "moderator" },
+        }),
+        params(reader.id)
+      );
+
+    expect((await grant()).status).toBe(200);
+    expect(store.profiles[1].role).toBe("moderator");
+    expect(store.adminActions).toMatchObject([
+      { action_type: "role_granted", target_id: reader.id },
+    ]);
+
+    expect((await grant()).status).toBe(409);
+  });
+});
@@ -0,0 +1,94 @@
+// src/__tests__/announcements.test.ts
+import { randomUUID } from "crypto";
+import { describe, expect, it } from "vitest";
+import {
+  queueAnnouncementNotification,
+  sendAnnouncementNotifications,
+} from "@/lib/announcementService";
+import { AnnouncementRecord } from "@/lib/repositories";
+import { createTestApi, profile } from "./support/api";
+
+function announcement(
+  changes: Partial<AnnouncementRecord> = {}
+): AnnouncementRecord {
+  return {
+    id: randomUUID(),
+    title: "Scheduled maintenance",
+    message: "We are down for an hour on Sunday.",
+    type: "maintenance",
+    is_active: true,
+    priority: "high",
+    starts_at: null,
+    expires_at: null,
+    target_audience: "all",
+    created_by: null,
+    created_at: "2026-01-01T00:00:00.000Z",
+    updated_at: "2026-01-01T00:00:00.000Z",
+    ...changes,
+  };
+}
+
+describe("announcement notifications", () => {
+  const admin = profile("admin", "admin");
+  const readers = [profile("ada"), profile("bob"), profile("cy")];
+
+  it("sends a queued announcement in pages, once", async () => {
+    const showing = announcement();
+    const store = createTestApi({
+      profiles: [admin, ...readers],
+      announcements: [showing],
+    });
+
+    expect(
+      await queueAnnouncementNotification(showing, admin.id)
+    ).toMatchObject({ status: "pending", in_app: 0 });
+
+    expect(await sendAnnouncementNotifications(3)).toMatchObject({
+      processed: 1,
+      recipients: 3,
+      sent: 0,
+    });
+    expect(store.announcementNotifications[0]).toMatchObject({
+      status: "pending",
+      claimed_at: null,
+    });
+
+    expect(await sendAnnouncementNotifications(3)).toMatchObject({
+      recipients: 1,
+      sent: 1,
+    });
+    // Everyone but the admin who sent it
+    expect(
+      store.notifications.map((notification) => notification.user_id).sort()
+    ).toEqual(readers.map((reader) => reader.id).sort());
+
+    // Queueing again reports the finished send instead of sending it twice
+    expect(
+      await queueAnnouncementNotification(showing, admin.id)
+    ).toMatchObject({ status: "sent", in_app: 3 });
+    expect(await sendAnnouncementNotifications(3)).toMatchObject({
+      processed: 0,
+    });
+  });
+
+  it("waits for starts_at and drops expired announcements", async () => {
+    const upcoming = announcement({ starts_at: "2999-01-01T00:00:00.000Z" });
+    const expired = announcement({ expires_at: "2026-01-02T00:00:00.000Z" });
+    const store = createTestApi({
+      profiles: [admin, ...readers],
+      announcements: [upcoming, expired],
+    });
+    await queueAnnouncementNotification(upcoming, admin.id);
+    await queueAnnouncementNotification(expired, admin.id);
+
+    expect(await sendAnnouncementNotifications(10)).toMatchObject({
+      processed: 0,
+      expired: 1,
+    });
+    expect(store.announcementNotifications).toMatchObject([
+      { announcement_id: upcoming.id, status: "pending" },
+      { announcement_id: expired.id, status: "expired" },
+    ]);
+    expect(store.notifications).toHaveLength(0);
+  });
+});
@@ -0,0 +1,254 @@
+// src/__tests__/bans.test.ts
+import { describe, expect, it, vi } from "vitest";
+import { POST as createComment } from "@/app/api/comments/route";
+import { POST as actOnReport } from "@/app/api/admin/reports/[id]/route";
+import {
+  DELETE as unban,
+  POST as ban,
+} from "@/app/api/admin/users/[id]/ban/route";
+import { getRepositories } from "@/lib/repositories";
+import {
+  apiRequest,
+  comment,
+  createTestApi,
+  params,
+  post,
+  profile,
+  report,
+} from "./support/api";
+
+describe("bans", () => {
+  const moderator = profile("moderator", "moderator");
+  const author = profile("author");
+  const reader = profile("reader");
+
+  const commentAs = (user: typeof reader, postId: string) =>
+    createComment(
+      apiRequest("/api/comments", {
+        method: "POST",
+        as: user,
+        body: { post_id: postId, content: "Hello" },
+      }),
+      undefined
+    );
+
+  it("bans a user, who is then refused with USER_BANNED", async () => {
+    const article = post(author);
+    const store = createTestApi({
+      profiles: [moderator, author, reader],
+      posts: [article],
+    });
+
+    const response = await ban(
+      apiRequest(`/api/admin/users/${reader.id}/ban`, {
+        method: "POST",
+        as: moderator,
+        body: { reason: "Harassment", duration_days: 7 },
+      }),
+      params(reader.id)
+    );
+
+    expect(response.status).toBe(200);
+    expect(store.bans).toMatchObject([
+      { user_id: reader.id, banned_by: moderator.id, reason: "Harassment" },
+    ]);
+    expect(store.authBanDurations).toEqual([
+      { user_id: reader.id, duration: "168h" },
+    ]);
+
+    const refused = await commentAs(reader, article.id);
+    expect(refused.status).toBe(403);
+    const { error } = await refused.json();
+    expect(error.code).toBe("USER_BANNED");
+    expect(error.details).toMatchObject({ reason: "Harassment" });
+    expect(store.comments).toHaveLength(0);
+  });
+
+  it("lifts a ban so the user can comment again", async () => {
+    const article = post(author);
+    const store = createTestApi({
+      profiles: [moderator, author, reader],
+      posts: [article],
+      bans: [
+        {
+          user_id: reader.id,
+          reason: "Harassment",
+          banned_at: new Date().toISOString(),
+          banned_by: moderator.id,
+          expires_at: null,
+        },
+      ],
+    });
+
+    const response = await unban(
+      apiRequest(`/api/admin/users/${reader.id}/ban`, {
+        method: "DELETE",
+        as: moderator,
+      }),
+      params(reader.id)
+    );
+
+    expect(response.status).toBe(200);
+    expect(store.bans).toHaveLength(0);
+    expect((await commentAs(reader, article.id)).status).toBe(201);
+  });
+
+  it("keeps the ban when sessions cannot be restored", async () => {
+    const store = createTestApi({
+      profiles: [moderator, reader],
+      bans: [
+        {
+          user_id: reader.id,
+          reason: "Harassment",
+          banned_at: new Date().toISOString(),
+          banned_by: moderator.id,
+          expires_at: null,
+        },
+      ],
+    });
+    vi.spyOn(getRepositories().auth, "setBanDuration").mockRejectedValue(
+      new Error("Auth unavailable")
+    );
+
+    const response = await unban(
+      apiRequest(`/api/admin/users/${reader.id}/ban`, {
+        method: "DELETE",
+        as: moderator,
+      }),
+      params(reader.id)
+    );
+
+    expect(response.status).toBe(500);
+    expect(store.bans).toHaveLength(1);
+  });
+
+  it("clears a temporary ban that has run out", async () => {
+    const article = post(author);
+    const store = createTestApi({
+      profiles: [moderator, author, reader],
+      posts: [article],
+      bans: [
+        {
+          user_id: reader.id,
+          reason: "Spam",
+          banned_at: "2026-01-01T00:00:00.000Z",
+          banned_by: moderator.id,
+          expires_at: "2026-01-08T00:00:00.000Z",
+        },
+      ],
+    });
+
+    expect((await commentAs(reader, article.id)).status).toBe(201);
+    expect(store.bans).toHaveLength(0);
+  });
+
+  it("refuses to ban the caller's own account", async () => {
+    const store = createTestApi({ profiles: [moderator] });
+
+    const response = await ban(
+      apiRequest(`/api/admin/users/${moderator.id}/ban`, {
+        method: "POST",
+        as: moderator,
+        body: { reason: "Testing" },
+      }),
+      params(moderator.id)
+    );
+
+    expect(response.status).toBe(400);
+    expect(store.bans).toHaveLength(0);
+  });
+
+  it("refuses to ban or unban a peer or a superior", async () => {
+    const peer = profile("peer", "moderator");
+    const admin = profile("admin", "admin");
+    const store = createTestApi({
+      profiles: [moderator, peer, admin],
+      bans: [
+        {
+          user_id: admin.id,
+          reason: "Compromised account",
+          banned_at: new Date().toISOString(),
+          banned_by: peer.id,
+          expires_at: null,
+        },
+      ],
+    });
+
+    const banned = await ban(
+      apiRequest(`/api/admin/users/${peer.id}/ban`, {
+        method: "POST",
+        as: moderator,
+        body: { reason: "Disagreement" },
+      }),
+      params(peer.id)
+    );
+    const unbanned = await unban(
+      apiRequest(`/api/admin/users/${admin.id}/ban`, {
+        method: "DELETE",
+        as: moderator,
+      }),
+      params(admin.id)
+    );
+
+    expect(banned.status).toBe(403);
+    expect(unbanned.status).toBe(403);
+    expect(store.bans).toMatchObject([{ user_id: admin.id }]);
+  });
+
+  it("bans the author of reported content from the report", async () => {
+    const article = post(author);
+    const target = comment(article, reader);
+    const pending = report(author, {
+      reported_content_type: "comment",
+      reported_content_id: target.id,
+    });
+    const store = createTestApi({
+      profiles: [moderator, author, reader],
+      posts: [article],
+      comments: [target],
+      reports: [pending],
+    });
+
+    const response = await actOnReport(
+      apiRequest(`/api/admin/reports/${pending.id}`, {
+        method: "POST",
+        as: moderator,
+        body: { action_type: "ban_user", reason: "Repeated spam" },
+      }),
+      params(pending.id)
+    );
+
+    expect(response.status).toBe(200);
+    expect(store.bans).toMatchObject([
+      { user_id: reader.id, reason: "Repeated spam", expires_at: null },
+    ]);
+    expect(store.reports[0].status).toBe("resolved");
+  });
+
+  it("refuses a report ban on a peer's content", async () => {
+    const peer = profile("peer", "moderator");
+    const article = post(peer);
+    const pending = report(author, {
+      reported_content_type: "post",
+      reported_content_id: article.id,
+    });
+    const store = createTestApi({
+      profiles: [moderator, peer, author],
+      posts: [article],
+      reports: [pending],
+    });
+
+    const response = await actOnReport(
+      apiRequest(`/api/admin/reports/${pending.id}`, {
+        method: "POST",
+        as: moderator,
+        body: { action_type: "ban_user" },
+      }),
+      params(pending.id)
+    );
+
+    expect(response.status).toBe(403);
+    expect(store.bans).toHaveLength(0);
+    expect(store.reports[0].status).toBe("pending");
+  });
+});
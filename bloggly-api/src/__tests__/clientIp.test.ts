@@ -0,0 +1,83 @@
+// src/__tests__/clientIp.test.ts
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { register } from "@/instrumentation";
+import { getClientIp } from "@/lib/clientIp";
+
+const requestFrom = (headers: Record<string, string>) =>
+  new Request("http://localhost/api/health", { headers });
+
+describe("getClientIp", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("ignores forwarding headers without trusted proxies", () => {
+    expect(
+      getClientIp(
+        requestFrom({
+          "x-forwarded-for": "203.0.113.7",
+          "x-real-ip": "1.2.3.4",
+        })
+      )
+    ).toBe("unknown");
+  });
+
+  it("takes the entry added by the nearest trusted proxy", () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "1");
+
+    expect(
+      getClientIp(
+        requestFrom({
+          "x-forwarded-for": "10.0.0.1, 198.51.100.4, 203.0.113.7",
+        })
+      )
+    ).toBe("203.0.113.7");
+  });
+
+  it("skips entries appended by further trusted proxies", () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "2");
+
+    expect(
+      getClientIp(
+        requestFrom({ "x-forwarded-for": "10.0.0.1, 203.0.113.7, 192.0.2.10" })
+      )
+    ).toBe("203.0.113.7");
+  });
+
+  it("uses the left-most entry when the chain is shorter than the proxies", () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "3");
+
+    expect(
+      getClientIp(requestFrom({ "x-forwarded-for": "203.0.113.7, 192.0.2.10" }))
+    ).toBe("203.0.113.7");
+  });
+
+  it("falls back to X-Real-IP from a trusted proxy", () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "1");
+
+    expect(getClientIp(requestFrom({ "x-real-ip": "203.0.113.7" }))).toBe(
+      "203.0.113.7"
+    );
+  });
+});
+
+describe("startup", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("warns when no proxies are trusted", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "1");
+    register();
+    expect(warn).not.toHaveBeenCalled();
+
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "");
+    register();
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("TRUSTED_PROXY_COUNT is not set")
+    );
+  });
+});
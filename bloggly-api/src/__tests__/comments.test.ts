@@ -0,0 +1,228 @@
+// src/__tests__/comments.test.ts
+import { describe, expect, it, vi } from "vitest";
+import { GET, POST } from "@/app/api/comments/route";
+import { DELETE as deleteComment } from "@/app/api/comments/[id]/route";
+import { getRepositories } from "@/lib/repositories";
+import * as spamService from "@/lib/spamService";
+import {
+  afterResponse,
+  apiRequest,
+  comment,
+  createTestApi,
+  params,
+  post,
+  profile,
+} from "./support/api";
+
+describe("comments", () => {
+  const author = profile("author");
+  const reader = profile("reader");
+
+  it("publishes a comment and notifies the post author", async () => {
+    const article = post(author);
+    const store = createTestApi({
+      profiles: [author, reader],
+      posts: [article],
+    });
+
+    const response = await POST(
+      apiRequest("/api/comments", {
+        method: "POST",
+        as: reader,
+        body: { post_id: article.id, content: "Nice post" },
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(201);
+    const { data } = await response.json();
+    expect(data).toMatchObject({ status: "published", is_spam: false });
+    expect(store.comments).toHaveLength(1);
+    await afterResponse();
+    expect(store.notifications).toMatchObject([
+      { user_id: author.id, actor_id: reader.id, type: "comment" },
+    ]);
+    expect(store.activityLogs).toMatchObject([
+      { action: "comment_created", resource_id: data.id },
+    ]);
+  });
+
+  it("notifies the parent comment's author of a reply", async () => {
+    const article = post(author);
+    const parent = comment(article, author);
+    const store = createTestApi({
+      profiles: [author, reader],
+      posts: [article],
+      comments: [parent],
+    });
+
+    const response = await POST(
+      apiRequest("/api/comments", {
+        method: "POST",
+        as: reader,
+        body: { post_id: article.id, content: "Agreed", parent_id: parent.id },
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(201);
+    await afterResponse();
+    expect(store.notifications).toMatchObject([
+      { user_id: author.id, type: "reply" },
+    ]);
+  });
+
+  it("keeps the comment when notifying about it fails", async () => {
+    const article = post(author);
+    const store = createTestApi({
+      profiles: [author, reader],
+      posts: [article],
+    });
+    vi.spyOn(getRepositories().profiles, "findByUsernames").mockRejectedValue(
+      new Error("Database unavailable")
+    );
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const response = await POST(
+      apiRequest("/api/comments", {
+        method: "POST",
+        as: reader,
+        body: { post_id: article.id, content: "Thanks @author" },
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(201);
+    await afterResponse();
+    expect(store.comments).toHaveLength(1);
+    expect(logged).toHaveBeenCalledWith(
+      "Error notifying about comment:",
+      expect.any(Error)
+    );
+  });
+
+  it("holds spam for moderation without notifying anyone", async () => {
+    vi.spyOn(spamService, "checkSpam").mockResolvedValue({ isSpam: true });
+    const article = post(author);
+    const parent = comment(article, author);
+    const store = createTestApi({
+      profiles: [author, reader],
+      posts: [article],
+      comments: [parent],
+    });
+
+    const response = await POST(
+      apiRequest("/api/comments", {
+        method: "POST",
+        as: reader,
+        body: {
+          post_id: article.id,
+          content: "Cheap pills @author",
+          parent_id: parent.id,
+        },
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(201);
+    expect((await response.json()).data).toMatchObject({
+      status: "flagged",
+      is_spam: true,
+    });
+    expect(store.notifications).toEqual([]);
+  });
+
+  it("refuses comments on unpublished posts", async () => {
+    const draft = post(author, { status: "draft" });
+    const store = createTestApi({ profiles: [author, reader], posts: [draft] });
+
+    const response = await POST(
+      apiRequest("/api/comments", {
+        method: "POST",
+        as: reader,
+        body: { post_id: draft.id, content: "Early" },
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(400);
+    expect(store.comments).toHaveLength(0);
+  });
+
+  it("requires a signed-in user", async () => {
+    const article = post(author);
+    createTestApi({ profiles: [author], posts: [article] });
+
+    const response = await POST(
+      apiRequest("/api/comments", {
+        method: "POST",
+        body: { post_id: article.id, content: "Anonymous" },
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).error.code).toBe("AUTH_REQUIRED");
+  });
+
+  it("lists top threads by like count", async () => {
+    const article = post(author);
+    const quiet = comment(article, reader, { like_count: 0 });
+    const popular = comment(article, reader, { like_count: 5 });
+    const liked = comment(article, reader, { like_count: 2 });
+    createTestApi({
+      profiles: [author, reader],
+      posts: [article],
+      comments: [quiet, popular, liked],
+    });
+
+    const response = await GET(
+      apiRequest(`/api/comments?post_id=${article.id}&sort=top`)
+    );
+
+    expect(response.status).toBe(200);
+    const { data } = await response.json();
+    expect(data.comments.map(({ id }: { id: string }) => id)).toEqual([
+      popular.id,
+      liked.id,
+      quiet.id,
+    ]);
+  });
+
+  it("lets the author soft delete their comment", async () => {
+    const article = post(author);
+    const own = comment(article, reader);
+    const store = createTestApi({
+      profiles: [author, reader],
+      posts: [article],
+      comments: [own],
+    });
+
+    const response = await deleteComment(
+      apiRequest(`/api/comments/${own.id}`, { method: "DELETE", as: reader }),
+      params(own.id)
+    );
+
+    expect(response.status).toBe(200);
+    expect(store.comments[0]).toMatchObject({ status: "deleted" });
+    expect(store.comments[0].deleted_at).not.toBeNull();
+  });
+
+  it("does not let other readers delete a comment", async () => {
+    const article = post(author);
+    const own = comment(article, author);
+    const store = createTestApi({
+      profiles: [author, reader],
+      posts: [article],
+      comments: [own],
+    });
+
+    const response = await deleteComment(
+      apiRequest(`/api/comments/${own.id}`, { method: "DELETE", as: reader }),
+      params(own.id)
+    );
+
+    expect(response.status).toBe(403);
+    expect(store.comments[0].status).toBe("published");
+  });
+});
@@ -0,0 +1,48 @@
+// src/__tests__/digests.test.ts
+import { randomUUID } from "crypto";
+import { describe, expect, it } from "vitest";
+import { buildWeeklyDigest, getDigestPeriod } from "@/lib/digestService";
+import { comment, createTestApi, post, profile } from "./support/api";
+
+describe("weekly digest", () => {
+  const author = profile("author");
+  const reader = profile("reader");
+  // Monday 2026-03-02 up to Monday 2026-03-09
+  const period = getDigestPeriod(new Date("2026-03-10T12:00:00.000Z"));
+  const during = "2026-03-04T12:00:00.000Z";
+  const before = "2026-02-20T12:00:00.000Z";
+
+  it("counts only the week's posts and engagement", async () => {
+    const fresh = post(author, { published_at: during, view_count: 40 });
+    const old = post(author, { published_at: before, view_count: 900 });
+    createTestApi({
+      profiles: [author, reader],
+      posts: [fresh, old],
+      comments: [
+        comment(fresh, reader, { created_at: during }),
+        comment(old, reader, { created_at: before }),
+      ],
+      follows: [
+        {
+          id: randomUUID(),
+          follower_id: reader.id,
+          following_id: author.id,
+          created_at: during,
+        },
+      ],
+    });
+
+    const digest = await buildWeeklyDigest(author.id, period);
+
+    expect(digest.periodStart).toBe("2026-03-02");
+    expect(digest.stats).toEqual({
+      published: 1,
+      views: 40,
+      reactions_received: 0,
+      comments_received: 1,
+      followers_gained: 1,
+    });
+    expect(digest.topComments).toMatchObject([{ postTitle: fresh.title }]);
+    expect(digest.newFollowers).toEqual({ total: 1, names: ["reader"] });
+  });
+});
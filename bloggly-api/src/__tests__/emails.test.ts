@@ -0,0 +1,87 @@
+// src/__tests__/emails.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  generateActivityNotificationEmail,
+  generateCollaborationEmail,
+  generateWeeklyDigestEmail,
+} from "@/lib/emailService";
+
+const title = `<img src=x onerror="alert(1)">`;
+
+describe("notification emails", () => {
+  it("escapes user content in the HTML body only", () => {
+    const email = generateCollaborationEmail(
+      "ada@example.com",
+      "Ada",
+      "<b>Bob</b>",
+      title,
+      "a-post",
+      "invited",
+      "editor"
+    );
+
+    expect(email.html).not.toContain("<img");
+    expect(email.html).toContain(
+      "<strong>&lt;b&gt;Bob&lt;/b&gt;</strong> invited you"
+    );
+    expect(email.text).toContain(`<b>Bob</b> invited you to join "${title}"`);
+  });
+
+  it("escapes comment excerpts and digest entries", () => {
+    const activity = generateActivityNotificationEmail(
+      "ada@example.com",
+      "Ada",
+      {
+        kind: "comment",
+        actorNames: ["Bob"],
+        actorCount: 1,
+        postTitle: title,
+        postSlug: "a-post",
+        latestExcerpt: "</p><script>steal()</script>",
+        count: 1,
+      }
+    );
+    const digest = generateWeeklyDigestEmail("ada@example.com", "Ada", {
+      periodStart: "2026-03-02",
+      periodEnd: "2026-03-08",
+      posts: [
+        {
+          title,
+          slug: "a-post",
+          excerpt: "<script>steal()</script>",
+          authorName: "Bob",
+          reason: "followed_author",
+        },
+      ],
+      topComments: [],
+      newFollowers: { total: 1, names: ["<i>Cy</i>"] },
+      stats: {
+        published: 0,
+        views: 0,
+        reactions_received: 0,
+        comments_received: 0,
+        followers_gained: 1,
+      },
+    });
+
+    for (const html of [activity.html, digest.html]) {
+      expect(html).not.toContain("<img");
+      expect(html).not.toContain("<script>");
+    }
+    expect(digest.html).toContain("&lt;i&gt;Cy&lt;/i&gt;");
+  });
+
+  it("counts every actor, not only the names it is given", () => {
+    const email = generateActivityNotificationEmail("ada@example.com", "Ada", {
+      kind: "reply",
+      actorNames: ["Bob", "Cy", "Dee", "Eve", "Fay"],
+      actorCount: 8,
+      postTitle: "A post",
+      postSlug: "a-post",
+      latestExcerpt: "Agreed",
+      count: 9,
+    });
+
+    expect(email.text).toContain("Bob and 7 others left 9 new replies");
+  });
+});
@@ -0,0 +1,95 @@
+// src/__tests__/follows.test.ts
+import { randomUUID } from "crypto";
+import { describe, expect, it } from "vitest";
+import { POST as follow } from "@/app/api/users/[id]/follow/route";
+import { GET as listFollowers } from "@/app/api/users/[id]/followers/route";
+import { apiRequest, createTestApi, params, profile } from "./support/api";
+
+describe("follows", () => {
+  const author = profile("author");
+  const reader = profile("reader");
+  const lurker = profile("lurker");
+
+  it("follows a user once and notifies them once", async () => {
+    const store = createTestApi({ profiles: [author, reader] });
+    const followAuthor = () =>
+      follow(
+        apiRequest(`/api/users/${author.id}/follow`, {
+          method: "POST",
+          as: reader,
+        }),
+        params(author.id)
+      );
+
+    const first = await followAuthor();
+    expect(first.status).toBe(201);
+    expect((await first.json()).data).toEqual({
+      is_following: true,
+      follows_you: false,
+      is_mutual: false,
+    });
+    expect((await followAuthor()).status).toBe(200);
+
+    expect(store.follows).toHaveLength(1);
+    expect(store.notifications).toMatchObject([
+      { user_id: author.id, actor_id: reader.id, type: "follow" },
+    ]);
+    expect(store.activityLogs).toMatchObject([
+      { action: "user_followed", resource_id: author.id },
+    ]);
+  });
+
+  it("pages followers newest first and flags mutual follows", async () => {
+    const followRow = (from: string, to: string, createdAt: string) => ({
+      id: randomUUID(),
+      follower_id: from,
+      following_id: to,
+      created_at: createdAt,
+    });
+    createTestApi({
+      profiles: [author, reader, lurker],
+      follows: [
+        // Followed in the same instant, so only the id tells them apart
+        followRow(reader.id, author.id, "2026-01-02T00:00:00.000Z"),
+        followRow(lurker.id, author.id, "2026-01-02T00:00:00.000Z"),
+        followRow(author.id, reader.id, "2026-01-03T00:00:00.000Z"),
+      ],
+    });
+
+    const response = await listFollowers(
+      apiRequest(`/api/users/${author.id}/followers?limit=1`),
+      params(author.id)
+    );
+    const { data, meta } = await response.json();
+    expect(data.followers).toHaveLength(1);
+
+    const next = await listFollowers(
+      apiRequest(
+        `/api/users/${author.id}/followers?cursor=${meta.pagination.next_cursor}`
+      ),
+      params(author.id)
+    );
+    const followers = [
+      ...data.followers,
+      ...(await next.json()).data.followers,
+    ];
+    expect(followers).toHaveLength(2);
+    expect(followers).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ id: lurker.id, is_mutual: false }),
+        expect.objectContaining({ id: reader.id, is_mutual: true }),
+      ])
+    );
+  });
+
+  it("rejects a cursor it did not issue", async () => {
+    createTestApi({ profiles: [author] });
+
+    const response = await listFollowers(
+      apiRequest(`/api/users/${author.id}/followers?cursor=2026-01-02`),
+      params(author.id)
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
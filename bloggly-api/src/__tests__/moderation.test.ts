@@ -0,0 +1,317 @@
+// src/__tests__/moderation.test.ts
+import { describe, expect, it } from "vitest";
+import { GET as listComments } from "@/app/api/admin/comments/route";
+import { GET as listReports } from "@/app/api/admin/reports/route";
+import {
+  DELETE as deleteComment,
+  POST as moderateComment,
+} from "@/app/api/admin/comments/[id]/route";
+import {
+  POST as actOnReport,
+  PUT as updateReport,
+} from "@/app/api/admin/reports/[id]/route";
+import {
+  apiRequest,
+  comment,
+  createTestApi,
+  params,
+  post,
+  profile,
+  report,
+} from "./support/api";
+
+describe("comment moderation", () => {
+  const admin = profile("admin", "admin");
+  const moderator = profile("moderator", "moderator");
+  const author = profile("author");
+  const reader = profile("reader");
+
+  it("marks a comment as spam and tells its author", async () => {
+    const article = post(author);
+    const target = comment(article, reader);
+    const store = createTestApi({
+      profiles: [moderator, author, reader],
+      posts: [article],
+      comments: [target],
+    });
+
+    const response = await moderateComment(
+      apiRequest(`/api/admin/comments/${target.id}`, {
+        method: "POST",
+        as: moderator,
+        body: { action_type: "mark_spam", reason: "Link farm" },
+      }),
+      params(target.id)
+    );
+
+    expect(response.status).toBe(200);
+    expect(store.comments[0]).toMatchObject({
+      status: "flagged",
+      is_flagged_as_spam: true,
+    });
+    expect(store.adminActions).toMatchObject([
+      {
+        admin_id: moderator.id,
+        action_type: "comment_moderation_action",
+        target_id: target.id,
+      },
+    ]);
+    expect(store.notifications).toMatchObject([
+      { user_id: reader.id, type: "moderation" },
+    ]);
+  });
+
+  it("keeps the previous content when editing a comment", async () => {
+    const article = post(author);
+    const target = comment(article, reader, { content: "Original" });
+    const store = createTestApi({
+      profiles: [moderator, author, reader],
+      posts: [article],
+      comments: [target],
+    });
+
+    const response = await moderateComment(
+      apiRequest(`/api/admin/comments/${target.id}`, {
+        method: "POST",
+        as: moderator,
+        body: { action_type: "edit_comment", new_content: "Redacted" },
+      }),
+      params(target.id)
+    );
+
+    expect(response.status).toBe(200);
+    expect(store.comments[0].content).toBe("Redacted");
+    expect(store.commentEdits).toMatchObject([
+      { comment_id: target.id, previous_content: "Original" },
+    ]);
+  });
+
+  it("turns away readers with FORBIDDEN", async () => {
+    const article = post(author);
+    const target = comment(article, reader);
+    const store = createTestApi({
+      profiles: [author, reader],
+      posts: [article],
+      comments: [target],
+    });
+
+    const response = await moderateComment(
+      apiRequest(`/api/admin/comments/${target.id}`, {
+        method: "POST",
+        as: reader,
+        body: { action_type: "delete_comment" },
+      }),
+      params(target.id)
+    );
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error.code).toBe("FORBIDDEN");
+    expect(store.comments[0].status).toBe("published");
+  });
+
+  it("deletes a comment with its replies at every depth", async () => {
+    const article = post(author);
+    const root = comment(article, reader);
+    const reply = comment(article, author, { parent_id: root.id });
+    const nested = comment(article, reader, { parent_id: reply.id });
+    const other = comment(article, author);
+    // Deepest first, so one pass in storage order would miss a level
+    const store = createTestApi({
+      profiles: [admin, author, reader],
+      posts: [article],
+      comments: [nested, reply, root, other],
+      reactions: [
+        {
+          id: "reaction-1",
+          comment_id: nested.id,
+          user_id: author.id,
+          reaction_type: "like",
+          created_at: nested.created_at,
+          updated_at: null,
+        },
+      ],
+    });
+
+    const response = await deleteComment(
+      apiRequest(`/api/admin/comments/${root.id}`, {
+        method: "DELETE",
+        as: admin,
+      }),
+      params(root.id)
+    );
+
+    expect(response.status).toBe(200);
+    expect(store.comments.map(({ id }) => id)).toEqual([other.id]);
+    expect(store.reactions).toHaveLength(0);
+  });
+});
+
+describe("report moderation", () => {
+  const moderator = profile("moderator", "moderator");
+  const author = profile("author");
+  const reader = profile("reader");
+
+  it("records the review of a report", async () => {
+    const article = post(author);
+    const pending = report(reader, {
+      reported_content_type: "post",
+      reported_content_id: article.id,
+    });
+    const store = createTestApi({
+      profiles: [moderator, author, reader],
+      posts: [article],
+      reports: [pending],
+    });
+
+    const response = await updateReport(
+      apiRequest(`/api/admin/reports/${pending.id}`, {
+        method: "PUT",
+        as: moderator,
+        body: { status: "dismissed", admin_notes: "Not spam" },
+      }),
+      params(pending.id)
+    );
+
+    expect(response.status).toBe(200);
+    expect(store.reports[0]).toMatchObject({
+      status: "dismissed",
+      reviewed_by: moderator.id,
+      admin_notes: "Not spam",
+    });
+    expect(store.reports[0].reviewed_at).not.toBeNull();
+  });
+
+  it("removes reported content and resolves the report", async () => {
+    const article = post(author);
+    const target = comment(article, reader);
+    const pending = report(author, {
+      reported_content_type: "comment",
+      reported_content_id: target.id,
+    });
+    const store = createTestApi({
+      profiles: [moderator, author, reader],
+      posts: [article],
+      comments: [target],
+      reports: [pending],
+    });
+
+    const response = await actOnReport(
+      apiRequest(`/api/admin/reports/${pending.id}`, {
+        method: "POST",
+        as: moderator,
+        body: { action_type: "delete_content" },
+      }),
+      params(pending.id)
+    );
+
+    expect(response.status).toBe(200);
+    expect(store.comments[0].status).toBe("deleted");
+    expect(store.reports[0]).toMatchObject({
+      status: "resolved",
+      action_taken: "Comment deleted",
+    });
+  });
+
+  it("sends a warning to the author of reported content", async () => {
+    const article = post(author);
+    const pending = report(reader, {
+      reported_content_type: "post",
+      reported_content_id: article.id,
+    });
+    const store = createTestApi({
+      profiles: [moderator, author, reader],
+      posts: [article],
+      reports: [pending],
+    });
+
+    const response = await actOnReport(
+      apiRequest(`/api/admin/reports/${pending.id}`, {
+        method: "POST",
+        as: moderator,
+        body: { action_type: "warn_user", reason: "Keep it civil" },
+      }),
+      params(pending.id)
+    );
+
+    expect(response.status).toBe(200);
+    expect(store.notifications).toMatchObject([
+      { user_id: author.id, type: "warning" },
+    ]);
+    expect(store.reports[0].status).toBe("reviewed");
+  });
+
+  it("lists flagged comments with their pending reports", async () => {
+    const article = post(author);
+    const flagged = comment(article, reader, {
+      status: "flagged",
+      content: "Buy cheap watches",
+    });
+    const fine = comment(article, author);
+    createTestApi({
+      profiles: [moderator, author, reader],
+      posts: [article],
+      comments: [flagged, fine],
+      reports: [
+        report(author, {
+          reported_content_type: "comment",
+          reported_content_id: flagged.id,
+        }),
+      ],
+    });
+
+    const response = await listComments(
+      apiRequest("/api/admin/comments?status=flagged", { as: moderator })
+    );
+
+    expect(response.status).toBe(200);
+    const { data, meta } = await response.json();
+    expect(data.comments).toMatchObject([
+      {
+        id: flagged.id,
+        author: { username: "reader" },
+        post: { id: article.id, author: { username: "author" } },
+        reports_count: 1,
+        has_pending_reports: true,
+      },
+    ]);
+    expect(data.statistics).toMatchObject({
+      status_counts: { flagged: 1, published: 1 },
+      total_reported: 1,
+    });
+    expect(meta.pagination).toMatchObject({ total: 1 });
+  });
+
+  it("lists reports with the reported content", async () => {
+    const article = post(author);
+    const target = comment(article, reader);
+    createTestApi({
+      profiles: [moderator, author, reader],
+      posts: [article],
+      comments: [target],
+      reports: [
+        report(author, {
+          reported_content_type: "comment",
+          reported_content_id: target.id,
+        }),
+        report(reader, {
+          reported_content_type: "user",
+          reported_content_id: author.id,
+        }),
+      ],
+    });
+
+    const response = await listReports(
+      apiRequest("/api/admin/reports?type=comment", { as: moderator })
+    );
+
+    expect(response.status).toBe(200);
+    const { data } = await response.json();
+    expect(data.reports).toMatchObject([
+      {
+        reported_content_id: target.id,
+        reporter: { username: "author" },
+        content_details: { id: target.id, author: { username: "reader" } },
+      },
+    ]);
+  });
+});
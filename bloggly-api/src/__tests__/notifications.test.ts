@@ -0,0 +1,168 @@
+// src/__tests__/notifications.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  DELETE as deleteNotifications,
+  GET as listNotifications,
+  POST as updateNotifications,
+} from "@/app/api/notifications/route";
+import {
+  apiRequest,
+  createTestApi,
+  notification,
+  profile,
+} from "./support/api";
+
+describe("notifications", () => {
+  const reader = profile("reader");
+  const ada = { ...profile("ada"), display_name: "Ada" };
+  const grace = { ...profile("grace"), display_name: "Grace" };
+  const stranger = profile("stranger");
+
+  // Two rows of one group (the second beyond the coalescing window), and an
+  // ungrouped row in between. Built per test, as handlers update them.
+  const inbox = () => ({
+    earlier: notification(reader, {
+      type: "reaction",
+      group_key: "reaction:post-1",
+      actor_id: ada.id,
+      actor_ids: [ada.id],
+      actor_count: 1,
+      updated_at: "2026-10-01T10:00:00.000Z",
+    }),
+    follow: notification(reader, {
+      type: "follow",
+      updated_at: "2026-10-02T10:00:00.000Z",
+    }),
+    later: notification(reader, {
+      type: "reaction",
+      group_key: "reaction:post-1",
+      actor_id: grace.id,
+      actor_ids: [grace.id],
+      actor_count: 1,
+      updated_at: "2026-10-03T10:00:00.000Z",
+    }),
+  });
+
+  it("lists the reader's notifications, latest activity first", async () => {
+    const { earlier, follow, later } = inbox();
+    createTestApi({
+      profiles: [reader, ada, grace, stranger],
+      notifications: [earlier, follow, later, notification(stranger)],
+    });
+
+    const response = await listNotifications(
+      apiRequest("/api/notifications?limit=2", { as: reader }),
+      undefined
+    );
+
+    expect(response.status).toBe(200);
+    const { data, meta } = await response.json();
+    expect(data.notifications.map(({ id }: { id: string }) => id)).toEqual([
+      later.id,
+      follow.id,
+    ]);
+    expect(data.notifications[0].actor).toMatchObject({ username: "grace" });
+    expect(data.unread_count).toBe(3);
+    expect(meta.pagination).toMatchObject({ total: 3, pages: 2 });
+  });
+
+  it("merges rows of a group and names its latest actors", async () => {
+    const { earlier, follow, later } = inbox();
+    createTestApi({
+      profiles: [reader, ada, grace],
+      notifications: [earlier, follow, later],
+    });
+
+    const response = await listNotifications(
+      apiRequest("/api/notifications?grouped=true", { as: reader }),
+      undefined
+    );
+
+    expect(response.status).toBe(200);
+    const { data, meta } = await response.json();
+    expect(data.groups).toMatchObject([
+      {
+        group_key: "reaction:post-1",
+        notification_ids: [later.id, earlier.id],
+        actor_count: 2,
+        unread_count: 2,
+      },
+      { group_key: null, notification_ids: [follow.id] },
+    ]);
+    expect(
+      data.groups[0].actors.map(
+        ({ username }: { username: string }) => username
+      )
+    ).toEqual(["grace", "ada"]);
+    expect(meta.pagination.total).toBe(2);
+  });
+
+  it("marks a whole group read", async () => {
+    const { earlier, follow, later } = inbox();
+    const store = createTestApi({
+      profiles: [reader],
+      notifications: [earlier, follow, later],
+    });
+
+    const response = await updateNotifications(
+      apiRequest("/api/notifications", {
+        method: "POST",
+        as: reader,
+        body: { group_keys: ["reaction:post-1"], action: "mark_read" },
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(200);
+    expect(store.notifications.map(({ id, is_read }) => [id, is_read])).toEqual(
+      [
+        [earlier.id, true],
+        [follow.id, false],
+        [later.id, true],
+      ]
+    );
+  });
+
+  it("refuses to mark notifications of another user", async () => {
+    const { follow } = inbox();
+    const theirs = notification(stranger);
+    const store = createTestApi({
+      profiles: [reader, stranger],
+      notifications: [follow, theirs],
+    });
+
+    const response = await updateNotifications(
+      apiRequest("/api/notifications", {
+        method: "POST",
+        as: reader,
+        body: { notification_ids: [follow.id, theirs.id], action: "mark_read" },
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(403);
+    expect(store.notifications.every(({ is_read }) => !is_read)).toBe(true);
+  });
+
+  it("deletes only read notifications with read=true", async () => {
+    const { follow } = inbox();
+    const read = notification(reader, { is_read: true });
+    const store = createTestApi({
+      profiles: [reader, stranger],
+      notifications: [read, follow, notification(stranger, { is_read: true })],
+    });
+
+    const response = await deleteNotifications(
+      apiRequest("/api/notifications?read=true", {
+        method: "DELETE",
+        as: reader,
+      }),
+      undefined
+    );
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.deleted_count).toBe(1);
+    expect(store.notifications).toHaveLength(2);
+    expect(store.notifications.map(({ id }) => id)).not.toContain(read.id);
+  });
+});
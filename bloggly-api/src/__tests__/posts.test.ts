@@ -0,0 +1,150 @@
+// src/__tests__/posts.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  DELETE as deletePost,
+  GET as getPost,
+  PUT as updatePost,
+} from "@/app/api/posts/[idOrSlug]/route";
+import { POST as inviteCollaborator } from "@/app/api/posts/[idOrSlug]/collaborators/route";
+import { POST as respondToInvitation } from "@/app/api/posts/[idOrSlug]/collaborators/[userId]/route";
+import { GET as listRevisions } from "@/app/api/posts/[idOrSlug]/revisions/route";
+import { processScheduledPosts } from "@/lib/publishingService";
+import { apiRequest, createTestApi, post, profile } from "./support/api";
+
+const postParams = (idOrSlug: string) => ({ params: { idOrSlug } });
+
+describe("posts", () => {
+  const author = profile("author");
+  const editor = profile("editor");
+
+  it("keeps the original content as a revision before the first edit", async () => {
+    const article = post(author, { content_markdown: "First draft" });
+    const store = createTestApi({ profiles: [author], posts: [article] });
+
+    const response = await updatePost(
+      apiRequest(`/api/posts/${article.slug}`, {
+        method: "PUT",
+        as: author,
+        body: { content_markdown: "Second draft" },
+      }),
+      postParams(article.slug)
+    );
+
+    expect(response.status).toBe(200);
+    expect(store.posts[0]).toMatchObject({
+      content_markdown: "Second draft",
+      excerpt: "Second draft",
+      reading_time: 1,
+    });
+
+    const listed = await listRevisions(
+      apiRequest(`/api/posts/${article.id}/revisions`, { as: author }),
+      postParams(article.id)
+    );
+    const { data } = await listed.json();
+    expect(data.revisions).toMatchObject([
+      { revision_number: 2, change_summary: "Updated content, excerpt" },
+      { revision_number: 1, change_summary: "Original version" },
+    ]);
+    expect(store.activityLogs).toMatchObject([
+      {
+        action: "post_updated",
+        metadata: { revision_number: 2, was_author: true },
+      },
+    ]);
+  });
+
+  it("lets an invited editor edit once they accept", async () => {
+    const article = post(author);
+    const store = createTestApi({
+      profiles: [author, editor],
+      posts: [article],
+    });
+    const edit = () =>
+      updatePost(
+        apiRequest(`/api/posts/${article.id}`, {
+          method: "PUT",
+          as: editor,
+          body: { title: "A better title" },
+        }),
+        postParams(article.id)
+      );
+
+    const invited = await inviteCollaborator(
+      apiRequest(`/api/posts/${article.id}/collaborators`, {
+        method: "POST",
+        as: author,
+        body: { user_id: editor.id, role: "editor" },
+      }),
+      postParams(article.id)
+    );
+    expect(invited.status).toBe(201);
+    expect((await edit()).status).toBe(403);
+
+    const accepted = await respondToInvitation(
+      apiRequest(`/api/posts/${article.id}/collaborators/${editor.id}`, {
+        method: "POST",
+        as: editor,
+        body: { action: "accept" },
+      }),
+      { params: { idOrSlug: article.id, userId: editor.id } }
+    );
+    expect(accepted.status).toBe(200);
+
+    expect((await edit()).status).toBe(200);
+    // Published posts keep their slug
+    expect(store.posts[0]).toMatchObject({
+      title: "A better title",
+      slug: article.slug,
+    });
+    expect(store.notifications).toMatchObject([
+      { user_id: editor.id, type: "collaboration_invited" },
+      { user_id: author.id, type: "collaboration_accepted" },
+    ]);
+  });
+
+  it("only lets the author delete a post, which then reads as missing", async () => {
+    const article = post(author);
+    const store = createTestApi({
+      profiles: [author, editor],
+      posts: [article],
+    });
+    const remove = (as: typeof author) =>
+      deletePost(
+        apiRequest(`/api/posts/${article.id}`, { method: "DELETE", as }),
+        postParams(article.id)
+      );
+
+    expect((await remove(editor)).status).toBe(403);
+    expect((await remove(author)).status).toBe(200);
+    expect(store.posts[0].status).toBe("deleted");
+
+    const response = await getPost(
+      apiRequest(`/api/posts/${article.slug}`),
+      postParams(article.slug)
+    );
+    expect(response.status).toBe(404);
+  });
+
+  it("unpublishes posts whose unpublish_at has passed, once", async () => {
+    const due = post(author, { unpublish_at: "2026-01-01T00:00:00.000Z" });
+    const later = post(author, { unpublish_at: "2026-03-01T00:00:00.000Z" });
+    const store = createTestApi({ profiles: [author], posts: [due, later] });
+    const now = new Date("2026-02-01T00:00:00.000Z");
+
+    expect(await processScheduledPosts(now)).toEqual({
+      published: [],
+      unpublished: [due.id],
+    });
+    expect(store.posts[0]).toMatchObject({
+      status: "draft",
+      unpublish_at: null,
+    });
+    expect(store.posts[1].status).toBe("published");
+
+    expect(await processScheduledPosts(now)).toEqual({
+      published: [],
+      unpublished: [],
+    });
+  });
+});
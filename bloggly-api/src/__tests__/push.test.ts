@@ -0,0 +1,132 @@
+// src/__tests__/push.test.ts
+import { randomUUID } from "crypto";
+import { afterEach, describe, expect, it } from "vitest";
+import { dispatchNotification } from "@/lib/notificationService";
+import {
+  PushSubscriptionInput,
+  PushTransport,
+  savePushSubscription,
+  sendPushToUsers,
+  setPushTransport,
+} from "@/lib/pushService";
+import { PushSubscriptionRecord } from "@/lib/repositories";
+import { createTestApi, profile } from "./support/api";
+
+function subscription(
+  owner: { id: string },
+  endpoint: string
+): PushSubscriptionRecord {
+  return {
+    id: randomUUID(),
+    user_id: owner.id,
+    endpoint,
+    p256dh: "p256dh-key",
+    auth: "auth-secret",
+    user_agent: null,
+    created_at: "2026-01-01T00:00:00.000Z",
+    last_used_at: null,
+  };
+}
+
+// Answers with the status code given for each endpoint, 201 by default
+function fakePushService(statusCodes: Record<string, number> = {}) {
+  const sent: { subscription: PushSubscriptionInput; payload: unknown }[] = [];
+  const transport: PushTransport = {
+    async send(subscription, payload) {
+      sent.push({ subscription, payload: JSON.parse(payload) });
+      return { statusCode: statusCodes[subscription.endpoint] || 201 };
+    },
+  };
+  setPushTransport(transport);
+  return sent;
+}
+
+describe("push delivery", () => {
+  const author = profile("author");
+  const reader = profile("reader");
+  const phone = "https://fcm.googleapis.com/fcm/send/phone";
+  const laptop = "https://updates.push.services.mozilla.com/wpush/v2/laptop";
+
+  afterEach(() => {
+    setPushTransport(null);
+  });
+
+  it("sends a dispatched notification to each of the recipient's devices", async () => {
+    const store = createTestApi({
+      profiles: [author, reader],
+      pushSubscriptions: [
+        subscription(reader, phone),
+        subscription(reader, laptop),
+      ],
+    });
+    const sent = fakePushService();
+
+    await dispatchNotification({
+      type: "follow",
+      recipients: { userIds: [reader.id] },
+      actorId: author.id,
+      title: "New follower",
+      message: "author started following you",
+      data: { follower_id: author.id, follower_username: "author" },
+      channels: ["push"],
+    });
+
+    expect(sent.map((message) => message.subscription.endpoint).sort()).toEqual(
+      [phone, laptop].sort()
+    );
+    expect(sent[0]).toMatchObject({
+      subscription: { keys: { p256dh: "p256dh-key", auth: "auth-secret" } },
+      payload: {
+        title: "New follower",
+        body: "author started following you",
+        type: "follow",
+        data: { follower_id: author.id, follower_username: "author" },
+      },
+    });
+    expect(
+      store.pushSubscriptions.every((device) => device.last_used_at !== null)
+    ).toBe(true);
+  });
+
+  it("deletes devices the push service reports as gone", async () => {
+    const gone = "https://fcm.googleapis.com/fcm/send/gone";
+    const store = createTestApi({
+      profiles: [reader],
+      pushSubscriptions: [
+        subscription(reader, phone),
+        subscription(reader, laptop),
+        subscription(reader, gone),
+      ],
+    });
+    fakePushService({ [laptop]: 404, [gone]: 410, [phone]: 500 });
+
+    expect(
+      await sendPushToUsers([reader.id], {
+        title: "Hello",
+        body: "Hi",
+        type: "system",
+        data: {},
+      })
+    ).toEqual({ sent: 0, failed: 1, pruned: 2 });
+    // A server error is retried next time rather than pruned
+    expect(store.pushSubscriptions.map((device) => device.endpoint)).toEqual([
+      phone,
+    ]);
+  });
+
+  it("refuses to register an endpoint outside the known push services", async () => {
+    const store = createTestApi({ profiles: [reader] });
+
+    await expect(
+      savePushSubscription(
+        reader.id,
+        {
+          endpoint: "https://internal.example.com/hook",
+          keys: { p256dh: "p256dh-key", auth: "auth-secret" },
+        },
+        null
+      )
+    ).rejects.toMatchObject({ status: 400 });
+    expect(store.pushSubscriptions).toEqual([]);
+  });
+});
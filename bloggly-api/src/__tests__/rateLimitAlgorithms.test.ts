@@ -0,0 +1,165 @@
+// src/__tests__/rateLimitAlgorithms.test.ts
+import { describe, expect, it } from "vitest";
+import {
+  consumeSlidingWindow,
+  consumeTokenBucket,
+  getStateTtlMs,
+  SlidingWindowState,
+  TokenBucketState,
+} from "@/lib/rateLimit/algorithms";
+import { RateLimitPolicy } from "@/lib/rateLimit";
+
+const slidingWindow: RateLimitPolicy = {
+  algorithm: "sliding_window",
+  limit: 4,
+  windowMs: 1000,
+};
+const tokenBucket: RateLimitPolicy = {
+  algorithm: "token_bucket",
+  limit: 4,
+  windowMs: 1000,
+};
+
+// Feeds each request the state the previous one left
+function run<S>(
+  consume: (
+    state: S | null,
+    policy: RateLimitPolicy,
+    now: number
+  ) => {
+    state: S;
+    decision: ReturnType<typeof consumeTokenBucket>["decision"];
+  },
+  policy: RateLimitPolicy,
+  times: number[]
+) {
+  let state: S | null = null;
+  return times.map((now) => {
+    const result = consume(state, policy, now);
+    state = result.state;
+    return result.decision;
+  });
+}
+
+describe("consumeSlidingWindow", () => {
+  it("allows up to the limit within a window", () => {
+    const decisions = run<SlidingWindowState>(
+      consumeSlidingWindow,
+      slidingWindow,
+      [10_000, 10_100, 10_200, 10_300, 10_400]
+    );
+
+    expect(decisions.map(({ allowed }) => allowed)).toEqual([
+      true,
+      true,
+      true,
+      true,
+      false,
+    ]);
+    expect(decisions.map(({ remaining }) => remaining)).toEqual([
+      3, 2, 1, 0, 0,
+    ]);
+    expect(decisions[0]).toMatchObject({ resetMs: 1000, retryAfterMs: 0 });
+  });
+
+  it("says when a full current window frees a slot", () => {
+    const [, , , , denied] = run<SlidingWindowState>(
+      consumeSlidingWindow,
+      slidingWindow,
+      [10_000, 10_100, 10_200, 10_300, 10_400]
+    );
+
+    // The first slot opens once 1/4 of the full window has slid out
+    expect(denied).toMatchObject({ retryAfterMs: 850, resetMs: 850 });
+    expect(
+      consumeSlidingWindow(
+        { window: 10, count: 4, previous: 0 },
+        slidingWindow,
+        11_250
+      ).decision.allowed
+    ).toBe(true);
+    expect(
+      consumeSlidingWindow(
+        { window: 10, count: 4, previous: 0 },
+        slidingWindow,
+        11_249
+      ).decision.allowed
+    ).toBe(false);
+  });
+
+  it("weights the previous window by how much of it still overlaps", () => {
+    // Halfway into window 11, half of window 10's four requests still count
+    const { decision, state } = consumeSlidingWindow(
+      { window: 10, count: 4, previous: 0 },
+      slidingWindow,
+      11_500
+    );
+
+    expect(decision).toMatchObject({ allowed: true, remaining: 1 });
+    expect(state).toEqual({ window: 11, count: 1, previous: 4 });
+  });
+
+  it("forgets windows older than the previous one", () => {
+    const { decision, state } = consumeSlidingWindow(
+      { window: 10, count: 4, previous: 4 },
+      slidingWindow,
+      12_000
+    );
+
+    expect(decision).toMatchObject({ allowed: true, remaining: 3 });
+    expect(state).toEqual({ window: 12, count: 1, previous: 0 });
+  });
+});
+
+describe("consumeTokenBucket", () => {
+  it("absorbs a burst of the full limit and then refuses", () => {
+    const decisions = run<TokenBucketState>(
+      consumeTokenBucket,
+      tokenBucket,
+      [10_000, 10_000, 10_000, 10_000, 10_000]
+    );
+
+    expect(decisions.map(({ allowed }) => allowed)).toEqual([
+      true,
+      true,
+      true,
+      true,
+      false,
+    ]);
+    // One token refills every 250ms
+    expect(decisions[4]).toMatchObject({
+      remaining: 0,
+      retryAfterMs: 250,
+      resetMs: 1000,
+    });
+  });
+
+  it("refills at limit per window and caps at the limit", () => {
+    const empty: TokenBucketState = { tokens: 0, updatedAt: 10_000 };
+
+    expect(
+      consumeTokenBucket(empty, tokenBucket, 10_249).decision.allowed
+    ).toBe(false);
+    expect(
+      consumeTokenBucket(empty, tokenBucket, 10_250).decision
+    ).toMatchObject({ allowed: true, remaining: 0 });
+    expect(consumeTokenBucket(empty, tokenBucket, 60_000).state.tokens).toBe(3);
+  });
+
+  it("does not refill when the clock goes backwards", () => {
+    const { state } = consumeTokenBucket(
+      { tokens: 1, updatedAt: 10_000 },
+      tokenBucket,
+      9_000
+    );
+
+    expect(state.tokens).toBe(0);
+  });
+});
+
+describe("getStateTtlMs", () => {
+  it("keeps sliding window state for two windows and buckets for one", () => {
+    expect(getStateTtlMs(slidingWindow)).toBe(2000);
+    expect(getStateTtlMs(tokenBucket)).toBe(1000);
+  });
+});
@@ -0,0 +1,137 @@
+// src/__tests__/rateLimitStores.test.ts
+import RedisMock from "ioredis-mock";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  getRateLimitPrincipal,
+  MemoryRateLimitStore,
+  RateLimitAlgorithm,
+  RedisRateLimitStore,
+  setRateLimitStore,
+  withRateLimit,
+} from "@/lib/rateLimit";
+import { NextRequest } from "next/server";
+
+// An in-process stand-in for a Redis server that runs the store's Lua
+// script, wired up through the ioredis adapter from redisStore.ts
+function createRedisStore() {
+  const redis = new RedisMock();
+  return {
+    redis,
+    store: new RedisRateLimitStore({
+      eval: (script, keys, args) =>
+        redis.eval(script, keys.length, ...keys, ...args),
+    }),
+  };
+}
+
+// Bursts, gaps shorter than a window and gaps longer than two
+const REQUEST_TIMES = [
+  10_000, 10_001, 10_002, 10_003, 10_250, 10_800, 11_050, 11_400, 11_401,
+  11_402, 11_999, 12_500, 14_000, 14_001, 19_000,
+];
+
+describe("RedisRateLimitStore", () => {
+  it.each<RateLimitAlgorithm>(["sliding_window", "token_bucket"])(
+    "decides %s requests as the in-memory store does",
+    async (algorithm) => {
+      const { store } = createRedisStore();
+      const memory = new MemoryRateLimitStore();
+
+      for (const limit of [1, 3, 10]) {
+        const policy = { algorithm, limit, windowMs: 1000 };
+        for (const now of REQUEST_TIMES) {
+          const expected = await memory.consume(`key:${limit}`, policy, now);
+          await expect(
+            store.consume(`key:${limit}`, policy, now)
+          ).resolves.toEqual(expected);
+        }
+      }
+    }
+  );
+
+  it("keeps keys apart", async () => {
+    const { store } = createRedisStore();
+    const policy = {
+      algorithm: "sliding_window" as const,
+      limit: 1,
+      windowMs: 1000,
+    };
+
+    expect((await store.consume("a", policy, 10_000)).allowed).toBe(true);
+    expect((await store.consume("a", policy, 10_001)).allowed).toBe(false);
+    expect((await store.consume("b", policy, 10_002)).allowed).toBe(true);
+  });
+
+  it("expires state once it no longer matters", async () => {
+    const { redis, store } = createRedisStore();
+
+    await store.consume(
+      "bucket",
+      { algorithm: "token_bucket", limit: 5, windowMs: 60_000 },
+      Date.now()
+    );
+
+    const ttl = await redis.pttl("bucket");
+    expect(ttl).toBeGreaterThan(0);
+    expect(ttl).toBeLessThanOrEqual(60_000);
+  });
+
+  it("rejects a reply that is not the script's", async () => {
+    const store = new RedisRateLimitStore({ eval: async () => "OK" });
+
+    await expect(
+      store.consume(
+        "key",
+        { algorithm: "token_bucket", limit: 1, windowMs: 1000 },
+        10_000
+      )
+    ).rejects.toThrow("Unexpected reply from rate limit script");
+  });
+});
+
+describe("getRateLimitPrincipal", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const anonymous = (forwardedFor: string) =>
+    new Request("http://localhost/api/posts", {
+      headers: { "x-forwarded-for": forwardedFor },
+    });
+
+  it("counts a client by the address its proxy saw", async () => {
+    vi.stubEnv("TRUSTED_PROXY_COUNT", "1");
+
+    await expect(
+      getRateLimitPrincipal(anonymous("198.51.100.1, 203.0.113.7"))
+    ).resolves.toBe("ip:203.0.113.7");
+    // Rotating a forged left-hand entry does not give a fresh quota
+    await expect(
+      getRateLimitPrincipal(anonymous("198.51.100.2, 203.0.113.7"))
+    ).resolves.toBe("ip:203.0.113.7");
+  });
+
+  it("ignores X-Forwarded-For without trusted proxies", async () => {
+    await expect(
+      getRateLimitPrincipal(anonymous("203.0.113.7"))
+    ).resolves.toBeNull();
+  });
+
+  it("does not put anonymous callers without an address in one bucket", async () => {
+    setRateLimitStore(new MemoryRateLimitStore());
+    const limited = withRateLimit("api_general", async () => new Response());
+    const handler = (request: Request) => limited(new NextRequest(request), {});
+
+    try {
+      for (let i = 0; i < 101; i++) {
+        expect((await handler(anonymous("203.0.113.7"))).status).toBe(200);
+      }
+
+      // Production refuses to serve them instead of counting them together
+      vi.stubEnv("NODE_ENV", "production");
+      expect((await handler(anonymous("203.0.113.7"))).status).toBe(503);
+    } finally {
+      setRateLimitStore(null);
+    }
+  });
+});
@@ -0,0 +1,17 @@
+// src/__tests__/support/after.ts
+
+// Work handlers schedule with after() from next/server. Outside Next there
+// is no response to wait for, so setup.ts starts each task at once and
+// keeps it here for tests to await.
+const tasks: Promise<unknown>[] = [];
+
+export function scheduleAfterTask(task: (() => unknown) | Promise<unknown>) {
+  tasks.push(typeof task === "function" ? Promise.resolve().then(task) : task);
+}
+
+// Resolves once every task scheduled so far, and any they schedule, is done
+export async function afterResponse(): Promise<void> {
+  while (tasks.length > 0) {
+    await Promise.allSettled(tasks.splice(0));
+  }
+}
@@ -0,0 +1,142 @@
+// src/__tests__/support/api.ts
+import { randomUUID } from "crypto";
+import { NextRequest } from "next/server";
+import {
+  CommentRecord,
+  createInMemoryRepositories,
+  createInMemoryStore,
+  InMemoryStore,
+  PostRecord,
+  ProfileRecord,
+  ReportRecord,
+  setRepositories,
+} from "@/lib/repositories";
+
+export { afterResponse } from "./after";
+
+// Routes read and write the returned store through the in-memory
+// repositories, which accept the ids of its profiles as access tokens
+export function createTestApi(seed: Partial<InMemoryStore> = {}) {
+  const store = createInMemoryStore(seed);
+  setRepositories(createInMemoryRepositories(store));
+  return store;
+}
+
+export function apiRequest(
+  path: string,
+  options: { method?: string; as?: ProfileRecord; body?: unknown } = {}
+): NextRequest {
+  const headers = new Headers({ "content-type": "application/json" });
+  if (options.as) {
+    headers.set("authorization", `Bearer ${options.as.id}`);
+  }
+  return new NextRequest(new URL(path, "http://localhost"), {
+    method: options.method || "GET",
+    headers,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  });
+}
+
+export function params(id: string) {
+  return { params: { id } };
+}
+
+export function profile(
+  username: string,
+  role: string | null = null
+): ProfileRecord {
+  return {
+    id: randomUUID(),
+    username,
+    display_name: null,
+    avatar_url: null,
+    email: null,
+    role,
+  };
+}
+
+export function post(
+  author: ProfileRecord,
+  changes: Partial<InMemoryStore["posts"][number]> = {}
+): InMemoryStore["posts"][number] {
+  const id = randomUUID();
+  return {
+    id,
+    author_id: author.id,
+    title: "A post",
+    slug: `a-post-${id.slice(0, 8)}`,
+    status: "published",
+    allow_comments: true,
+    published_at: new Date().toISOString(),
+    ...changes,
+  };
+}
+
+export function comment(
+  onPost: PostRecord,
+  author: ProfileRecord,
+  changes: Partial<CommentRecord> = {}
+): CommentRecord {
+  const timestamp = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    post_id: onPost.id,
+    author_id: author.id,
+    parent_id: null,
+    content: "A comment",
+    status: "published",
+    is_spam: false,
+    is_flagged_as_spam: false,
+    like_count: 0,
+    created_at: timestamp,
+    updated_at: timestamp,
+    edited_at: null,
+    deleted_at: null,
+    ...changes,
+  };
+}
+
+export function report(
+  reporter: ProfileRecord,
+  content: Pick<ReportRecord, "reported_content_type" | "reported_content_id">
+): ReportRecord {
+  const timestamp = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    reporter_id: reporter.id,
+    ...content,
+    reason: "spam",
+    description: null,
+    severity: null,
+    status: "pending",
+    reviewed_by: null,
+    reviewed_at: null,
+    admin_notes: null,
+    action_taken: null,
+    created_at: timestamp,
+    updated_at: timestamp,
+  };
+}
+
+export function notification(
+  recipient: ProfileRecord,
+  changes: Partial<InMemoryStore["notifications"][number]> = {}
+): InMemoryStore["notifications"][number] {
+  const timestamp = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    user_id: recipient.id,
+    actor_id: null,
+    type: "comment",
+    title: "New comment",
+    message: "Someone commented on your post",
+    data: {},
+    group_key: null,
+    actor_ids: [],
+    actor_count: 0,
+    is_read: false,
+    created_at: timestamp,
+    updated_at: timestamp,
+    ...changes,
+  };
+}
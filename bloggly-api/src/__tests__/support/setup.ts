@@ -0,0 +1,35 @@
+// src/__tests__/support/setup.ts
+import { afterEach, vi } from "vitest";
+import { setRepositories } from "@/lib/repositories";
+import { setRateLimitStore } from "@/lib/rateLimit";
+import { invalidateSettingsCache } from "@/lib/settings";
+import { afterResponse } from "./after";
+
+// Handlers under test reach Supabase only through the repositories; fail
+// loudly if one talks to the client directly
+vi.mock("@/lib/supabaseAdmin", () => {
+  const client = new Proxy(
+    {},
+    {
+      get(_target, property) {
+        throw new Error(
+          `supabaseAdmin.${String(property)} used in a test; go through the repositories`
+        );
+      },
+    }
+  );
+  return { supabaseAdmin: client, getSupabaseAdmin: () => client };
+});
+
+vi.mock("next/server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("next/server")>()),
+  after: (await import("./after")).scheduleAfterTask,
+}));
+
+afterEach(async () => {
+  await afterResponse();
+  setRepositories(null);
+  setRateLimitStore(null);
+  invalidateSettingsCache();
+  vi.restoreAllMocks();
+});
@@ -0,0 +1,99 @@
+// src/__tests__/tags.test.ts
+import { randomUUID } from "crypto";
+import { describe, expect, it } from "vitest";
+import { POST as mergeTags } from "@/app/api/admin/tags/merge/route";
+import { GET as getTag } from "@/app/api/tags/[slug]/route";
+import { POST as followTag } from "@/app/api/tags/[slug]/follow/route";
+import { Tag } from "@/lib/repositories";
+import { apiRequest, createTestApi, post, profile } from "./support/api";
+
+function tag(name: string, changes: Partial<Tag> = {}): Tag {
+  return {
+    id: randomUUID(),
+    name,
+    slug: name.toLowerCase(),
+    description: null,
+    canonical_tag_id: null,
+    created_by: null,
+    created_at: "2026-01-01T00:00:00.000Z",
+    updated_at: "2026-01-01T00:00:00.000Z",
+    ...changes,
+  };
+}
+
+const slugParams = (slug: string) => ({ params: { slug } });
+
+describe("tags", () => {
+  const admin = profile("admin", "admin");
+  const reader = profile("reader");
+
+  it("merges a duplicate tag, moving its posts and followers", async () => {
+    const canonical = tag("JavaScript");
+    const duplicate = tag("JS");
+    const both = post(admin, { tags: ["JS", "JavaScript"] });
+    const tagged = post(admin, { tags: ["JS"] });
+    const store = createTestApi({
+      profiles: [admin, reader],
+      posts: [both, tagged],
+      tags: [canonical, duplicate],
+      postTags: [
+        { post_id: both.id, tag_id: canonical.id },
+        { post_id: both.id, tag_id: duplicate.id },
+        { post_id: tagged.id, tag_id: duplicate.id },
+      ],
+      tagFollows: [
+        { user_id: reader.id, tag_id: duplicate.id, created_at: "2026-01-02" },
+      ],
+    });
+
+    const response = await mergeTags(
+      apiRequest("/api/admin/tags/merge", {
+        method: "POST",
+        as: admin,
+        body: { source_tag_ids: [duplicate.id], target_tag_id: canonical.id },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.posts_updated).toBe(2);
+    expect(store.posts.map((article) => article.tags)).toEqual([
+      ["JavaScript"],
+      ["JavaScript"],
+    ]);
+    expect(store.adminActions).toMatchObject([
+      { action_type: "tags_merged", target_id: canonical.id },
+    ]);
+
+    const described = await getTag(
+      apiRequest("/api/tags/js", { as: reader }),
+      slugParams("js")
+    );
+    expect((await described.json()).data).toMatchObject({
+      id: canonical.id,
+      redirected_from: "js",
+      synonyms: [{ id: duplicate.id, slug: "js" }],
+      post_count: 2,
+      follower_count: 1,
+      is_following: true,
+    });
+  });
+
+  it("follows a synonym's canonical tag", async () => {
+    const canonical = tag("JavaScript");
+    const synonym = tag("JS", { canonical_tag_id: canonical.id });
+    const store = createTestApi({
+      profiles: [reader],
+      tags: [canonical, synonym],
+    });
+
+    const response = await followTag(
+      apiRequest("/api/tags/js/follow", { method: "POST", as: reader }),
+      slugParams("js")
+    );
+
+    expect(response.status).toBe(200);
+    expect(store.tagFollows).toMatchObject([
+      { user_id: reader.id, tag_id: canonical.id },
+    ]);
+  });
+});
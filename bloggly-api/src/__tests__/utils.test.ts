@@ -0,0 +1,20 @@
+// src/__tests__/utils.test.ts
+import { describe, expect, it } from "vitest";
+import { extractMentions } from "@/lib/utils";
+
+describe("extractMentions", () => {
+  it("finds each mentioned username once, in order", () => {
+    expect(
+      extractMentions("@ada thanks, and @grace_h too. cc @ada, (@linus)")
+    ).toEqual(["ada", "grace_h", "linus"]);
+  });
+
+  it("ignores an @ inside a word", () => {
+    expect(extractMentions("mail ada@example.com or @@ada")).toEqual([]);
+  });
+
+  it("caps how many users one comment can mention", () => {
+    const content = Array.from({ length: 30 }, (_, i) => `@user${i}`).join(" ");
+    expect(extractMentions(content)).toHaveLength(20);
+  });
+});
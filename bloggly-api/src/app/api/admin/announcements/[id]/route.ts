@@ -0,0 +1,144 @@
+// src/app/api/admin/announcements/[id]/route.ts
+import { queueAnnouncementNotification } from "@/lib/announcementService";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { requirePermission } from "@/lib/permissions";
+import { getRepositories } from "@/lib/repositories";
+import { updateAnnouncementSchema } from "@/lib/schemas/admin";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+const announcementIdSchema = z.string().uuid();
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check admin authorization
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "manage_announcements");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const announcementId = announcementIdSchema.parse(params.id);
+    const body = await request.json();
+    const changes = updateAnnouncementSchema.parse(body);
+    const { announcements, logs } = getRepositories();
+
+    const existing = await announcements.findById(announcementId);
+
+    if (!existing) {
+      return createErrorResponse("Announcement not found", 404);
+    }
+
+    // The schema only compares times sent together
+    const startsAt =
+      changes.starts_at !== undefined ? changes.starts_at : existing.starts_at;
+    const expiresAt =
+      changes.expires_at !== undefined
+        ? changes.expires_at
+        : existing.expires_at;
+    if (startsAt && expiresAt && new Date(startsAt) >= new Date(expiresAt)) {
+      return createErrorResponse("starts_at must be before expires_at", 400);
+    }
+
+    const announcement = await announcements.update(announcementId, changes);
+
+    await logs.logAdminAction({
+      admin_id: user.id,
+      action_type:
+        changes.is_active === false && existing.is_active
+          ? "announcement_deactivated"
+          : "announcement_updated",
+      target_id: announcementId,
+      details: {
+        changes,
+        previous: Object.fromEntries(
+          Object.keys(changes).map((key) => [
+            key,
+            existing[key as keyof typeof changes],
+          ])
+        ),
+      },
+    });
+
+    // Raising an announcement to high priority sends it out as creating it
+    // that way would have; one already queued or sent is not sent again
+    const notifications =
+      announcement.priority === "high" && existing.priority !== "high"
+        ? await queueAnnouncementNotification(announcement, user.id)
+        : null;
+
+    return createSuccessResponse({
+      message: "Announcement updated successfully",
+      announcement,
+      notifications,
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check admin authorization
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "manage_announcements");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const announcementId = announcementIdSchema.parse(params.id);
+    const { announcements, logs } = getRepositories();
+
+    const existing = await announcements.findById(announcementId);
+
+    if (!existing) {
+      return createErrorResponse("Announcement not found", 404);
+    }
+
+    await announcements.delete(announcementId);
+
+    await logs.logAdminAction({
+      admin_id: user.id,
+      action_type: "announcement_deleted",
+      target_id: announcementId,
+      details: {
+        announcement_title: existing.title,
+        announcement_type: existing.type,
+        priority: existing.priority,
+        target_audience: existing.target_audience,
+      },
+    });
+
+    return createSuccessResponse({
+      message: "Announcement deleted successfully",
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -1,34 +1,20 @@
 // src/app/api/admin/comments/[id]/route.ts
-import { getAuthenticatedUser, isPlatformAdmin } from "@/lib/authHelpers";
 import {
   createErrorResponse,
   createSuccessResponse,
   handleRouteError,
 } from "@/lib/errorHandler";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { dispatchNotification } from "@/lib/notificationService";
+import { requirePermission } from "@/lib/permissions";
+import { CommentUpdate, getRepositories } from "@/lib/repositories";
+import {
+  adminUpdateCommentSchema,
+  commentModerationActionSchema,
+} from "@/lib/schemas/admin";
 import { NextRequest } from "next/server";
 import { z } from "zod";
 
 const commentIdSchema = z.string().uuid();
-const updateCommentSchema = z.object({
-  status: z.enum(["published", "flagged", "deleted", "pending"]).optional(),
-  is_flagged_as_spam: z.boolean().optional(),
-  admin_notes: z.string().max(1000).optional(),
-});
-
-const moderationActionSchema = z.object({
-  action_type: z.enum([
-    "approve_comment",
-    "delete_comment",
-    "flag_comment",
-    "mark_spam",
-    "unmark_spam",
-    "edit_comment",
-    "restore_comment",
-  ]),
-  reason: z.string().max(500).optional(),
-  new_content: z.string().max(2000).optional(), // For edit_comment action
-});
 
 export async function GET(
   request: NextRequest,
@@ -36,177 +22,100 @@ export async function GET(
 ) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "moderate_comments");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const commentId = commentIdSchema.parse(params.id);
 
+    const { bans, comments, logs, profiles, reactions, reports } =
+      getRepositories();
+
     // Get detailed comment information
-    const { data: comment, error: commentError } = await supabaseAdmin
-      .from("comments")
-      .select(
-        `
-        *,
-        author:profiles(
-          id,
-          username,
-          display_name,
-          avatar_url,
-          email,
-          created_at,
-          is_email_verified
-        ),
-        post:posts(
-          id,
-          title,
-          slug,
-          status,
-          author:profiles(username, display_name)
-        ),
-        parent_comment:comments!parent_id(
-          id,
-          content,
-          author:profiles(username, display_name)
-        ),
-        replies:comments!parent_id(
-          id,
-          content,
-          status,
-          is_flagged_as_spam,
-          created_at,
-          author:profiles(username, display_name)
-        ),
-        reactions:comment_reactions(
-          reaction_type,
-          user:profiles(username, display_name)
-        ),
-        edit_history:comment_edit_history(
-          id,
-          previous_content,
-          edited_at,
-          edited_by:profiles(username, display_name)
-        )
-      `
-      )
-      .eq("id", commentId)
-      .single();
-
-    if (commentError) {
-      if (commentError.code === "PGRST116") {
-        return createErrorResponse("Comment not found", 404);
-      }
-      throw commentError;
+    const comment = await comments.findForModeration(commentId);
+
+    if (!comment) {
+      return createErrorResponse("Comment not found", 404);
     }
 
-    // Get reports for this comment
-    const { data: reports } = await supabaseAdmin
-      .from("content_reports")
-      .select(
-        `
-        id,
-        reason,
-        severity,
-        status,
-        additional_context,
-        created_at,
-        reporter:profiles(username, display_name),
-        reviewed_by:profiles(username, display_name),
-        reviewed_at,
-        admin_notes,
-        action_taken
-      `
-      )
-      .eq("reported_content_type", "comment")
-      .eq("reported_content_id", commentId)
-      .order("created_at", { ascending: false });
-
-    // Get moderation history
-    const { data: moderationHistory } = await supabaseAdmin
-      .from("admin_activity_logs")
-      .select(
-        `
-        id,
-        action_type,
-        details,
-        created_at,
-        admin:profiles(username, display_name)
-      `
-      )
-      .eq("target_id", commentId)
-      .order("created_at", { ascending: false });
-
-    // Get author's other comments and activity
-    const { data: authorComments } = await supabaseAdmin
-      .from("comments")
-      .select("id, status, is_flagged_as_spam, created_at")
-      .eq("author_id", (comment.author as { id: string }).id)
-      .order("created_at", { ascending: false })
-      .limit(10);
-
-    const [{ data: authorReports }, { data: authorBanStatus }] =
-      await Promise.all([
-        supabaseAdmin
-          .from("content_reports")
-          .select("id, reason, severity, status, created_at")
-          .eq("reported_content_type", "comment")
-          .or(
-            `reported_content_id.in.(${authorComments?.map((c: { id: string }) => c.id).join(",") || ""})`
-          ),
-        supabaseAdmin
-          .from("banned_users")
-          .select("banned_at, reason, expires_at")
-          .eq("user_id", (comment.author as { id: string }).id)
-          .single(),
-      ]);
+    const [
+      author,
+      replies,
+      commentReactions,
+      editHistory,
+      commentReports,
+      moderationHistory,
+      authorComments,
+      authorBanStatus,
+    ] = await Promise.all([
+      profiles.findDetail(comment.author_id),
+      comments.listReplies(commentId),
+      reactions.listForComment(commentId),
+      comments.listEdits(commentId),
+      // Get reports for this comment
+      reports.listForContent("comment", [commentId]),
+      // Get moderation history
+      logs.listAdminActions(commentId),
+      // Get author's other comments and activity
+      comments.listByAuthor(comment.author_id, 10),
+      bans.find(comment.author_id),
+    ]);
+
+    const authorReports = await reports.listForContent(
+      "comment",
+      authorComments.map((authorComment) => authorComment.id)
+    );
 
     // Calculate comment statistics
     const commentStats = {
-      total_reactions: (comment.reactions as unknown[])?.length || 0,
-      reaction_breakdown:
-        (comment.reactions as { reaction_type: string }[])?.reduce(
-          (
-            acc: Record<string, number>,
-            reaction: { reaction_type: string }
-          ) => {
-            acc[reaction.reaction_type] =
-              (acc[reaction.reaction_type] || 0) + 1;
-            return acc;
-          },
-          {}
-        ) || {},
-      total_replies: (comment.replies as unknown[])?.length || 0,
-      total_reports: reports?.length || 0,
-      pending_reports:
-        reports?.filter((r) => r.status === "pending").length || 0,
+      total_reactions: commentReactions.length,
+      reaction_breakdown: commentReactions.reduce(
+        (acc: Record<string, number>, reaction) => {
+          acc[reaction.reaction_type] = (acc[reaction.reaction_type] || 0) + 1;
+          return acc;
+        },
+        {}
+      ),
+      total_replies: replies.length,
+      total_reports: commentReports.length,
+      pending_reports: commentReports.filter((r) => r.status === "pending")
+        .length,
     };
 
     // Author summary
     const authorSummary = {
-      ...comment.author,
-      total_comments: authorComments?.length || 0,
-      flagged_comments:
-        authorComments?.filter(
-          (c: { is_flagged_as_spam: boolean }) => c.is_flagged_as_spam
-        ).length || 0,
-      deleted_comments:
-        authorComments?.filter(
-          (c: { status: string }) => c.status === "deleted"
-        ).length || 0,
-      total_reports_received: authorReports?.length || 0,
+      ...author,
+      total_comments: authorComments.length,
+      flagged_comments: authorComments.filter((c) => c.is_flagged_as_spam)
+        .length,
+      deleted_comments: authorComments.filter((c) => c.status === "deleted")
+        .length,
+      total_reports_received: authorReports.length,
       is_banned: !!authorBanStatus,
-      ban_details: authorBanStatus || null,
+      ban_details: authorBanStatus,
     };
 
     return createSuccessResponse({
       comment: {
         ...comment,
+        replies,
+        reactions: commentReactions,
+        edit_history: editHistory,
         statistics: commentStats,
       },
       author_summary: authorSummary,
-      reports: reports || [],
-      moderation_history: moderationHistory || [],
+      reports: commentReports,
+      moderation_history: moderationHistory,
     });
   } catch (error) {
     return handleRouteError(error);
@@ -219,70 +128,59 @@ export async function PUT(
 ) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "moderate_comments");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const commentId = commentIdSchema.parse(params.id);
     const body = await request.json();
     const { status, is_flagged_as_spam, admin_notes } =
-      updateCommentSchema.parse(body);
+      adminUpdateCommentSchema.parse(body);
+    const { comments, logs, posts } = getRepositories();
 
     // Check if comment exists
-    const { data: existingComment, error: fetchError } = await supabaseAdmin
-      .from("comments")
-      .select("id, status, is_flagged_as_spam, author_id, content")
-      .eq("id", commentId)
-      .single();
-
-    if (fetchError) {
-      if (fetchError.code === "PGRST116") {
-        return createErrorResponse("Comment not found", 404);
-      }
-      throw fetchError;
+    const existingComment = await comments.findById(commentId);
+
+    if (!existingComment) {
+      return createErrorResponse("Comment not found", 404);
     }
 
     // Build update data
-    const updateData: Record<string, unknown> = {
-      updated_at: new Date().toISOString(),
-    };
+    const updateData: CommentUpdate = {};
 
     if (status !== undefined) updateData.status = status;
     if (is_flagged_as_spam !== undefined)
       updateData.is_flagged_as_spam = is_flagged_as_spam;
 
     // Update comment
-    const { data: updatedComment, error: updateError } = await supabaseAdmin
-      .from("comments")
-      .update(updateData)
-      .eq("id", commentId)
-      .select(
-        `
-        *,
-        author:profiles(username, display_name),
-        post:posts(title, slug)
-      `
-      )
-      .single();
-
-    if (updateError) {
-      throw updateError;
-    }
+    await comments.update(commentId, updateData);
+    const [updatedComment, post] = await Promise.all([
+      comments.findView(commentId),
+      posts.findById(existingComment.post_id),
+    ]);
 
     // Store admin notes if provided
     if (admin_notes) {
-      await supabaseAdmin.from("admin_notes").insert({
+      await logs.addAdminNote({
         content_type: "comment",
         content_id: commentId,
         admin_id: user.id,
         notes: admin_notes,
-        created_at: new Date().toISOString(),
       });
     }
 
     // Log admin action
-    await supabaseAdmin.from("admin_activity_logs").insert({
+    await logs.logAdminAction({
       admin_id: user.id,
       action_type: "comment_updated",
       target_id: commentId,
@@ -293,7 +191,6 @@ export async function PUT(
         new_spam_flag: is_flagged_as_spam,
         admin_notes: admin_notes || null,
       },
-      created_at: new Date().toISOString(),
     });
 
     // Create notification for comment author if status changed significantly
@@ -302,18 +199,27 @@ export async function PUT(
       status !== existingComment.status &&
       (status === "deleted" || status === "flagged" || status === "published")
     ) {
-      await supabaseAdmin.from("notifications").insert({
-        user_id: existingComment.author_id,
+      await dispatchNotification({
         type: "moderation",
+        recipients: { userIds: [existingComment.author_id] },
+        actorId: user.id,
+        title: "Comment moderated",
         message: `Your comment has been ${status} by an administrator`,
-        related_comment_id: commentId,
-        created_at: new Date().toISOString(),
+        data: {
+          comment_id: commentId,
+          status,
+          reason: admin_notes || null,
+        },
+        channels: ["push"],
       });
     }
 
     return createSuccessResponse({
       message: "Comment updated successfully",
-      comment: updatedComment,
+      comment: {
+        ...updatedComment,
+        post: post ? { title: post.title, slug: post.slug } : null,
+      },
     });
   } catch (error) {
     return handleRouteError(error);
@@ -326,129 +232,63 @@ export async function POST(
 ) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "moderate_comments");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const commentId = commentIdSchema.parse(params.id);
     const body = await request.json();
     const { action_type, reason, new_content } =
-      moderationActionSchema.parse(body);
+      commentModerationActionSchema.parse(body);
+
+    const { comments, logs } = getRepositories();
 
     // Get comment details
-    const { data: comment, error: commentError } = await supabaseAdmin
-      .from("comments")
-      .select("*")
-      .eq("id", commentId)
-      .single();
-
-    if (commentError) {
-      if (commentError.code === "PGRST116") {
-        return createErrorResponse("Comment not found", 404);
-      }
-      throw commentError;
+    const comment = await comments.findById(commentId);
+
+    if (!comment) {
+      return createErrorResponse("Comment not found", 404);
     }
 
-    let actionResult: {
-      success: boolean;
-      message: string;
-      data: Record<string, unknown> | null;
-    } = { success: false, message: "", data: null };
+    let changes: CommentUpdate;
+    let message: string;
+    let data: Record<string, unknown> | null = null;
 
     // Execute moderation action
     switch (action_type) {
       case "approve_comment":
-        const { error: approveError } = await supabaseAdmin
-          .from("comments")
-          .update({
-            status: "published",
-            is_flagged_as_spam: false,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", commentId);
-
-        if (!approveError) {
-          actionResult = {
-            success: true,
-            message: "Comment approved",
-            data: null,
-          };
-        }
+        changes = { status: "published", is_flagged_as_spam: false };
+        message = "Comment approved";
         break;
 
       case "delete_comment":
-        const { error: deleteError } = await supabaseAdmin
-          .from("comments")
-          .update({
-            status: "deleted",
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", commentId);
-
-        if (!deleteError) {
-          actionResult = {
-            success: true,
-            message: "Comment deleted",
-            data: null,
-          };
-        }
+        changes = { status: "deleted" };
+        message = "Comment deleted";
         break;
 
       case "flag_comment":
-        const { error: flagError } = await supabaseAdmin
-          .from("comments")
-          .update({
-            status: "flagged",
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", commentId);
-
-        if (!flagError) {
-          actionResult = {
-            success: true,
-            message: "Comment flagged",
-            data: null,
-          };
-        }
+        changes = { status: "flagged" };
+        message = "Comment flagged";
         break;
 
       case "mark_spam":
-        const { error: spamError } = await supabaseAdmin
-          .from("comments")
-          .update({
-            is_flagged_as_spam: true,
-            status: "flagged",
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", commentId);
-
-        if (!spamError) {
-          actionResult = {
-            success: true,
-            message: "Comment marked as spam",
-            data: null,
-          };
-        }
+        changes = { status: "flagged", is_flagged_as_spam: true };
+        message = "Comment marked as spam";
         break;
 
       case "unmark_spam":
-        const { error: unspamError } = await supabaseAdmin
-          .from("comments")
-          .update({
-            is_flagged_as_spam: false,
-            status: "published",
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", commentId);
-
-        if (!unspamError) {
-          actionResult = {
-            success: true,
-            message: "Comment unmarked as spam",
-            data: null,
-          };
-        }
+        changes = { status: "published", is_flagged_as_spam: false };
+        message = "Comment unmarked as spam";
         break;
 
       case "edit_comment":
@@ -460,92 +300,65 @@ export async function POST(
         }
 
         // Store original content in edit history
-        await supabaseAdmin.from("comment_edit_history").insert({
+        await comments.addEdit({
           comment_id: commentId,
           previous_content: comment.content,
           edited_by: user.id,
-          edited_at: new Date().toISOString(),
           edit_reason: reason || "Administrative edit",
         });
 
-        const { error: editError } = await supabaseAdmin
-          .from("comments")
-          .update({
-            content: new_content,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", commentId);
-
-        if (!editError) {
-          actionResult = {
-            success: true,
-            message: "Comment edited",
-            data: { new_content },
-          };
-        }
+        changes = { content: new_content };
+        message = "Comment edited";
+        data = { new_content };
         break;
 
       case "restore_comment":
-        const { error: restoreError } = await supabaseAdmin
-          .from("comments")
-          .update({
-            status: "published",
-            is_flagged_as_spam: false,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", commentId);
-
-        if (!restoreError) {
-          actionResult = {
-            success: true,
-            message: "Comment restored",
-            data: null,
-          };
-        }
+        changes = { status: "published", is_flagged_as_spam: false };
+        message = "Comment restored";
         break;
 
       default:
         return createErrorResponse("Invalid action type", 400);
     }
 
-    if (!actionResult.success) {
-      return createErrorResponse(
-        actionResult.message || "Failed to execute moderation action",
-        500
-      );
-    }
+    await comments.update(commentId, changes);
 
     // Log admin action
-    await supabaseAdmin.from("admin_activity_logs").insert({
+    await logs.logAdminAction({
       admin_id: user.id,
       action_type: "comment_moderation_action",
       target_id: commentId,
       details: {
         action_type,
         reason: reason || null,
-        result: actionResult.message,
+        result: message,
         comment_id: commentId,
         new_content: new_content || null,
       },
-      created_at: new Date().toISOString(),
     });
 
     // Create notification for comment author
     if (action_type !== "edit_comment") {
-      await supabaseAdmin.from("notifications").insert({
-        user_id: comment.author_id,
+      await dispatchNotification({
         type: "moderation",
-        message: `Your comment has been ${actionResult.message.toLowerCase()} by an administrator${reason ? `: ${reason}` : ""}`,
-        related_comment_id: commentId,
-        created_at: new Date().toISOString(),
+        recipients: { userIds: [comment.author_id] },
+        actorId: user.id,
+        title: "Comment moderated",
+        message: `Your comment has been ${message.toLowerCase()} by an administrator${reason ? `: ${reason}` : ""}`,
+        data: {
+          comment_id: commentId,
+          status: action_type,
+          reason: reason || null,
+        },
+        channels: ["push"],
       });
     }
 
     return createSuccessResponse({
-      message: actionResult.message,
+      message,
       action_type,
       comment_id: commentId,
-      data: actionResult.data,
+      data,
     });
   } catch (error) {
     return handleRouteError(error);
@@ -558,51 +371,45 @@ export async function DELETE(
 ) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "delete_content");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const commentId = commentIdSchema.parse(params.id);
 
+    const { comments, logs } = getRepositories();
+
     // Get comment details for logging
-    const { data: comment, error: fetchError } = await supabaseAdmin
-      .from("comments")
-      .select("id, content, author_id, author:profiles(username)")
-      .eq("id", commentId)
-      .single();
-
-    if (fetchError) {
-      if (fetchError.code === "PGRST116") {
-        return createErrorResponse("Comment not found", 404);
-      }
-      throw fetchError;
+    const comment = await comments.findView(commentId);
+
+    if (!comment) {
+      return createErrorResponse("Comment not found", 404);
     }
 
     // Permanently delete comment (hard delete)
     // Note: This will cascade to related data like reactions, reports, etc.
-    const { error: deleteError } = await supabaseAdmin
-      .from("comments")
-      .delete()
-      .eq("id", commentId);
-
-    if (deleteError) {
-      throw deleteError;
-    }
+    await comments.delete(commentId);
 
     // Log admin action
-    await supabaseAdmin.from("admin_activity_logs").insert({
+    await logs.logAdminAction({
       admin_id: user.id,
       action_type: "comment_permanently_deleted",
       target_id: commentId,
       details: {
         deleted_comment_content: comment.content.substring(0, 200),
-        comment_author: Array.isArray(comment.author)
-          ? (comment.author[0] as { username: string })?.username || "unknown"
-          : (comment.author as { username: string })?.username || "unknown",
+        comment_author: comment.author?.username || "unknown",
         deletion_method: "admin_panel",
       },
-      created_at: new Date().toISOString(),
     });
 
     return createSuccessResponse({
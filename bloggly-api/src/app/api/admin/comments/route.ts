@@ -1,199 +1,90 @@
 // src/app/api/admin/comments/route.ts
-import { getAuthenticatedUser, isPlatformAdmin } from "@/lib/authHelpers";
 import {
   createErrorResponse,
+  createPagePagination,
   createSuccessResponse,
   handleRouteError,
 } from "@/lib/errorHandler";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { dispatchNotification } from "@/lib/notificationService";
+import { requirePermission } from "@/lib/permissions";
+import { CommentUpdate, getRepositories } from "@/lib/repositories";
+import {
+  bulkUpdateCommentsSchema,
+  getAdminCommentsSchema,
+} from "@/lib/schemas/admin";
 import { NextRequest } from "next/server";
-import { z } from "zod";
-
-const getCommentsSchema = z.object({
-  page: z.coerce.number().int().min(1).optional().default(1),
-  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
-  search: z.string().optional(),
-  status: z
-    .enum(["all", "published", "flagged", "deleted", "pending"])
-    .optional()
-    .default("all"),
-  spam_filter: z.enum(["all", "spam", "not_spam"]).optional().default("all"),
-  sort: z
-    .enum(["newest", "oldest", "most_reported"])
-    .optional()
-    .default("newest"),
-  user_id: z.string().uuid().optional(),
-  post_id: z.string().uuid().optional(),
-});
-
-const bulkUpdateSchema = z.object({
-  comment_ids: z.array(z.string().uuid()),
-  action: z.enum(["approve", "flag", "delete", "mark_spam", "unmark_spam"]),
-  reason: z.string().max(500).optional(),
-});
 
 export async function GET(request: NextRequest) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "moderate_comments");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const { searchParams } = new URL(request.url);
-    const queryParams = getCommentsSchema.parse(
+    const queryParams = getAdminCommentsSchema.parse(
       Object.fromEntries(searchParams.entries())
     );
 
-    const offset = (queryParams.page - 1) * queryParams.limit;
-
-    // Build base query
-    let query = supabaseAdmin.from("comments").select(
-      `
-        id,
-        content,
-        status,
-        is_flagged_as_spam,
-        created_at,
-        updated_at,
-        author:profiles(id, username, display_name, avatar_url, email),
-        post:posts(id, title, slug, author:profiles(username, display_name)),
-        parent_comment:comments!parent_id(
-          id,
-          content,
-          author:profiles(username, display_name)
-        ),
-        reactions_count:comment_reactions(count),
-        replies_count:comments!parent_id(count),
-        reports_count:content_reports!reported_content_id(count)
-      `,
-      { count: "exact" }
-    );
-
-    // Apply filters
-    if (queryParams.search) {
-      query = query.ilike("content", `%${queryParams.search}%`);
-    }
-
-    if (queryParams.status !== "all") {
-      query = query.eq("status", queryParams.status);
-    }
-
-    if (queryParams.spam_filter === "spam") {
-      query = query.eq("is_flagged_as_spam", true);
-    } else if (queryParams.spam_filter === "not_spam") {
-      query = query.eq("is_flagged_as_spam", false);
-    }
-
-    if (queryParams.user_id) {
-      query = query.eq("author_id", queryParams.user_id);
-    }
-
-    if (queryParams.post_id) {
-      query = query.eq("post_id", queryParams.post_id);
-    }
-
-    // Apply sorting
-    switch (queryParams.sort) {
-      case "oldest":
-        query = query.order("created_at", { ascending: true });
-        break;
-      case "most_reported":
-        // This would need a more complex query in production
-        query = query.order("created_at", { ascending: false });
-        break;
-      default:
-        query = query.order("created_at", { ascending: false });
-        break;
-    }
-
-    // Apply pagination
-    query = query.range(offset, offset + queryParams.limit - 1);
-
-    const { data: comments, error: commentsError, count } = await query;
-
-    if (commentsError) {
-      throw commentsError;
-    }
-
-    // Get summary statistics
-    const [
-      { data: statusStats },
-      { data: spamStats },
-      { data: reportedComments },
-    ] = await Promise.all([
-      supabaseAdmin
-        .from("comments")
-        .select("status")
-        .order("created_at", { ascending: false }),
-      supabaseAdmin
-        .from("comments")
-        .select("is_flagged_as_spam")
-        .order("created_at", { ascending: false }),
-      supabaseAdmin
-        .from("content_reports")
-        .select("reported_content_id")
-        .eq("reported_content_type", "comment")
-        .eq("status", "pending"),
+    const { comments, reports } = getRepositories();
+    const [listed, counts, reportedCommentIds] = await Promise.all([
+      comments.listForModeration({
+        search: queryParams.search,
+        status: queryParams.status === "all" ? undefined : queryParams.status,
+        spam:
+          queryParams.spam_filter === "all"
+            ? undefined
+            : queryParams.spam_filter === "spam",
+        authorId: queryParams.user_id,
+        postId: queryParams.post_id,
+        // "most_reported" would need a more complex query in production
+        ascending: queryParams.sort === "oldest",
+        limit: queryParams.limit,
+        offset: (queryParams.page - 1) * queryParams.limit,
+      }),
+      comments.countForModeration(),
+      reports.listPendingContentIds("comment"),
     ]);
 
-    const statusCounts =
-      statusStats?.reduce(
-        (acc: Record<string, number>, comment: { status: string }) => {
-          acc[comment.status] = (acc[comment.status] || 0) + 1;
-          return acc;
-        },
-        {}
-      ) || {};
-
-    const spamCounts =
-      spamStats?.reduce(
-        (
-          acc: Record<string, number>,
-          comment: { is_flagged_as_spam: boolean }
-        ) => {
-          const key = comment.is_flagged_as_spam ? "spam" : "not_spam";
-          acc[key] = (acc[key] || 0) + 1;
-          return acc;
-        },
-        {}
-      ) || {};
-
-    const reportedCommentIds = new Set(
-      reportedComments?.map((r) => r.reported_content_id) || []
-    );
+    const pendingReports = new Set(reportedCommentIds);
 
     // Transform comment data
-    const transformedComments =
-      comments?.map((comment: Record<string, unknown>) => ({
-        ...comment,
-        reactions_count:
-          (comment.reactions_count as { count: number }[])?.[0]?.count || 0,
-        replies_count:
-          (comment.replies_count as { count: number }[])?.[0]?.count || 0,
-        reports_count:
-          (comment.reports_count as { count: number }[])?.[0]?.count || 0,
-        has_pending_reports: reportedCommentIds.has(comment.id as string),
-        content_preview:
-          (comment.content as string).length > 100
-            ? (comment.content as string).substring(0, 100) + "..."
-            : comment.content,
-      })) || [];
-
-    return createSuccessResponse({
-      comments: transformedComments,
-      pagination: {
-        page: queryParams.page,
-        limit: queryParams.limit,
-        total: count || 0,
-        total_pages: Math.ceil((count || 0) / queryParams.limit),
-      },
-      statistics: {
-        status_counts: statusCounts,
-        spam_counts: spamCounts,
-        total_reported: reportedCommentIds.size,
+    const transformedComments = listed.comments.map((comment) => ({
+      ...comment,
+      has_pending_reports: pendingReports.has(comment.id),
+      content_preview:
+        comment.content.length > 100
+          ? comment.content.substring(0, 100) + "..."
+          : comment.content,
+    }));
+
+    return createSuccessResponse(
+      {
+        comments: transformedComments,
+        statistics: {
+          ...counts,
+          total_reported: pendingReports.size,
+        },
       },
-    });
+      200,
+      {
+        pagination: createPagePagination(
+          queryParams.page,
+          queryParams.limit,
+          listed.total
+        ),
+      }
+    );
   } catch (error) {
     return handleRouteError(error);
   }
@@ -202,17 +93,25 @@ export async function GET(request: NextRequest) {
 export async function PUT(request: NextRequest) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "moderate_comments");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const body = await request.json();
-    const { comment_ids, action, reason } = bulkUpdateSchema.parse(body);
+    const { comment_ids, action, reason } =
+      bulkUpdateCommentsSchema.parse(body);
 
-    const updateData: Record<string, unknown> = {
-      updated_at: new Date().toISOString(),
-    };
+    const updateData: CommentUpdate = {};
 
     let actionDescription = "";
 
@@ -245,24 +144,11 @@ export async function PUT(request: NextRequest) {
     }
 
     // Update comments
-    const { data: updatedComments, error: updateError } = await supabaseAdmin
-      .from("comments")
-      .update(updateData)
-      .in("id", comment_ids).select(`
-        id,
-        content,
-        status,
-        is_flagged_as_spam,
-        author:profiles(username, display_name),
-        post:posts(title, slug)
-      `);
-
-    if (updateError) {
-      throw updateError;
-    }
+    const { comments, logs } = getRepositories();
+    const updatedComments = await comments.updateMany(comment_ids, updateData);
 
     // Log admin action
-    await supabaseAdmin.from("admin_activity_logs").insert({
+    await logs.logAdminAction({
       admin_id: user.id,
       action_type: "comments_bulk_update",
       target_id: null,
@@ -273,22 +159,24 @@ export async function PUT(request: NextRequest) {
         comment_count: comment_ids.length,
         action_description: actionDescription,
       },
-      created_at: new Date().toISOString(),
     });
 
     // Create notifications for content authors if needed
     if (action === "approve" || action === "flag" || action === "delete") {
-      const notifications =
-        updatedComments?.map((comment: Record<string, unknown>) => ({
-          user_id: (comment.author as { id: string }).id,
+      for (const comment of updatedComments) {
+        await dispatchNotification({
           type: "moderation",
+          recipients: { userIds: [comment.author_id] },
+          actorId: user.id,
+          title: "Comment moderated",
           message: `Your comment has been ${actionDescription} by an administrator`,
-          related_comment_id: comment.id,
-          created_at: new Date().toISOString(),
-        })) || [];
-
-      if (notifications.length > 0) {
-        await supabaseAdmin.from("notifications").insert(notifications);
+          data: {
+            comment_id: comment.id,
+            status: comment.status,
+            reason: reason || null,
+          },
+          channels: ["push"],
+        });
       }
     }
 
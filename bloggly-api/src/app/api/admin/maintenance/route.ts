@@ -1,68 +1,63 @@
 // src/app/api/admin/maintenance/route.ts
-import { getAuthenticatedUser, isPlatformAdmin } from "@/lib/authHelpers";
+import { queueAnnouncementNotification } from "@/lib/announcementService";
 import {
   createErrorResponse,
   createSuccessResponse,
   handleRouteError,
 } from "@/lib/errorHandler";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
-import { NextRequest } from "next/server";
-import { z } from "zod";
-
-const maintenanceSchema = z.object({
-  is_enabled: z.boolean(),
-  message: z.string().max(1000).optional(),
-  estimated_duration: z.string().max(100).optional(), // e.g., "2 hours", "30 minutes"
-  start_time: z.string().datetime().optional(),
-  end_time: z.string().datetime().optional(),
-  allowed_ips: z.array(z.string().ip()).max(10).optional(), // IPs that can access during maintenance
-});
-
-const announcementSchema = z.object({
-  title: z.string().min(1).max(200),
-  message: z.string().min(1).max(2000),
-  type: z
-    .enum(["info", "warning", "success", "error"])
-    .optional()
-    .default("info"),
-  is_active: z.boolean().optional().default(true),
-  priority: z.enum(["low", "medium", "high"]).optional().default("medium"),
-  expires_at: z.string().datetime().optional(),
-  target_audience: z.enum(["all", "users", "admins"]).optional().default("all"),
-});
+import { dispatchNotification } from "@/lib/notificationService";
+import { getRolesWithPermission, requirePermission } from "@/lib/permissions";
+import { getRepositories } from "@/lib/repositories";
+import {
+  announcementSchema,
+  getMaintenanceSchema,
+  maintenanceSchema,
+} from "@/lib/schemas/admin";
+import {
+  invalidateSettingsCache,
+  SettingKey,
+  SETTINGS_REGISTRY,
+} from "@/lib/settings";
+import { after, NextRequest } from "next/server";
 
 export async function GET(request: NextRequest) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "manage_maintenance");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const { searchParams } = new URL(request.url);
-    const type = searchParams.get("type") || "all"; // "maintenance", "announcements", or "all"
+    const { type } = getMaintenanceSchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
 
     const response: Record<string, unknown> = {};
+    const { analytics, announcements, settings } = getRepositories();
 
     if (type === "maintenance" || type === "all") {
       // Get current maintenance status
-      const { data: maintenanceSettings } = await supabaseAdmin
-        .from("platform_settings")
-        .select("setting_key, setting_value")
-        .in("setting_key", [
-          "maintenance_mode_enabled",
-          "maintenance_message",
-          "maintenance_start_time",
-          "maintenance_end_time",
-          "maintenance_estimated_duration",
-          "maintenance_allowed_ips",
-        ]);
+      const maintenanceSettings = await settings.getMany([
+        "maintenance_mode_enabled",
+        "maintenance_message",
+        "maintenance_start_time",
+        "maintenance_end_time",
+        "maintenance_estimated_duration",
+        "maintenance_allowed_ips",
+      ]);
 
-      const maintenanceData = (maintenanceSettings || []).reduce(
-        (
-          acc: Record<string, unknown>,
-          setting: { setting_key: string; setting_value: unknown }
-        ) => {
+      const maintenanceData = maintenanceSettings.reduce(
+        (acc: Record<string, unknown>, setting) => {
           const key = setting.setting_key.replace("maintenance_", "");
           acc[key] = setting.setting_value;
           return acc;
@@ -74,7 +69,7 @@ export async function GET(request: NextRequest) {
         is_enabled: maintenanceData.mode_enabled || false,
         message:
           maintenanceData.message ||
-          "The platform is currently undergoing maintenance. Please check back soon.",
+          SETTINGS_REGISTRY.maintenance_message.default,
         estimated_duration: maintenanceData.estimated_duration || null,
         start_time: maintenanceData.start_time || null,
         end_time: maintenanceData.end_time || null,
@@ -84,71 +79,29 @@ export async function GET(request: NextRequest) {
 
     if (type === "announcements" || type === "all") {
       // Get active announcements
-      const { data: announcements } = await supabaseAdmin
-        .from("platform_announcements")
-        .select(
-          `
-          id,
-          title,
-          message,
-          type,
-          is_active,
-          priority,
-          expires_at,
-          target_audience,
-          created_at,
-          updated_at,
-          created_by:profiles(username, display_name)
-        `
-        )
-        .order("priority", { ascending: false })
-        .order("created_at", { ascending: false });
-
-      response.announcements = announcements || [];
+      response.announcements = await announcements.list();
     }
 
     // Get system status information
     if (type === "all") {
-      const [
-        { data: activeUsers },
-        { data: systemHealth },
-        { data: recentErrors },
-      ] = await Promise.all([
+      const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+      const [activeUsers, postsCreated, recentErrors] = await Promise.all([
         // Count active users (logged in within last 24 hours)
-        supabaseAdmin
-          .from("user_activity_logs")
-          .select("user_id", { count: "exact" })
-          .gte(
-            "created_at",
-            new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
-          )
-          .order("created_at", { ascending: false }),
+        analytics.countActiveUsers(dayAgo),
 
         // Get basic system health metrics
-        supabaseAdmin
-          .from("posts")
-          .select("id", { count: "exact" })
-          .gte(
-            "created_at",
-            new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
-          ),
+        analytics.count("posts", { from: dayAgo }),
 
-        // Get recent error logs
-        supabaseAdmin
-          .from("error_logs")
-          .select("id, error_type, created_at")
-          .gte(
-            "created_at",
-            new Date(Date.now() - 60 * 60 * 1000).toISOString()
-          ) // Last hour
-          .order("created_at", { ascending: false })
-          .limit(10),
+        // Get recent error logs from the last hour
+        analytics.countErrors(
+          new Date(Date.now() - 60 * 60 * 1000).toISOString()
+        ),
       ]);
 
       response.system_status = {
-        active_users_24h: activeUsers?.length || 0,
-        posts_created_24h: systemHealth?.length || 0,
-        recent_errors: recentErrors?.length || 0,
+        active_users_24h: activeUsers,
+        posts_created_24h: postsCreated,
+        recent_errors: recentErrors,
         last_updated: new Date().toISOString(),
       };
     }
@@ -162,9 +115,18 @@ export async function GET(request: NextRequest) {
 export async function PUT(request: NextRequest) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "manage_maintenance");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const body = await request.json();
@@ -174,13 +136,13 @@ export async function PUT(request: NextRequest) {
       const maintenanceData = maintenanceSchema.parse(body.data);
 
       // Update maintenance settings
-      const settingsToUpdate = [
+      const settingsToUpdate: { key: SettingKey; value: unknown }[] = [
         { key: "maintenance_mode_enabled", value: maintenanceData.is_enabled },
         {
           key: "maintenance_message",
           value:
             maintenanceData.message ||
-            "The platform is currently undergoing maintenance.",
+            SETTINGS_REGISTRY.maintenance_message.default,
         },
         {
           key: "maintenance_estimated_duration",
@@ -200,22 +162,19 @@ export async function PUT(request: NextRequest) {
         },
       ];
 
-      for (const setting of settingsToUpdate) {
-        await supabaseAdmin.from("platform_settings").upsert(
-          {
-            setting_key: setting.key,
-            setting_value: setting.value,
-            updated_by: user.id,
-            updated_at: new Date().toISOString(),
-          },
-          {
-            onConflict: "setting_key",
-          }
-        );
-      }
+      const { logs, settings } = getRepositories();
+      await settings.save(
+        settingsToUpdate.map((setting) => ({
+          setting_key: setting.key,
+          setting_value: setting.value,
+          category: SETTINGS_REGISTRY[setting.key].category,
+          updated_by: user.id,
+        }))
+      );
+      invalidateSettingsCache();
 
       // Log maintenance mode change
-      await supabaseAdmin.from("admin_activity_logs").insert({
+      await logs.logAdminAction({
         admin_id: user.id,
         action_type: maintenanceData.is_enabled
           ? "maintenance_mode_enabled"
@@ -225,28 +184,24 @@ export async function PUT(request: NextRequest) {
           maintenance_settings: maintenanceData,
           action_timestamp: new Date().toISOString(),
         },
-        created_at: new Date().toISOString(),
       });
 
-      // Send notifications to all admins about maintenance mode change
-      const { data: admins } = await supabaseAdmin
-        .from("profiles")
-        .select("id")
-        .eq("role", "admin")
-        .neq("id", user.id); // Exclude the current user
-
-      if (admins && admins.length > 0) {
-        const adminNotifications = admins.map((admin) => ({
-          user_id: admin.id,
+      // Tell everyone who can manage maintenance mode once the response is
+      // out, so the fan-out never holds up or fails the change
+      after(() =>
+        dispatchNotification({
           type: "admin_alert",
+          recipients: { roles: getRolesWithPermission("manage_maintenance") },
+          actorId: user.id,
+          title: "Maintenance mode",
           message: maintenanceData.is_enabled
             ? `Maintenance mode has been enabled${maintenanceData.estimated_duration ? ` for ${maintenanceData.estimated_duration}` : ""}`
             : "Maintenance mode has been disabled",
-          created_at: new Date().toISOString(),
-        }));
-
-        await supabaseAdmin.from("notifications").insert(adminNotifications);
-      }
+          data: {
+            maintenance_enabled: maintenanceData.is_enabled,
+          },
+        })
+      );
 
       return createSuccessResponse({
         message: `Maintenance mode ${maintenanceData.is_enabled ? "enabled" : "disabled"} successfully`,
@@ -263,43 +218,40 @@ export async function PUT(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "manage_announcements");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const body = await request.json();
     const announcementData = announcementSchema.parse(body);
 
-    // Create announcement
-    const { data: announcement, error: createError } = await supabaseAdmin
-      .from("platform_announcements")
-      .insert({
-        title: announcementData.title,
-        message: announcementData.message,
-        type: announcementData.type,
-        is_active: announcementData.is_active,
-        priority: announcementData.priority,
-        expires_at: announcementData.expires_at || null,
-        target_audience: announcementData.target_audience,
-        created_by: user.id,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .select(
-        `
-        *,
-        created_by:profiles(username, display_name)
-      `
-      )
-      .single();
+    const { announcements, logs } = getRepositories();
 
-    if (createError) {
-      throw createError;
-    }
+    // Create announcement
+    const announcement = await announcements.create({
+      title: announcementData.title,
+      message: announcementData.message,
+      type: announcementData.type,
+      is_active: announcementData.is_active,
+      priority: announcementData.priority,
+      starts_at: announcementData.starts_at || null,
+      expires_at: announcementData.expires_at || null,
+      target_audience: announcementData.target_audience,
+      created_by: user.id,
+    });
 
     // Log announcement creation
-    await supabaseAdmin.from("admin_activity_logs").insert({
+    await logs.logAdminAction({
       admin_id: user.id,
       action_type: "announcement_created",
       target_id: announcement.id,
@@ -309,49 +261,20 @@ export async function POST(request: NextRequest) {
         priority: announcementData.priority,
         target_audience: announcementData.target_audience,
       },
-      created_at: new Date().toISOString(),
     });
 
-    // Send notifications based on target audience and priority
-    if (announcementData.priority === "high") {
-      // For high priority announcements, notify relevant users
-      let userQuery = supabaseAdmin.from("profiles").select("id");
-
-      if (announcementData.target_audience === "admins") {
-        userQuery = userQuery.eq("role", "admin");
-      } else if (announcementData.target_audience === "users") {
-        userQuery = userQuery.neq("role", "admin");
-      }
-      // For "all", no additional filtering needed
-
-      const { data: targetUsers } = await userQuery.limit(1000); // Limit to prevent overwhelming the system
-
-      if (targetUsers && targetUsers.length > 0) {
-        const notifications = targetUsers.map((targetUser) => ({
-          user_id: targetUser.id,
-          type: "announcement",
-          message: `Important announcement: ${announcementData.title}`,
-          metadata: {
-            announcement_id: announcement.id,
-            announcement_type: announcementData.type,
-            priority: announcementData.priority,
-          },
-          created_at: new Date().toISOString(),
-        }));
-
-        // Insert notifications in batches to avoid overwhelming the database
-        const batchSize = 100;
-        for (let i = 0; i < notifications.length; i += batchSize) {
-          const batch = notifications.slice(i, i + batchSize);
-          await supabaseAdmin.from("notifications").insert(batch);
-        }
-      }
-    }
+    // High priority announcements are also pushed to their audience, in
+    // batches by the announcement-notifications cron once they start
+    const notifications =
+      announcementData.priority === "high"
+        ? await queueAnnouncementNotification(announcement, user.id)
+        : null;
 
     return createSuccessResponse(
       {
         message: "Announcement created successfully",
         announcement,
+        notifications,
       },
       201
     );
@@ -1,255 +1,84 @@
 // src/app/api/admin/reports/[id]/route.ts
-import { getAuthenticatedUser, isPlatformAdmin } from "@/lib/authHelpers";
+import { getActiveBan, revokeUserSessions } from "@/lib/authHelpers";
 import {
   createErrorResponse,
   createSuccessResponse,
   handleRouteError,
 } from "@/lib/errorHandler";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { dispatchNotification } from "@/lib/notificationService";
+import {
+  outranksUser,
+  requirePermission,
+  roleHasPermission,
+} from "@/lib/permissions";
+import { getRepositories, ReportStatus } from "@/lib/repositories";
+import {
+  reportModerationActionSchema,
+  updateReportSchema,
+} from "@/lib/schemas/admin";
 import { NextRequest } from "next/server";
 import { z } from "zod";
 
 const reportIdSchema = z.string().uuid();
 
-const updateReportSchema = z.object({
-  status: z.enum(["reviewed", "resolved", "dismissed"]),
-  admin_notes: z.string().max(1000).optional(),
-  action_taken: z.string().max(500).optional(),
-});
-
-const moderationActionSchema = z.object({
-  action_type: z.enum([
-    "approve_content",
-    "delete_content",
-    "flag_content",
-    "ban_user",
-    "warn_user",
-    "dismiss_report",
-  ]),
-  reason: z.string().max(500).optional(),
-  duration_days: z.number().int().min(1).max(365).optional(), // For temporary bans
-});
-
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "view_reports");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const reportId = reportIdSchema.parse(params.id);
 
+    const { comments, logs, posts, profiles, reports } = getRepositories();
+
     // Get detailed report information
-    const { data: report, error: reportError } = await supabaseAdmin
-      .from("content_reports")
-      .select(
-        `
-        id,
-        report_type,
-        reported_content_type,
-        reported_content_id,
-        reason,
-        description,
-        severity,
-        status,
-        created_at,
-        updated_at,
-        reviewed_at,
-        admin_notes,
-        action_taken,
-        reporter:profiles!reporter_id(
-          id, 
-          username, 
-          display_name, 
-          avatar_url, 
-          email
-        ),
-        reviewed_by_admin:profiles!reviewed_by(
-          id, 
-          username, 
-          display_name
-        )
-      `
-      )
-      .eq("id", reportId)
-      .single();
-
-    if (reportError) {
-      if (reportError.code === "PGRST116") {
-        return createErrorResponse("Report not found", 404);
-      }
-      throw reportError;
+    const report = await reports.findView(reportId);
+
+    if (!report) {
+      return createErrorResponse("Report not found", 404);
     }
 
+    const contentId = report.reported_content_id;
+
     // Get detailed content information based on type
     let contentDetails = null;
-    let relatedReports: unknown[] = [];
 
     try {
       if (report.reported_content_type === "post") {
-        // Get post details
-        const { data: post } = await supabaseAdmin
-          .from("posts")
-          .select(
-            `
-            id,
-            title,
-            slug,
-            content_markdown,
-            excerpt,
-            status,
-            view_count,
-            created_at,
-            updated_at,
-            author:profiles(id, username, display_name, avatar_url, email),
-            tags:post_tags(tag:tags(name)),
-            comments_count:comments(count),
-            reactions_count:reactions(count)
-          `
-          )
-          .eq("id", report.reported_content_id)
-          .single();
-
-        contentDetails = post;
-
-        // Get other reports for this post
-        const { data: otherReports } = await supabaseAdmin
-          .from("content_reports")
-          .select(
-            `
-            id,
-            reason,
-            severity,
-            status,
-            created_at,
-            reporter:profiles!reporter_id(username, display_name)
-          `
-          )
-          .eq("reported_content_id", report.reported_content_id)
-          .eq("reported_content_type", "post")
-          .neq("id", reportId)
-          .order("created_at", { ascending: false })
-          .limit(10);
-
-        relatedReports = otherReports || [];
+        contentDetails = await posts.findForModeration(contentId);
       } else if (report.reported_content_type === "comment") {
-        // Get comment details
-        const { data: comment } = await supabaseAdmin
-          .from("comments")
-          .select(
-            `
-            id,
-            content,
-            status,
-            is_flagged_as_spam,
-            created_at,
-            updated_at,
-            author:profiles(id, username, display_name, avatar_url, email),
-            post:posts(id, title, slug, author:profiles(username, display_name)),
-            reactions_count:comment_reactions(count),
-            replies_count:comments!parent_id(count)
-          `
-          )
-          .eq("id", report.reported_content_id)
-          .single();
-
-        contentDetails = comment;
-
-        // Get other reports for this comment
-        const { data: otherReports } = await supabaseAdmin
-          .from("content_reports")
-          .select(
-            `
-            id,
-            reason,
-            severity,
-            status,
-            created_at,
-            reporter:profiles!reporter_id(username, display_name)
-          `
-          )
-          .eq("reported_content_id", report.reported_content_id)
-          .eq("reported_content_type", "comment")
-          .neq("id", reportId)
-          .order("created_at", { ascending: false })
-          .limit(10);
-
-        relatedReports = otherReports || [];
+        contentDetails = await comments.findForModeration(contentId);
       } else if (report.reported_content_type === "user") {
-        // Get user details
-        const { data: reportedUser } = await supabaseAdmin
-          .from("profiles")
-          .select(
-            `
-            id,
-            username,
-            display_name,
-            email,
-            avatar_url,
-            bio,
-            created_at,
-            updated_at,
-            is_email_verified
-          `
-          )
-          .eq("id", report.reported_content_id)
-          .single();
-
-        contentDetails = reportedUser;
+        const reportedUser = await profiles.findDetail(contentId);
 
         // Get user statistics
         if (reportedUser) {
-          const [postsCount, commentsCount, followersCount] = await Promise.all(
-            [
-              supabaseAdmin
-                .from("posts")
-                .select("id", { count: "exact" })
-                .eq("author_id", reportedUser.id),
-              supabaseAdmin
-                .from("comments")
-                .select("id", { count: "exact" })
-                .eq("author_id", reportedUser.id),
-              supabaseAdmin
-                .from("follows")
-                .select("id", { count: "exact" })
-                .eq("following_id", reportedUser.id),
-            ]
-          );
-
+          const activity = await profiles.countActivity(contentId);
+          const total = (counts: Record<string, number>) =>
+            Object.values(counts).reduce((sum, count) => sum + count, 0);
           contentDetails = {
             ...reportedUser,
             statistics: {
-              posts_count: postsCount.count || 0,
-              comments_count: commentsCount.count || 0,
-              followers_count: followersCount.count || 0,
+              posts_count: total(activity.posts_by_status),
+              comments_count: total(activity.comments_by_status),
+              followers_count: activity.followers_count,
             },
           };
         }
-
-        // Get other reports for this user
-        const { data: otherReports } = await supabaseAdmin
-          .from("content_reports")
-          .select(
-            `
-            id,
-            reason,
-            severity,
-            status,
-            created_at,
-            reporter:profiles!reporter_id(username, display_name)
-          `
-          )
-          .eq("reported_content_id", report.reported_content_id)
-          .eq("reported_content_type", "user")
-          .neq("id", reportId)
-          .order("created_at", { ascending: false })
-          .limit(10);
-
-        relatedReports = otherReports || [];
       }
     } catch (error) {
       console.error(
@@ -258,28 +87,22 @@ export async function GET(
       );
     }
 
-    // Get admin activity history for this report
-    const { data: adminActions } = await supabaseAdmin
-      .from("admin_activity_logs")
-      .select(
-        `
-        id,
-        action_type,
-        details,
-        created_at,
-        admin:profiles!admin_id(username, display_name)
-      `
-      )
-      .eq("target_id", reportId)
-      .order("created_at", { ascending: false })
-      .limit(10);
+    const [relatedReports, adminActions] = await Promise.all([
+      // Get other reports for the same content
+      reports.listForContent(report.reported_content_type, [contentId], {
+        excludeId: reportId,
+        limit: 10,
+      }),
+      // Get admin activity history for this report
+      logs.listAdminActions(reportId, 10),
+    ]);
 
     return createSuccessResponse({
       report: {
         ...report,
         content_details: contentDetails,
         related_reports: relatedReports,
-        admin_actions: adminActions || [],
+        admin_actions: adminActions,
       },
     });
   } catch (error) {
@@ -293,51 +116,43 @@ export async function PUT(
 ) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "manage_reports");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const reportId = reportIdSchema.parse(params.id);
     const body = await request.json();
     const { status, admin_notes, action_taken } =
       updateReportSchema.parse(body);
+    const { logs, reports } = getRepositories();
 
     // Check if report exists
-    const { data: existingReport, error: fetchError } = await supabaseAdmin
-      .from("content_reports")
-      .select("id, status, reported_content_type, reported_content_id")
-      .eq("id", reportId)
-      .single();
-
-    if (fetchError) {
-      if (fetchError.code === "PGRST116") {
-        return createErrorResponse("Report not found", 404);
-      }
-      throw fetchError;
+    const existingReport = await reports.findById(reportId);
+
+    if (!existingReport) {
+      return createErrorResponse("Report not found", 404);
     }
 
     // Update report
-    const { data: updatedReport, error: updateError } = await supabaseAdmin
-      .from("content_reports")
-      .update({
-        status,
-        reviewed_by: user.id,
-        reviewed_at: new Date().toISOString(),
-        admin_notes: admin_notes || null,
-        action_taken: action_taken || null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", reportId)
-      .select()
-      .single();
-
-    if (updateError) {
-      throw updateError;
-    }
+    const updatedReport = await reports.review(reportId, {
+      status,
+      reviewed_by: user.id,
+      admin_notes: admin_notes || null,
+      action_taken: action_taken || null,
+    });
 
     // Log admin action
-    await supabaseAdmin.from("admin_activity_logs").insert({
+    await logs.logAdminAction({
       admin_id: user.id,
       action_type: "report_updated",
       target_id: reportId,
@@ -347,7 +162,6 @@ export async function PUT(
         admin_notes: admin_notes || null,
         action_taken: action_taken || null,
       },
-      created_at: new Date().toISOString(),
     });
 
     return createSuccessResponse({
@@ -365,28 +179,32 @@ export async function POST(
 ) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      role,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "manage_reports");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const reportId = reportIdSchema.parse(params.id);
     const body = await request.json();
     const { action_type, reason, duration_days } =
-      moderationActionSchema.parse(body);
+      reportModerationActionSchema.parse(body);
+    const { bans, comments, logs, posts, reports } = getRepositories();
 
     // Get report details
-    const { data: report, error: reportError } = await supabaseAdmin
-      .from("content_reports")
-      .select("*")
-      .eq("id", reportId)
-      .single();
-
-    if (reportError) {
-      if (reportError.code === "PGRST116") {
-        return createErrorResponse("Report not found", 404);
-      }
-      throw reportError;
+    const report = await reports.findById(reportId);
+
+    if (!report) {
+      return createErrorResponse("Report not found", 404);
     }
 
     let actionResult: {
@@ -400,129 +218,105 @@ export async function POST(
       case "approve_content":
         // Mark content as approved
         if (report.reported_content_type === "post") {
-          const { error } = await supabaseAdmin
-            .from("posts")
-            .update({ status: "published" })
-            .eq("id", report.reported_content_id);
-
-          if (!error) {
-            actionResult = {
-              success: true,
-              message: "Post approved",
-              data: null,
-            };
-          }
+          await posts.updateStatus(report.reported_content_id, "published");
+          actionResult = {
+            success: true,
+            message: "Post approved",
+            data: null,
+          };
         } else if (report.reported_content_type === "comment") {
-          const { error } = await supabaseAdmin
-            .from("comments")
-            .update({ status: "published", is_flagged_as_spam: false })
-            .eq("id", report.reported_content_id);
-
-          if (!error) {
-            actionResult = {
-              success: true,
-              message: "Comment approved",
-              data: null,
-            };
-          }
+          await comments.update(report.reported_content_id, {
+            status: "published",
+            is_flagged_as_spam: false,
+          });
+          actionResult = {
+            success: true,
+            message: "Comment approved",
+            data: null,
+          };
         }
         break;
 
       case "delete_content":
         // Delete or hide content
         if (report.reported_content_type === "post") {
-          const { error } = await supabaseAdmin
-            .from("posts")
-            .update({ status: "deleted" })
-            .eq("id", report.reported_content_id);
-
-          if (!error) {
-            actionResult = {
-              success: true,
-              message: "Post deleted",
-              data: null,
-            };
-          }
+          await posts.updateStatus(report.reported_content_id, "deleted");
+          actionResult = {
+            success: true,
+            message: "Post deleted",
+            data: null,
+          };
         } else if (report.reported_content_type === "comment") {
-          const { error } = await supabaseAdmin
-            .from("comments")
-            .update({ status: "deleted" })
-            .eq("id", report.reported_content_id);
-
-          if (!error) {
-            actionResult = {
-              success: true,
-              message: "Comment deleted",
-              data: null,
-            };
-          }
+          await comments.update(report.reported_content_id, {
+            status: "deleted",
+          });
+          actionResult = {
+            success: true,
+            message: "Comment deleted",
+            data: null,
+          };
         }
         break;
 
       case "flag_content":
         // Flag content as inappropriate
         if (report.reported_content_type === "post") {
-          const { error } = await supabaseAdmin
-            .from("posts")
-            .update({ status: "flagged" })
-            .eq("id", report.reported_content_id);
-
-          if (!error) {
-            actionResult = {
-              success: true,
-              message: "Post flagged",
-              data: null,
-            };
-          }
+          await posts.updateStatus(report.reported_content_id, "flagged");
+          actionResult = {
+            success: true,
+            message: "Post flagged",
+            data: null,
+          };
         } else if (report.reported_content_type === "comment") {
-          const { error } = await supabaseAdmin
-            .from("comments")
-            .update({ status: "flagged", is_flagged_as_spam: true })
-            .eq("id", report.reported_content_id);
-
-          if (!error) {
-            actionResult = {
-              success: true,
-              message: "Comment flagged",
-              data: null,
-            };
-          }
+          await comments.update(report.reported_content_id, {
+            status: "flagged",
+            is_flagged_as_spam: true,
+          });
+          actionResult = {
+            success: true,
+            message: "Comment flagged",
+            data: null,
+          };
         }
         break;
 
       case "ban_user":
-        // Ban the user
+        // Banning needs its own permission on top of report access
+        if (!role || !roleHasPermission(role, "ban_users")) {
+          return createErrorResponse('Permission "ban_users" required', 403);
+        }
+
         if (
           report.reported_content_type === "user" ||
           report.reported_content_type === "post" ||
           report.reported_content_type === "comment"
         ) {
-          let userIdToBan = report.reported_content_id;
+          let userIdToBan: string | undefined = report.reported_content_id;
 
           // If reporting content, get the content author
           if (report.reported_content_type === "post") {
-            const { data: post } = await supabaseAdmin
-              .from("posts")
-              .select("author_id")
-              .eq("id", report.reported_content_id)
-              .single();
+            const post = await posts.findById(report.reported_content_id);
             userIdToBan = post?.author_id;
           } else if (report.reported_content_type === "comment") {
-            const { data: comment } = await supabaseAdmin
-              .from("comments")
-              .select("author_id")
-              .eq("id", report.reported_content_id)
-              .single();
+            const comment = await comments.findById(report.reported_content_id);
             userIdToBan = comment?.author_id;
           }
 
+          if (userIdToBan === user.id) {
+            return createErrorResponse("Cannot ban your own account", 400);
+          }
+
+          // The same rule as banning from the user admin
+          if (userIdToBan && !(await outranksUser(role, userIdToBan))) {
+            return createErrorResponse(
+              "Cannot ban a user whose role is equal to or above yours",
+              403
+            );
+          }
+
           if (userIdToBan) {
             // Check if already banned
-            const { data: existingBan } = await supabaseAdmin
-              .from("banned_users")
-              .select("id")
-              .eq("user_id", userIdToBan)
-              .single();
+            const existingBan = await getActiveBan(userIdToBan);
 
             if (!existingBan) {
               const bannedAt = new Date();
@@ -532,25 +326,22 @@ export async function POST(
                   )
                 : null;
 
-              const { error: banError } = await supabaseAdmin
-                .from("banned_users")
-                .insert({
-                  user_id: userIdToBan,
-                  banned_by: user.id,
-                  reason: reason || "Content policy violation",
-                  banned_at: bannedAt.toISOString(),
-                  expires_at: expiresAt?.toISOString() || null,
-                });
-
-              if (!banError) {
-                actionResult = {
-                  success: true,
-                  message: `User banned ${duration_days ? "temporarily" : "permanently"}`,
-                  data: expiresAt
-                    ? { banned_until: expiresAt.toISOString() }
-                    : { banned_until: null },
-                };
-              }
+              await bans.create({
+                user_id: userIdToBan,
+                banned_by: user.id,
+                reason: reason || "Content policy violation",
+                banned_at: bannedAt.toISOString(),
+                expires_at: expiresAt?.toISOString() || null,
+              });
+              await revokeUserSessions(userIdToBan, expiresAt);
+
+              actionResult = {
+                success: true,
+                message: `User banned ${duration_days ? "temporarily" : "permanently"}`,
+                data: expiresAt
+                  ? { banned_until: expiresAt.toISOString() }
+                  : { banned_until: null },
+              };
             } else {
               actionResult = {
                 success: false,
@@ -569,36 +360,33 @@ export async function POST(
           report.reported_content_type === "post" ||
           report.reported_content_type === "comment"
         ) {
-          let userIdToWarn = report.reported_content_id;
+          let userIdToWarn: string | undefined = report.reported_content_id;
 
           // If reporting content, get the content author
           if (report.reported_content_type === "post") {
-            const { data: post } = await supabaseAdmin
-              .from("posts")
-              .select("author_id")
-              .eq("id", report.reported_content_id)
-              .single();
+            const post = await posts.findById(report.reported_content_id);
             userIdToWarn = post?.author_id;
           } else if (report.reported_content_type === "comment") {
-            const { data: comment } = await supabaseAdmin
-              .from("comments")
-              .select("author_id")
-              .eq("id", report.reported_content_id)
-              .single();
+            const comment = await comments.findById(report.reported_content_id);
             userIdToWarn = comment?.author_id;
           }
 
           if (userIdToWarn) {
-            const { error: notificationError } = await supabaseAdmin
-              .from("notifications")
-              .insert({
-                user_id: userIdToWarn,
-                type: "warning",
-                message: `Content warning: ${reason || "Your content has been reported for violating community guidelines"}`,
-                created_at: new Date().toISOString(),
-              });
-
-            if (!notificationError) {
+            const delivered = await dispatchNotification({
+              type: "warning",
+              recipients: { userIds: [userIdToWarn] },
+              actorId: user.id,
+              title: "Content warning",
+              message: `Content warning: ${reason || "Your content has been reported for violating community guidelines"}`,
+              data: {
+                report_id: reportId,
+                content_type: report.reported_content_type,
+                content_id: report.reported_content_id,
+              },
+              channels: ["push"],
+            });
+
+            if (delivered.in_app > 0) {
               actionResult = {
                 success: true,
                 message: "Warning sent to user",
@@ -630,26 +418,21 @@ export async function POST(
     }
 
     // Update report status based on action
-    let newStatus = "reviewed";
+    let newStatus: ReportStatus = "reviewed";
     if (action_type === "dismiss_report") {
       newStatus = "dismissed";
     } else if (action_type !== "warn_user") {
       newStatus = "resolved";
     }
 
-    await supabaseAdmin
-      .from("content_reports")
-      .update({
-        status: newStatus,
-        reviewed_by: user.id,
-        reviewed_at: new Date().toISOString(),
-        action_taken: actionResult.message,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", reportId);
+    await reports.review(reportId, {
+      status: newStatus,
+      reviewed_by: user.id,
+      action_taken: actionResult.message,
+    });
 
     // Log admin action
-    await supabaseAdmin.from("admin_activity_logs").insert({
+    await logs.logAdminAction({
       admin_id: user.id,
       action_type: "moderation_action",
       target_id: reportId,
@@ -660,7 +443,6 @@ export async function POST(
         result: actionResult.message,
         report_id: reportId,
       },
-      created_at: new Date().toISOString(),
     });
 
     return createSuccessResponse({
@@ -1,35 +1,30 @@
 // src/app/api/admin/reports/route.ts
-import { getAuthenticatedUser, isPlatformAdmin } from "@/lib/authHelpers";
 import {
   createErrorResponse,
+  createPagePagination,
   createSuccessResponse,
   handleRouteError,
 } from "@/lib/errorHandler";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { requirePermission } from "@/lib/permissions";
+import { getRepositories } from "@/lib/repositories";
+import { bulkUpdateReportsSchema, getReportsSchema } from "@/lib/schemas/admin";
 import { NextRequest } from "next/server";
-import { z } from "zod";
-
-const getReportsSchema = z.object({
-  page: z.coerce.number().int().min(1).optional().default(1),
-  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
-  type: z.enum(["all", "post", "comment", "user"]).optional().default("all"),
-  status: z
-    .enum(["all", "pending", "reviewed", "resolved", "dismissed"])
-    .optional()
-    .default("all"),
-  severity: z.enum(["all", "low", "medium", "high"]).optional().default("all"),
-  sort: z
-    .enum(["newest", "oldest", "severity", "status"])
-    .optional()
-    .default("newest"),
-});
 
 export async function GET(request: NextRequest) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "view_reports");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const { searchParams } = new URL(request.url);
@@ -37,104 +32,35 @@ export async function GET(request: NextRequest) {
       Object.fromEntries(searchParams.entries())
     );
 
-    const offset = (queryParams.page - 1) * queryParams.limit;
-
-    // Build base query for content reports
-    let query = supabaseAdmin.from("content_reports").select(
-      `
-        id,
-        report_type,
-        reported_content_type,
-        reported_content_id,
-        reason,
-        description,
-        severity,
-        status,
-        created_at,
-        updated_at,
-        reporter:profiles!reporter_id(id, username, display_name),
-        reviewed_by_admin:profiles!reviewed_by(id, username, display_name),
-        admin_notes,
-        action_taken
-      `,
-      { count: "exact" }
-    );
-
-    // Apply filters
-    if (queryParams.type !== "all") {
-      query = query.eq("reported_content_type", queryParams.type);
-    }
-
-    if (queryParams.status !== "all") {
-      query = query.eq("status", queryParams.status);
-    }
-
-    if (queryParams.severity !== "all") {
-      query = query.eq("severity", queryParams.severity);
-    }
-
-    // Apply sorting
-    switch (queryParams.sort) {
-      case "oldest":
-        query = query.order("created_at", { ascending: true });
-        break;
-      case "severity":
-        query = query.order("severity", { ascending: false });
-        break;
-      case "status":
-        query = query.order("status", { ascending: true });
-        break;
-      default:
-        query = query.order("created_at", { ascending: false });
-        break;
-    }
-
-    // Apply pagination
-    query = query.range(offset, offset + queryParams.limit - 1);
-
-    const { data: reports, error: reportsError, count } = await query;
-
-    if (reportsError) {
-      throw reportsError;
-    }
+    const { comments, posts, profiles, reports } = getRepositories();
+    const listed = await reports.list({
+      contentType: queryParams.type === "all" ? undefined : queryParams.type,
+      status: queryParams.status === "all" ? undefined : queryParams.status,
+      severity:
+        queryParams.severity === "all" ? undefined : queryParams.severity,
+      sort: queryParams.sort,
+      limit: queryParams.limit,
+      offset: (queryParams.page - 1) * queryParams.limit,
+    });
 
     // Get related content details for each report
     const enrichedReports = await Promise.all(
-      (reports || []).map(async (report: Record<string, unknown>) => {
+      listed.reports.map(async (report) => {
         let contentDetails = null;
 
         try {
           if (report.reported_content_type === "post") {
-            const { data: post } = await supabaseAdmin
-              .from("posts")
-              .select(
-                "id, title, slug, status, author:profiles(username, display_name)"
-              )
-              .eq("id", report.reported_content_id)
-              .single();
-            contentDetails = post;
+            contentDetails = await posts.findForModeration(
+              report.reported_content_id
+            );
           } else if (report.reported_content_type === "comment") {
-            const { data: comment } = await supabaseAdmin
-              .from("comments")
-              .select(
-                `
-                id, 
-                content, 
-                status,
-                author:profiles(username, display_name),
-                post:posts(id, title, slug)
-              `
-              )
-              .eq("id", report.reported_content_id)
-              .single();
-            contentDetails = comment;
+            contentDetails = await comments.findForModeration(
+              report.reported_content_id
+            );
           } else if (report.reported_content_type === "user") {
-            const { data: user } = await supabaseAdmin
-              .from("profiles")
-              .select("id, username, display_name, email")
-              .eq("id", report.reported_content_id)
-              .single();
-            contentDetails = user;
+            contentDetails = await profiles.findById(
+              report.reported_content_id
+            );
           }
         } catch (error) {
           console.error(
@@ -150,21 +76,25 @@ export async function GET(request: NextRequest) {
       })
     );
 
-    return createSuccessResponse({
-      reports: enrichedReports,
-      pagination: {
-        page: queryParams.page,
-        limit: queryParams.limit,
-        total: count || 0,
-        pages: Math.ceil((count || 0) / queryParams.limit),
-      },
-      filters: {
-        type: queryParams.type,
-        status: queryParams.status,
-        severity: queryParams.severity,
-        sort: queryParams.sort,
+    return createSuccessResponse(
+      {
+        reports: enrichedReports,
+        filters: {
+          type: queryParams.type,
+          status: queryParams.status,
+          severity: queryParams.severity,
+          sort: queryParams.sort,
+        },
       },
-    });
+      200,
+      {
+        pagination: createPagePagination(
+          queryParams.page,
+          queryParams.limit,
+          listed.total
+        ),
+      }
+    );
   } catch (error) {
     return handleRouteError(error);
   }
@@ -173,41 +103,35 @@ export async function GET(request: NextRequest) {
 export async function PUT(request: NextRequest) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "manage_reports");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const body = await request.json();
-    const { report_ids, status, admin_notes, action_taken } = z
-      .object({
-        report_ids: z.array(z.string().uuid()),
-        status: z.enum(["reviewed", "resolved", "dismissed"]),
-        admin_notes: z.string().max(1000).optional(),
-        action_taken: z.string().max(500).optional(),
-      })
-      .parse(body);
+    const { report_ids, status, admin_notes, action_taken } =
+      bulkUpdateReportsSchema.parse(body);
 
     // Update multiple reports
-    const { data: updatedReports, error: updateError } = await supabaseAdmin
-      .from("content_reports")
-      .update({
-        status,
-        reviewed_by: user.id,
-        reviewed_at: new Date().toISOString(),
-        admin_notes: admin_notes || null,
-        action_taken: action_taken || null,
-        updated_at: new Date().toISOString(),
-      })
-      .in("id", report_ids)
-      .select();
-
-    if (updateError) {
-      throw updateError;
-    }
+    const { logs, reports } = getRepositories();
+    const updatedReports = await reports.reviewMany(report_ids, {
+      status,
+      reviewed_by: user.id,
+      admin_notes: admin_notes || null,
+      action_taken: action_taken || null,
+    });
 
     // Log admin action
-    await supabaseAdmin.from("admin_activity_logs").insert({
+    await logs.logAdminAction({
       admin_id: user.id,
       action_type: "reports_updated",
       target_id: null,
@@ -217,7 +141,6 @@ export async function PUT(request: NextRequest) {
         action_taken,
         report_count: report_ids.length,
       },
-      created_at: new Date().toISOString(),
     });
 
     return createSuccessResponse({
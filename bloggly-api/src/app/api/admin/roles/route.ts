@@ -0,0 +1,51 @@
+// src/app/api/admin/roles/route.ts
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import {
+  PERMISSIONS,
+  requirePermission,
+  ROLE_PERMISSIONS,
+  ROLES,
+} from "@/lib/permissions";
+import { getRepositories } from "@/lib/repositories";
+import { NextRequest } from "next/server";
+
+export async function GET(request: NextRequest) {
+  try {
+    // Check admin authorization
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "view_users");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    // Staff members per role (authors and readers are not listed)
+    const staff = await getRepositories().profiles.findByRoles([
+      "admin",
+      "moderator",
+      "support",
+    ]);
+
+    return createSuccessResponse({
+      roles: ROLES.map((role) => ({
+        role,
+        permissions: ROLE_PERMISSIONS[role],
+        members: staff.filter((profile) => profile.role === role),
+      })),
+      permissions: PERMISSIONS,
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
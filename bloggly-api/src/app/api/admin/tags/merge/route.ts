@@ -0,0 +1,82 @@
+// src/app/api/admin/tags/merge/route.ts
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { requirePermission } from "@/lib/permissions";
+import { getRepositories } from "@/lib/repositories";
+import { mergeTagsSchema } from "@/lib/schemas/admin";
+import { mergeTags } from "@/lib/tagService";
+import { NextRequest } from "next/server";
+
+// POST /api/admin/tags/merge - Merge duplicate tags into a canonical tag
+export async function POST(request: NextRequest) {
+  try {
+    // Check admin authorization
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "manage_tags");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const body = await request.json();
+    const { source_tag_ids, target_tag_id, reason } =
+      mergeTagsSchema.parse(body);
+
+    if (source_tag_ids.includes(target_tag_id)) {
+      return createErrorResponse("A tag cannot be merged into itself.", 400);
+    }
+
+    const { tags: tagRepository, logs } = getRepositories();
+    const tags = await tagRepository.findByIds([
+      ...source_tag_ids,
+      target_tag_id,
+    ]);
+
+    const target = tags.find((tag) => tag.id === target_tag_id);
+    const sources = tags.filter((tag) => source_tag_ids.includes(tag.id));
+
+    if (!target || sources.length !== new Set(source_tag_ids).size) {
+      return createErrorResponse("Tag not found.", 404);
+    }
+
+    // Merging into a synonym would create a redirect chain
+    if (target.canonical_tag_id) {
+      return createErrorResponse(
+        "The target tag is itself a synonym. Merge into its canonical tag instead.",
+        400
+      );
+    }
+
+    const result = await mergeTags(sources, target);
+
+    // Log admin activity
+    await logs.logAdminAction({
+      admin_id: user.id,
+      action_type: "tags_merged",
+      target_id: target.id,
+      details: {
+        target: target.slug,
+        merged: sources.map((tag) => tag.slug),
+        posts_updated: result.posts_updated,
+        reason: reason || null,
+      },
+    });
+
+    return createSuccessResponse({
+      message: `Merged ${sources.length} tag(s) into "${target.name}".`,
+      ...result,
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -1,22 +1,21 @@
 // src/app/api/admin/users/[id]/ban/route.ts
-import { getAuthenticatedUser, isPlatformAdmin } from "@/lib/authHelpers";
+import {
+  getActiveBan,
+  restoreUserSessions,
+  revokeUserSessions,
+} from "@/lib/authHelpers";
 import {
   createErrorResponse,
   createSuccessResponse,
   handleRouteError,
 } from "@/lib/errorHandler";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { outranksUser, requirePermission } from "@/lib/permissions";
+import { getRepositories } from "@/lib/repositories";
+import { banUserSchema } from "@/lib/schemas/admin";
 import { NextRequest } from "next/server";
 import { z } from "zod";
 
 const userIdSchema = z.string().uuid();
-const banUserSchema = z.object({
-  reason: z
-    .string()
-    .min(1, "Ban reason is required")
-    .max(500, "Reason too long"),
-  duration_days: z.number().int().min(1).max(365).optional(), // Optional for permanent ban
-});
 
 export async function POST(
   request: NextRequest,
@@ -24,14 +23,25 @@ export async function POST(
 ) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      role,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "ban_users");
+    if (!user || !role) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const userId = userIdSchema.parse(params.id);
     const body = await request.json();
     const { reason, duration_days } = banUserSchema.parse(body);
+    const { bans, logs, profiles } = getRepositories();
 
     // Prevent self-ban
     if (userId === user.id) {
@@ -39,25 +49,22 @@ export async function POST(
     }
 
     // Check if user exists
-    const { data: existingUser, error: userError } = await supabaseAdmin
-      .from("profiles")
-      .select("id, username, email")
-      .eq("id", userId)
-      .single();
-
-    if (userError) {
-      if (userError.code === "PGRST116") {
-        return createErrorResponse("User not found", 404);
-      }
-      throw userError;
+    const existingUser = await profiles.findById(userId);
+
+    if (!existingUser) {
+      return createErrorResponse("User not found", 404);
+    }
+
+    // Moderators cannot ban each other, or an admin
+    if (!(await outranksUser(role, userId))) {
+      return createErrorResponse(
+        "Cannot ban a user whose role is equal to or above yours",
+        403
+      );
     }
 
-    // Check if already banned
-    const { data: existingBan } = await supabaseAdmin
-      .from("banned_users")
-      .select("id")
-      .eq("user_id", userId)
-      .single();
+    // Check if already banned (expired temporary bans are cleared here)
+    const existingBan = await getActiveBan(userId);
 
     if (existingBan) {
       return createErrorResponse("User is already banned", 409);
@@ -70,31 +77,22 @@ export async function POST(
       : null; // null means permanent ban
 
     // Insert ban record
-    const { error: banError } = await supabaseAdmin
-      .from("banned_users")
-      .insert({
-        user_id: userId,
-        banned_by: user.id,
-        reason,
-        banned_at: bannedAt.toISOString(),
-        expires_at: expiresAt?.toISOString() || null,
-      });
-
-    if (banError) {
-      throw banError;
-    }
+    await bans.create({
+      user_id: userId,
+      banned_by: user.id,
+      reason,
+      banned_at: bannedAt.toISOString(),
+      expires_at: expiresAt?.toISOString() || null,
+    });
 
     // Revoke all user sessions
-    try {
-      // This would require getting all user sessions and revoking them
-      // For now, we'll just note it in the logs
-      console.log(`Banned user ${userId} - sessions should be revoked`);
-    } catch (sessionError) {
-      console.error("Failed to revoke user sessions:", sessionError);
-    }
+    const { revoked: sessionsRevoked } = await revokeUserSessions(
+      userId,
+      expiresAt
+    );
 
     // Log admin action
-    await supabaseAdmin.from("admin_activity_logs").insert({
+    await logs.logAdminAction({
       admin_id: user.id,
       action_type: "user_banned",
       target_id: userId,
@@ -103,8 +101,8 @@ export async function POST(
         reason,
         duration_days,
         ban_type: duration_days ? "temporary" : "permanent",
+        sessions_revoked: sessionsRevoked,
       },
-      created_at: new Date().toISOString(),
     });
 
     return createSuccessResponse({
@@ -114,6 +112,7 @@ export async function POST(
         expires_at: expiresAt?.toISOString() || null,
         reason,
         banned_by: user.id,
+        sessions_revoked: sessionsRevoked,
       },
     });
   } catch (error) {
@@ -127,46 +126,61 @@ export async function DELETE(
 ) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      role,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "ban_users");
+    if (!user || !role) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const userId = userIdSchema.parse(params.id);
+    const { bans, logs, profiles } = getRepositories();
+
+    if (userId === user.id) {
+      return createErrorResponse("Cannot unban your own account", 400);
+    }
 
     // Check if user exists and is banned
-    const { error: banError } = await supabaseAdmin
-      .from("banned_users")
-      .select("id, user_id")
-      .eq("user_id", userId)
-      .single();
-
-    if (banError) {
-      if (banError.code === "PGRST116") {
-        return createErrorResponse("User is not banned", 404);
-      }
-      throw banError;
+    const ban = await bans.find(userId);
+
+    if (!ban) {
+      return createErrorResponse("User is not banned", 404);
+    }
+
+    // Bans on peers and superiors are theirs to lift, not the caller's
+    if (!(await outranksUser(role, userId))) {
+      return createErrorResponse(
+        "Cannot unban a user whose role is equal to or above yours",
+        403
+      );
     }
 
     // Get user info for logging
-    const { data: userProfile } = await supabaseAdmin
-      .from("profiles")
-      .select("username")
-      .eq("id", userId)
-      .single();
+    const userProfile = await profiles.findById(userId);
+
+    // Lift the auth-level ban first so the user can sign in again. If that
+    // fails the ban stays in place and the unban can be retried.
+    const { error: restoreError } = await restoreUserSessions(userId);
+    if (restoreError) {
+      return createErrorResponse(
+        `${restoreError.message} The user is still banned; please try again.`,
+        500
+      );
+    }
 
     // Remove ban
-    const { error: unbanError } = await supabaseAdmin
-      .from("banned_users")
-      .delete()
-      .eq("user_id", userId);
-
-    if (unbanError) {
-      throw unbanError;
-    }
+    await bans.delete(userId);
 
     // Log admin action
-    await supabaseAdmin.from("admin_activity_logs").insert({
+    await logs.logAdminAction({
       admin_id: user.id,
       action_type: "user_unbanned",
       target_id: userId,
@@ -174,7 +188,6 @@ export async function DELETE(
         unbanned_username: userProfile?.username || "unknown",
         unban_method: "admin_panel",
       },
-      created_at: new Date().toISOString(),
     });
 
     return createSuccessResponse({
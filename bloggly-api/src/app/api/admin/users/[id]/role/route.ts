@@ -0,0 +1,188 @@
+// src/app/api/admin/users/[id]/role/route.ts
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import {
+  DEFAULT_ROLE,
+  getUserRole,
+  requirePermission,
+  ROLE_PERMISSIONS,
+} from "@/lib/permissions";
+import { getRepositories } from "@/lib/repositories";
+import { grantRoleSchema, revokeRoleSchema } from "@/lib/schemas/admin";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+const userIdSchema = z.string().uuid();
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check admin authorization
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "view_users");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const userId = userIdSchema.parse(params.id);
+    const role = await getUserRole(userId);
+
+    return createSuccessResponse({
+      user_id: userId,
+      role,
+      permissions: ROLE_PERMISSIONS[role],
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check admin authorization
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "manage_roles");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const userId = userIdSchema.parse(params.id);
+    const body = await request.json();
+    const { role, reason } = grantRoleSchema.parse(body);
+
+    // Prevent admins from locking themselves out
+    if (userId === user.id) {
+      return createErrorResponse("Cannot change your own role", 400);
+    }
+
+    const { logs, profiles } = getRepositories();
+
+    // Check if user exists
+    const existingUser = await profiles.findById(userId);
+
+    if (!existingUser) {
+      return createErrorResponse("User not found", 404);
+    }
+
+    const previousRole = existingUser.role || DEFAULT_ROLE;
+    if (previousRole === role) {
+      return createErrorResponse(`User already has the ${role} role`, 409);
+    }
+
+    await profiles.updateRole(userId, role);
+
+    // Log admin action
+    await logs.logAdminAction({
+      admin_id: user.id,
+      action_type: "role_granted",
+      target_id: userId,
+      details: {
+        username: existingUser.username,
+        previous_role: previousRole,
+        new_role: role,
+        reason: reason || null,
+      },
+    });
+
+    return createSuccessResponse({
+      message: `User ${existingUser.username} is now ${role}`,
+      user_id: userId,
+      previous_role: previousRole,
+      role,
+      permissions: ROLE_PERMISSIONS[role],
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check admin authorization
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "manage_roles");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const userId = userIdSchema.parse(params.id);
+    const body = await request.json().catch(() => ({}));
+    const { reason } = revokeRoleSchema.parse(body);
+
+    if (userId === user.id) {
+      return createErrorResponse("Cannot change your own role", 400);
+    }
+
+    const { logs, profiles } = getRepositories();
+    const existingUser = await profiles.findById(userId);
+
+    if (!existingUser) {
+      return createErrorResponse("User not found", 404);
+    }
+
+    const previousRole = existingUser.role || DEFAULT_ROLE;
+    if (previousRole === DEFAULT_ROLE) {
+      return createErrorResponse("User has no role to revoke", 409);
+    }
+
+    // Revoking a role drops the user back to the default reader role
+    await profiles.updateRole(userId, DEFAULT_ROLE);
+
+    // Log admin action
+    await logs.logAdminAction({
+      admin_id: user.id,
+      action_type: "role_revoked",
+      target_id: userId,
+      details: {
+        username: existingUser.username,
+        previous_role: previousRole,
+        new_role: DEFAULT_ROLE,
+        reason: reason || null,
+      },
+    });
+
+    return createSuccessResponse({
+      message: `Role ${previousRole} revoked from ${existingUser.username}`,
+      user_id: userId,
+      previous_role: previousRole,
+      role: DEFAULT_ROLE,
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
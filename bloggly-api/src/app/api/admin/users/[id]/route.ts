@@ -1,11 +1,11 @@
 // src/app/api/admin/users/[id]/route.ts
-import { getAuthenticatedUser, isPlatformAdmin } from "@/lib/authHelpers";
 import {
   createErrorResponse,
   createSuccessResponse,
   handleRouteError,
 } from "@/lib/errorHandler";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { requirePermission } from "@/lib/permissions";
+import { getRepositories } from "@/lib/repositories";
 import { NextRequest } from "next/server";
 import { z } from "zod";
 
@@ -17,123 +17,73 @@ export async function GET(
 ) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "view_users");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const userId = userIdSchema.parse(params.id);
 
+    const { bans, logs, profiles } = getRepositories();
+
     // Get user details
-    const { data: userProfile, error: userError } = await supabaseAdmin
-      .from("profiles")
-      .select(
-        `
-        id,
-        username,
-        display_name,
-        email,
-        avatar_url,
-        bio,
-        website_url,
-        location,
-        social_twitter,
-        social_github,
-        social_linkedin,
-        is_email_verified,
-        email_notification_preferences,
-        created_at,
-        updated_at
-      `
-      )
-      .eq("id", userId)
-      .single();
-
-    if (userError) {
-      if (userError.code === "PGRST116") {
-        return createErrorResponse("User not found", 404);
-      }
-      throw userError;
+    const userProfile = await profiles.findDetail(userId);
+
+    if (!userProfile) {
+      return createErrorResponse("User not found", 404);
     }
 
     // Get user statistics
-    const [
-      postsResult,
-      commentsResult,
-      followersResult,
-      followingResult,
-      activitiesResult,
-      bannedResult,
-    ] = await Promise.all([
-      supabaseAdmin
-        .from("posts")
-        .select("id, status", { count: "exact" })
-        .eq("author_id", userId),
-      supabaseAdmin
-        .from("comments")
-        .select("id, status", { count: "exact" })
-        .eq("author_id", userId),
-      supabaseAdmin
-        .from("follows")
-        .select("id", { count: "exact" })
-        .eq("following_id", userId),
-      supabaseAdmin
-        .from("follows")
-        .select("id", { count: "exact" })
-        .eq("follower_id", userId),
-      supabaseAdmin
-        .from("user_activity_logs")
-        .select("action_type, created_at")
-        .eq("user_id", userId)
-        .order("created_at", { ascending: false })
-        .limit(10),
-      supabaseAdmin
-        .from("banned_users")
-        .select("banned_at, reason, banned_by")
-        .eq("user_id", userId)
-        .single(),
+    const [activity, recentActivities, ban] = await Promise.all([
+      profiles.countActivity(userId),
+      logs.listUserActivity(userId, 10),
+      bans.find(userId),
     ]);
 
-    const postsByStatus =
-      postsResult.data?.reduce(
-        (acc: Record<string, number>, post: { status: string }) => {
-          acc[post.status] = (acc[post.status] || 0) + 1;
-          return acc;
-        },
-        {}
-      ) || {};
-
-    const commentsByStatus =
-      commentsResult.data?.reduce(
-        (acc: Record<string, number>, comment: { status: string }) => {
-          acc[comment.status] = (acc[comment.status] || 0) + 1;
-          return acc;
-        },
-        {}
-      ) || {};
+    const {
+      posts_by_status: postsByStatus,
+      comments_by_status: commentsByStatus,
+    } = activity;
+    const total = (counts: Record<string, number>) =>
+      Object.values(counts).reduce((sum, count) => sum + count, 0);
 
     return createSuccessResponse({
       user: userProfile,
       statistics: {
         posts: {
-          total: postsResult.count || 0,
+          total: total(postsByStatus),
           published: postsByStatus.published || 0,
           draft: postsByStatus.draft || 0,
           archived: postsByStatus.archived || 0,
         },
         comments: {
-          total: commentsResult.count || 0,
+          total: total(commentsByStatus),
           published: commentsByStatus.published || 0,
           flagged: commentsByStatus.flagged || 0,
         },
         social: {
-          followers: followersResult.count || 0,
-          following: followingResult.count || 0,
+          followers: activity.followers_count,
+          following: activity.following_count,
         },
       },
-      recent_activities: activitiesResult.data || [],
-      is_banned: !bannedResult.error,
-      ban_info: bannedResult.error ? null : bannedResult.data,
+      recent_activities: recentActivities,
+      is_banned: !!ban,
+      ban_info: ban
+        ? {
+            banned_at: ban.banned_at,
+            reason: ban.reason,
+            banned_by: ban.banned_by,
+          }
+        : null,
     });
   } catch (error) {
     return handleRouteError(error);
@@ -146,9 +96,18 @@ export async function DELETE(
 ) {
   try {
     // Check admin authorization
-    const { user } = await getAuthenticatedUser(request);
-    if (!user || !isPlatformAdmin(user)) {
-      return createErrorResponse("Admin access required", 403);
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "delete_users");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const userId = userIdSchema.parse(params.id);
@@ -158,30 +117,20 @@ export async function DELETE(
       return createErrorResponse("Cannot delete your own account", 400);
     }
 
+    const { auth, logs, profiles } = getRepositories();
+
     // Check if user exists
-    const { data: existingUser, error: userError } = await supabaseAdmin
-      .from("profiles")
-      .select("id, username")
-      .eq("id", userId)
-      .single();
-
-    if (userError) {
-      if (userError.code === "PGRST116") {
-        return createErrorResponse("User not found", 404);
-      }
-      throw userError;
+    const existingUser = await profiles.findById(userId);
+
+    if (!existingUser) {
+      return createErrorResponse("User not found", 404);
     }
 
     // Delete user from Supabase Auth (this will cascade to related data)
-    const { error: deleteError } =
-      await supabaseAdmin.auth.admin.deleteUser(userId);
-
-    if (deleteError) {
-      throw deleteError;
-    }
+    await auth.deleteUser(userId);
 
     // Log admin action
-    await supabaseAdmin.from("admin_activity_logs").insert({
+    await logs.logAdminAction({
       admin_id: user.id,
       action_type: "user_deleted",
       target_id: userId,
@@ -189,7 +138,6 @@ export async function DELETE(
         deleted_username: existingUser.username,
         deletion_method: "admin_panel",
       },
-      created_at: new Date().toISOString(),
     });
 
     return createSuccessResponse({
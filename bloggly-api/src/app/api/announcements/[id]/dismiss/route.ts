@@ -0,0 +1,52 @@
+// src/app/api/announcements/[id]/dismiss/route.ts
+import { getAnnouncementAudiences } from "@/lib/announcementService";
+import { getAuthenticatedUser } from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { getUserRole } from "@/lib/permissions";
+import { getRepositories } from "@/lib/repositories";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+// POST /api/announcements/[id]/dismiss - Hide an announcement from the
+// caller's GET /api/announcements from now on
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const announcementId = z.string().uuid().parse(params.id);
+    const { announcements } = getRepositories();
+
+    // Only announcements the caller could have been shown
+    const announcement = await announcements.findById(announcementId);
+    const audiences = getAnnouncementAudiences(await getUserRole(user.id));
+
+    if (!announcement || !audiences.includes(announcement.target_audience)) {
+      return createErrorResponse("Announcement not found.", 404);
+    }
+
+    await announcements.dismiss(announcementId, user.id);
+
+    return createSuccessResponse({ message: "Announcement dismissed." });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
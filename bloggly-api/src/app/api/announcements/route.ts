@@ -0,0 +1,43 @@
+// src/app/api/announcements/route.ts
+import {
+  getAnnouncementAudiences,
+  sortAnnouncements,
+  toPublicAnnouncement,
+} from "@/lib/announcementService";
+import { getAuthenticatedUser } from "@/lib/authHelpers";
+import { createSuccessResponse, handleRouteError } from "@/lib/errorHandler";
+import { getUserRole } from "@/lib/permissions";
+import { getRepositories } from "@/lib/repositories";
+import { NextRequest } from "next/server";
+
+// GET /api/announcements - Announcements showing now for the caller's
+// audience, minus the ones a signed-in caller has dismissed
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await getAuthenticatedUser(request);
+    const role = user ? await getUserRole(user.id) : null;
+    const { announcements } = getRepositories();
+
+    const showing = await announcements.listShowing(
+      getAnnouncementAudiences(role),
+      new Date().toISOString()
+    );
+
+    const dismissed = new Set(
+      user
+        ? await announcements.findDismissed(
+            user.id,
+            showing.map((announcement) => announcement.id)
+          )
+        : []
+    );
+
+    return createSuccessResponse({
+      announcements: sortAnnouncements(
+        showing.filter((announcement) => !dismissed.has(announcement.id))
+      ).map(toPublicAnnouncement),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -5,36 +5,39 @@ import {
   createSuccessResponse,
   handleRouteError,
 } from "@/lib/errorHandler";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getRepositories } from "@/lib/repositories";
+import { updateCommentSchema } from "@/lib/schemas/comments";
 import { NextRequest } from "next/server";
 import { z } from "zod";
 
-const updateCommentSchema = z.object({
-  content: z.string().min(1).max(2000),
-});
-
 export async function PUT(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const { user } = await getAuthenticatedUser(request);
+    const {
+      user,
+      error: authError,
+      status,
+    } = await getAuthenticatedUser(request);
     if (!user) {
-      return createErrorResponse("Authentication required.", 401);
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        status,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const commentId = z.string().uuid().parse(params.id);
     const body = await request.json();
     const { content } = updateCommentSchema.parse(body);
+    const { comments, logs } = getRepositories();
 
     // Check if comment exists and user has permission
-    const { data: existingComment, error: fetchError } = await supabaseAdmin
-      .from("comments")
-      .select("*")
-      .eq("id", commentId)
-      .single();
+    const existingComment = await comments.findById(commentId);
 
-    if (fetchError || !existingComment) {
+    if (!existingComment) {
       return createErrorResponse("Comment not found.", 404);
     }
 
@@ -55,29 +58,14 @@ export async function PUT(
     }
 
     // Update comment
-    const { data: updatedComment, error: updateError } = await supabaseAdmin
-      .from("comments")
-      .update({
-        content,
-        edited_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", commentId)
-      .select(
-        `
-        *,
-        author:profiles(id, username, display_name, avatar_url),
-        reactions_count:comment_reactions(reaction_type, count)
-      `
-      )
-      .single();
-
-    if (updateError) {
-      throw updateError;
-    }
+    await comments.update(commentId, {
+      content,
+      edited_at: new Date().toISOString(),
+    });
+    const updatedComment = await comments.findView(commentId);
 
     // Log activity
-    await supabaseAdmin.from("activity_logs").insert({
+    await logs.logActivity({
       user_id: user.id,
       action: "comment_updated",
       resource_type: "comment",
@@ -98,30 +86,32 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const { user } = await getAuthenticatedUser(request);
+    const {
+      user,
+      error: authError,
+      status,
+    } = await getAuthenticatedUser(request);
     if (!user) {
-      return createErrorResponse("Authentication required.", 401);
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        status,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const commentId = z.string().uuid().parse(params.id);
+    const { comments, logs, posts } = getRepositories();
 
     // Check if comment exists and user has permission
-    const { data: existingComment, error: fetchError } = await supabaseAdmin
-      .from("comments")
-      .select("*")
-      .eq("id", commentId)
-      .single();
+    const existingComment = await comments.findById(commentId);
 
-    if (fetchError || !existingComment) {
+    if (!existingComment) {
       return createErrorResponse("Comment not found.", 404);
     }
 
     // Check permissions (author or post author can delete)
-    const { data: post } = await supabaseAdmin
-      .from("posts")
-      .select("author_id")
-      .eq("id", existingComment.post_id)
-      .single();
+    const post = await posts.findById(existingComment.post_id);
 
     const canDelete =
       existingComment.author_id === user.id ||
@@ -135,21 +125,13 @@ export async function DELETE(
     }
 
     // Soft delete - update status to deleted
-    const { error: deleteError } = await supabaseAdmin
-      .from("comments")
-      .update({
-        status: "deleted",
-        deleted_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", commentId);
-
-    if (deleteError) {
-      throw deleteError;
-    }
+    await comments.update(commentId, {
+      status: "deleted",
+      deleted_at: new Date().toISOString(),
+    });
 
     // Log activity
-    await supabaseAdmin.from("activity_logs").insert({
+    await logs.logActivity({
       user_id: user.id,
       action: "comment_deleted",
       resource_type: "comment",
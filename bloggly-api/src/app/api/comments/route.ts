@@ -5,191 +5,194 @@ import {
   createSuccessResponse,
   handleRouteError,
 } from "@/lib/errorHandler";
+import { prepareActivityEmail } from "@/lib/notificationEmailService";
+import { dispatchNotification } from "@/lib/notificationService";
+import { getClientIp } from "@/lib/clientIp";
+import { withRateLimit } from "@/lib/rateLimit";
+import { createCommentSchema, getCommentsSchema } from "@/lib/schemas/comments";
+import { getRepositories } from "@/lib/repositories";
 import { checkSpam } from "@/lib/spamService";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
-import {
-  CommentReactionCount,
-  CommentWithRelations,
-  ReactionType,
-} from "@/lib/types";
 import { extractMentions } from "@/lib/utils";
-import { NextRequest } from "next/server";
-import { z } from "zod";
-
-const createCommentSchema = z.object({
-  post_id: z.string().uuid(),
-  content: z.string().min(1).max(2000),
-  parent_id: z.string().uuid().optional(),
-});
-
-const getCommentsSchema = z.object({
-  post_id: z.string().uuid(),
-  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
-  cursor: z.string().optional(),
-  sort: z.enum(["newest", "oldest", "top"]).optional().default("top"),
-});
-
-export async function POST(request: NextRequest) {
-  try {
-    const { user, profile } = await getAuthenticatedUserWithProfile(request);
-    if (!user || !profile) {
-      return createErrorResponse("Authentication required.", 401);
-    }
-
-    const body = await request.json();
-    const { post_id, content, parent_id } = createCommentSchema.parse(body);
-
-    // Check if post exists and is published
-    const { data: post, error: postError } = await supabaseAdmin
-      .from("posts")
-      .select("id, status, allow_comments, author_id")
-      .eq("id", post_id)
-      .single();
-
-    if (postError || !post) {
-      return createErrorResponse("Post not found.", 404);
-    }
-
-    if (post.status !== "published") {
-      return createErrorResponse("Cannot comment on unpublished posts.", 400);
-    }
-
-    if (!post.allow_comments) {
-      return createErrorResponse("Comments are disabled for this post.", 400);
-    }
-
-    // Check if parent comment exists (if replying)
-    if (parent_id) {
-      const { data: parentComment, error: parentError } = await supabaseAdmin
-        .from("comments")
-        .select("id, post_id")
-        .eq("id", parent_id)
-        .single();
-
-      if (parentError || !parentComment || parentComment.post_id !== post_id) {
-        return createErrorResponse("Parent comment not found.", 404);
+import { after, NextRequest } from "next/server";
+
+export const POST = withRateLimit(
+  "comments_create",
+  async (request: NextRequest) => {
+    try {
+      const {
+        user,
+        profile,
+        error: authError,
+        status,
+      } = await getAuthenticatedUserWithProfile(request);
+      if (!user || !profile) {
+        return createErrorResponse(
+          authError?.message || "Authentication required.",
+          status,
+          authError?.details,
+          authError?.code
+        );
       }
-    }
-
-    // Check for spam
-    const isSpam = await checkSpam({
-      content,
-      authorEmail: user.email || "",
-      authorName: profile.display_name || profile.username,
-      userIP: request.headers.get("x-forwarded-for") || "unknown",
-      userAgent: request.headers.get("user-agent") || "unknown",
-    });
-
-    // Extract mentions from content
-    const mentions = extractMentions(content);
 
-    // Create comment
-    const commentData = {
-      post_id,
-      author_id: user.id,
-      content,
-      parent_id: parent_id || null,
-      is_spam: isSpam,
-      status: isSpam ? "flagged" : "published",
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
+      const body = await request.json();
+      const { post_id, content, parent_id } = createCommentSchema.parse(body);
+      const { comments, logs, posts, profiles } = getRepositories();
 
-    const { data: comment, error: commentError } = await supabaseAdmin
-      .from("comments")
-      .insert(commentData)
-      .select(
-        `
-        *,
-        author:profiles(id, username, display_name, avatar_url),
-        reactions_count:comment_reactions(reaction_type, count),
-        replies_count:comments!parent_id(count)
-      `
-      )
-      .single();
-
-    if (commentError) {
-      throw commentError;
-    }
+      // Check if post exists and is published
+      const post = await posts.findById(post_id);
 
-    // Handle mentions
-    if (mentions.length > 0) {
-      const mentionNotifications = [];
+      if (!post) {
+        return createErrorResponse("Post not found.", 404);
+      }
 
-      for (const username of mentions) {
-        const { data: mentionedUser } = await supabaseAdmin
-          .from("profiles")
-          .select("id")
-          .eq("username", username)
-          .single();
+      if (post.status !== "published") {
+        return createErrorResponse("Cannot comment on unpublished posts.", 400);
+      }
 
-        if (mentionedUser && mentionedUser.id !== user.id) {
-          mentionNotifications.push({
-            user_id: mentionedUser.id,
-            type: "mention",
-            message: `${profile.display_name || profile.username} mentioned you in a comment`,
-            related_post_id: post_id,
-            related_comment_id: comment.id,
-            created_at: new Date().toISOString(),
-          });
-        }
+      if (!post.allow_comments) {
+        return createErrorResponse("Comments are disabled for this post.", 400);
       }
 
-      if (mentionNotifications.length > 0) {
-        await supabaseAdmin.from("notifications").insert(mentionNotifications);
+      // Check if parent comment exists (if replying)
+      const parentComment = parent_id
+        ? await comments.findById(parent_id)
+        : null;
+
+      if (parent_id && (!parentComment || parentComment.post_id !== post_id)) {
+        return createErrorResponse("Parent comment not found.", 404);
       }
-    }
 
-    // Create notification for post author (if not self-comment)
-    if (user.id !== post.author_id && !parent_id) {
-      await supabaseAdmin.from("notifications").insert({
-        user_id: post.author_id,
-        type: "comment",
-        message: `${profile.display_name || profile.username} commented on your post`,
-        related_post_id: post_id,
-        related_comment_id: comment.id,
-        created_at: new Date().toISOString(),
+      // Check for spam
+      const { isSpam } = await checkSpam({
+        content,
+        authorEmail: user.email || "",
+        authorName: profile.display_name || profile.username,
+        userIP: getClientIp(request),
+        userAgent: request.headers.get("user-agent") || "unknown",
       });
-    }
 
-    // Create notification for parent comment author (if replying)
-    if (parent_id) {
-      const { data: parentComment } = await supabaseAdmin
-        .from("comments")
-        .select("author_id")
-        .eq("id", parent_id)
-        .single();
+      // Create comment
+      const comment = await comments.create({
+        post_id,
+        author_id: user.id,
+        content,
+        parent_id: parent_id || null,
+        is_spam: isSpam,
+        status: isSpam ? "flagged" : "published",
+      });
 
-      if (parentComment && parentComment.author_id !== user.id) {
-        await supabaseAdmin.from("notifications").insert({
-          user_id: parentComment.author_id,
-          type: "reply",
-          message: `${profile.display_name || profile.username} replied to your comment`,
-          related_post_id: post_id,
-          related_comment_id: comment.id,
-          created_at: new Date().toISOString(),
+      // Comments held as spam wait for moderation without notifying anyone
+      if (!isSpam) {
+        // Sent once the response is out, so notifying never holds up or
+        // fails the comment
+        after(async () => {
+          try {
+            // Extract mentions from content
+            const mentions = extractMentions(content);
+
+            const actorName = profile.display_name || profile.username;
+            const activity = {
+              postId: post_id,
+              postTitle: post.title,
+              postSlug: post.slug,
+              actorName,
+              excerpt: content,
+            };
+
+            // Handle mentions
+            if (mentions.length > 0) {
+              const mentionedUsers = await profiles.findByUsernames(mentions);
+
+              if (mentionedUsers.length > 0) {
+                await dispatchNotification({
+                  type: "mention",
+                  recipients: {
+                    userIds: mentionedUsers.map((mentioned) => mentioned.id),
+                  },
+                  actorId: user.id,
+                  title: "You were mentioned",
+                  message: `${actorName} mentioned you in a comment`,
+                  data: {
+                    post_id,
+                    comment_id: comment.id,
+                  },
+                  channels: ["email", "push"],
+                  email: (recipient) =>
+                    prepareActivityEmail(recipient, {
+                      ...activity,
+                      kind: "mention",
+                    }),
+                });
+              }
+            }
+
+            // Create notification for post author
+            if (!parent_id) {
+              await dispatchNotification({
+                type: "comment",
+                recipients: { userIds: [post.author_id] },
+                actorId: user.id,
+                title: "New comment",
+                message: `${actorName} commented on your post`,
+                data: {
+                  post_id,
+                  comment_id: comment.id,
+                },
+                channels: ["email", "push"],
+                email: (recipient) =>
+                  prepareActivityEmail(recipient, {
+                    ...activity,
+                    kind: "comment",
+                  }),
+              });
+            }
+
+            // Create notification for parent comment author (if replying)
+            if (parentComment) {
+              await dispatchNotification({
+                type: "reply",
+                recipients: { userIds: [parentComment.author_id] },
+                actorId: user.id,
+                title: "New reply",
+                message: `${actorName} replied to your comment`,
+                data: {
+                  post_id,
+                  comment_id: comment.id,
+                  parent_id: parentComment.id,
+                },
+                channels: ["email", "push"],
+                email: (recipient) =>
+                  prepareActivityEmail(recipient, {
+                    ...activity,
+                    kind: "reply",
+                  }),
+              });
+            }
+          } catch (error) {
+            console.error("Error notifying about comment:", error);
+          }
         });
       }
-    }
 
-    // Log activity
-    await supabaseAdmin.from("activity_logs").insert({
-      user_id: user.id,
-      action: "comment_created",
-      resource_type: "comment",
-      resource_id: comment.id,
-      metadata: {
-        post_id,
-        parent_id,
-        is_spam: isSpam,
-      },
-    });
+      // Log activity
+      await logs.logActivity({
+        user_id: user.id,
+        action: "comment_created",
+        resource_type: "comment",
+        resource_id: comment.id,
+        metadata: {
+          post_id,
+          parent_id,
+          is_spam: isSpam,
+        },
+      });
 
-    return createSuccessResponse(comment, 201);
-  } catch (error) {
-    return handleRouteError(error);
+      return createSuccessResponse(comment, 201);
+    } catch (error) {
+      return handleRouteError(error);
+    }
   }
-}
+);
 
 export async function GET(request: NextRequest) {
   try {
@@ -198,15 +201,12 @@ export async function GET(request: NextRequest) {
 
     const { post_id, limit, cursor, sort } =
       getCommentsSchema.parse(queryParams);
+    const { comments, posts } = getRepositories();
 
     // Check if post exists
-    const { data: post, error: postError } = await supabaseAdmin
-      .from("posts")
-      .select("id, status")
-      .eq("id", post_id)
-      .single();
+    const post = await posts.findById(post_id);
 
-    if (postError || !post) {
+    if (!post) {
       return createErrorResponse("Post not found.", 404);
     }
 
@@ -217,97 +217,18 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Build query for top-level comments
-    let query = supabaseAdmin
-      .from("comments")
-      .select(
-        `
-        *,
-        author:profiles(id, username, display_name, avatar_url),
-        reactions_count:comment_reactions(reaction_type, count),
-        replies_count:comments!parent_id(count),
-        replies:comments!parent_id(
-          *,
-          author:profiles(id, username, display_name, avatar_url),
-          reactions_count:comment_reactions(reaction_type, count)
-        )
-      `
-      )
-      .eq("post_id", post_id)
-      .is("parent_id", null)
-      .eq("status", "published")
-      .limit(limit);
-
-    // Apply sorting
-    switch (sort) {
-      case "newest":
-        query = query.order("created_at", { ascending: false });
-        break;
-      case "oldest":
-        query = query.order("created_at", { ascending: true });
-        break;
-      case "top":
-      default:
-        // Order by reaction count, then by created_at
-        query = query
-          .order("like_count", { ascending: false })
-          .order("created_at", { ascending: false });
-        break;
-    }
-
-    // Apply cursor pagination
-    if (cursor) {
-      const cursorDate = new Date(cursor).toISOString();
-      query = query.lt("created_at", cursorDate);
-    }
-
-    const { data: comments, error: commentsError } = await query;
-
-    if (commentsError) {
-      throw commentsError;
-    }
-
-    // Transform comments data
-    const transformedComments = comments.map(
-      (comment: CommentWithRelations) => ({
-        ...comment,
-        reactions_count:
-          comment.reactions_count?.reduce(
-            (
-              acc: Record<ReactionType, number>,
-              reaction: CommentReactionCount
-            ) => {
-              acc[reaction.reaction_type] = reaction.count;
-              return acc;
-            },
-            {} as Record<ReactionType, number>
-          ) || {},
-        replies_count: comment.replies_count?.[0]?.count || 0,
-        replies:
-          comment.replies?.map((reply: CommentWithRelations) => ({
-            ...reply,
-            reactions_count:
-              reply.reactions_count?.reduce(
-                (
-                  acc: Record<ReactionType, number>,
-                  reaction: CommentReactionCount
-                ) => {
-                  acc[reaction.reaction_type] = reaction.count;
-                  return acc;
-                },
-                {} as Record<ReactionType, number>
-              ) || {},
-          })) || [],
-      })
-    );
+    // Top-level comments with their replies, after the cursor if given
+    const threads = await comments.listThreads({
+      postId: post_id,
+      limit,
+      before: cursor ? new Date(cursor).toISOString() : undefined,
+      sort,
+    });
 
-    const hasMore = comments.length === limit;
-    const nextCursor = hasMore
-      ? comments[comments.length - 1].created_at
-      : null;
+    const hasMore = threads.length === limit;
+    const nextCursor = hasMore ? threads[threads.length - 1].created_at : null;
 
-    return createSuccessResponse({
-      comments: transformedComments,
+    return createSuccessResponse({ comments: threads }, 200, {
       pagination: {
         has_more: hasMore,
         next_cursor: nextCursor,
@@ -0,0 +1,33 @@
+// src/app/api/cron/announcement-notifications/route.ts
+import { sendAnnouncementNotifications } from "@/lib/announcementService";
+import { isAuthorizedCronRequest } from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { announcementNotificationsSchema } from "@/lib/schemas/cron";
+import { NextRequest } from "next/server";
+
+// POST /api/cron/announcement-notifications - Push started high priority
+// announcements to the next batch of their audience. Safe to re-run: each
+// announcement resumes after the last recipient it reached.
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return createErrorResponse("Invalid cron credentials.", 401);
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { limit } = announcementNotificationsSchema.parse(body);
+
+    const result = await sendAnnouncementNotifications(limit);
+
+    return createSuccessResponse({
+      ...result,
+      processed_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,28 @@
+// src/app/api/cron/notification-emails/route.ts
+import { isAuthorizedCronRequest } from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { flushPendingActivityEmails } from "@/lib/notificationEmailService";
+import { NextRequest } from "next/server";
+
+// POST /api/cron/notification-emails - Send summaries for throttled
+// comment, reply and mention emails whose window has passed
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return createErrorResponse("Invalid cron credentials.", 401);
+    }
+
+    const result = await flushPendingActivityEmails();
+
+    return createSuccessResponse({
+      ...result,
+      processed_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,29 @@
+// src/app/api/cron/scheduled-posts/route.ts
+import { isAuthorizedCronRequest } from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { processScheduledPosts } from "@/lib/publishingService";
+import { NextRequest } from "next/server";
+
+// POST /api/cron/scheduled-posts - Publish and unpublish posts that are due.
+// Safe to call as often as the scheduler likes; each post is processed once.
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return createErrorResponse("Invalid cron credentials.", 401);
+    }
+
+    const result = await processScheduledPosts();
+
+    return createSuccessResponse({
+      published: result.published,
+      unpublished: result.unpublished,
+      processed_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,36 @@
+// src/app/api/cron/weekly-digest/route.ts
+import { isAuthorizedCronRequest } from "@/lib/authHelpers";
+import { getDigestPeriod, sendWeeklyDigests } from "@/lib/digestService";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { weeklyDigestSchema } from "@/lib/schemas/cron";
+import { NextRequest } from "next/server";
+
+// POST /api/cron/weekly-digest - Send last week's digest to the next batch
+// of users. Safe to re-run: users already handled for the week are skipped,
+// and users whose send failed are retried.
+export async function POST(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return createErrorResponse("Invalid cron credentials.", 401);
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { reference_date, limit, cursor } = weeklyDigestSchema.parse(body);
+    const period = getDigestPeriod(
+      reference_date ? new Date(reference_date) : new Date()
+    );
+
+    const result = await sendWeeklyDigests(period, limit, cursor || null);
+
+    return createSuccessResponse({
+      ...result,
+      processed_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
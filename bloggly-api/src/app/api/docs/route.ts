@@ -0,0 +1,21 @@
+// src/app/api/docs/route.ts
+import { NextResponse } from "next/server";
+
+// GET /api/docs - API reference rendered from /api/openapi.json
+export async function GET() {
+  return new NextResponse(
+    `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Bloggly API Reference</title>
+</head>
+<body>
+  <redoc spec-url="/api/openapi.json"></redoc>
+  <script src="https://cdn.redoc.ly/redoc/v2.5.0/bundles/redoc.standalone.js"></script>
+</body>
+</html>`,
+    { headers: { "Content-Type": "text/html; charset=utf-8" } }
+  );
+}
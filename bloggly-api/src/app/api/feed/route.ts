@@ -0,0 +1,62 @@
+// src/app/api/feed/route.ts
+import { getAuthenticatedUser } from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { buildFeed, decodeFeedCursor } from "@/lib/feedService";
+import { getFeedSchema } from "@/lib/schemas/posts";
+import { NextRequest } from "next/server";
+
+// GET /api/feed - Personalized home feed for the signed-in reader
+export async function GET(request: NextRequest) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { limit, cursor } = getFeedSchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
+
+    const feedCursor = cursor ? decodeFeedCursor(cursor) : null;
+    if (cursor && !feedCursor) {
+      return createErrorResponse("Invalid cursor.", 400);
+    }
+
+    const { items, nextCursor } = await buildFeed(user.id, limit, feedCursor);
+
+    return createSuccessResponse(
+      {
+        posts: items.map((item) => ({
+          ...item.post,
+          feed: {
+            score: item.score,
+            sources: item.sources,
+          },
+        })),
+      },
+      200,
+      {
+        pagination: {
+          has_more: nextCursor !== null,
+          next_cursor: nextCursor,
+        },
+      }
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
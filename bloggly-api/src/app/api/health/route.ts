@@ -4,7 +4,13 @@ import {
   createSuccessResponse,
   handleRouteError,
 } from "@/lib/errorHandler";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import {
+  getRateLimitPolicy,
+  getRateLimitStore,
+  RateLimitPolicyName,
+  SETTINGS_RATE_LIMITS,
+} from "@/lib/rateLimit";
+import { getRepositories } from "@/lib/repositories";
 import { NextRequest } from "next/server";
 
 interface HealthStatus {
@@ -57,28 +63,17 @@ export async function GET() {
       },
     };
 
+    const { analytics } = getRepositories();
+
     // Test database connection
     try {
       const dbStartTime = Date.now();
-      const { error } = await supabaseAdmin
-        .from("profiles")
-        .select("count", { count: "exact", head: true })
-        .limit(1);
-
-      const dbResponseTime = Date.now() - dbStartTime;
+      await analytics.ping();
 
-      if (error) {
-        healthStatus.services.database = {
-          status: "unhealthy",
-          error: error.message,
-        };
-        healthStatus.status = "degraded";
-      } else {
-        healthStatus.services.database = {
-          status: "healthy",
-          response_time: dbResponseTime,
-        };
-      }
+      healthStatus.services.database = {
+        status: "healthy",
+        response_time: Date.now() - dbStartTime,
+      };
     } catch (dbError) {
       healthStatus.services.database = {
         status: "unhealthy",
@@ -111,22 +106,16 @@ export async function GET() {
     // Get basic metrics (only if database is healthy)
     if (healthStatus.services.database.status === "healthy") {
       try {
-        const [usersResult, postsResult, commentsResult] = await Promise.all([
-          supabaseAdmin
-            .from("profiles")
-            .select("count", { count: "exact", head: true }),
-          supabaseAdmin
-            .from("posts")
-            .select("count", { count: "exact", head: true }),
-          supabaseAdmin
-            .from("comments")
-            .select("count", { count: "exact", head: true }),
+        const [totalUsers, totalPosts, totalComments] = await Promise.all([
+          analytics.count("profiles"),
+          analytics.count("posts"),
+          analytics.count("comments"),
         ]);
 
         healthStatus.metrics = {
-          total_users: usersResult.count || 0,
-          total_posts: postsResult.count || 0,
-          total_comments: commentsResult.count || 0,
+          total_users: totalUsers,
+          total_posts: totalPosts,
+          total_comments: totalComments,
         };
       } catch (metricsError) {
         // Metrics are optional, don't fail the health check
@@ -189,18 +178,11 @@ async function checkDatabasePerformance() {
   try {
     const startTime = Date.now();
 
-    // Test a complex query
-    await supabaseAdmin
-      .from("posts")
-      .select(
-        `
-        id,
-        title,
-        author:profiles!posts_author_id_fkey(username),
-        comments(count)
-      `
-      )
-      .limit(10);
+    // Test a query that joins the authors
+    await getRepositories().posts.list({
+      orderBy: "published_at",
+      limit: 10,
+    });
 
     const responseTime = Date.now() - startTime;
 
@@ -231,14 +213,18 @@ async function checkEmailService() {
 
 async function checkRateLimiting() {
   try {
-    // Check if rate limiting tables exist and are accessible
-    const { count } = await supabaseAdmin
-      .from("rate_limit_logs")
-      .select("count", { count: "exact", head: true });
+    // Report where counters live and the hourly limits now in force
+    const names = Object.keys(SETTINGS_RATE_LIMITS) as RateLimitPolicyName[];
+    const policies = await Promise.all(
+      names.map((name) => getRateLimitPolicy(name))
+    );
 
     return {
       status: "healthy",
-      logs_count: count,
+      store: getRateLimitStore().constructor.name,
+      hourly_limits: Object.fromEntries(
+        names.map((name, index) => [name, policies[index].limit])
+      ),
     };
   } catch (error) {
     return {
@@ -1,174 +1,88 @@
-import { validateToken } from "@/lib/authHelpers";
-import { handleRouteError } from "@/lib/errorHandler";
-import { rateLimitAPI } from "@/lib/rateLimit";
-import { createClient } from "@supabase/supabase-js";
-import { NextRequest, NextResponse } from "next/server";
-import { z } from "zod";
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-);
-
-const notificationPreferencesSchema = z.object({
-  email_notifications: z.boolean().optional(),
-  push_notifications: z.boolean().optional(),
-  comment_notifications: z.boolean().optional(),
-  reaction_notifications: z.boolean().optional(),
-  follow_notifications: z.boolean().optional(),
-  mention_notifications: z.boolean().optional(),
-  post_published_notifications: z.boolean().optional(),
-  weekly_digest: z.boolean().optional(),
-  marketing_emails: z.boolean().optional(),
-});
+// src/app/api/notifications/preferences/route.ts
+import { getAuthenticatedUser } from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { DEFAULT_NOTIFICATION_PREFERENCES } from "@/lib/notificationService";
+import { withRateLimit } from "@/lib/rateLimit";
+import { notificationPreferencesSchema } from "@/lib/schemas/notifications";
+import { getRepositories } from "@/lib/repositories";
+import { NextRequest } from "next/server";
 
 // GET /api/notifications/preferences - Get user notification preferences
-export async function GET(request: NextRequest) {
-  try {
-    // Apply rate limiting
-    const rateLimitResult = await rateLimitAPI("notification-preferences-get");
-    if (!rateLimitResult.allowed) {
-      return NextResponse.json(
-        { error: "Rate limit exceeded" },
-        { status: 429 }
-      );
+export const GET = withRateLimit(
+  "api_general",
+  async (request: NextRequest) => {
+    try {
+      // Validate authentication
+      const {
+        user,
+        error: authError,
+        status: authStatus,
+      } = await getAuthenticatedUser(request);
+      if (!user) {
+        return createErrorResponse(
+          authError?.message || "Authentication required.",
+          authStatus,
+          authError?.details,
+          authError?.code
+        );
+      }
+
+      const [preferences] =
+        await getRepositories().notifications.findPreferences([user.id]);
+
+      // If no preferences exist, return defaults
+      return createSuccessResponse({
+        preferences: preferences || DEFAULT_NOTIFICATION_PREFERENCES,
+      });
+    } catch (error) {
+      console.error("Error in notification preferences GET:", error);
+      return handleRouteError(error);
     }
-
-    // Validate authentication
-    const user = await validateToken(request);
-    if (!user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
-    }
-
-    // Get user preferences
-    const { data: preferences, error } = await supabase
-      .from("notification_preferences")
-      .select("*")
-      .eq("user_id", user.id)
-      .single();
-
-    if (error && error.code !== "PGRST116") {
-      // PGRST116 is "not found"
-      console.error("Error fetching notification preferences:", error);
-      return NextResponse.json(
-        { error: "Failed to fetch notification preferences" },
-        { status: 500 }
-      );
-    }
-
-    // If no preferences exist, return defaults
-    const defaultPreferences = {
-      email_notifications: true,
-      push_notifications: true,
-      comment_notifications: true,
-      reaction_notifications: true,
-      follow_notifications: true,
-      mention_notifications: true,
-      post_published_notifications: true,
-      weekly_digest: true,
-      marketing_emails: false,
-    };
-
-    return NextResponse.json({
-      preferences: preferences || defaultPreferences,
-    });
-  } catch (error) {
-    console.error("Error in notification preferences GET:", error);
-    return handleRouteError(error);
   }
-}
+);
 
 // PUT /api/notifications/preferences - Update user notification preferences
-export async function PUT(request: NextRequest) {
-  try {
-    // Apply rate limiting
-    const rateLimitResult = await rateLimitAPI(
-      "notification-preferences-update"
-    );
-    if (!rateLimitResult.allowed) {
-      return NextResponse.json(
-        { error: "Rate limit exceeded" },
-        { status: 429 }
-      );
-    }
-
-    // Validate authentication
-    const user = await validateToken(request);
-    if (!user) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 }
-      );
+export const PUT = withRateLimit(
+  "api_general",
+  async (request: NextRequest) => {
+    try {
+      // Validate authentication
+      const {
+        user,
+        error: authError,
+        status: authStatus,
+      } = await getAuthenticatedUser(request);
+      if (!user) {
+        return createErrorResponse(
+          authError?.message || "Authentication required.",
+          authStatus,
+          authError?.details,
+          authError?.code
+        );
+      }
+
+      const body = await request.json();
+
+      // Validate request body
+      const preferences = notificationPreferencesSchema.parse(body);
+
+      const updatedPreferences =
+        await getRepositories().notifications.savePreferences(
+          user.id,
+          preferences
+        );
+
+      return createSuccessResponse({
+        message: "Notification preferences updated successfully",
+        preferences: updatedPreferences,
+      });
+    } catch (error) {
+      console.error("Error in notification preferences PUT:", error);
+      return handleRouteError(error);
     }
-
-    const body = await request.json();
-
-    // Validate request body
-    const validationResult = notificationPreferencesSchema.safeParse(body);
-    if (!validationResult.success) {
-      return NextResponse.json(
-        {
-          error: "Invalid request body",
-          details: validationResult.error.errors,
-        },
-        { status: 400 }
-      );
-    }
-
-    const preferences = validationResult.data;
-
-    // Check if preferences already exist
-    const { data: existingPreferences } = await supabase
-      .from("notification_preferences")
-      .select("id")
-      .eq("user_id", user.id)
-      .single();
-
-    let result;
-    if (existingPreferences) {
-      // Update existing preferences
-      result = await supabase
-        .from("notification_preferences")
-        .update({
-          ...preferences,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("user_id", user.id)
-        .select()
-        .single();
-    } else {
-      // Create new preferences
-      result = await supabase
-        .from("notification_preferences")
-        .insert({
-          user_id: user.id,
-          ...preferences,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        })
-        .select()
-        .single();
-    }
-
-    const { data: updatedPreferences, error } = result;
-
-    if (error) {
-      console.error("Error updating notification preferences:", error);
-      return NextResponse.json(
-        { error: "Failed to update notification preferences" },
-        { status: 500 }
-      );
-    }
-
-    return NextResponse.json({
-      message: "Notification preferences updated successfully",
-      preferences: updatedPreferences,
-    });
-  } catch (error) {
-    console.error("Error in notification preferences PUT:", error);
-    return handleRouteError(error);
   }
-}
+);
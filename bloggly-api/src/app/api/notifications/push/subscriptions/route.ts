@@ -0,0 +1,130 @@
+// src/app/api/notifications/push/subscriptions/route.ts
+import { getAuthenticatedUser } from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { getRepositories } from "@/lib/repositories";
+import {
+  deletePushSubscription,
+  getVapidPublicKey,
+  savePushSubscription,
+} from "@/lib/pushService";
+import {
+  registerPushSubscriptionSchema,
+  unregisterPushSubscriptionSchema,
+} from "@/lib/schemas/notifications";
+import { NextRequest } from "next/server";
+
+// GET /api/notifications/push/subscriptions - The caller's registered
+// devices and the VAPID public key needed to register a new one
+export async function GET(request: NextRequest) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const subscriptions = await getRepositories().pushSubscriptions.listForUser(
+      user.id
+    );
+
+    return createSuccessResponse({
+      vapid_public_key: getVapidPublicKey(),
+      // The keys stay on the server
+      subscriptions: subscriptions.map((subscription) => ({
+        id: subscription.id,
+        endpoint: subscription.endpoint,
+        user_agent: subscription.user_agent,
+        created_at: subscription.created_at,
+        last_used_at: subscription.last_used_at,
+      })),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// POST /api/notifications/push/subscriptions - Register this device for push
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    if (!getVapidPublicKey()) {
+      return createErrorResponse("Push notifications are not available.", 503);
+    }
+
+    const body = await request.json();
+    const subscription = registerPushSubscriptionSchema.parse(body);
+
+    const saved = await savePushSubscription(
+      user.id,
+      subscription,
+      request.headers.get("user-agent")
+    );
+
+    return createSuccessResponse(
+      {
+        id: saved.id,
+        endpoint: subscription.endpoint,
+        created_at: saved.created_at,
+      },
+      201
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// DELETE /api/notifications/push/subscriptions - Unregister a device
+export async function DELETE(request: NextRequest) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const body = await request.json();
+    const { endpoint } = unregisterPushSubscriptionSchema.parse(body);
+
+    const deleted = await deletePushSubscription(user.id, endpoint);
+    if (!deleted) {
+      return createErrorResponse("Push subscription not found.", 404);
+    }
+
+    return createSuccessResponse({ endpoint, unsubscribed: true });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
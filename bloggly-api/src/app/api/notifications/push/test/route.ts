@@ -0,0 +1,55 @@
+// src/app/api/notifications/push/test/route.ts
+import { getAuthenticatedUser } from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { getVapidPublicKey, sendPushToUsers } from "@/lib/pushService";
+import { withRateLimit } from "@/lib/rateLimit";
+import { NextRequest } from "next/server";
+
+// POST /api/notifications/push/test - Send a test notification to every
+// device the caller has registered, regardless of their push preference
+export const POST = withRateLimit(
+  "api_general",
+  async (request: NextRequest) => {
+    try {
+      const {
+        user,
+        error: authError,
+        status: authStatus,
+      } = await getAuthenticatedUser(request);
+      if (!user) {
+        return createErrorResponse(
+          authError?.message || "Authentication required.",
+          authStatus,
+          authError?.details,
+          authError?.code
+        );
+      }
+
+      if (!getVapidPublicKey()) {
+        return createErrorResponse(
+          "Push notifications are not available.",
+          503
+        );
+      }
+
+      const result = await sendPushToUsers([user.id], {
+        title: "Test notification",
+        body: "Push notifications are working on this device.",
+        type: "test",
+        data: {},
+      });
+
+      if (result.sent + result.failed + result.pruned === 0) {
+        return createErrorResponse("No push subscriptions registered.", 404);
+      }
+
+      return createSuccessResponse(result);
+    } catch (error) {
+      return handleRouteError(error);
+    }
+  }
+);
@@ -0,0 +1,250 @@
+// src/app/api/notifications/stream/route.ts
+import { getAuthenticatedUser } from "@/lib/authHelpers";
+import { createErrorResponse, handleRouteError } from "@/lib/errorHandler";
+import {
+  getNotificationPubSub,
+  NotificationMessage,
+  StreamedNotification,
+} from "@/lib/notificationPubSub";
+import { withRateLimit } from "@/lib/rateLimit";
+import { getRepositories } from "@/lib/repositories";
+import { isUuid } from "@/lib/utils";
+import { NextRequest } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const RECONNECT_DELAY_MS = 5 * 1000;
+// Notifications missed while disconnected that are replayed on reconnect
+const REPLAY_LIMIT = 100;
+
+// Grouped notifications are sent again as they take in events, so the event
+// id carries the version: "<notification id>@<updated_at>"
+function getEventId(notification: StreamedNotification): string {
+  return `${notification.id}@${notification.updated_at}`;
+}
+
+function parseEventId(
+  eventId: string | null
+): { id: string; version: string | null } | null {
+  const [id, version = null, ...rest] = (eventId || "").split("@");
+  if (!isUuid(id) || rest.length > 0) {
+    return null;
+  }
+  if (version !== null && Number.isNaN(Date.parse(version))) {
+    return null;
+  }
+  return { id, version };
+}
+
+// Notifications created or regrouped after the version the client last saw.
+// An id that is unknown (deleted, or not the user's) replays nothing.
+async function getMissedNotifications(
+  userId: string,
+  lastEvent: { id: string; version: string | null }
+): Promise<StreamedNotification[]> {
+  const { notifications } = getRepositories();
+  const lastVersion = await notifications.findVersion(userId, lastEvent.id);
+
+  if (!lastVersion) {
+    return [];
+  }
+
+  return notifications.listUpdatedSince(
+    userId,
+    lastEvent.version || lastVersion,
+    REPLAY_LIMIT
+  );
+}
+
+function formatEvent(event: string, data: unknown, id?: string): string {
+  return `${id ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// GET /api/notifications/stream - Server-Sent Events stream of new
+// notifications and unread count changes for the authenticated user.
+// Reconnecting clients send Last-Event-ID to receive what they missed.
+export const GET = withRateLimit(
+  "api_general",
+  async (request: NextRequest) => {
+    try {
+      // Validate authentication
+      const {
+        user,
+        error: authError,
+        status: authStatus,
+      } = await getAuthenticatedUser(request);
+      if (!user) {
+        return createErrorResponse(
+          authError?.message || "Authentication required.",
+          authStatus,
+          authError?.details,
+          authError?.code
+        );
+      }
+
+      // Anything that is not an event id is ignored rather than failing
+      // the stream, which the client would only retry
+      const lastEvent = parseEventId(
+        request.headers.get("last-event-id") ||
+          new URL(request.url).searchParams.get("last_event_id")
+      );
+
+      const encoder = new TextEncoder();
+      let cleanup = () => {};
+
+      const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          let closed = false;
+          let replaying = true;
+          let countInFlight = false;
+          let countStale = false;
+          const queued: NotificationMessage[] = [];
+          // Event ids (id plus version) sent during replay, to drop the
+          // copies held in queued. Dropped once the queue has drained, so it
+          // does not grow for the life of the connection.
+          let sentIds: Set<string> | null = new Set<string>();
+
+          const send = (chunk: string) => {
+            if (!closed) {
+              controller.enqueue(encoder.encode(chunk));
+            }
+          };
+
+          const sendNotification = (
+            notification: StreamedNotification,
+            event: "notification" | "notification_updated"
+          ) => {
+            const eventId = getEventId(notification);
+            if (sentIds) {
+              if (sentIds.has(eventId)) {
+                return;
+              }
+              sentIds.add(eventId);
+            }
+            send(formatEvent(event, notification, eventId));
+          };
+
+          // Changes arriving while a count is being read trigger one more
+          // read afterwards instead of one read each
+          const sendUnreadCount = async () => {
+            if (countInFlight) {
+              countStale = true;
+              return;
+            }
+            countInFlight = true;
+            try {
+              do {
+                countStale = false;
+                send(
+                  formatEvent("unread_count", {
+                    unread_count:
+                      await getRepositories().notifications.countUnread(
+                        user.id
+                      ),
+                  })
+                );
+              } while (countStale && !closed);
+            } catch (error) {
+              console.error("Error refreshing streamed unread count:", error);
+            } finally {
+              countInFlight = false;
+            }
+          };
+
+          const handleMessage = (message: NotificationMessage) => {
+            if (message.kind === "unread_changed") {
+              void sendUnreadCount();
+            } else {
+              sendNotification(message.notification, message.kind);
+            }
+          };
+
+          // Subscribe before replaying so nothing published in between is lost;
+          // anything that arrives meanwhile is held and de-duplicated.
+          const unsubscribe = getNotificationPubSub().subscribe(
+            user.id,
+            (message) => {
+              if (replaying) {
+                queued.push(message);
+              } else {
+                handleMessage(message);
+              }
+            }
+          );
+
+          const heartbeat = setInterval(() => {
+            send(": heartbeat\n\n");
+          }, HEARTBEAT_INTERVAL_MS);
+
+          cleanup = () => {
+            if (closed) {
+              return;
+            }
+            closed = true;
+            clearInterval(heartbeat);
+            unsubscribe();
+            try {
+              controller.close();
+            } catch {
+              // Already closed by the runtime
+            }
+          };
+          request.signal.addEventListener("abort", () => cleanup());
+
+          send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+          try {
+            if (lastEvent) {
+              const missed = await getMissedNotifications(user.id, lastEvent);
+              missed.forEach((notification) =>
+                sendNotification(
+                  notification,
+                  notification.updated_at > notification.created_at
+                    ? "notification_updated"
+                    : "notification"
+                )
+              );
+            }
+
+            send(
+              formatEvent("unread_count", {
+                unread_count: await getRepositories().notifications.countUnread(
+                  user.id
+                ),
+              })
+            );
+          } catch (error) {
+            console.error("Error starting notification stream:", error);
+            cleanup();
+            return;
+          }
+
+          replaying = false;
+          queued
+            .filter((message) => message.kind !== "unread_changed")
+            .forEach(handleMessage);
+          sentIds = null;
+          if (queued.some((message) => message.kind === "unread_changed")) {
+            void sendUnreadCount();
+          }
+        },
+        cancel() {
+          cleanup();
+        },
+      });
+
+      return new Response(stream, {
+        headers: {
+          "Content-Type": "text/event-stream; charset=utf-8",
+          "Cache-Control": "no-cache, no-transform",
+          Connection: "keep-alive",
+          "X-Accel-Buffering": "no",
+        },
+      });
+    } catch (error) {
+      console.error("Error in notifications stream GET:", error);
+      return handleRouteError(error);
+    }
+  }
+);
@@ -0,0 +1,108 @@
+// src/app/api/notifications/unsubscribe/route.ts
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import {
+  applyUnsubscribe,
+  UnsubscribePreference,
+  verifyUnsubscribeToken,
+} from "@/lib/unsubscribeService";
+import { NextRequest, NextResponse } from "next/server";
+
+const preferenceLabels: Record<UnsubscribePreference, string> = {
+  email_notifications: "all notification emails",
+  comment_emails: "comment and reply emails",
+  mention_emails: "mention emails",
+  collaboration_emails: "collaboration emails",
+  weekly_digest: "the weekly digest",
+  marketing_emails: "marketing emails",
+};
+
+function renderPage(content: string, status: number) {
+  return new NextResponse(
+    `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Bloggly Notifications</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 40px 20px; text-align: center;">
+  <h1 style="color: #495057;">Bloggly</h1>
+  ${content}
+</body>
+</html>`,
+    { status, headers: { "Content-Type": "text/html; charset=utf-8" } }
+  );
+}
+
+function renderMessage(message: string, status: number) {
+  return renderPage(`<p style="font-size: 16px;">${message}</p>`, status);
+}
+
+// GET /api/notifications/unsubscribe?token=... - Link in notification emails.
+// Only asks for confirmation: mail scanners prefetch links, so a GET must
+// never change anything.
+export async function GET(request: NextRequest) {
+  try {
+    const token = new URL(request.url).searchParams.get("token") || "";
+    const unsubscribe = verifyUnsubscribeToken(token);
+    if (!unsubscribe) {
+      return renderMessage("This unsubscribe link is invalid.", 400);
+    }
+
+    return renderPage(
+      `<p style="font-size: 16px;">Stop receiving ${preferenceLabels[unsubscribe.preference]}?</p>
+  <form method="post" action="/api/notifications/unsubscribe?token=${encodeURIComponent(token)}">
+    <button type="submit" style="font-size: 16px; padding: 10px 24px; cursor: pointer;">Unsubscribe</button>
+  </form>`,
+      200
+    );
+  } catch (error) {
+    console.error("Error in unsubscribe GET:", error);
+    return renderMessage("Something went wrong. Please try again later.", 500);
+  }
+}
+
+// POST /api/notifications/unsubscribe?token=... - One-click unsubscribe
+// (RFC 8058) from mail clients, and the confirmation form above. Browsers
+// get a page back; everything else gets JSON.
+export async function POST(request: NextRequest) {
+  const wantsPage = (request.headers.get("accept") || "").includes("text/html");
+
+  try {
+    const token = new URL(request.url).searchParams.get("token") || "";
+    const unsubscribe = verifyUnsubscribeToken(token);
+    if (!unsubscribe) {
+      return wantsPage
+        ? renderMessage("This unsubscribe link is invalid.", 400)
+        : createErrorResponse("Invalid unsubscribe token.", 400);
+    }
+
+    await applyUnsubscribe(unsubscribe);
+
+    const label = preferenceLabels[unsubscribe.preference];
+    if (wantsPage) {
+      return renderMessage(
+        `You have been unsubscribed from ${label}. You can turn them back on in your notification settings.`,
+        200
+      );
+    }
+
+    return createSuccessResponse({
+      message: `Unsubscribed from ${label}.`,
+      preference: unsubscribe.preference,
+    });
+  } catch (error) {
+    if (wantsPage) {
+      console.error("Error in unsubscribe POST:", error);
+      return renderMessage(
+        "Something went wrong. Please try again later.",
+        500
+      );
+    }
+    return handleRouteError(error);
+  }
+}
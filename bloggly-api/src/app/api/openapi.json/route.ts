@@ -0,0 +1,15 @@
+// src/app/api/openapi.json/route.ts
+import { handleRouteError } from "@/lib/errorHandler";
+import { getOpenApiDocument } from "@/lib/openApi";
+import { NextResponse } from "next/server";
+
+// GET /api/openapi.json - The OpenAPI 3.1 spec, generated from src/lib/apiRoutes.ts
+export async function GET() {
+  try {
+    return NextResponse.json(getOpenApiDocument(), {
+      headers: { "Cache-Control": "public, max-age=300" },
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,235 @@
+// src/app/api/posts/[idOrSlug]/collaborators/[userId]/route.ts
+import {
+  checkPostAuthorization,
+  getAuthenticatedUser,
+} from "@/lib/authHelpers";
+import { recordCollaborationEvent } from "@/lib/collaborationService";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { findPostByIdOrSlug } from "@/lib/postHelpers";
+import { getRepositories } from "@/lib/repositories";
+import {
+  respondToInvitationSchema,
+  updateCollaboratorRoleSchema,
+} from "@/lib/schemas/posts";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+const userIdSchema = z.string().uuid();
+
+// PUT /api/posts/[idOrSlug]/collaborators/[userId] - Change a collaborator's role
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { idOrSlug: string; userId: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const collaboratorId = userIdSchema.parse(params.userId);
+    const body = await request.json();
+    const { role } = updateCollaboratorRoleSchema.parse(body);
+
+    const post = await findPostByIdOrSlug(params.idOrSlug);
+    if (!post) {
+      return createErrorResponse("Post not found.", 404);
+    }
+
+    const { authorized } = await checkPostAuthorization(
+      user.id,
+      post.id,
+      "author"
+    );
+    if (!authorized) {
+      return createErrorResponse(
+        "Only the author can manage collaborators.",
+        403
+      );
+    }
+
+    const { collaborators } = getRepositories();
+    const collaborator = await collaborators.find(post.id, collaboratorId);
+    if (!collaborator) {
+      return createErrorResponse("Collaborator not found.", 404);
+    }
+
+    if (collaborator.role === role) {
+      return createErrorResponse(`Collaborator is already ${role}.`, 409);
+    }
+
+    const updatedCollaborator = await collaborators.update(
+      post.id,
+      collaboratorId,
+      { role }
+    );
+
+    await recordCollaborationEvent({
+      event: "role_changed",
+      post,
+      actorId: user.id,
+      recipientId: collaboratorId,
+      collaboratorId,
+      role,
+    });
+
+    return createSuccessResponse(updatedCollaborator);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// POST /api/posts/[idOrSlug]/collaborators/[userId] - Accept or decline an invitation
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { idOrSlug: string; userId: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const collaboratorId = userIdSchema.parse(params.userId);
+    const body = await request.json();
+    const { action } = respondToInvitationSchema.parse(body);
+
+    // Only the invitee can respond to their invitation
+    if (collaboratorId !== user.id) {
+      return createErrorResponse(
+        "You can only respond to your own invitations.",
+        403
+      );
+    }
+
+    const post = await findPostByIdOrSlug(params.idOrSlug);
+    if (!post) {
+      return createErrorResponse("Post not found.", 404);
+    }
+
+    const { collaborators } = getRepositories();
+    const collaborator = await collaborators.find(post.id, collaboratorId);
+    if (!collaborator) {
+      return createErrorResponse("Invitation not found.", 404);
+    }
+
+    if (collaborator.accepted_at) {
+      return createErrorResponse("Invitation has already been accepted.", 409);
+    }
+
+    if (action === "accept") {
+      await collaborators.update(post.id, collaboratorId, {
+        accepted_at: new Date().toISOString(),
+      });
+    } else {
+      await collaborators.delete(post.id, collaboratorId);
+    }
+
+    await recordCollaborationEvent({
+      event: action === "accept" ? "accepted" : "declined",
+      post,
+      actorId: user.id,
+      recipientId: collaborator.invited_by || post.author_id,
+      collaboratorId,
+      role: collaborator.role,
+    });
+
+    return createSuccessResponse({
+      message:
+        action === "accept"
+          ? "Invitation accepted successfully."
+          : "Invitation declined successfully.",
+      action,
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// DELETE /api/posts/[idOrSlug]/collaborators/[userId] - Remove a collaborator or revoke an invitation
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { idOrSlug: string; userId: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const collaboratorId = userIdSchema.parse(params.userId);
+
+    const post = await findPostByIdOrSlug(params.idOrSlug);
+    if (!post) {
+      return createErrorResponse("Post not found.", 404);
+    }
+
+    const { authorized } = await checkPostAuthorization(
+      user.id,
+      post.id,
+      "author"
+    );
+    if (!authorized) {
+      return createErrorResponse(
+        "Only the author can manage collaborators.",
+        403
+      );
+    }
+
+    const { collaborators } = getRepositories();
+    const collaborator = await collaborators.find(post.id, collaboratorId);
+    if (!collaborator) {
+      return createErrorResponse("Collaborator not found.", 404);
+    }
+
+    await collaborators.delete(post.id, collaboratorId);
+
+    await recordCollaborationEvent({
+      event: "removed",
+      post,
+      actorId: user.id,
+      recipientId: collaboratorId,
+      collaboratorId,
+      role: collaborator.role,
+    });
+
+    return createSuccessResponse({
+      message: collaborator.accepted_at
+        ? "Collaborator removed successfully."
+        : "Invitation revoked successfully.",
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,153 @@
+// src/app/api/posts/[idOrSlug]/collaborators/route.ts
+import {
+  checkPostAuthorization,
+  getAuthenticatedUser,
+} from "@/lib/authHelpers";
+import { recordCollaborationEvent } from "@/lib/collaborationService";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { findPostByIdOrSlug } from "@/lib/postHelpers";
+import { getRepositories } from "@/lib/repositories";
+import { inviteCollaboratorSchema } from "@/lib/schemas/posts";
+import { NextRequest } from "next/server";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { idOrSlug: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const post = await findPostByIdOrSlug(params.idOrSlug);
+    if (!post) {
+      return createErrorResponse("Post not found.", 404);
+    }
+
+    const { authorized } = await checkPostAuthorization(
+      user.id,
+      post.id,
+      "any"
+    );
+    if (!authorized) {
+      return createErrorResponse(
+        "Insufficient permissions for this post.",
+        403
+      );
+    }
+
+    const collaborators = await getRepositories().collaborators.listForPost(
+      post.id
+    );
+
+    return createSuccessResponse({
+      collaborators: collaborators.map((collaborator) => ({
+        ...collaborator,
+        status: collaborator.accepted_at ? "accepted" : "pending",
+      })),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// POST /api/posts/[idOrSlug]/collaborators - Invite a user to collaborate
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { idOrSlug: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const body = await request.json();
+    const { user_id, role } = inviteCollaboratorSchema.parse(body);
+
+    const post = await findPostByIdOrSlug(params.idOrSlug);
+    if (!post) {
+      return createErrorResponse("Post not found.", 404);
+    }
+
+    // Only the post owner can invite collaborators
+    const { authorized } = await checkPostAuthorization(
+      user.id,
+      post.id,
+      "author"
+    );
+    if (!authorized) {
+      return createErrorResponse(
+        "Only the author can invite collaborators.",
+        403
+      );
+    }
+
+    if (user_id === user.id) {
+      return createErrorResponse("Cannot invite yourself.", 400);
+    }
+
+    const { profiles, collaborators } = getRepositories();
+
+    // Check if invitee exists
+    const invitee = await profiles.findById(user_id);
+    if (!invitee) {
+      return createErrorResponse("User not found.", 404);
+    }
+
+    // Check for an existing invitation or collaboration
+    const existingCollaborator = await collaborators.find(post.id, user_id);
+
+    if (existingCollaborator) {
+      return createErrorResponse(
+        existingCollaborator.accepted_at
+          ? "User is already a collaborator."
+          : "User has already been invited.",
+        409
+      );
+    }
+
+    const collaborator = await collaborators.create({
+      post_id: post.id,
+      user_id,
+      role,
+      invited_by: user.id,
+    });
+
+    await recordCollaborationEvent({
+      event: "invited",
+      post,
+      actorId: user.id,
+      recipientId: user_id,
+      collaboratorId: user_id,
+      role,
+    });
+
+    return createSuccessResponse({ ...collaborator, status: "pending" }, 201);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,110 @@
+// src/app/api/posts/[idOrSlug]/revisions/[revision]/restore/route.ts
+import {
+  checkPostAuthorization,
+  getAuthenticatedUser,
+} from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { calculateReadingTime, findPostByIdOrSlug } from "@/lib/postHelpers";
+import { getRepositories } from "@/lib/repositories";
+import { createPostRevision, getPostRevision } from "@/lib/revisionService";
+import { resolveTagNames, syncPostTags } from "@/lib/tagService";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+const revisionNumberSchema = z.coerce.number().int().min(1);
+
+// POST /api/posts/[idOrSlug]/revisions/[revision]/restore - Restore an older revision as a new one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { idOrSlug: string; revision: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const revisionNumber = revisionNumberSchema.parse(params.revision);
+
+    const post = await findPostByIdOrSlug(params.idOrSlug);
+    if (!post) {
+      return createErrorResponse("Post not found.", 404);
+    }
+
+    // Restoring rewrites the post, so it needs the owner or an editor
+    const { authorized } = await checkPostAuthorization(
+      user.id,
+      post.id,
+      "editor"
+    );
+    if (!authorized) {
+      return createErrorResponse(
+        "Only the author or editors can restore revisions.",
+        403
+      );
+    }
+
+    const revision = await getPostRevision(post.id, revisionNumber);
+    if (!revision) {
+      return createErrorResponse("Revision not found.", 404);
+    }
+
+    // Tags merged since the revision was saved come back as their canonical tag
+    const tags = await resolveTagNames(revision.tags, user.id);
+
+    const { posts, logs } = getRepositories();
+    const updatedPost = await posts.update(post.id, {
+      title: revision.title,
+      content_markdown: revision.content_markdown,
+      excerpt: revision.excerpt,
+      tags: tags.map((tag) => tag.name),
+      reading_time: calculateReadingTime(revision.content_markdown),
+    });
+
+    await syncPostTags(post.id, tags);
+
+    const newRevision = await createPostRevision({
+      postId: post.id,
+      authorId: user.id,
+      title: revision.title,
+      contentMarkdown: revision.content_markdown,
+      excerpt: revision.excerpt,
+      tags: updatedPost.tags,
+      changeSummary: `Restored revision ${revisionNumber}`,
+      restoredFrom: revisionNumber,
+    });
+
+    // Log activity
+    await logs.logActivity({
+      user_id: user.id,
+      action: "post_revision_restored",
+      resource_type: "post",
+      resource_id: post.id,
+      metadata: {
+        restored_from: revisionNumber,
+        revision_number: newRevision.revision_number,
+      },
+    });
+
+    return createSuccessResponse({
+      message: `Revision ${revisionNumber} restored successfully.`,
+      post: updatedPost,
+      revision: newRevision,
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,65 @@
+// src/app/api/posts/[idOrSlug]/revisions/[revision]/route.ts
+import {
+  checkPostAuthorization,
+  getAuthenticatedUser,
+} from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { findPostByIdOrSlug } from "@/lib/postHelpers";
+import { getPostRevision } from "@/lib/revisionService";
+import { NextRequest } from "next/server";
+import { z } from "zod";
+
+const revisionNumberSchema = z.coerce.number().int().min(1);
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { idOrSlug: string; revision: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const revisionNumber = revisionNumberSchema.parse(params.revision);
+
+    const post = await findPostByIdOrSlug(params.idOrSlug);
+    if (!post) {
+      return createErrorResponse("Post not found.", 404);
+    }
+
+    const { authorized } = await checkPostAuthorization(
+      user.id,
+      post.id,
+      "any"
+    );
+    if (!authorized) {
+      return createErrorResponse(
+        "Insufficient permissions for this post.",
+        403
+      );
+    }
+
+    const revision = await getPostRevision(post.id, revisionNumber);
+    if (!revision) {
+      return createErrorResponse("Revision not found.", 404);
+    }
+
+    return createSuccessResponse(revision);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
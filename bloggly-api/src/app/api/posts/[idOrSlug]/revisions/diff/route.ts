@@ -0,0 +1,73 @@
+// src/app/api/posts/[idOrSlug]/revisions/diff/route.ts
+import {
+  checkPostAuthorization,
+  getAuthenticatedUser,
+} from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { findPostByIdOrSlug } from "@/lib/postHelpers";
+import { diffRevisions, getPostRevision } from "@/lib/revisionService";
+import { revisionDiffSchema } from "@/lib/schemas/posts";
+import { NextRequest } from "next/server";
+
+// GET /api/posts/[idOrSlug]/revisions/diff?from=1&to=3 - Diff two revisions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { idOrSlug: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { from, to, granularity } = revisionDiffSchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
+
+    const post = await findPostByIdOrSlug(params.idOrSlug);
+    if (!post) {
+      return createErrorResponse("Post not found.", 404);
+    }
+
+    const { authorized } = await checkPostAuthorization(
+      user.id,
+      post.id,
+      "any"
+    );
+    if (!authorized) {
+      return createErrorResponse(
+        "Insufficient permissions for this post.",
+        403
+      );
+    }
+
+    const [fromRevision, toRevision] = await Promise.all([
+      getPostRevision(post.id, from),
+      getPostRevision(post.id, to),
+    ]);
+
+    if (!fromRevision || !toRevision) {
+      return createErrorResponse("Revision not found.", 404);
+    }
+
+    return createSuccessResponse(
+      diffRevisions(fromRevision, toRevision, granularity)
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
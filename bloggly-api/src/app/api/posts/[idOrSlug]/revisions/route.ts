@@ -0,0 +1,77 @@
+// src/app/api/posts/[idOrSlug]/revisions/route.ts
+import {
+  checkPostAuthorization,
+  getAuthenticatedUser,
+} from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { findPostByIdOrSlug } from "@/lib/postHelpers";
+import { getRepositories } from "@/lib/repositories";
+import { getRevisionsSchema } from "@/lib/schemas/posts";
+import { NextRequest } from "next/server";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { idOrSlug: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { limit, cursor } = getRevisionsSchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
+
+    const post = await findPostByIdOrSlug(params.idOrSlug);
+    if (!post) {
+      return createErrorResponse("Post not found.", 404);
+    }
+
+    const { authorized } = await checkPostAuthorization(
+      user.id,
+      post.id,
+      "any"
+    );
+    if (!authorized) {
+      return createErrorResponse(
+        "Insufficient permissions for this post.",
+        403
+      );
+    }
+
+    // Content is left out of the listing; fetch a single revision for it
+    const revisions = await getRepositories().revisions.list(post.id, {
+      limit,
+      before: cursor,
+    });
+
+    const hasMore = revisions.length === limit;
+    const nextCursor = hasMore
+      ? String(revisions[revisions.length - 1].revision_number)
+      : null;
+
+    return createSuccessResponse({ revisions }, 200, {
+      pagination: {
+        has_more: hasMore,
+        next_cursor: nextCursor,
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
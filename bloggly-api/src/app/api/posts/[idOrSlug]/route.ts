@@ -0,0 +1,363 @@
+// src/app/api/posts/[idOrSlug]/route.ts
+import {
+  checkPostAuthorization,
+  getAuthenticatedUser,
+} from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import {
+  calculateReadingTime,
+  generateExcerpt,
+  findPostByIdOrSlug,
+  getMaxPostLength,
+  getScheduleError,
+  saveWithUniqueSlug,
+} from "@/lib/postHelpers";
+import { notifyFollowersOfPublication } from "@/lib/publishingService";
+import { getRepositories, PostChanges, Tag } from "@/lib/repositories";
+import {
+  createPostRevision,
+  describeChanges,
+  ensureBaselineRevision,
+  REVISIONED_FIELDS,
+} from "@/lib/revisionService";
+import { postActionSchema, updatePostSchema } from "@/lib/schemas/posts";
+import { resolveTagNames, syncPostTags } from "@/lib/tagService";
+import { after, NextRequest } from "next/server";
+
+// Statuses a post must be in for each action to apply
+const allowedTransitions: Record<
+  "publish" | "unpublish" | "archive",
+  { from: string[]; to: string; logAction: string }
+> = {
+  publish: {
+    from: ["draft", "archived"],
+    to: "published",
+    logAction: "post_published",
+  },
+  unpublish: {
+    from: ["published"],
+    to: "draft",
+    logAction: "post_unpublished",
+  },
+  archive: {
+    from: ["draft", "published"],
+    to: "archived",
+    logAction: "post_archived",
+  },
+};
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { idOrSlug: string } }
+) {
+  try {
+    const post = await findPostByIdOrSlug(params.idOrSlug);
+    if (!post) {
+      return createErrorResponse("Post not found.", 404);
+    }
+
+    // Unpublished posts are only visible to the author and collaborators
+    if (post.status !== "published") {
+      const { user } = await getAuthenticatedUser(request);
+      const { authorized } = user
+        ? await checkPostAuthorization(user.id, post.id, "any")
+        : { authorized: false };
+
+      if (!authorized) {
+        return createErrorResponse("Post not found.", 404);
+      }
+    }
+
+    return createSuccessResponse(post);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { idOrSlug: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const existingPost = await findPostByIdOrSlug(params.idOrSlug);
+    if (!existingPost) {
+      return createErrorResponse("Post not found.", 404);
+    }
+
+    const { authorized, error: permissionError } = await checkPostAuthorization(
+      user.id,
+      existingPost.id,
+      "any"
+    );
+    if (!authorized) {
+      return createErrorResponse(
+        permissionError?.message || "Insufficient permissions for this post.",
+        403
+      );
+    }
+
+    const maxPostLength = await getMaxPostLength();
+    const body = await request.json();
+    const { change_summary, ...changes } =
+      updatePostSchema(maxPostLength).parse(body);
+
+    if (
+      changes.scheduled_for !== undefined ||
+      changes.unpublish_at !== undefined
+    ) {
+      if (changes.scheduled_for && existingPost.status !== "draft") {
+        return createErrorResponse(
+          "Only drafts can be scheduled for publishing.",
+          409
+        );
+      }
+
+      const scheduleError = getScheduleError(
+        changes.scheduled_for !== undefined
+          ? changes.scheduled_for
+          : existingPost.scheduled_for,
+        changes.unpublish_at !== undefined
+          ? changes.unpublish_at
+          : existingPost.unpublish_at
+      );
+      if (scheduleError) {
+        return createErrorResponse(scheduleError, 400);
+      }
+    }
+
+    const updateData: PostChanges = { ...changes };
+
+    // Tags are stored under their canonical names
+    let tags: Tag[] | null = null;
+    if (changes.tags) {
+      tags = await resolveTagNames(changes.tags, user.id);
+      updateData.tags = tags.map((tag) => tag.name);
+    }
+
+    if (changes.content_markdown) {
+      updateData.reading_time = calculateReadingTime(changes.content_markdown);
+      if (changes.excerpt === undefined) {
+        updateData.excerpt = generateExcerpt(changes.content_markdown);
+      }
+    }
+
+    if (REVISIONED_FIELDS.some((field) => changes[field] !== undefined)) {
+      await ensureBaselineRevision(existingPost);
+    }
+
+    const { posts, logs } = getRepositories();
+
+    // Slugs stay stable once a post has been published, so links keep working
+    const updatedPost =
+      changes.title &&
+      changes.title !== existingPost.title &&
+      !existingPost.published_at
+        ? await saveWithUniqueSlug(
+            changes.title,
+            (slug) => posts.update(existingPost.id, { ...updateData, slug }),
+            existingPost.id
+          )
+        : await posts.update(existingPost.id, updateData);
+
+    if (tags) {
+      await syncPostTags(existingPost.id, tags);
+    }
+
+    // Every save that touches revisioned content is kept as a revision
+    const changedFields = REVISIONED_FIELDS.filter(
+      (field) =>
+        JSON.stringify(updatedPost[field]) !==
+        JSON.stringify(existingPost[field])
+    );
+    const revision =
+      changedFields.length > 0
+        ? await createPostRevision({
+            postId: existingPost.id,
+            authorId: user.id,
+            title: updatedPost.title,
+            contentMarkdown: updatedPost.content_markdown,
+            excerpt: updatedPost.excerpt,
+            tags: updatedPost.tags,
+            changeSummary: change_summary || describeChanges(changedFields),
+          })
+        : null;
+
+    // Log activity
+    await logs.logActivity({
+      user_id: user.id,
+      action: "post_updated",
+      resource_type: "post",
+      resource_id: existingPost.id,
+      metadata: {
+        updated_fields: Object.keys(changes),
+        was_author: existingPost.author_id === user.id,
+        revision_number: revision?.revision_number || null,
+      },
+    });
+
+    return createSuccessResponse(updatedPost);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// POST /api/posts/[idOrSlug] - Publish, unpublish or archive a post
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { idOrSlug: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const body = await request.json();
+    const { action } = postActionSchema.parse(body);
+
+    const existingPost = await findPostByIdOrSlug(params.idOrSlug);
+    if (!existingPost) {
+      return createErrorResponse("Post not found.", 404);
+    }
+
+    const { authorized, error: permissionError } = await checkPostAuthorization(
+      user.id,
+      existingPost.id,
+      "any"
+    );
+    if (!authorized) {
+      return createErrorResponse(
+        permissionError?.message || "Insufficient permissions for this post.",
+        403
+      );
+    }
+
+    const transition = allowedTransitions[action];
+    if (!transition.from.includes(existingPost.status)) {
+      return createErrorResponse(
+        `Cannot ${action} a post with status "${existingPost.status}".`,
+        409
+      );
+    }
+
+    const updateData: PostChanges = { status: transition.to };
+    // A manual transition supersedes any pending schedule for it
+    if (action === "publish") {
+      updateData.published_at =
+        existingPost.published_at || new Date().toISOString();
+      updateData.scheduled_for = null;
+    } else if (action === "unpublish") {
+      updateData.unpublish_at = null;
+    } else {
+      updateData.scheduled_for = null;
+      updateData.unpublish_at = null;
+    }
+
+    const { posts, logs } = getRepositories();
+    const updatedPost = await posts.update(existingPost.id, updateData);
+
+    // Log activity
+    await logs.logActivity({
+      user_id: user.id,
+      action: transition.logAction,
+      resource_type: "post",
+      resource_id: existingPost.id,
+      metadata: {
+        previous_status: existingPost.status,
+        new_status: transition.to,
+      },
+    });
+
+    // Followers only hear about a post the first time it goes live
+    if (action === "publish" && !existingPost.published_at) {
+      after(() => notifyFollowersOfPublication(updatedPost));
+    }
+
+    return createSuccessResponse(updatedPost);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { idOrSlug: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const existingPost = await findPostByIdOrSlug(params.idOrSlug);
+    if (!existingPost) {
+      return createErrorResponse("Post not found.", 404);
+    }
+
+    // Only the post author can delete, collaborators cannot
+    const { authorized } = await checkPostAuthorization(
+      user.id,
+      existingPost.id,
+      "author"
+    );
+    if (!authorized) {
+      return createErrorResponse("Only the author can delete this post.", 403);
+    }
+
+    // Soft delete - update status to deleted
+    const { posts, logs } = getRepositories();
+    await posts.update(existingPost.id, { status: "deleted" });
+
+    // Log activity
+    await logs.logActivity({
+      user_id: user.id,
+      action: "post_deleted",
+      resource_type: "post",
+      resource_id: existingPost.id,
+      metadata: {
+        slug: existingPost.slug,
+        previous_status: existingPost.status,
+      },
+    });
+
+    return createSuccessResponse({ message: "Post deleted successfully." });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
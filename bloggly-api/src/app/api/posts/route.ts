@@ -0,0 +1,186 @@
+// src/app/api/posts/route.ts
+import { getAuthenticatedUser } from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import {
+  calculateReadingTime,
+  decodePostCursor,
+  encodePostCursor,
+  generateExcerpt,
+  getMaxPostLength,
+  getScheduleError,
+  saveWithUniqueSlug,
+} from "@/lib/postHelpers";
+import { notifyFollowersOfPublication } from "@/lib/publishingService";
+import { withRateLimit } from "@/lib/rateLimit";
+import { getRepositories, PostListQuery } from "@/lib/repositories";
+import { createPostRevision } from "@/lib/revisionService";
+import { createPostSchema, getPostsSchema } from "@/lib/schemas/posts";
+import { resolveTagNames, syncPostTags } from "@/lib/tagService";
+import { after, NextRequest } from "next/server";
+
+export const POST = withRateLimit(
+  "posts_create",
+  async (request: NextRequest) => {
+    try {
+      const {
+        user,
+        error: authError,
+        status: authStatus,
+      } = await getAuthenticatedUser(request);
+      if (!user) {
+        return createErrorResponse(
+          authError?.message || "Authentication required.",
+          authStatus,
+          authError?.details,
+          authError?.code
+        );
+      }
+
+      const maxPostLength = await getMaxPostLength();
+      const body = await request.json();
+      const postData = createPostSchema(maxPostLength).parse(body);
+
+      // A scheduled post stays a draft until the scheduler publishes it
+      if (postData.scheduled_for && postData.status === "published") {
+        return createErrorResponse(
+          "A post cannot be published and scheduled at the same time.",
+          400
+        );
+      }
+
+      const scheduleError = getScheduleError(
+        postData.scheduled_for,
+        postData.unpublish_at
+      );
+      if (scheduleError) {
+        return createErrorResponse(scheduleError, 400);
+      }
+
+      const tags = await resolveTagNames(postData.tags, user.id);
+      const { posts, logs } = getRepositories();
+
+      const post = await saveWithUniqueSlug(postData.title, (slug) =>
+        posts.create({
+          author_id: user.id,
+          title: postData.title,
+          slug,
+          content_markdown: postData.content_markdown,
+          excerpt:
+            postData.excerpt || generateExcerpt(postData.content_markdown),
+          reading_time: calculateReadingTime(postData.content_markdown),
+          cover_image_url: postData.cover_image_url || null,
+          tags: tags.map((tag) => tag.name),
+          allow_comments: postData.allow_comments,
+          status: postData.status,
+          published_at:
+            postData.status === "published" ? new Date().toISOString() : null,
+          scheduled_for: postData.scheduled_for || null,
+          unpublish_at: postData.unpublish_at || null,
+        })
+      );
+
+      await syncPostTags(post.id, tags);
+
+      await createPostRevision({
+        postId: post.id,
+        authorId: user.id,
+        title: post.title,
+        contentMarkdown: post.content_markdown,
+        excerpt: post.excerpt,
+        tags: post.tags,
+        changeSummary: "Initial version",
+      });
+
+      // Log activity
+      await logs.logActivity({
+        user_id: user.id,
+        action: "post_created",
+        resource_type: "post",
+        resource_id: post.id,
+        metadata: {
+          slug: post.slug,
+          status: postData.status,
+          scheduled_for: post.scheduled_for,
+        },
+      });
+
+      if (post.status === "published") {
+        // After the response, as the fan-out grows with the followers
+        after(() => notifyFollowersOfPublication(post));
+      }
+
+      return createSuccessResponse(post, 201);
+    } catch (error) {
+      return handleRouteError(error);
+    }
+  }
+);
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { limit, cursor, author_id, tag, mine, status } =
+      getPostsSchema.parse(Object.fromEntries(searchParams.entries()));
+
+    const postCursor = cursor ? decodePostCursor(cursor) : null;
+    if (cursor && !postCursor) {
+      return createErrorResponse("Invalid cursor.", 400);
+    }
+
+    let query: PostListQuery;
+
+    if (mine) {
+      // The author's own posts, in any status
+      const {
+        user,
+        error: authError,
+        status: authStatus,
+      } = await getAuthenticatedUser(request);
+      if (!user) {
+        return createErrorResponse(
+          authError?.message || "Authentication required.",
+          authStatus,
+          authError?.details,
+          authError?.code
+        );
+      }
+
+      query = { authorId: user.id, status, orderBy: "updated_at", limit };
+    } else {
+      query = {
+        authorId: author_id,
+        status: "published",
+        orderBy: "published_at",
+        limit,
+      };
+    }
+
+    const posts = await getRepositories().posts.list({
+      ...query,
+      tag,
+      after: postCursor || undefined,
+    });
+
+    const hasMore = posts.length === limit;
+    const lastPost = posts[posts.length - 1];
+    const nextCursor = hasMore
+      ? encodePostCursor({
+          at: (mine ? lastPost.updated_at : lastPost.published_at) as string,
+          id: lastPost.id,
+        })
+      : null;
+
+    return createSuccessResponse({ posts }, 200, {
+      pagination: {
+        has_more: hasMore,
+        next_cursor: nextCursor,
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,130 @@
+// src/app/api/search/route.ts
+import { getAuthenticatedUser } from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { searchSchema } from "@/lib/schemas/search";
+import {
+  decodeSearchCursor,
+  parseSearchQuery,
+  recordSearchEvent,
+  searchContent,
+  SEARCH_TYPES,
+  SearchFilters,
+  SearchPage,
+} from "@/lib/searchService";
+import { NextRequest } from "next/server";
+
+function toPagination(page: SearchPage) {
+  return {
+    has_more: page.nextCursor !== null,
+    next_cursor: page.nextCursor,
+  };
+}
+
+// GET /api/search?q=... - Full-text search across posts, comments, users and tags
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const params = searchSchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
+
+    const query = parseSearchQuery(params.q);
+    if (!query) {
+      return createErrorResponse(
+        "Search query must contain at least one word.",
+        400
+      );
+    }
+
+    const cursor = params.cursor ? decodeSearchCursor(params.cursor) : null;
+    if (params.cursor && !cursor) {
+      return createErrorResponse("Invalid cursor.", 400);
+    }
+
+    const filters: SearchFilters = {
+      tag: params.tag,
+      authorId: params.author_id,
+      from: params.from,
+      to: params.to,
+    };
+
+    const { user } = await getAuthenticatedUser(request);
+
+    if (params.type === "all") {
+      // Each type's first page; follow-up pages are fetched per type
+      const [posts, comments, users, tags] = await Promise.all(
+        SEARCH_TYPES.map((type) =>
+          searchContent(type, query, filters, params.limit, null)
+        )
+      );
+      const resultCount =
+        posts.results.length +
+        comments.results.length +
+        users.results.length +
+        tags.results.length;
+
+      await recordSearchEvent(request, user?.id || null, {
+        query: query.text,
+        type: params.type,
+        filters,
+        result_count: resultCount,
+      });
+
+      return createSuccessResponse(
+        {
+          query: query.text,
+          type: params.type,
+          results: {
+            posts: posts.results,
+            comments: comments.results,
+            users: users.results,
+            tags: tags.results,
+          },
+        },
+        200,
+        {
+          pagination: {
+            posts: toPagination(posts),
+            comments: toPagination(comments),
+            users: toPagination(users),
+            tags: toPagination(tags),
+          },
+        }
+      );
+    }
+
+    const page = await searchContent(
+      params.type,
+      query,
+      filters,
+      params.limit,
+      cursor
+    );
+
+    // Only the first page counts as a search; later pages are the same one
+    if (!cursor) {
+      await recordSearchEvent(request, user?.id || null, {
+        query: query.text,
+        type: params.type,
+        filters,
+        result_count: page.results.length,
+      });
+    }
+
+    return createSuccessResponse(
+      {
+        query: query.text,
+        type: params.type,
+        results: page.results,
+      },
+      200,
+      { pagination: toPagination(page) }
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
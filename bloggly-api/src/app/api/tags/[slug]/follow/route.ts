@@ -0,0 +1,109 @@
+// src/app/api/tags/[slug]/follow/route.ts
+import { getAuthenticatedUser } from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { getRepositories } from "@/lib/repositories";
+import { findTagBySlug, resolveCanonicalTag } from "@/lib/tagService";
+import { NextRequest } from "next/server";
+
+// POST /api/tags/[slug]/follow - Follow a tag (synonyms follow the canonical tag)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const requestedTag = await findTagBySlug(params.slug);
+    if (!requestedTag) {
+      return createErrorResponse("Tag not found.", 404);
+    }
+
+    const tag = await resolveCanonicalTag(requestedTag);
+
+    const { tags, logs } = getRepositories();
+    await tags.follow(user.id, tag.id);
+
+    // Log activity
+    await logs.logActivity({
+      user_id: user.id,
+      action: "tag_followed",
+      resource_type: "tag",
+      resource_id: tag.id,
+      metadata: {
+        slug: tag.slug,
+      },
+    });
+
+    return createSuccessResponse({
+      message: `You are now following "${tag.name}".`,
+      tag: { id: tag.id, name: tag.name, slug: tag.slug },
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// DELETE /api/tags/[slug]/follow - Unfollow a tag
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const requestedTag = await findTagBySlug(params.slug);
+    if (!requestedTag) {
+      return createErrorResponse("Tag not found.", 404);
+    }
+
+    const tag = await resolveCanonicalTag(requestedTag);
+
+    const { tags, logs } = getRepositories();
+    await tags.unfollow(user.id, tag.id);
+
+    // Log activity
+    await logs.logActivity({
+      user_id: user.id,
+      action: "tag_unfollowed",
+      resource_type: "tag",
+      resource_id: tag.id,
+      metadata: {
+        slug: tag.slug,
+      },
+    });
+
+    return createSuccessResponse({
+      message: `You are no longer following "${tag.name}".`,
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
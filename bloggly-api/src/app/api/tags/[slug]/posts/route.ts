@@ -0,0 +1,57 @@
+// src/app/api/tags/[slug]/posts/route.ts
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { getRepositories } from "@/lib/repositories";
+import { getTagPostsSchema } from "@/lib/schemas/tags";
+import { findTagBySlug, resolveCanonicalTag } from "@/lib/tagService";
+import { NextRequest } from "next/server";
+
+// GET /api/tags/[slug]/posts - Published posts carrying a tag, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { limit, cursor } = getTagPostsSchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
+
+    const requestedTag = await findTagBySlug(params.slug);
+    if (!requestedTag) {
+      return createErrorResponse("Tag not found.", 404);
+    }
+
+    // Posts store canonical tag names, so a synonym's feed is its canonical feed
+    const tag = await resolveCanonicalTag(requestedTag);
+
+    const posts = await getRepositories().posts.list({
+      status: "published",
+      tag: tag.name,
+      orderBy: "published_at",
+      after: cursor ? { at: cursor } : undefined,
+      limit,
+    });
+
+    const hasMore = posts.length === limit;
+
+    return createSuccessResponse(
+      {
+        tag: { id: tag.id, name: tag.name, slug: tag.slug },
+        posts,
+      },
+      200,
+      {
+        pagination: {
+          has_more: hasMore,
+          next_cursor: hasMore ? posts[posts.length - 1].published_at : null,
+        },
+      }
+    );
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,97 @@
+// src/app/api/tags/[slug]/route.ts
+import { getAuthenticatedUser } from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { requirePermission } from "@/lib/permissions";
+import { getRepositories } from "@/lib/repositories";
+import { updateTagSchema } from "@/lib/schemas/tags";
+import { findTagBySlug, resolveCanonicalTag } from "@/lib/tagService";
+import { NextRequest } from "next/server";
+
+// GET /api/tags/[slug] - Describe a tag. Synonyms resolve to their canonical tag.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const requestedTag = await findTagBySlug(params.slug);
+    if (!requestedTag) {
+      return createErrorResponse("Tag not found.", 404);
+    }
+
+    const tag = await resolveCanonicalTag(requestedTag);
+
+    const { tags } = getRepositories();
+    const [synonyms, usage] = await Promise.all([
+      tags.listSynonyms(tag.id),
+      tags.countUsage(tag.id),
+    ]);
+
+    const { user } = await getAuthenticatedUser(request);
+    const isFollowing = user ? await tags.isFollowing(user.id, tag.id) : false;
+
+    return createSuccessResponse({
+      ...tag,
+      redirected_from: requestedTag.id !== tag.id ? requestedTag.slug : null,
+      synonyms,
+      ...usage,
+      is_following: isFollowing,
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// PUT /api/tags/[slug] - Update a tag's description
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await requirePermission(request, "manage_tags");
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Admin access required",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const body = await request.json();
+    const { description } = updateTagSchema.parse(body);
+
+    const requestedTag = await findTagBySlug(params.slug);
+    if (!requestedTag) {
+      return createErrorResponse("Tag not found.", 404);
+    }
+
+    const tag = await resolveCanonicalTag(requestedTag);
+
+    const { tags, logs } = getRepositories();
+    const updatedTag = await tags.updateDescription(tag.id, description);
+
+    // Log admin activity
+    await logs.logAdminAction({
+      admin_id: user.id,
+      action_type: "tag_updated",
+      target_id: tag.id,
+      details: {
+        slug: tag.slug,
+        previous_description: tag.description,
+        new_description: description,
+      },
+    });
+
+    return createSuccessResponse(updatedTag);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,110 @@
+// src/app/api/tags/route.ts
+import { getAuthenticatedUser } from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createPagePagination,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { getRepositories } from "@/lib/repositories";
+import { createTagSchema, getTagsSchema } from "@/lib/schemas/tags";
+import {
+  findTagBySlug,
+  generateTagSlug,
+  normalizeTagName,
+  resolveCanonicalTag,
+} from "@/lib/tagService";
+import { NextRequest } from "next/server";
+
+// GET /api/tags - List canonical tags, optionally filtered by name
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { page, limit, q } = getTagsSchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
+
+    const { tags, total } = await getRepositories().tags.list({
+      search: q,
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return createSuccessResponse({ tags }, 200, {
+      pagination: createPagePagination(page, limit, total),
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// POST /api/tags - Create a tag
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    const body = await request.json();
+    const tagData = createTagSchema.parse(body);
+
+    const name = normalizeTagName(tagData.name);
+    const slug = generateTagSlug(name);
+    if (!slug) {
+      return createErrorResponse(
+        "Tag name must contain letters or numbers.",
+        400
+      );
+    }
+
+    // Synonyms count as taken; point the caller at the tag they resolve to
+    const existingTag = await findTagBySlug(slug);
+    if (existingTag) {
+      const canonical = await resolveCanonicalTag(existingTag);
+      return createErrorResponse(
+        `Tag already exists as "${canonical.name}".`,
+        409,
+        { slug: canonical.slug }
+      );
+    }
+
+    const { tags, logs } = getRepositories();
+    const tag = await tags.create({
+      name,
+      slug,
+      description: tagData.description || null,
+      created_by: user.id,
+    });
+
+    // Created concurrently by another request
+    if (!tag) {
+      return createErrorResponse("Tag already exists.", 409, { slug });
+    }
+
+    // Log activity
+    await logs.logActivity({
+      user_id: user.id,
+      action: "tag_created",
+      resource_type: "tag",
+      resource_id: tag.id,
+      metadata: {
+        name,
+        slug,
+      },
+    });
+
+    return createSuccessResponse(tag, 201);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -5,26 +5,39 @@ import {
   createSuccessResponse,
   handleRouteError,
 } from "@/lib/errorHandler";
-import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { withRateLimit } from "@/lib/rateLimit";
+import { getRepositories, UploadRecord } from "@/lib/repositories";
+import {
+  deleteUploadSchema,
+  getUploadsSchema,
+  uploadFileSchema,
+} from "@/lib/schemas/uploads";
+import { getSetting } from "@/lib/settings";
 import { NextRequest } from "next/server";
 
 const ALLOWED_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
-const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit("uploads", async (request: NextRequest) => {
   try {
-    const { user } = await getAuthenticatedUser(request);
+    const {
+      user,
+      error: authError,
+      status,
+    } = await getAuthenticatedUser(request);
     if (!user) {
-      return createErrorResponse("Authentication required.", 401);
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        status,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const formData = await request.formData();
-    const file = formData.get("file") as File;
-    const context = formData.get("context") as string; // 'post', 'avatar', 'general'
-
-    if (!file) {
-      return createErrorResponse("No file provided.", 400);
-    }
+    const { file, context } = uploadFileSchema.parse({
+      file: formData.get("file") ?? undefined,
+      context: formData.get("context") ?? undefined,
+    });
 
     // Validate file type
     if (!ALLOWED_TYPES.includes(file.type)) {
@@ -35,9 +48,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate file size
-    if (file.size > MAX_FILE_SIZE) {
+    const maxFileSizeMb = await getSetting("max_file_size_mb");
+    if (file.size > maxFileSizeMb * 1024 * 1024) {
       return createErrorResponse(
-        "File size too large. Maximum size is 5MB.",
+        `File size too large. Maximum size is ${maxFileSizeMb}MB.`,
         400
       );
     }
@@ -53,28 +67,13 @@ export async function POST(request: NextRequest) {
     const buffer = new Uint8Array(fileBuffer);
 
     // Upload to Supabase Storage
-    const { error: uploadError } = await supabaseAdmin.storage
-      .from("uploads")
-      .upload(fileName, buffer, {
-        contentType: file.type,
-        cacheControl: "3600",
-        upsert: false,
-      });
-
-    if (uploadError) {
-      console.error("Upload error:", uploadError);
-      throw uploadError;
-    }
-
-    // Get public URL
-    const {
-      data: { publicUrl },
-    } = supabaseAdmin.storage.from("uploads").getPublicUrl(fileName);
+    const { logs, uploads } = getRepositories();
+    const publicUrl = await uploads.putFile(fileName, buffer, file.type);
 
     // Store upload record in database
-    const { data: uploadRecord, error: recordError } = await supabaseAdmin
-      .from("uploads")
-      .insert({
+    let uploadRecord: UploadRecord;
+    try {
+      uploadRecord = await uploads.create({
         user_id: user.id,
         filename: fileName,
         original_name: file.name,
@@ -82,20 +81,18 @@ export async function POST(request: NextRequest) {
         file_size: file.size,
         public_url: publicUrl,
         context: context || "general",
-        created_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
-
-    if (recordError) {
+      });
+    } catch (recordError) {
       console.error("Record error:", recordError);
       // Try to cleanup uploaded file
-      await supabaseAdmin.storage.from("uploads").remove([fileName]);
+      await uploads.removeFiles([fileName]).catch((cleanupError) => {
+        console.error("Cleanup error:", cleanupError);
+      });
       throw recordError;
     }
 
     // Log activity
-    await supabaseAdmin.from("activity_logs").insert({
+    await logs.logActivity({
       user_id: user.id,
       action: "file_uploaded",
       resource_type: "upload",
@@ -124,35 +121,33 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     return handleRouteError(error);
   }
-}
+});
 
 export async function GET(request: NextRequest) {
   try {
-    const { user } = await getAuthenticatedUser(request);
+    const {
+      user,
+      error: authError,
+      status,
+    } = await getAuthenticatedUser(request);
     if (!user) {
-      return createErrorResponse("Authentication required.", 401);
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        status,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const { searchParams } = new URL(request.url);
-    const context = searchParams.get("context");
-    const limit = Math.min(parseInt(searchParams.get("limit") || "20"), 50);
-
-    let query = supabaseAdmin
-      .from("uploads")
-      .select("*")
-      .eq("user_id", user.id)
-      .order("created_at", { ascending: false })
-      .limit(limit);
-
-    if (context) {
-      query = query.eq("context", context);
-    }
-
-    const { data: uploads, error: uploadsError } = await query;
+    const { context, limit } = getUploadsSchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
 
-    if (uploadsError) {
-      throw uploadsError;
-    }
+    const uploads = await getRepositories().uploads.listForUser(user.id, {
+      context,
+      limit,
+    });
 
     return createSuccessResponse({
       uploads,
@@ -165,51 +160,46 @@ export async function GET(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
-    const { user } = await getAuthenticatedUser(request);
+    const {
+      user,
+      error: authError,
+      status,
+    } = await getAuthenticatedUser(request);
     if (!user) {
-      return createErrorResponse("Authentication required.", 401);
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        status,
+        authError?.details,
+        authError?.code
+      );
     }
 
     const { searchParams } = new URL(request.url);
-    const uploadId = searchParams.get("id");
+    const { id: uploadId } = deleteUploadSchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
 
-    if (!uploadId) {
-      return createErrorResponse("Upload ID is required.", 400);
-    }
+    const { logs, uploads } = getRepositories();
 
     // Get upload record
-    const { data: upload, error: fetchError } = await supabaseAdmin
-      .from("uploads")
-      .select("*")
-      .eq("id", uploadId)
-      .eq("user_id", user.id)
-      .single();
-
-    if (fetchError || !upload) {
+    const upload = await uploads.findForUser(uploadId, user.id);
+
+    if (!upload) {
       return createErrorResponse("Upload not found.", 404);
     }
 
     // Delete from storage
-    const { error: storageError } = await supabaseAdmin.storage
-      .from("uploads")
-      .remove([upload.filename]);
-
-    if (storageError) {
+    try {
+      await uploads.removeFiles([upload.filename]);
+    } catch (storageError) {
       console.error("Storage deletion error:", storageError);
     }
 
     // Delete from database
-    const { error: deleteError } = await supabaseAdmin
-      .from("uploads")
-      .delete()
-      .eq("id", uploadId);
-
-    if (deleteError) {
-      throw deleteError;
-    }
+    await uploads.delete(uploadId);
 
     // Log activity
-    await supabaseAdmin.from("activity_logs").insert({
+    await logs.logActivity({
       user_id: user.id,
       action: "file_deleted",
       resource_type: "upload",
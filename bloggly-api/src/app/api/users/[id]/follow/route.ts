@@ -0,0 +1,148 @@
+// src/app/api/users/[id]/follow/route.ts
+import { getAuthenticatedUser } from "@/lib/authHelpers";
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { getFollowStatus, notifyNewFollower } from "@/lib/followService";
+import { getRepositories } from "@/lib/repositories";
+import { isUuid } from "@/lib/utils";
+import { NextRequest } from "next/server";
+
+async function userExists(userId: string): Promise<boolean> {
+  if (!isUuid(userId)) {
+    return false;
+  }
+
+  return (await getRepositories().profiles.findById(userId)) !== null;
+}
+
+// GET /api/users/[id]/follow - Follow relationship between the caller and a user
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    if (!(await userExists(params.id))) {
+      return createErrorResponse("User not found.", 404);
+    }
+
+    const status = await getFollowStatus(user.id, params.id);
+
+    return createSuccessResponse(status);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// POST /api/users/[id]/follow - Follow a user
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    if (params.id === user.id) {
+      return createErrorResponse("You cannot follow yourself.", 400);
+    }
+
+    if (!(await userExists(params.id))) {
+      return createErrorResponse("User not found.", 404);
+    }
+
+    const { follows, logs } = getRepositories();
+    const followed = await follows.create(user.id, params.id);
+
+    // Following again is a no-op and does not notify twice
+    if (followed) {
+      await notifyNewFollower(user.id, params.id);
+
+      // Log activity
+      await logs.logActivity({
+        user_id: user.id,
+        action: "user_followed",
+        resource_type: "user",
+        resource_id: params.id,
+        metadata: {},
+      });
+    }
+
+    const status = await getFollowStatus(user.id, params.id);
+
+    return createSuccessResponse(status, followed ? 201 : 200);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
+
+// DELETE /api/users/[id]/follow - Unfollow a user
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const {
+      user,
+      error: authError,
+      status: authStatus,
+    } = await getAuthenticatedUser(request);
+    if (!user) {
+      return createErrorResponse(
+        authError?.message || "Authentication required.",
+        authStatus,
+        authError?.details,
+        authError?.code
+      );
+    }
+
+    if (!(await userExists(params.id))) {
+      return createErrorResponse("User not found.", 404);
+    }
+
+    const { follows, logs } = getRepositories();
+    if (await follows.delete(user.id, params.id)) {
+      // Log activity
+      await logs.logActivity({
+        user_id: user.id,
+        action: "user_unfollowed",
+        resource_type: "user",
+        resource_id: params.id,
+        metadata: {},
+      });
+    }
+
+    const status = await getFollowStatus(user.id, params.id);
+
+    return createSuccessResponse(status);
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
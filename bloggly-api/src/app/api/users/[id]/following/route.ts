@@ -0,0 +1,49 @@
+// src/app/api/users/[id]/following/route.ts
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  handleRouteError,
+} from "@/lib/errorHandler";
+import { listFollows } from "@/lib/followService";
+import { decodePostCursor } from "@/lib/postHelpers";
+import { followListSchema } from "@/lib/schemas/users";
+import { isUuid } from "@/lib/utils";
+import { NextRequest } from "next/server";
+
+// GET /api/users/[id]/following - Users a user follows, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!isUuid(params.id)) {
+      return createErrorResponse("User not found.", 404);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { limit, cursor } = followListSchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
+
+    const followCursor = cursor ? decodePostCursor(cursor) : null;
+    if (cursor && !followCursor) {
+      return createErrorResponse("Invalid cursor.", 400);
+    }
+
+    const { users, nextCursor } = await listFollows(
+      params.id,
+      "following",
+      limit,
+      followCursor
+    );
+
+    return createSuccessResponse({ following: users }, 200, {
+      pagination: {
+        has_more: nextCursor !== null,
+        next_cursor: nextCursor,
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error);
+  }
+}
@@ -0,0 +1,15 @@
+// src/instrumentation.ts
+import { hasTrustedProxies } from "@/lib/clientIp";
+
+// Runs once when a server instance starts
+export function register() {
+  if (!hasTrustedProxies()) {
+    console.warn(
+      "TRUSTED_PROXY_COUNT is not set: client IPs are unknown, so maintenance " +
+        "allowed_ips never match and anonymous requests are not rate limited" +
+        (process.env.NODE_ENV === "production"
+          ? " (rate-limited routes answer 503 to them)"
+          : "")
+    );
+  }
+}
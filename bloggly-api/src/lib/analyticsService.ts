@@ -0,0 +1,43 @@
+// src/lib/analyticsService.ts
+import { getRepositories } from "./repositories";
+
+export interface AuthorStats {
+  published: number;
+  total_views: number;
+  total_reactions: number;
+  total_comments: number;
+  top_posts: Array<{
+    title: string;
+    slug: string;
+    views: number;
+    reactions: number;
+    comments: number;
+  }>;
+  reactions_received: number;
+  comments_received: number;
+  followers_gained: number;
+}
+
+// An author's publishing and engagement numbers from startDate up to endDate
+// (now when omitted). Shared by the analytics dashboard and the weekly digest.
+export async function getAuthorStats(
+  userId: string,
+  startDate: Date,
+  endDate: Date = new Date()
+): Promise<AuthorStats> {
+  const { posts, ...engagement } =
+    await getRepositories().analytics.getAuthorActivity(userId, {
+      from: startDate.toISOString(),
+      before: endDate.toISOString(),
+    });
+
+  return {
+    published: posts.length,
+    total_views: posts.reduce((sum, post) => sum + post.views, 0),
+    total_reactions: posts.reduce((sum, post) => sum + post.reactions, 0),
+    total_comments: posts.reduce((sum, post) => sum + post.comments, 0),
+    // Top posts by views
+    top_posts: [...posts].sort((a, b) => b.views - a.views).slice(0, 5),
+    ...engagement,
+  };
+}
@@ -0,0 +1,256 @@
+// src/lib/announcementService.ts
+import {
+  dispatchNotification,
+  getRecipientPage,
+  NotificationEvent,
+  NotificationRecipients,
+} from "./notificationService";
+import { Role } from "./permissions";
+import {
+  AnnouncementAudience,
+  AnnouncementNotificationRecord,
+  AnnouncementNotificationStatus,
+  AnnouncementRecord,
+  getRepositories,
+} from "./repositories";
+
+const PRIORITY_RANK: Record<string, number> = { high: 0, medium: 1, low: 2 };
+// Recipients handed to the dispatcher at a time while sending one out
+const ANNOUNCEMENT_PAGE_SIZE = 500;
+// Queued announcements looked at per run
+const ANNOUNCEMENT_JOBS_PER_RUN = 20;
+// A claim older than this belongs to a run that died mid-send
+const ANNOUNCEMENT_CLAIM_TIMEOUT_MINUTES = 15;
+
+// The audiences whose announcements a caller sees; role is null for
+// anonymous callers, who only see announcements for everyone
+export function getAnnouncementAudiences(
+  role: Role | null
+): AnnouncementAudience[] {
+  if (!role) {
+    return ["all"];
+  }
+  return role === "admin" ? ["all", "admins"] : ["all", "users"];
+}
+
+export function getAnnouncementRecipients(
+  audience: AnnouncementAudience
+): NotificationRecipients {
+  switch (audience) {
+    case "admins":
+      return { roles: ["admin"] };
+    case "users":
+      return { excludeRoles: ["admin"] };
+    default:
+      return { everyone: true };
+  }
+}
+
+// Highest priority first, then newest
+export function sortAnnouncements<T extends AnnouncementRecord>(
+  announcements: T[]
+): T[] {
+  return [...announcements].sort(
+    (a, b) =>
+      (PRIORITY_RANK[a.priority] ?? 1) - (PRIORITY_RANK[b.priority] ?? 1) ||
+      b.created_at.localeCompare(a.created_at)
+  );
+}
+
+// What users are shown; who created an announcement stays internal
+export function toPublicAnnouncement(announcement: AnnouncementRecord) {
+  return {
+    id: announcement.id,
+    title: announcement.title,
+    message: announcement.message,
+    type: announcement.type,
+    priority: announcement.priority,
+    target_audience: announcement.target_audience,
+    starts_at: announcement.starts_at,
+    expires_at: announcement.expires_at,
+    created_at: announcement.created_at,
+    updated_at: announcement.updated_at,
+  };
+}
+
+// How far sending an announcement out has got
+export interface AnnouncementNotification {
+  status: AnnouncementNotificationStatus;
+  in_app: number;
+  push: number;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface AnnouncementNotificationBatchResult {
+  processed: number;
+  recipients: number;
+  sent: number;
+  expired: number;
+  in_app: number;
+  push: number;
+}
+
+const toAnnouncementNotification = (
+  row: AnnouncementNotificationRecord
+): AnnouncementNotification => ({
+  status: row.status,
+  in_app: row.in_app,
+  push: row.push,
+  created_at: row.created_at,
+  completed_at: row.completed_at,
+});
+
+function getAnnouncementEvent(
+  announcement: AnnouncementRecord,
+  actorId: string | null
+): NotificationEvent<"announcement"> {
+  return {
+    type: "announcement",
+    recipients: getAnnouncementRecipients(announcement.target_audience),
+    actorId,
+    title: announcement.title,
+    message: `Important announcement: ${announcement.title}`,
+    data: {
+      announcement_id: announcement.id,
+      announcement_type: announcement.type,
+      priority: announcement.priority,
+    },
+    channels: ["push"],
+  };
+}
+
+/**
+ * Queues a high priority announcement to be pushed to its whole audience
+ * by sendAnnouncementNotifications. Nothing is sent from the admin
+ * request: a large audience would outlast it. An announcement is sent out
+ * at most once, so queueing it again returns the existing progress.
+ */
+export async function queueAnnouncementNotification(
+  announcement: AnnouncementRecord,
+  actorId: string
+): Promise<AnnouncementNotification> {
+  const send = await getRepositories().announcements.queueNotification(
+    announcement.id,
+    actorId
+  );
+
+  return toAnnouncementNotification(send);
+}
+
+/**
+ * Pushes queued announcements to up to `limit` more recipients, oldest
+ * queued first. An announcement waits until it is active and its starts_at
+ * has passed, and is dropped as expired once its expires_at has. Progress
+ * is saved after every page of recipients, so the next run resumes where
+ * this one stopped, including after a run that died.
+ */
+export async function sendAnnouncementNotifications(
+  limit: number
+): Promise<AnnouncementNotificationBatchResult> {
+  const result: AnnouncementNotificationBatchResult = {
+    processed: 0,
+    recipients: 0,
+    sent: 0,
+    expired: 0,
+    in_app: 0,
+    push: 0,
+  };
+  const now = new Date();
+  const claimedAt = now.toISOString();
+  const staleBefore = new Date(
+    now.getTime() - ANNOUNCEMENT_CLAIM_TIMEOUT_MINUTES * 60 * 1000
+  ).toISOString();
+  const { announcements } = getRepositories();
+
+  // Only announcements that are showing or have expired, so ones waiting
+  // to start never crowd out the rest
+  const jobs = await announcements.listPendingNotifications(
+    claimedAt,
+    ANNOUNCEMENT_JOBS_PER_RUN
+  );
+
+  let remaining = limit;
+  for (const job of jobs) {
+    if (remaining <= 0) {
+      break;
+    }
+
+    // Skipped while another run holds a live claim
+    const claimed = await announcements.claimNotification(
+      job.announcement_id,
+      claimedAt,
+      staleBefore
+    );
+    if (!claimed) {
+      continue;
+    }
+
+    const { announcement } = job;
+    if (
+      announcement.expires_at !== null &&
+      new Date(announcement.expires_at) <= now
+    ) {
+      await announcements.updateNotification(job.announcement_id, claimedAt, {
+        status: "expired",
+        claimed_at: null,
+        completed_at: now.toISOString(),
+      });
+      result.expired++;
+      continue;
+    }
+
+    result.processed++;
+    const event = getAnnouncementEvent(announcement, job.actor_id);
+    const progress = {
+      last_recipient_id: job.last_recipient_id,
+      in_app: job.in_app,
+      push: job.push,
+    };
+
+    for (;;) {
+      const pageSize = Math.min(ANNOUNCEMENT_PAGE_SIZE, remaining);
+      const ids = await getRecipientPage(
+        event.recipients,
+        progress.last_recipient_id,
+        pageSize
+      );
+
+      if (ids.length > 0) {
+        const delivered = await dispatchNotification({
+          ...event,
+          recipients: { userIds: ids },
+        });
+        progress.last_recipient_id = ids[ids.length - 1];
+        progress.in_app += delivered.in_app;
+        progress.push += delivered.push;
+        remaining -= ids.length;
+        result.recipients += ids.length;
+        result.in_app += delivered.in_app;
+        result.push += delivered.push;
+      }
+
+      const done = ids.length < pageSize;
+      const paused = !done && remaining <= 0;
+      // The claim is held between pages and released when this run stops;
+      // saving fails once another run has taken it over
+      const saved = await announcements.updateNotification(
+        job.announcement_id,
+        claimedAt,
+        {
+          ...progress,
+          ...(done ? { status: "sent", completed_at: now.toISOString() } : {}),
+          ...(done || paused ? { claimed_at: null } : {}),
+        }
+      );
+      if (saved && done) {
+        result.sent++;
+      }
+      if (!saved || done || paused) {
+        break;
+      }
+    }
+  }
+
+  return result;
+}
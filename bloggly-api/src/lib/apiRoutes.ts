@@ -0,0 +1,933 @@
+// src/lib/apiRoutes.ts
+import { ApiErrorCode } from "./errorHandler";
+import { DEFAULT_MAX_POST_LENGTH } from "./postHelpers";
+import {
+  adminAnalyticsSchema,
+  adminUpdateCommentSchema,
+  announcementSchema,
+  banUserSchema,
+  bulkUpdateCommentsSchema,
+  bulkUpdateReportsSchema,
+  bulkUpdateSettingsSchema,
+  commentModerationActionSchema,
+  getAdminCommentsSchema,
+  getAdminPostsSchema,
+  getMaintenanceSchema,
+  getReportsSchema,
+  getSettingsSchema,
+  grantRoleSchema,
+  maintenanceSchema,
+  mergeTagsSchema,
+  reportModerationActionSchema,
+  revokeRoleSchema,
+  updateAnnouncementSchema,
+  updateReportSchema,
+  updateSettingSchema,
+} from "./schemas/admin";
+import { analyticsEventSchema, dashboardSchema } from "./schemas/analytics";
+import {
+  createCommentSchema,
+  getCommentsSchema,
+  reactionSchema,
+  updateCommentSchema,
+} from "./schemas/comments";
+import {
+  announcementNotificationsSchema,
+  weeklyDigestSchema,
+} from "./schemas/cron";
+import {
+  deleteNotificationsSchema,
+  getNotificationsSchema,
+  notificationPreferencesSchema,
+  registerPushSubscriptionSchema,
+  unregisterPushSubscriptionSchema,
+  updateNotificationsSchema,
+} from "./schemas/notifications";
+import {
+  createPostSchema,
+  getFeedSchema,
+  getPostsSchema,
+  getRevisionsSchema,
+  inviteCollaboratorSchema,
+  postActionSchema,
+  respondToInvitationSchema,
+  revisionDiffSchema,
+  updateCollaboratorRoleSchema,
+  updatePostSchema,
+} from "./schemas/posts";
+import {
+  announcement,
+  announcementNotifications,
+  anyObject,
+  collaborator,
+  comment,
+  followStatus,
+  messageResponse,
+  notification,
+  post,
+  profileSummary,
+  revision,
+  tag,
+  threadedComment,
+  upload,
+} from "./schemas/responses";
+import { searchSchema } from "./schemas/search";
+import {
+  createTagSchema,
+  getTagPostsSchema,
+  getTagsSchema,
+  updateTagSchema,
+} from "./schemas/tags";
+import {
+  deleteUploadSchema,
+  getUploadsSchema,
+  uploadFileSchema,
+} from "./schemas/uploads";
+import { followListSchema } from "./schemas/users";
+import { z } from "zod";
+
+/**
+ * Every route handler under src/app/api, keyed by "METHOD /api/path" with
+ * dynamic segments written as {param}. The OpenAPI spec is generated from
+ * this registry (src/lib/openApi.ts), and `npm run check:routes` fails the
+ * build when a handler is added or removed without updating it.
+ *
+ * Request schemas are the same zod schemas the handlers parse with, so the
+ * spec cannot drift from validation. `response` describes the `data` member
+ * of the success envelope.
+ */
+
+// Who may call a route: "optional" routes behave differently when signed in,
+// "admin" routes need a staff role with the relevant permission and "cron"
+// routes take the CRON_SECRET as a bearer token.
+export type RouteAuth = "none" | "optional" | "user" | "admin" | "cron";
+
+export interface RouteDefinition {
+  summary: string;
+  description?: string;
+  tag: string;
+  auth: RouteAuth;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+  bodyType?: "json" | "multipart";
+  response: z.ZodTypeAny;
+  status?: number;
+  // Shape of meta.pagination, when the route is paginated
+  pagination?: "page" | "cursor";
+  // Error codes beyond those implied by `auth` and the request schemas
+  errors?: ApiErrorCode[];
+  // Set for routes that do not use the JSON envelope
+  contentType?: string;
+}
+
+// Matches the default used when the max_post_length setting is missing
+const createPostBody = createPostSchema(DEFAULT_MAX_POST_LENGTH);
+const updatePostBody = updatePostSchema(DEFAULT_MAX_POST_LENGTH);
+
+const cronResult = z
+  .object({ processed_at: z.string().datetime() })
+  .passthrough();
+
+export const API_ROUTES: Record<string, RouteDefinition> = {
+  // Posts
+  "GET /api/posts": {
+    summary: "List published posts, or the caller's own posts with mine=true",
+    tag: "Posts",
+    auth: "optional",
+    query: getPostsSchema,
+    response: z.object({ posts: z.array(post) }),
+    pagination: "cursor",
+  },
+  "POST /api/posts": {
+    summary: "Create a post",
+    description:
+      "content_markdown is limited by the max_post_length platform setting. " +
+      "Limited per hour by the rate_limit_posts setting.",
+    tag: "Posts",
+    auth: "user",
+    body: createPostBody,
+    response: post,
+    status: 201,
+    errors: ["RATE_LIMITED"],
+  },
+  "GET /api/posts/{idOrSlug}": {
+    summary: "Get a post by id or slug",
+    tag: "Posts",
+    auth: "optional",
+    response: post,
+    errors: ["NOT_FOUND"],
+  },
+  "PUT /api/posts/{idOrSlug}": {
+    summary: "Update a post and record a revision",
+    tag: "Posts",
+    auth: "user",
+    body: updatePostBody,
+    response: post,
+    errors: ["NOT_FOUND", "CONFLICT"],
+  },
+  "POST /api/posts/{idOrSlug}": {
+    summary: "Publish, unpublish or archive a post",
+    tag: "Posts",
+    auth: "user",
+    body: postActionSchema,
+    response: post,
+    errors: ["NOT_FOUND"],
+  },
+  "DELETE /api/posts/{idOrSlug}": {
+    summary: "Delete a post",
+    tag: "Posts",
+    auth: "user",
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+  "GET /api/posts/{idOrSlug}/revisions": {
+    summary: "List a post's revisions, newest first",
+    tag: "Revisions",
+    auth: "user",
+    query: getRevisionsSchema,
+    response: z.object({ revisions: z.array(revision) }),
+    pagination: "cursor",
+    errors: ["NOT_FOUND"],
+  },
+  "GET /api/posts/{idOrSlug}/revisions/{revision}": {
+    summary: "Get a single revision",
+    tag: "Revisions",
+    auth: "user",
+    response: revision,
+    errors: ["NOT_FOUND"],
+  },
+  "POST /api/posts/{idOrSlug}/revisions/{revision}/restore": {
+    summary: "Restore a post to an earlier revision",
+    tag: "Revisions",
+    auth: "user",
+    response: messageResponse.extend({ post, revision }),
+    errors: ["NOT_FOUND"],
+  },
+  "GET /api/posts/{idOrSlug}/revisions/diff": {
+    summary: "Diff two revisions of a post",
+    tag: "Revisions",
+    auth: "user",
+    query: revisionDiffSchema,
+    response: anyObject,
+    errors: ["NOT_FOUND"],
+  },
+  "GET /api/posts/{idOrSlug}/collaborators": {
+    summary: "List a post's collaborators and pending invitations",
+    tag: "Collaborators",
+    auth: "user",
+    response: z.object({ collaborators: z.array(collaborator) }),
+    errors: ["NOT_FOUND"],
+  },
+  "POST /api/posts/{idOrSlug}/collaborators": {
+    summary: "Invite a collaborator",
+    tag: "Collaborators",
+    auth: "user",
+    body: inviteCollaboratorSchema,
+    response: collaborator,
+    status: 201,
+    errors: ["NOT_FOUND", "CONFLICT"],
+  },
+  "PUT /api/posts/{idOrSlug}/collaborators/{userId}": {
+    summary: "Change a collaborator's role",
+    tag: "Collaborators",
+    auth: "user",
+    body: updateCollaboratorRoleSchema,
+    response: collaborator,
+    errors: ["NOT_FOUND"],
+  },
+  "POST /api/posts/{idOrSlug}/collaborators/{userId}": {
+    summary: "Accept or decline an invitation",
+    tag: "Collaborators",
+    auth: "user",
+    body: respondToInvitationSchema,
+    response: messageResponse,
+    errors: ["NOT_FOUND", "CONFLICT"],
+  },
+  "DELETE /api/posts/{idOrSlug}/collaborators/{userId}": {
+    summary: "Remove a collaborator or leave a post",
+    tag: "Collaborators",
+    auth: "user",
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+  "GET /api/feed": {
+    summary: "Posts from followed authors and tags",
+    tag: "Posts",
+    auth: "user",
+    query: getFeedSchema,
+    response: z.object({ posts: z.array(post) }),
+    pagination: "cursor",
+  },
+  "GET /api/search": {
+    summary: "Search posts, users and tags",
+    tag: "Search",
+    auth: "optional",
+    query: searchSchema,
+    response: anyObject,
+    pagination: "cursor",
+    errors: ["RATE_LIMITED"],
+  },
+
+  // Comments
+  "GET /api/comments": {
+    summary: "List top-level comments on a post with their replies",
+    tag: "Comments",
+    auth: "optional",
+    query: getCommentsSchema,
+    response: z.object({ comments: z.array(threadedComment) }),
+    pagination: "cursor",
+  },
+  "POST /api/comments": {
+    summary: "Comment on a post or reply to a comment",
+    description: "Limited per hour by the rate_limit_comments setting.",
+    tag: "Comments",
+    auth: "user",
+    body: createCommentSchema,
+    response: comment,
+    status: 201,
+    errors: ["NOT_FOUND", "RATE_LIMITED"],
+  },
+  "PUT /api/comments/{id}": {
+    summary: "Edit a comment",
+    tag: "Comments",
+    auth: "user",
+    body: updateCommentSchema,
+    response: comment,
+    errors: ["NOT_FOUND"],
+  },
+  "DELETE /api/comments/{id}": {
+    summary: "Delete a comment",
+    tag: "Comments",
+    auth: "user",
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+  "GET /api/comments/{id}/reactions": {
+    summary: "Reaction counts and reacting users for a comment",
+    tag: "Comments",
+    auth: "none",
+    response: z
+      .object({
+        reaction_counts: z.record(z.number().int()),
+        total_reactions: z.number().int(),
+      })
+      .passthrough(),
+    errors: ["NOT_FOUND"],
+  },
+  "POST /api/comments/{id}/reactions": {
+    summary: "Add, change or remove (by repeating) a reaction",
+    description: "Limited per hour by the rate_limit_reactions setting.",
+    tag: "Comments",
+    auth: "user",
+    body: reactionSchema,
+    response: messageResponse.extend({
+      action: z.enum(["added", "updated", "removed"]),
+    }),
+    errors: ["NOT_FOUND", "RATE_LIMITED"],
+  },
+
+  // Tags
+  "GET /api/tags": {
+    summary: "List tags",
+    tag: "Tags",
+    auth: "none",
+    query: getTagsSchema,
+    response: z.object({ tags: z.array(tag) }),
+    pagination: "page",
+  },
+  "POST /api/tags": {
+    summary: "Create a tag",
+    tag: "Tags",
+    auth: "user",
+    body: createTagSchema,
+    response: tag,
+    status: 201,
+    errors: ["CONFLICT"],
+  },
+  "GET /api/tags/{slug}": {
+    summary: "Get a tag, following synonyms to the canonical tag",
+    tag: "Tags",
+    auth: "none",
+    response: z
+      .object({
+        redirected_from: z.string().nullable(),
+        synonyms: z.array(tag).nullable(),
+        post_count: z.number().int(),
+      })
+      .passthrough(),
+    errors: ["NOT_FOUND"],
+  },
+  "PUT /api/tags/{slug}": {
+    summary: "Update a tag",
+    tag: "Tags",
+    auth: "admin",
+    body: updateTagSchema,
+    response: tag,
+    errors: ["NOT_FOUND"],
+  },
+  "GET /api/tags/{slug}/posts": {
+    summary: "Published posts with a tag",
+    tag: "Tags",
+    auth: "none",
+    query: getTagPostsSchema,
+    response: z.object({ tag, posts: z.array(post) }),
+    pagination: "cursor",
+    errors: ["NOT_FOUND"],
+  },
+  "POST /api/tags/{slug}/follow": {
+    summary: "Follow a tag",
+    tag: "Tags",
+    auth: "user",
+    response: messageResponse.extend({ tag }),
+    errors: ["NOT_FOUND"],
+  },
+  "DELETE /api/tags/{slug}/follow": {
+    summary: "Unfollow a tag",
+    tag: "Tags",
+    auth: "user",
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+
+  // Users
+  "GET /api/users/{id}/follow": {
+    summary: "Follow relationship between the caller and a user",
+    tag: "Users",
+    auth: "user",
+    response: followStatus,
+    errors: ["NOT_FOUND"],
+  },
+  "POST /api/users/{id}/follow": {
+    summary: "Follow a user",
+    tag: "Users",
+    auth: "user",
+    response: followStatus,
+    status: 201,
+    errors: ["NOT_FOUND", "RATE_LIMITED"],
+  },
+  "DELETE /api/users/{id}/follow": {
+    summary: "Unfollow a user",
+    tag: "Users",
+    auth: "user",
+    response: followStatus,
+    errors: ["NOT_FOUND"],
+  },
+  "GET /api/users/{id}/followers": {
+    summary: "A user's followers",
+    tag: "Users",
+    auth: "none",
+    query: followListSchema,
+    response: z.object({ followers: z.array(profileSummary) }),
+    pagination: "cursor",
+    errors: ["NOT_FOUND"],
+  },
+  "GET /api/users/{id}/following": {
+    summary: "Users a user follows",
+    tag: "Users",
+    auth: "none",
+    query: followListSchema,
+    response: z.object({ following: z.array(profileSummary) }),
+    pagination: "cursor",
+    errors: ["NOT_FOUND"],
+  },
+
+  // Uploads
+  "GET /api/upload": {
+    summary: "List the caller's uploads",
+    tag: "Uploads",
+    auth: "user",
+    query: getUploadsSchema,
+    response: z.object({ uploads: z.array(upload), total: z.number().int() }),
+  },
+  "POST /api/upload": {
+    summary: "Upload an image (JPEG, PNG, WebP or GIF)",
+    description:
+      "Files may be up to the max_file_size_mb setting (5MB by default). Limited per hour by the rate_limit_uploads setting.",
+    tag: "Uploads",
+    auth: "user",
+    body: uploadFileSchema,
+    bodyType: "multipart",
+    response: upload,
+    status: 201,
+    errors: ["PAYLOAD_TOO_LARGE", "RATE_LIMITED"],
+  },
+  "DELETE /api/upload": {
+    summary: "Delete an upload",
+    tag: "Uploads",
+    auth: "user",
+    query: deleteUploadSchema,
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+
+  // Notifications
+  "GET /api/notifications": {
+    summary: "List notifications, optionally grouped by target",
+    tag: "Notifications",
+    auth: "user",
+    query: getNotificationsSchema,
+    response: z
+      .object({
+        notifications: z.array(notification).optional(),
+        groups: z.array(anyObject).optional(),
+        unread_count: z.number().int(),
+      })
+      .describe(
+        "`groups` replaces `notifications` when grouped=true; pagination then counts groups"
+      ),
+    pagination: "page",
+    errors: ["RATE_LIMITED"],
+  },
+  "POST /api/notifications": {
+    summary: "Mark notifications or notification groups read or unread",
+    tag: "Notifications",
+    auth: "user",
+    body: updateNotificationsSchema,
+    response: messageResponse.extend({
+      updated_notifications: z.array(notification),
+    }),
+    errors: ["RATE_LIMITED"],
+  },
+  "DELETE /api/notifications": {
+    summary: "Delete notifications by id, all read ones, or all of them",
+    tag: "Notifications",
+    auth: "user",
+    query: deleteNotificationsSchema,
+    response: messageResponse.extend({ deleted_count: z.number().int() }),
+    errors: ["RATE_LIMITED"],
+  },
+  "GET /api/notifications/stream": {
+    summary: "Server-Sent Events stream of notifications and unread counts",
+    description:
+      "Grouped notifications that take in another event are sent again as `notification_updated`. Send Last-Event-ID (or ?last_event_id=) to replay notifications missed while disconnected.",
+    tag: "Notifications",
+    auth: "user",
+    response: z.string(),
+    contentType: "text/event-stream",
+  },
+  "GET /api/notifications/preferences": {
+    summary: "Get notification preferences",
+    tag: "Notifications",
+    auth: "user",
+    response: z.object({ preferences: notificationPreferencesSchema }),
+  },
+  "PUT /api/notifications/preferences": {
+    summary: "Update notification preferences",
+    tag: "Notifications",
+    auth: "user",
+    body: notificationPreferencesSchema,
+    response: messageResponse.extend({
+      preferences: notificationPreferencesSchema,
+    }),
+  },
+  "GET /api/notifications/unsubscribe": {
+    summary: "Confirmation page for a signed unsubscribe link",
+    description:
+      "Changes nothing; the page's form POSTs to the same URL to unsubscribe.",
+    tag: "Notifications",
+    auth: "none",
+    response: z.string(),
+    contentType: "text/html",
+  },
+  "POST /api/notifications/unsubscribe": {
+    summary: "One-click unsubscribe (RFC 8058)",
+    description:
+      "Switches off only the email preference the token names. Returns an HTML page when the request accepts text/html.",
+    tag: "Notifications",
+    auth: "none",
+    response: messageResponse.extend({ preference: z.string() }),
+  },
+  "GET /api/notifications/push/subscriptions": {
+    summary: "List the caller's push subscriptions and the VAPID public key",
+    tag: "Notifications",
+    auth: "user",
+    response: z
+      .object({
+        vapid_public_key: z.string().nullable(),
+        subscriptions: z.array(anyObject),
+      })
+      .passthrough(),
+  },
+  "POST /api/notifications/push/subscriptions": {
+    summary: "Register a browser push subscription",
+    tag: "Notifications",
+    auth: "user",
+    body: registerPushSubscriptionSchema,
+    response: z
+      .object({
+        id: z.string().uuid(),
+        endpoint: z.string().url(),
+        created_at: z.string().datetime(),
+      })
+      .passthrough(),
+    status: 201,
+    errors: ["SERVICE_UNAVAILABLE"],
+  },
+  "DELETE /api/notifications/push/subscriptions": {
+    summary: "Remove a push subscription",
+    tag: "Notifications",
+    auth: "user",
+    body: unregisterPushSubscriptionSchema,
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+  "POST /api/notifications/push/test": {
+    summary: "Send a test push to the caller's devices",
+    tag: "Notifications",
+    auth: "user",
+    response: anyObject,
+    errors: ["SERVICE_UNAVAILABLE"],
+  },
+
+  // Announcements
+  "GET /api/announcements": {
+    summary: "Announcements showing now for the caller",
+    description:
+      "Active announcements between starts_at and expires_at for the " +
+      "caller's audience (all, plus users or admins when signed in), " +
+      "highest priority first. Dismissed ones are left out.",
+    tag: "Announcements",
+    auth: "optional",
+    response: z.object({ announcements: z.array(announcement) }),
+  },
+  "POST /api/announcements/{id}/dismiss": {
+    summary: "Dismiss an announcement for the caller",
+    tag: "Announcements",
+    auth: "user",
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+
+  // Analytics
+  "POST /api/analytics/events": {
+    summary: "Track a client event",
+    tag: "Analytics",
+    auth: "optional",
+    body: analyticsEventSchema,
+    response: messageResponse,
+    errors: ["RATE_LIMITED"],
+  },
+  "GET /api/analytics/dashboard": {
+    summary: "The caller's author and reading statistics",
+    tag: "Analytics",
+    auth: "user",
+    query: dashboardSchema,
+    response: anyObject,
+    errors: ["RATE_LIMITED"],
+  },
+
+  // Admin
+  "GET /api/admin/analytics": {
+    summary: "Platform-wide analytics",
+    tag: "Admin",
+    auth: "admin",
+    query: adminAnalyticsSchema,
+    response: anyObject,
+  },
+  "GET /api/admin/posts": {
+    summary: "Search and filter all posts",
+    tag: "Admin",
+    auth: "admin",
+    query: getAdminPostsSchema,
+    response: z.object({ posts: z.array(post) }).passthrough(),
+    pagination: "page",
+  },
+  "GET /api/admin/comments": {
+    summary: "Search and filter all comments",
+    tag: "Admin",
+    auth: "admin",
+    query: getAdminCommentsSchema,
+    response: z.object({ comments: z.array(comment) }).passthrough(),
+    pagination: "page",
+  },
+  "PUT /api/admin/comments": {
+    summary: "Bulk-moderate comments",
+    tag: "Admin",
+    auth: "admin",
+    body: bulkUpdateCommentsSchema,
+    response: messageResponse,
+  },
+  "GET /api/admin/comments/{id}": {
+    summary: "A comment with reports and moderation history",
+    tag: "Admin",
+    auth: "admin",
+    response: z.object({ comment }),
+    errors: ["NOT_FOUND"],
+  },
+  "PUT /api/admin/comments/{id}": {
+    summary: "Edit a comment as a moderator",
+    tag: "Admin",
+    auth: "admin",
+    body: adminUpdateCommentSchema,
+    response: messageResponse.extend({ comment }),
+    errors: ["NOT_FOUND"],
+  },
+  "POST /api/admin/comments/{id}": {
+    summary: "Run a moderation action on a comment",
+    tag: "Admin",
+    auth: "admin",
+    body: commentModerationActionSchema,
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+  "DELETE /api/admin/comments/{id}": {
+    summary: "Permanently delete a comment",
+    tag: "Admin",
+    auth: "admin",
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+  "GET /api/admin/reports": {
+    summary: "List content reports",
+    tag: "Admin",
+    auth: "admin",
+    query: getReportsSchema,
+    response: z.object({ reports: z.array(anyObject) }).passthrough(),
+    pagination: "page",
+  },
+  "PUT /api/admin/reports": {
+    summary: "Bulk-update report status",
+    tag: "Admin",
+    auth: "admin",
+    body: bulkUpdateReportsSchema,
+    response: messageResponse,
+  },
+  "GET /api/admin/reports/{id}": {
+    summary: "A report with the reported content and related reports",
+    tag: "Admin",
+    auth: "admin",
+    response: z.object({ report: anyObject }),
+    errors: ["NOT_FOUND"],
+  },
+  "PUT /api/admin/reports/{id}": {
+    summary: "Update a report",
+    tag: "Admin",
+    auth: "admin",
+    body: updateReportSchema,
+    response: messageResponse.extend({ report: anyObject }),
+    errors: ["NOT_FOUND"],
+  },
+  "POST /api/admin/reports/{id}": {
+    summary: "Run a moderation action on a report",
+    tag: "Admin",
+    auth: "admin",
+    body: reportModerationActionSchema,
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+  "GET /api/admin/roles": {
+    summary: "Roles, their permissions and staff members",
+    tag: "Admin",
+    auth: "admin",
+    response: anyObject,
+  },
+  "GET /api/admin/settings": {
+    summary: "Platform settings grouped by category",
+    tag: "Admin",
+    auth: "admin",
+    query: getSettingsSchema,
+    response: anyObject,
+  },
+  "PUT /api/admin/settings": {
+    summary: "Update one setting, or several with { settings: [...] }",
+    tag: "Admin",
+    auth: "admin",
+    body: z.union([updateSettingSchema, bulkUpdateSettingsSchema]),
+    response: messageResponse,
+  },
+  "POST /api/admin/settings": {
+    summary: "Reset, export or validate settings",
+    tag: "Admin",
+    auth: "admin",
+    body: z.object({
+      action: z.enum([
+        "reset_to_defaults",
+        "export_settings",
+        "validate_settings",
+      ]),
+    }),
+    response: messageResponse,
+  },
+  "GET /api/admin/maintenance": {
+    summary: "Maintenance status, announcements and system status",
+    tag: "Admin",
+    auth: "admin",
+    query: getMaintenanceSchema,
+    response: anyObject,
+  },
+  "PUT /api/admin/maintenance": {
+    summary: "Enable or disable maintenance mode",
+    description:
+      "While enabled and between start_time and end_time, every route except " +
+      "/api/health and GET /api/announcements answers 503 " +
+      "SERVICE_UNAVAILABLE with the message and a Retry-After until " +
+      "end_time. Admins and allowed_ips are let through; " +
+      "client IPs are only known behind TRUSTED_PROXY_COUNT trusted proxies. " +
+      "Changes can take 15 seconds to apply.",
+    tag: "Admin",
+    auth: "admin",
+    body: z.object({
+      action: z.literal("maintenance"),
+      data: maintenanceSchema,
+    }),
+    response: messageResponse,
+  },
+  "POST /api/admin/maintenance": {
+    summary: "Create an announcement",
+    tag: "Admin",
+    auth: "admin",
+    description:
+      "High priority announcements are also queued to be pushed to their " +
+      "whole audience once starts_at has passed; `notifications` reports " +
+      "progress.",
+    body: announcementSchema,
+    response: messageResponse.extend({
+      announcement,
+      notifications: announcementNotifications,
+    }),
+    status: 201,
+  },
+  "PUT /api/admin/announcements/{id}": {
+    summary: "Update or deactivate an announcement",
+    description:
+      "Set is_active to false to deactivate. Raising an announcement to high " +
+      "priority queues it to be pushed to its audience, unless it already was.",
+    tag: "Admin",
+    auth: "admin",
+    body: updateAnnouncementSchema,
+    response: messageResponse.extend({
+      announcement,
+      notifications: announcementNotifications,
+    }),
+    errors: ["NOT_FOUND"],
+  },
+  "DELETE /api/admin/announcements/{id}": {
+    summary: "Delete an announcement",
+    tag: "Admin",
+    auth: "admin",
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+  "POST /api/admin/tags/merge": {
+    summary: "Merge tags into a target tag",
+    tag: "Admin",
+    auth: "admin",
+    body: mergeTagsSchema,
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+  "GET /api/admin/users/{id}": {
+    summary: "A user's profile and activity statistics",
+    tag: "Admin",
+    auth: "admin",
+    response: z.object({ user: anyObject }).passthrough(),
+    errors: ["NOT_FOUND"],
+  },
+  "DELETE /api/admin/users/{id}": {
+    summary: "Permanently delete a user",
+    tag: "Admin",
+    auth: "admin",
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+  "POST /api/admin/users/{id}/ban": {
+    summary: "Ban a user, permanently or for a number of days",
+    tag: "Admin",
+    auth: "admin",
+    body: banUserSchema,
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+  "DELETE /api/admin/users/{id}/ban": {
+    summary: "Unban a user",
+    tag: "Admin",
+    auth: "admin",
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+  "GET /api/admin/users/{id}/role": {
+    summary: "A user's role and permissions",
+    tag: "Admin",
+    auth: "admin",
+    response: anyObject,
+    errors: ["NOT_FOUND"],
+  },
+  "PUT /api/admin/users/{id}/role": {
+    summary: "Grant a role",
+    tag: "Admin",
+    auth: "admin",
+    body: grantRoleSchema,
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+  "DELETE /api/admin/users/{id}/role": {
+    summary: "Revoke a role",
+    tag: "Admin",
+    auth: "admin",
+    body: revokeRoleSchema,
+    response: messageResponse,
+    errors: ["NOT_FOUND"],
+  },
+
+  // Scheduled jobs
+  "POST /api/cron/scheduled-posts": {
+    summary: "Publish and unpublish posts whose scheduled time has passed",
+    tag: "Cron",
+    auth: "cron",
+    response: cronResult,
+  },
+  "POST /api/cron/notification-emails": {
+    summary: "Send pending notification emails",
+    tag: "Cron",
+    auth: "cron",
+    response: cronResult,
+  },
+  "POST /api/cron/announcement-notifications": {
+    summary: "Push a batch of high priority announcements",
+    description:
+      "Sends queued announcements that are active and have started, " +
+      "resuming each after the last recipient reached. Expired ones are " +
+      "dropped.",
+    tag: "Cron",
+    auth: "cron",
+    body: announcementNotificationsSchema,
+    response: cronResult,
+  },
+  "POST /api/cron/weekly-digest": {
+    summary: "Send a batch of weekly digest emails",
+    tag: "Cron",
+    auth: "cron",
+    body: weeklyDigestSchema,
+    response: cronResult,
+  },
+
+  // Meta
+  "GET /api/health": {
+    summary: "Service health",
+    tag: "Meta",
+    auth: "none",
+    response: anyObject,
+    errors: ["SERVICE_UNAVAILABLE"],
+  },
+  "POST /api/health": {
+    summary: "Run detailed health checks",
+    tag: "Meta",
+    auth: "none",
+    body: z.object({ check_type: z.literal("detailed") }),
+    response: messageResponse,
+  },
+  "GET /api/openapi.json": {
+    summary: "This OpenAPI document",
+    tag: "Meta",
+    auth: "none",
+    response: anyObject,
+    contentType: "application/json",
+  },
+  "GET /api/docs": {
+    summary: "Rendered API reference",
+    tag: "Meta",
+    auth: "none",
+    response: z.string(),
+    contentType: "text/html",
+  },
+};
@@ -1,62 +1,193 @@
 // src/lib/authHelpers.ts
 import { User } from "@supabase/supabase-js";
+import { timingSafeEqual } from "crypto";
 import { NextRequest } from "next/server";
-import { supabaseAdmin } from "./supabaseAdmin";
-import { ApiErrorPayload, Profile } from "./types";
+import type { ApiErrorCode } from "./errorHandler";
+import { getRepositories, ProfileRecord } from "./repositories";
+import { ApiErrorPayload } from "./types";
 
-export async function getAuthenticatedUser(
+export interface UserBan {
+  reason: string;
+  banned_at: string;
+  banned_by: string | null;
+  expires_at: string | null;
+}
+
+export class UserBannedError extends Error {
+  status = 403;
+  details: { reason: string; banned_at: string; expires_at: string | null };
+
+  constructor(ban: UserBan) {
+    super(createBanMessage(ban));
+    this.name = "UserBannedError";
+    this.details = {
+      reason: ban.reason,
+      banned_at: ban.banned_at,
+      expires_at: ban.expires_at,
+    };
+  }
+}
+
+function createBanMessage(ban: UserBan): string {
+  return ban.expires_at
+    ? `Your account is banned until ${ban.expires_at}.`
+    : "Your account has been permanently banned.";
+}
+
+// Returns the user's ban if one is in effect. Temporary bans that have run
+// out are removed here so they stop applying without an admin unbanning.
+export async function getActiveBan(userId: string): Promise<UserBan | null> {
+  const { bans } = getRepositories();
+  const ban = await bans.find(userId);
+
+  if (!ban) {
+    return null;
+  }
+
+  if (ban.expires_at && new Date(ban.expires_at).getTime() <= Date.now()) {
+    try {
+      await bans.deleteExpired(userId, new Date().toISOString());
+    } catch (expireError) {
+      console.error("Error removing expired ban:", expireError);
+    }
+    return null;
+  }
+
+  return {
+    reason: ban.reason,
+    banned_at: ban.banned_at,
+    banned_by: ban.banned_by,
+    expires_at: ban.expires_at,
+  };
+}
+
+// Supabase Auth refuses to sign in or refresh tokens for a user with an
+// active ban_duration, which revokes every session they currently hold.
+// A null expiresAt is treated as a permanent ban.
+export async function revokeUserSessions(
+  userId: string,
+  expiresAt: Date | null
+): Promise<{ revoked: boolean; error: ApiErrorPayload | null }> {
+  const hours = expiresAt
+    ? Math.max(Math.ceil((expiresAt.getTime() - Date.now()) / 3600000), 1)
+    : 876000; // ~100 years
+  return updateAuthBan(userId, `${hours}h`);
+}
+
+export async function restoreUserSessions(
+  userId: string
+): Promise<{ revoked: boolean; error: ApiErrorPayload | null }> {
+  return updateAuthBan(userId, "none");
+}
+
+async function updateAuthBan(
+  userId: string,
+  banDuration: string
+): Promise<{ revoked: boolean; error: ApiErrorPayload | null }> {
+  try {
+    await getRepositories().auth.setBanDuration(userId, banDuration);
+  } catch (error) {
+    console.error("Error updating auth ban for user:", error);
+    return {
+      revoked: false,
+      error: { message: "Failed to update user sessions." },
+    };
+  }
+
+  return { revoked: banDuration !== "none", error: null };
+}
+
+// Carries the code to respond with, since a 403 can mean FORBIDDEN or
+// USER_BANNED
+export type AuthError = ApiErrorPayload & { code: ApiErrorCode };
+
+interface AuthenticationResult {
+  user: User | null;
+  error: AuthError | null;
+  status: number;
+}
+
+// Rate limiting identifies the caller before the handler does; both share
+// one lookup per request
+const authenticationResults = new WeakMap<
+  Request,
+  Promise<AuthenticationResult>
+>();
+
+export function getAuthenticatedUser(
   request: Request
-): Promise<{ user: User | null; error: ApiErrorPayload | null }> {
+): Promise<AuthenticationResult> {
+  let result = authenticationResults.get(request);
+  if (!result) {
+    result = authenticateRequest(request);
+    authenticationResults.set(request, result);
+  }
+  return result;
+}
+
+async function authenticateRequest(
+  request: Request
+): Promise<AuthenticationResult> {
   try {
     const authHeader = request.headers.get("authorization");
     if (!authHeader || !authHeader.startsWith("Bearer ")) {
       return {
         user: null,
-        error: { message: "No authorization token provided." },
+        error: {
+          message: "No authorization token provided.",
+          code: "AUTH_REQUIRED",
+        },
+        status: 401,
       };
     }
 
     const token = authHeader.replace("Bearer ", "");
-    const {
-      data: { user },
-      error: sessionError,
-    } = await supabaseAdmin.auth.getUser(token);
+    const user = await getRepositories().auth.getUserByToken(token);
 
-    if (sessionError) {
-      console.error("Error getting authenticated user:", sessionError.message);
-      return { user: null, error: { message: "Invalid or expired token." } };
+    if (!user) {
+      return {
+        user: null,
+        error: { message: "Invalid or expired token.", code: "AUTH_REQUIRED" },
+        status: 401,
+      };
     }
 
-    if (!user) {
-      return { user: null, error: { message: "User not authenticated." } };
+    const ban = await getActiveBan(user.id);
+    if (ban) {
+      const banError = new UserBannedError(ban);
+      return {
+        user: null,
+        error: {
+          message: banError.message,
+          details: banError.details,
+          code: "USER_BANNED",
+        },
+        status: 403,
+      };
     }
 
-    return { user, error: null };
+    return { user, error: null, status: 200 };
   } catch (error) {
     console.error("Error in getAuthenticatedUser:", error);
-    return { user: null, error: { message: "Authentication error occurred." } };
-  }
-}
-
-export function isPlatformAdmin(user: User | null): boolean {
-  if (!user || !process.env.YOUR_PLATFORM_ADMIN_USER_ID) {
-    return false;
+    return {
+      user: null,
+      error: {
+        message: "Authentication error occurred.",
+        code: "INTERNAL_ERROR",
+      },
+      status: 500,
+    };
   }
-  return user.id === process.env.YOUR_PLATFORM_ADMIN_USER_ID;
 }
 
 export async function getUserProfile(
   userId: string
-): Promise<{ profile: Profile | null; error: ApiErrorPayload | null }> {
+): Promise<{ profile: ProfileRecord | null; error: ApiErrorPayload | null }> {
   try {
-    const { data: profile, error } = await supabaseAdmin
-      .from("profiles")
-      .select("*")
-      .eq("id", userId)
-      .single();
-
-    if (error) {
-      console.error("Error fetching user profile:", error);
+    const profile = await getRepositories().profiles.findById(userId);
+
+    if (!profile) {
+      console.error("No profile for user:", userId);
       return {
         profile: null,
         error: { message: "Failed to fetch user profile." },
@@ -75,36 +206,24 @@ export async function getUserProfile(
 
 export async function checkPostAuthorization(
   userId: string,
-  postId: number,
+  postId: string,
   requiredRole: "author" | "editor" | "any" = "any"
 ): Promise<{ authorized: boolean; error: ApiErrorPayload | null }> {
   try {
-    // First check if user is post author
-    const { data: post, error: postError } = await supabaseAdmin
-      .from("posts")
-      .select("id")
-      .eq("id", postId)
-      .eq("author_id", userId)
-      .single();
-
-    if (!postError && post) {
+    const { posts, collaborators } = getRepositories();
+    const post = await posts.findById(postId);
+
+    if (post?.author_id === userId) {
       return { authorized: true, error: null };
     }
 
     // If not author, check collaborator status
     if (requiredRole !== "author") {
-      const { data: collaborator, error: collabError } = await supabaseAdmin
-        .from("post_collaborators")
-        .select("role, accepted_at")
-        .eq("post_id", postId)
-        .eq("user_id", userId)
-        .not("accepted_at", "is", null) // accepted_at IS NOT NULL
-        .single();
-
-      if (!collabError && collaborator) {
-        if (requiredRole === "any" || collaborator.role === requiredRole) {
-          return { authorized: true, error: null };
-        }
+      const collaborator = await collaborators.find(postId, userId);
+      const role = collaborator?.accepted_at ? collaborator.role : null;
+
+      if (role && (requiredRole === "any" || role === requiredRole)) {
+        return { authorized: true, error: null };
       }
     }
 
@@ -125,29 +244,43 @@ export async function getAuthenticatedUserWithProfile(
   request: Request
 ): Promise<{
   user: User | null;
-  profile: Profile | null;
-  error: ApiErrorPayload | null;
+  profile: ProfileRecord | null;
+  error: AuthError | null;
+  status: number;
 }> {
   try {
-    const { user, error: authError } = await getAuthenticatedUser(request);
+    const {
+      user,
+      error: authError,
+      status,
+    } = await getAuthenticatedUser(request);
 
     if (authError || !user) {
-      return { user, profile: null, error: authError };
+      return { user, profile: null, error: authError, status };
     }
 
     const { profile, error: profileError } = await getUserProfile(user.id);
 
     if (profileError) {
-      return { user, profile: null, error: profileError };
+      return {
+        user,
+        profile: null,
+        error: { ...profileError, code: "INTERNAL_ERROR" },
+        status: 500,
+      };
     }
 
-    return { user, profile, error: null };
+    return { user, profile, error: null, status: 200 };
   } catch (error) {
     console.error("Error in getAuthenticatedUserWithProfile:", error);
     return {
       user: null,
       profile: null,
-      error: { message: "Authentication error occurred." },
+      error: {
+        message: "Authentication error occurred.",
+        code: "INTERNAL_ERROR",
+      },
+      status: 500,
     };
   }
 }
@@ -166,21 +299,18 @@ export async function validateToken(
     }
 
     const token = authHeader.replace("Bearer ", "");
-    const {
-      data: { user },
-      error: sessionError,
-    } = await supabaseAdmin.auth.getUser(token);
+    const user = await getRepositories().auth.getUserByToken(token);
 
-    if (sessionError) {
-      console.error("Error validating token:", sessionError.message);
+    if (!user) {
       if (required) {
         throw new Error("Invalid or expired token");
       }
       return null;
     }
 
-    if (!user && required) {
-      throw new Error("User not authenticated");
+    const ban = await getActiveBan(user.id);
+    if (ban) {
+      throw new UserBannedError(ban);
     }
 
     return user;
@@ -192,3 +322,19 @@ export async function validateToken(
     return null;
   }
 }
+
+// Scheduled jobs authenticate with the shared CRON_SECRET as a bearer token.
+// Without a configured secret every cron request is rejected.
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get("authorization");
+  if (!secret || !authHeader || !authHeader.startsWith("Bearer ")) {
+    return false;
+  }
+
+  const provided = Buffer.from(authHeader.replace("Bearer ", ""));
+  const expected = Buffer.from(secret);
+  return (
+    provided.length === expected.length && timingSafeEqual(provided, expected)
+  );
+}
@@ -0,0 +1,40 @@
+// src/lib/clientIp.ts
+
+// How many proxies in front of the app append to X-Forwarded-For, e.g. 1
+// behind a single load balancer. Unset or 0 means none are trusted: any
+// client can send the header, so it is ignored.
+function getTrustedProxyCount(): number {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT);
+  return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+// Whether client addresses can be known at all. Maintenance allowed_ips and
+// anonymous rate limiting both depend on it.
+export function hasTrustedProxies(): boolean {
+  return getTrustedProxyCount() > 0;
+}
+
+/**
+ * The client address as reported by our own proxies. Each trusted proxy
+ * appends the address it received the request from, so the client is the
+ * entry TRUSTED_PROXY_COUNT places from the right; anything further left
+ * was sent by the client and is not trusted. Without trusted proxies there
+ * is no address to go on and "unknown" is returned.
+ */
+export function getClientIp(request: Request): string {
+  const trustedProxies = getTrustedProxyCount();
+  if (trustedProxies === 0) {
+    return "unknown";
+  }
+
+  const forwardedFor = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwardedFor.length > 0) {
+    // Fewer entries than proxies means every entry was added by one of them
+    return forwardedFor[Math.max(forwardedFor.length - trustedProxies, 0)];
+  }
+
+  return request.headers.get("x-real-ip")?.trim() || "unknown";
+}
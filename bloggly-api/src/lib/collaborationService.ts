@@ -0,0 +1,98 @@
+// src/lib/collaborationService.ts
+import {
+  CollaborationEmailEvent,
+  generateCollaborationEmail,
+} from "./emailService";
+import { dispatchNotification, getActorName } from "./notificationService";
+import { getRepositories } from "./repositories";
+
+export const COLLABORATOR_ROLES = ["editor", "author"] as const;
+export type CollaboratorRole = (typeof COLLABORATOR_ROLES)[number];
+
+export type CollaborationEvent = CollaborationEmailEvent;
+
+interface CollaborationEventOptions {
+  event: CollaborationEvent;
+  post: { id: string; title: string; slug: string };
+  actorId: string;
+  recipientId: string;
+  collaboratorId: string;
+  // As stored on the collaborator, one of COLLABORATOR_ROLES
+  role: string;
+}
+
+const notificationTitles: Record<CollaborationEvent, string> = {
+  invited: "Collaboration invitation",
+  accepted: "Invitation accepted",
+  declined: "Invitation declined",
+  role_changed: "Collaboration role changed",
+  removed: "Removed from collaboration",
+};
+
+function describeEvent(
+  event: CollaborationEvent,
+  actorName: string,
+  postTitle: string,
+  role: string
+): string {
+  switch (event) {
+    case "invited":
+      return `${actorName} invited you to collaborate on "${postTitle}" as ${role}`;
+    case "accepted":
+      return `${actorName} accepted your invitation to collaborate on "${postTitle}"`;
+    case "declined":
+      return `${actorName} declined your invitation to collaborate on "${postTitle}"`;
+    case "role_changed":
+      return `${actorName} changed your role on "${postTitle}" to ${role}`;
+    case "removed":
+      return `${actorName} removed you from "${postTitle}"`;
+  }
+}
+
+// Notifies the other party of a collaboration change in-app and by email,
+// and records the change in activity_logs.
+export async function recordCollaborationEvent({
+  event,
+  post,
+  actorId,
+  recipientId,
+  collaboratorId,
+  role,
+}: CollaborationEventOptions): Promise<void> {
+  const actorName = await getActorName(actorId);
+
+  await dispatchNotification({
+    type: `collaboration_${event}`,
+    recipients: { userIds: [recipientId] },
+    actorId,
+    title: notificationTitles[event],
+    message: describeEvent(event, actorName, post.title, role),
+    data: {
+      post_id: post.id,
+      post_slug: post.slug,
+      role,
+    },
+    channels: ["email", "push"],
+    email: (recipient) =>
+      generateCollaborationEmail(
+        recipient.email,
+        recipient.name,
+        actorName,
+        post.title,
+        post.slug,
+        event,
+        role
+      ),
+  });
+
+  await getRepositories().logs.logActivity({
+    user_id: actorId,
+    action: `collaborator_${event}`,
+    resource_type: "post",
+    resource_id: post.id,
+    metadata: {
+      collaborator_id: collaboratorId,
+      role,
+    },
+  });
+}
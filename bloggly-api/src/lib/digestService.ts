@@ -0,0 +1,377 @@
+// src/lib/digestService.ts
+import { getAuthorStats } from "./analyticsService";
+import {
+  addUnsubscribeLink,
+  generateWeeklyDigestEmail,
+  sendEmail,
+  WeeklyDigest,
+} from "./emailService";
+import { getNotificationPreferences } from "./notificationService";
+import { DigestSendStatus, getRepositories, ProfileName } from "./repositories";
+import { getUnsubscribeUrl } from "./unsubscribeService";
+
+const DIGEST_MAX_POSTS = 10;
+const DIGEST_MAX_COMMENTS = 3;
+const DIGEST_MAX_FOLLOWER_NAMES = 5;
+const EXCERPT_LENGTH = 160;
+// A user whose digest failed is retried by later runs up to this many
+// sends in total
+const DIGEST_MAX_ATTEMPTS = 3;
+// A pending claim older than this belongs to a run that died mid-send
+const DIGEST_CLAIM_TIMEOUT_MINUTES = 30;
+
+export interface DigestPeriod {
+  start: Date;
+  end: Date;
+  // The ISO date of the period's Monday, used as the send key
+  key: string;
+}
+
+export interface DigestBatchResult {
+  period: string;
+  processed: number;
+  sent: number;
+  skipped: number;
+  failed: number;
+  next_cursor: string | null;
+}
+
+function displayName(profile: ProfileName | null | undefined): string {
+  return profile?.display_name || profile?.username || "Someone";
+}
+
+function truncate(text: string | null | undefined): string {
+  const value = text || "";
+  return value.length > EXCERPT_LENGTH
+    ? `${value.substring(0, EXCERPT_LENGTH)}...`
+    : value;
+}
+
+// The last complete Monday-to-Monday week (UTC) before the reference time
+export function getDigestPeriod(reference: Date = new Date()): DigestPeriod {
+  const end = new Date(
+    Date.UTC(
+      reference.getUTCFullYear(),
+      reference.getUTCMonth(),
+      reference.getUTCDate()
+    )
+  );
+  end.setUTCDate(end.getUTCDate() - ((end.getUTCDay() + 6) % 7));
+  const start = new Date(end.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+  return { start, end, key: start.toISOString().split("T")[0] };
+}
+
+async function getFollowedPosts(
+  userId: string,
+  period: DigestPeriod
+): Promise<WeeklyDigest["posts"]> {
+  const { follows, posts, tags } = getRepositories();
+  const [authorIds, tagNames] = await Promise.all([
+    follows.listFollowingIds(userId),
+    tags.listFollowedNames(userId),
+  ]);
+
+  const query = {
+    from: period.start.toISOString(),
+    before: period.end.toISOString(),
+    excludeAuthorId: userId,
+    limit: DIGEST_MAX_POSTS,
+  };
+  const [authorPosts, tagPosts] = await Promise.all([
+    authorIds.length > 0
+      ? posts.listPublished({ ...query, authorIds })
+      : Promise.resolve([]),
+    tagNames.length > 0
+      ? posts.listPublished({ ...query, tags: tagNames })
+      : Promise.resolve([]),
+  ]);
+
+  // Posts by followed authors come first; a post matching both is listed once
+  const digestPosts = new Map<string, WeeklyDigest["posts"][number]>();
+  for (const [rows, reason] of [
+    [authorPosts, "followed_author"],
+    [tagPosts, "followed_tag"],
+  ] as const) {
+    for (const post of rows) {
+      if (!digestPosts.has(post.id)) {
+        digestPosts.set(post.id, {
+          title: post.title,
+          slug: post.slug,
+          excerpt: truncate(post.excerpt),
+          authorName: displayName(post.author),
+          reason,
+        });
+      }
+    }
+  }
+
+  return [...digestPosts.values()].slice(0, DIGEST_MAX_POSTS);
+}
+
+// Comments others left on the user's posts during the period, ranked by
+// reactions and then recency
+async function getTopComments(
+  userId: string,
+  period: DigestPeriod
+): Promise<WeeklyDigest["topComments"]> {
+  const comments = await getRepositories().comments.listReceived(userId, {
+    from: period.start.toISOString(),
+    before: period.end.toISOString(),
+    limit: 100,
+  });
+
+  return (
+    comments
+      .map((comment) => ({
+        postTitle: comment.post.title,
+        postSlug: comment.post.slug,
+        authorName: displayName(comment.author),
+        excerpt: truncate(comment.content),
+        reactions: comment.reactions_count,
+      }))
+      // Rows arrive newest first and the sort is stable, so ties stay by recency
+      .sort((a, b) => b.reactions - a.reactions)
+      .slice(0, DIGEST_MAX_COMMENTS)
+  );
+}
+
+async function getNewFollowers(
+  userId: string,
+  period: DigestPeriod
+): Promise<WeeklyDigest["newFollowers"]> {
+  const { followers, total } = await getRepositories().follows.listNewFollowers(
+    userId,
+    {
+      from: period.start.toISOString(),
+      before: period.end.toISOString(),
+      limit: DIGEST_MAX_FOLLOWER_NAMES,
+    }
+  );
+
+  return {
+    total,
+    names: followers.map((follower) => displayName(follower)),
+  };
+}
+
+export async function buildWeeklyDigest(
+  userId: string,
+  period: DigestPeriod
+): Promise<WeeklyDigest> {
+  const [posts, topComments, newFollowers, stats] = await Promise.all([
+    getFollowedPosts(userId, period),
+    getTopComments(userId, period),
+    getNewFollowers(userId, period),
+    getAuthorStats(userId, period.start, period.end),
+  ]);
+
+  return {
+    periodStart: period.key,
+    periodEnd: new Date(period.end.getTime() - 1).toISOString().split("T")[0],
+    posts,
+    topComments,
+    newFollowers,
+    stats: {
+      published: stats.published,
+      views: stats.total_views,
+      reactions_received: stats.reactions_received,
+      comments_received: stats.comments_received,
+      followers_gained: stats.followers_gained,
+    },
+  };
+}
+
+// Nothing new to read and no activity on the user's own content
+export function isDigestEmpty(digest: WeeklyDigest): boolean {
+  return (
+    digest.posts.length === 0 &&
+    digest.topComments.length === 0 &&
+    digest.newFollowers.total === 0 &&
+    digest.stats.reactions_received === 0 &&
+    digest.stats.comments_received === 0
+  );
+}
+
+async function recordDigestSend(
+  sendId: string,
+  status: Exclude<DigestSendStatus, "pending">,
+  digest: WeeklyDigest | null,
+  reason: string | null
+): Promise<void> {
+  try {
+    await getRepositories().digestSends.update(sendId, {
+      status,
+      reason,
+      summary: digest && {
+        posts: digest.posts.length,
+        top_comments: digest.topComments.length,
+        new_followers: digest.newFollowers.total,
+        stats: digest.stats,
+      },
+      completed_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error recording digest send:", error);
+  }
+}
+
+// Claims the user's send for the period. A new row is created pending; an
+// existing one is taken over only when its send failed, or its run died,
+// and it has attempts left. Returns null when the send is not ours to make.
+async function claimDigestSend(
+  userId: string,
+  period: DigestPeriod
+): Promise<{ id: string } | null> {
+  const now = new Date();
+  const { digestSends } = getRepositories();
+  const createdId = await digestSends.create(
+    userId,
+    period.key,
+    now.toISOString()
+  );
+
+  if (createdId) {
+    return { id: createdId };
+  }
+
+  const existing = await digestSends.find(userId, period.key);
+  const claimExpired =
+    existing?.status === "pending" &&
+    (!existing.claimed_at ||
+      now.getTime() - new Date(existing.claimed_at).getTime() >
+        DIGEST_CLAIM_TIMEOUT_MINUTES * 60 * 1000);
+  if (
+    !existing ||
+    (existing.status !== "failed" && !claimExpired) ||
+    existing.attempts >= DIGEST_MAX_ATTEMPTS
+  ) {
+    return null;
+  }
+
+  // Guarded on what was read, so only one run takes over a retry
+  const retried = await digestSends.updateIf(
+    existing.id,
+    { status: existing.status, attempts: existing.attempts },
+    {
+      status: "pending",
+      attempts: existing.attempts + 1,
+      claimed_at: now.toISOString(),
+      reason: null,
+      completed_at: null,
+    }
+  );
+
+  return retried ? { id: existing.id } : null;
+}
+
+/**
+ * Sends the digest for one period to the next page of users after the
+ * cursor. Each user is claimed in digest_sends (unique on user and period)
+ * before anything is built, so re-running a batch, or two schedulers
+ * overlapping, never emails anyone twice for the same week. A failed send
+ * stays retryable: the next run over the period tries again, up to
+ * DIGEST_MAX_ATTEMPTS times. Users who turned the digest or email off, and
+ * users with an empty week, are recorded as skipped.
+ */
+export async function sendWeeklyDigests(
+  period: DigestPeriod,
+  limit: number,
+  cursor: string | null
+): Promise<DigestBatchResult> {
+  const result: DigestBatchResult = {
+    period: period.key,
+    processed: 0,
+    sent: 0,
+    skipped: 0,
+    failed: 0,
+    next_cursor: null,
+  };
+
+  const { profiles: profileRepository } = getRepositories();
+  const ids = await profileRepository.listIds({ after: cursor, limit });
+  const found = await profileRepository.findByIds(ids);
+  const profiles = ids.flatMap((id) =>
+    found.filter((profile) => profile.id === id)
+  );
+
+  if (profiles.length === 0) {
+    return result;
+  }
+
+  const preferences = await getNotificationPreferences(
+    profiles.map((profile) => profile.id)
+  );
+
+  for (const profile of profiles) {
+    result.processed++;
+
+    let claim: { id: string } | null;
+    try {
+      claim = await claimDigestSend(profile.id, period);
+    } catch (claimError) {
+      console.error("Error claiming digest send:", claimError);
+      result.failed++;
+      continue;
+    }
+
+    // Already handled, or being handled, by another run
+    if (!claim) {
+      continue;
+    }
+
+    const userPreferences = preferences.get(profile.id)!;
+    const unsubscribeUrl = getUnsubscribeUrl(profile.id, "weekly_digest");
+    if (
+      !userPreferences.weekly_digest ||
+      !userPreferences.email_notifications ||
+      !profile.email ||
+      !unsubscribeUrl
+    ) {
+      await recordDigestSend(claim.id, "skipped", null, "not_subscribed");
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const digest = await buildWeeklyDigest(profile.id, period);
+      if (isDigestEmpty(digest)) {
+        await recordDigestSend(claim.id, "skipped", digest, "empty");
+        result.skipped++;
+        continue;
+      }
+
+      const template = generateWeeklyDigestEmail(
+        profile.email,
+        profile.display_name || profile.username,
+        digest
+      );
+      const sendResult = await sendEmail(
+        addUnsubscribeLink(template, unsubscribeUrl)
+      );
+
+      if (sendResult.success) {
+        await recordDigestSend(claim.id, "sent", digest, null);
+        result.sent++;
+      } else {
+        await recordDigestSend(
+          claim.id,
+          "failed",
+          digest,
+          sendResult.error || null
+        );
+        result.failed++;
+      }
+    } catch (buildError) {
+      console.error("Error building weekly digest:", buildError);
+      await recordDigestSend(claim.id, "failed", null, "build_error");
+      result.failed++;
+    }
+  }
+
+  if (ids.length === limit) {
+    result.next_cursor = ids[ids.length - 1];
+  }
+
+  return result;
+}
@@ -6,11 +6,25 @@ const fromAddress = process.env.EMAIL_FROM_ADDRESS || "noreply@bloggly.com";
 const frontendBaseUrl =
   process.env.APP_FRONTEND_BASE_URL || "http://localhost:5173";
 
+// Names, titles and excerpts are user content; escape them before they go
+// into an HTML body. Subjects and text bodies take them as they are.
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const strong = (value: string) => `<strong>${escapeHtml(value)}</strong>`;
+
 export interface EmailTemplate {
   to: string;
   subject: string;
   html: string;
   text?: string;
+  headers?: Record<string, string>;
 }
 
 export async function sendEmail(
@@ -28,6 +42,7 @@ export async function sendEmail(
       subject: template.subject,
       html: template.html,
       text: template.text,
+      headers: template.headers,
     });
 
     if (error) {
@@ -197,3 +212,369 @@ export function generateCommentNotificationEmail(
     text: `${commenterName} commented on your post "${postTitle}": "${commentContent.substring(0, 200)}${commentContent.length > 200 ? "..." : ""}" View at: ${postUrl}`,
   };
 }
+
+export type CollaborationEmailEvent =
+  | "invited"
+  | "accepted"
+  | "declined"
+  | "role_changed"
+  | "removed";
+
+export function generateCollaborationEmail(
+  recipientEmail: string,
+  recipientName: string,
+  actorName: string,
+  postTitle: string,
+  postSlug: string,
+  event: CollaborationEmailEvent,
+  role: string
+): EmailTemplate {
+  const postUrl = `${frontendBaseUrl}/post/${postSlug}`;
+  const invitationsUrl = `${frontendBaseUrl}/collaborations`;
+
+  // Summaries are written once for both bodies: the HTML one passes the
+  // names in bold and escaped, the text one passes them as they are
+  const content: Record<
+    CollaborationEmailEvent,
+    {
+      subject: string;
+      summary: (actor: string, title: string, role: string) => string;
+      cta: string;
+      url: string;
+    }
+  > = {
+    invited: {
+      subject: `${actorName} invited you to collaborate on "${postTitle}"`,
+      summary: (actor, title) =>
+        `${actor} invited you to join "${title}" as ${role === "editor" ? "an editor" : "an author"}.`,
+      cta: "Review Invitation",
+      url: invitationsUrl,
+    },
+    accepted: {
+      subject: `${actorName} accepted your invitation`,
+      summary: (actor, title, role) =>
+        `${actor} accepted your invitation to collaborate on "${title}" as ${role}.`,
+      cta: "Open Post",
+      url: postUrl,
+    },
+    declined: {
+      subject: `${actorName} declined your invitation`,
+      summary: (actor, title) =>
+        `${actor} declined your invitation to collaborate on "${title}".`,
+      cta: "Open Post",
+      url: postUrl,
+    },
+    role_changed: {
+      subject: `Your role on "${postTitle}" has changed`,
+      summary: (actor, title, role) =>
+        `${actor} changed your role on "${title}" to ${role}.`,
+      cta: "Open Post",
+      url: postUrl,
+    },
+    removed: {
+      subject: `You were removed from "${postTitle}"`,
+      summary: (actor, title) =>
+        `${actor} removed you as a collaborator on "${title}".`,
+      cta: "Browse Bloggly",
+      url: frontendBaseUrl,
+    },
+  };
+  const { subject, summary, cta, url } = content[event];
+
+  return {
+    to: recipientEmail,
+    subject,
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Collaboration Update</title>
+      </head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: #667eea; padding: 40px 20px; text-align: center; border-radius: 8px 8px 0 0;">
+          <h1 style="color: white; margin: 0; font-size: 28px;">Collaboration Update</h1>
+        </div>
+        <div style="background: #f8f9fa; padding: 40px 20px; border-radius: 0 0 8px 8px;">
+          <h2 style="color: #495057; margin-top: 0;">Hi ${escapeHtml(recipientName)}!</h2>
+          <p style="font-size: 16px; margin-bottom: 20px;">
+            ${summary(strong(actorName), strong(postTitle), escapeHtml(role))}
+          </p>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${escapeHtml(url)}" 
+               style="background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; display: inline-block;">
+              ${cta}
+            </a>
+          </div>
+          <p style="font-size: 14px; color: #6c757d; text-align: center; margin-top: 30px;">
+            Happy writing!<br>
+            The Bloggly Team
+          </p>
+        </div>
+      </body>
+      </html>
+    `,
+    text: `${summary(actorName, postTitle, role)} ${cta}: ${url}`,
+  };
+}
+
+export type ActivityEmailKind = "comment" | "reply" | "mention";
+
+export interface ActivityEmailSummary {
+  kind: ActivityEmailKind;
+  // The latest few actors, newest first, out of actorCount in all
+  actorNames: string[];
+  actorCount: number;
+  postTitle: string;
+  postSlug: string;
+  latestExcerpt: string;
+  // Events of this kind on the thread since the last email, including this one
+  count: number;
+}
+
+// One email for one or more comments, replies or mentions on a post.
+// Several events are summarised rather than sent one by one.
+export function generateActivityNotificationEmail(
+  recipientEmail: string,
+  recipientName: string,
+  activity: ActivityEmailSummary
+): EmailTemplate {
+  const postUrl = `${frontendBaseUrl}/post/${activity.postSlug}`;
+  const [latestActor] = activity.actorNames;
+  const others = activity.actorCount - 1;
+  const actors =
+    others > 0
+      ? `${latestActor} and ${others} other${others === 1 ? "" : "s"}`
+      : latestActor;
+
+  // Called with the names as they are for the subject and text body, and
+  // escaped for the HTML one
+  const summarize = (actors: string, postTitle: string) => {
+    const summaries: Record<
+      ActivityEmailKind,
+      { single: string; many: string }
+    > = {
+      comment: {
+        single: `${actors} commented on your post "${postTitle}"`,
+        many: `${actors} left ${activity.count} new comments on your post "${postTitle}"`,
+      },
+      reply: {
+        single: `${actors} replied to your comment on "${postTitle}"`,
+        many: `${actors} left ${activity.count} new replies to your comment on "${postTitle}"`,
+      },
+      mention: {
+        single: `${actors} mentioned you in a comment on "${postTitle}"`,
+        many: `You were mentioned ${activity.count} times in comments on "${postTitle}"`,
+      },
+    };
+    return activity.count > 1
+      ? summaries[activity.kind].many
+      : summaries[activity.kind].single;
+  };
+  const summary = summarize(actors, activity.postTitle);
+  const excerpt = `${activity.latestExcerpt.substring(0, 200)}${activity.latestExcerpt.length > 200 ? "..." : ""}`;
+
+  return {
+    to: recipientEmail,
+    subject: summary,
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>New Activity</title>
+      </head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: #28a745; padding: 40px 20px; text-align: center; border-radius: 8px 8px 0 0;">
+          <h1 style="color: white; margin: 0; font-size: 28px;">New Activity</h1>
+        </div>
+        <div style="background: #f8f9fa; padding: 40px 20px; border-radius: 0 0 8px 8px;">
+          <h2 style="color: #495057; margin-top: 0;">Hi ${escapeHtml(recipientName)}!</h2>
+          <p style="font-size: 16px; margin-bottom: 20px;">
+            ${summarize(escapeHtml(actors), escapeHtml(activity.postTitle))}${activity.count > 1 ? ". The latest:" : ":"}
+          </p>
+          <div style="background: white; padding: 20px; border-left: 4px solid #28a745; margin: 20px 0; border-radius: 4px;">
+            <p style="margin: 0; font-style: italic;">"${escapeHtml(excerpt)}"</p>
+          </div>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${escapeHtml(postUrl)}" 
+               style="background: #28a745; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; display: inline-block;">
+              View Conversation
+            </a>
+          </div>
+          <p style="font-size: 14px; color: #6c757d; text-align: center; margin-top: 30px;">
+            Keep the conversation going!<br>
+            The Bloggly Team
+          </p>
+        </div>
+      </body>
+      </html>
+    `,
+    text: `${summary}: "${excerpt}" View at: ${postUrl}`,
+  };
+}
+
+// Adds a visible unsubscribe link and the RFC 8058 headers mail clients use
+// for their own one-click unsubscribe button.
+export function addUnsubscribeLink(
+  template: EmailTemplate,
+  unsubscribeUrl: string
+): EmailTemplate {
+  const footer = `<p style="font-size: 12px; color: #adb5bd; text-align: center; margin-top: 20px;">
+          Don't want these emails? <a href="${escapeHtml(unsubscribeUrl)}" style="color: #6c757d;">Unsubscribe</a>
+        </p>`;
+
+  return {
+    ...template,
+    html: template.html.replace("</body>", `${footer}\n      </body>`),
+    text: template.text && `${template.text}\n\nUnsubscribe: ${unsubscribeUrl}`,
+    headers: {
+      ...template.headers,
+      "List-Unsubscribe": `<${unsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+  };
+}
+
+export interface WeeklyDigest {
+  periodStart: string;
+  periodEnd: string;
+  posts: Array<{
+    title: string;
+    slug: string;
+    excerpt: string;
+    authorName: string;
+    reason: "followed_author" | "followed_tag";
+  }>;
+  topComments: Array<{
+    postTitle: string;
+    postSlug: string;
+    authorName: string;
+    excerpt: string;
+    reactions: number;
+  }>;
+  newFollowers: {
+    total: number;
+    names: string[];
+  };
+  stats: {
+    published: number;
+    views: number;
+    reactions_received: number;
+    comments_received: number;
+    followers_gained: number;
+  };
+}
+
+export function generateWeeklyDigestEmail(
+  recipientEmail: string,
+  recipientName: string,
+  digest: WeeklyDigest
+): EmailTemplate {
+  const feedUrl = `${frontendBaseUrl}/feed`;
+  const section = (title: string, body: string) => `
+          <h3 style="color: #495057; margin: 30px 0 10px;">${title}</h3>
+          ${body}`;
+
+  const postItems = digest.posts
+    .map(
+      (post) => `
+            <li style="margin-bottom: 12px;">
+              <a href="${escapeHtml(`${frontendBaseUrl}/post/${post.slug}`)}" style="color: #667eea; font-weight: bold;">${escapeHtml(post.title)}</a>
+              <span style="color: #6c757d;"> by ${escapeHtml(post.authorName)}</span><br>
+              <span style="font-size: 14px;">${escapeHtml(post.excerpt)}</span>
+            </li>`
+    )
+    .join("");
+
+  const commentItems = digest.topComments
+    .map(
+      (comment) => `
+            <div style="background: white; padding: 15px; border-left: 4px solid #667eea; margin: 10px 0; border-radius: 4px;">
+              <p style="margin: 0 0 5px; font-style: italic;">"${escapeHtml(comment.excerpt)}"</p>
+              <p style="margin: 0; font-size: 14px; color: #6c757d;">
+                ${escapeHtml(comment.authorName)} on <a href="${escapeHtml(`${frontendBaseUrl}/post/${comment.postSlug}`)}" style="color: #667eea;">${escapeHtml(comment.postTitle)}</a>
+                &middot; ${comment.reactions} reaction${comment.reactions === 1 ? "" : "s"}
+              </p>
+            </div>`
+    )
+    .join("");
+
+  const { total, names } = digest.newFollowers;
+  const followerSummary =
+    total > names.length
+      ? `${names.join(", ")} and ${total - names.length} more`
+      : names.join(", ");
+
+  const statRows = [
+    ["Posts published", digest.stats.published],
+    ["Views", digest.stats.views],
+    ["Reactions received", digest.stats.reactions_received],
+    ["Comments received", digest.stats.comments_received],
+    ["New followers", digest.stats.followers_gained],
+  ]
+    .map(
+      ([label, value]) => `
+            <tr>
+              <td style="padding: 6px 0;">${label}</td>
+              <td style="padding: 6px 0; text-align: right; font-weight: bold;">${value}</td>
+            </tr>`
+    )
+    .join("");
+
+  const textLines = [
+    `Your week on Bloggly (${digest.periodStart} to ${digest.periodEnd})`,
+    ...digest.posts.map(
+      (post) =>
+        `- ${post.title} by ${post.authorName}: ${frontendBaseUrl}/post/${post.slug}`
+    ),
+    ...digest.topComments.map(
+      (comment) =>
+        `- ${comment.authorName} on "${comment.postTitle}": "${comment.excerpt}"`
+    ),
+    total > 0 ? `New followers: ${followerSummary}` : "",
+    `Views: ${digest.stats.views}, reactions: ${digest.stats.reactions_received}, comments: ${digest.stats.comments_received}`,
+  ].filter(Boolean);
+
+  return {
+    to: recipientEmail,
+    subject: "Your weekly Bloggly digest",
+    html: `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Your Weekly Digest</title>
+      </head>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 40px 20px; text-align: center; border-radius: 8px 8px 0 0;">
+          <h1 style="color: white; margin: 0; font-size: 28px;">Your Week on Bloggly</h1>
+          <p style="color: white; margin: 10px 0 0;">${escapeHtml(digest.periodStart)} &ndash; ${escapeHtml(digest.periodEnd)}</p>
+        </div>
+        <div style="background: #f8f9fa; padding: 40px 20px; border-radius: 0 0 8px 8px;">
+          <h2 style="color: #495057; margin-top: 0;">Hi ${escapeHtml(recipientName)}!</h2>
+          <p style="font-size: 16px;">Here's what happened this week.</p>
+          ${digest.posts.length > 0 ? section("New from writers and tags you follow", `<ul style="padding-left: 20px;">${postItems}</ul>`) : ""}
+          ${digest.topComments.length > 0 ? section("Top comments on your posts", commentItems) : ""}
+          ${total > 0 ? section("New followers", `<p style="font-size: 16px;">${escapeHtml(followerSummary)}</p>`) : ""}
+          ${section("Your stats", `<table style="width: 100%; font-size: 16px;">${statRows}</table>`)}
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${escapeHtml(feedUrl)}" 
+               style="background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; display: inline-block;">
+              Open Your Feed
+            </a>
+          </div>
+          <p style="font-size: 14px; color: #6c757d; text-align: center; margin-top: 30px;">
+            Happy reading!<br>
+            The Bloggly Team
+          </p>
+        </div>
+      </body>
+      </html>
+    `,
+    text: textLines.join("\n"),
+  };
+}
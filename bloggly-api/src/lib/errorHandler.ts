@@ -1,18 +1,146 @@
 // src/lib/errorHandler.ts
 import { ZodError, ZodIssue } from "zod";
+import { getClientIp } from "./clientIp";
 import { captureException, MonitoringContext } from "./monitoring";
+import { REQUEST_ID_HEADER } from "./requestId";
 import { ApiErrorPayload } from "./types";
 
+/**
+ * Every API response uses one envelope:
+ *
+ *   success: { data, meta? }
+ *   error:   { error: { code, message, details? } }
+ *
+ * `code` is one of the stable codes below and is what clients should branch
+ * on; messages are for people and may change. Pagination, when a list is
+ * paginated, is always in meta.pagination. The request id is in the
+ * X-Request-Id response header (see src/middleware.ts).
+ */
+export const API_ERROR_CATALOGUE = {
+  VALIDATION_FAILED: {
+    status: 400,
+    description: "The request body or query parameters are invalid.",
+  },
+  BAD_REQUEST: {
+    status: 400,
+    description: "The request cannot be processed as sent.",
+  },
+  AUTH_REQUIRED: {
+    status: 401,
+    description: "No valid access token was provided.",
+  },
+  FORBIDDEN: {
+    status: 403,
+    description: "The caller is not allowed to perform this action.",
+  },
+  USER_BANNED: {
+    status: 403,
+    description: "The caller's account is banned.",
+  },
+  NOT_FOUND: {
+    status: 404,
+    description: "The requested resource does not exist.",
+  },
+  CONFLICT: {
+    status: 409,
+    description: "The request conflicts with the current state.",
+  },
+  PAYLOAD_TOO_LARGE: {
+    status: 413,
+    description: "The request or uploaded file is too large.",
+  },
+  RATE_LIMITED: {
+    status: 429,
+    description: "Too many requests; retry after the indicated time.",
+  },
+  INTERNAL_ERROR: {
+    status: 500,
+    description: "An unexpected server error occurred.",
+  },
+  SERVICE_UNAVAILABLE: {
+    status: 503,
+    description: "The service is temporarily unavailable.",
+  },
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERROR_CATALOGUE;
+
+export interface PagePagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+export interface CursorPagination {
+  has_more: boolean;
+  next_cursor: string | null;
+}
+
+export interface ResponseMeta {
+  pagination?:
+    | PagePagination
+    | CursorPagination
+    | Record<string, CursorPagination>;
+}
+
+// The code used when a response does not name one
+function defaultErrorCode(status: number): ApiErrorCode {
+  switch (status) {
+    case 401:
+      return "AUTH_REQUIRED";
+    case 403:
+      return "FORBIDDEN";
+    case 404:
+      return "NOT_FOUND";
+    case 409:
+      return "CONFLICT";
+    case 413:
+      return "PAYLOAD_TOO_LARGE";
+    case 429:
+      return "RATE_LIMITED";
+    case 503:
+      return "SERVICE_UNAVAILABLE";
+    default:
+      return status >= 500 ? "INTERNAL_ERROR" : "BAD_REQUEST";
+  }
+}
+
+function isApiErrorCode(value: unknown): value is ApiErrorCode {
+  return typeof value === "string" && value in API_ERROR_CATALOGUE;
+}
+
 export function createErrorResponse(
   message: string,
   status: number,
-  details?: string | Record<string, string[] | undefined> | ZodIssue[]
+  details?:
+    | string
+    | Record<string, string[] | undefined>
+    | Record<string, string | null>
+    | ZodIssue[],
+  code: ApiErrorCode = defaultErrorCode(status),
+  headers?: HeadersInit
 ): Response {
-  const errorPayload: ApiErrorPayload = { message };
+  const errorPayload: ApiErrorPayload & { code: ApiErrorCode } = {
+    code,
+    message,
+  };
   if (details) {
     errorPayload.details = details;
   }
-  return Response.json({ error: errorPayload }, { status });
+  return Response.json({ error: errorPayload }, { status, headers });
+}
+
+export function createPagePagination(
+  page: number,
+  limit: number,
+  total: number
+): PagePagination {
+  return { page, limit, total, pages: Math.ceil(total / limit) };
+}
+
+export function getRequestId(request: Request): string | undefined {
+  return request.headers.get(REQUEST_ID_HEADER) || undefined;
 }
 
 export function handleRouteError(
@@ -36,7 +164,8 @@ export function handleRouteError(
     return createErrorResponse(
       "Validation failed.",
       400,
-      err.flatten().fieldErrors
+      err.flatten().fieldErrors,
+      "VALIDATION_FAILED"
     );
   }
 
@@ -78,10 +207,18 @@ export function handleRouteError(
     typeof err.message === "string"
   ) {
     const details =
-      "details" in err && typeof err.details === "string"
-        ? err.details
+      "details" in err &&
+      (typeof err.details === "string" ||
+        (typeof err.details === "object" && err.details !== null))
+        ? (err.details as string | Record<string, string | null>)
         : undefined;
-    return createErrorResponse(err.message, err.status, details);
+    const code =
+      "code" in err && isApiErrorCode(err.code)
+        ? err.code
+        : "name" in err && err.name === "UserBannedError"
+          ? "USER_BANNED"
+          : undefined;
+    return createErrorResponse(err.message, err.status, details, code);
   }
 
   return createErrorResponse("An internal server error occurred.", 500);
@@ -89,9 +226,10 @@ export function handleRouteError(
 
 export function createSuccessResponse<T>(
   data: T,
-  status: number = 200
+  status: number = 200,
+  meta?: ResponseMeta
 ): Response {
-  return Response.json({ data }, { status });
+  return Response.json(meta ? { data, meta } : { data }, { status });
 }
 
 // Utility function to extract monitoring context from request
@@ -100,15 +238,14 @@ export function extractMonitoringContext(
   userId?: string
 ): MonitoringContext {
   const url = new URL(request.url);
+  const clientIp = getClientIp(request);
   return {
     userId,
+    requestId: getRequestId(request),
     endpoint: url.pathname,
     method: request.method,
     userAgent: request.headers.get("user-agent") || undefined,
-    ip:
-      request.headers.get("x-forwarded-for") ||
-      request.headers.get("x-real-ip") ||
-      undefined,
+    ip: clientIp === "unknown" ? undefined : clientIp,
   };
 }
 
@@ -0,0 +1,134 @@
+// src/lib/feedService.ts
+import { FeedPost, FeedSource, getRepositories } from "./repositories";
+
+/**
+ * Feed ranking knobs. A candidate post's score is
+ *
+ *   (sum of its source weights + popularityWeight * log10(1 + view_count))
+ *     * 0.5 ^ (age in hours / halfLifeHours)
+ *
+ * so a post reached through several sources outranks one reached through a
+ * single source, views give a gentle boost, and everything decays with age
+ * at the same rate. Candidates older than windowDays are not considered and
+ * each source contributes at most candidatesPerSource posts.
+ */
+export const FEED_SCORING = {
+  sourceWeights: {
+    followed_author: 3,
+    followed_tag: 2,
+    collaborator: 2,
+    trending: 1,
+  } as Record<FeedSource, number>,
+  popularityWeight: 0.5,
+  halfLifeHours: 36,
+  windowDays: 14,
+  candidatesPerSource: 200,
+};
+
+interface FeedCursor {
+  // Scoring time of the first page, reused so later pages rank identically
+  at: string;
+  score: number;
+  id: string;
+}
+
+export interface FeedItem {
+  post: FeedPost;
+  score: number;
+  sources: FeedSource[];
+}
+
+export function scoreFeedItem(
+  post: Pick<FeedPost, "published_at" | "view_count">,
+  sources: FeedSource[],
+  now: Date
+): number {
+  const sourceScore = sources.reduce(
+    (sum, source) => sum + FEED_SCORING.sourceWeights[source],
+    0
+  );
+  const popularity =
+    FEED_SCORING.popularityWeight * Math.log10(1 + (post.view_count || 0));
+  const ageHours = Math.max(
+    (now.getTime() - new Date(post.published_at!).getTime()) / 3600000,
+    0
+  );
+
+  return (
+    (sourceScore + popularity) *
+    Math.pow(0.5, ageHours / FEED_SCORING.halfLifeHours)
+  );
+}
+
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeFeedCursor(value: string): FeedCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (
+      typeof cursor?.at === "string" &&
+      !isNaN(new Date(cursor.at).getTime()) &&
+      typeof cursor?.score === "number" &&
+      typeof cursor?.id === "string"
+    ) {
+      return { at: cursor.at, score: cursor.score, id: cursor.id };
+    }
+  } catch {
+    // Fall through to the invalid cursor result
+  }
+  return null;
+}
+
+// Collects candidates from every source, drops the reader's own and already
+// read posts, and returns the page after the cursor ranked by score.
+export async function buildFeed(
+  userId: string,
+  limit: number,
+  cursor: FeedCursor | null
+): Promise<{ items: FeedItem[]; nextCursor: string | null }> {
+  const now = cursor ? new Date(cursor.at) : new Date();
+  const windowStart = new Date(
+    now.getTime() - FEED_SCORING.windowDays * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  const candidates = await getRepositories().feed.listCandidates(userId, {
+    from: windowStart,
+    to: now.toISOString(),
+    perSource: FEED_SCORING.candidatesPerSource,
+  });
+
+  const ranked = candidates
+    .map(({ post, sources }) => ({
+      post,
+      sources,
+      score: scoreFeedItem(post, sources, now),
+    }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (a.post.id < b.post.id ? 1 : a.post.id > b.post.id ? -1 : 0)
+    )
+    .filter(
+      (item) =>
+        !cursor ||
+        item.score < cursor.score ||
+        (item.score === cursor.score && item.post.id < cursor.id)
+    );
+
+  const items = ranked.slice(0, limit);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor:
+      ranked.length > limit && last
+        ? encodeFeedCursor({
+            at: now.toISOString(),
+            score: last.score,
+            id: last.post.id,
+          })
+        : null,
+  };
+}
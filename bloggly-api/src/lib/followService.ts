@@ -0,0 +1,105 @@
+// src/lib/followService.ts
+import { dispatchNotification } from "./notificationService";
+import { encodePostCursor, PostCursor } from "./postHelpers";
+import { FollowDirection, getRepositories } from "./repositories";
+
+export interface FollowStatus {
+  is_following: boolean;
+  follows_you: boolean;
+  is_mutual: boolean;
+}
+
+export async function getFollowStatus(
+  userId: string,
+  otherUserId: string
+): Promise<FollowStatus> {
+  const { follows } = getRepositories();
+  const [isFollowing, followsYou] = await Promise.all([
+    follows.exists(userId, otherUserId),
+    follows.exists(otherUserId, userId),
+  ]);
+
+  return {
+    is_following: isFollowing,
+    follows_you: followsYou,
+    is_mutual: isFollowing && followsYou,
+  };
+}
+
+// Lists one side of a user's follow graph, newest first. Each entry is
+// flagged is_mutual when the relationship also runs the other way.
+export async function listFollows(
+  userId: string,
+  direction: FollowDirection,
+  limit: number,
+  cursor: PostCursor | null
+) {
+  const { follows } = getRepositories();
+  const entries = await follows.list(userId, direction, {
+    limit,
+    after: cursor ?? undefined,
+  });
+
+  const otherIds = entries.flatMap((entry) =>
+    entry.user ? [entry.user.id] : []
+  );
+
+  if (otherIds.length === 0) {
+    return { users: [], nextCursor: null };
+  }
+
+  // The same relationships in the opposite direction
+  const reverseIds = new Set(
+    await follows.filter(
+      userId,
+      direction === "followers" ? "following" : "followers",
+      otherIds
+    )
+  );
+
+  const users = entries
+    .map((entry) =>
+      entry.user
+        ? {
+            ...entry.user,
+            followed_at: entry.created_at,
+            is_mutual: reverseIds.has(entry.user.id),
+          }
+        : null
+    )
+    .filter((user) => user !== null);
+
+  const last = entries[entries.length - 1];
+  return {
+    users,
+    nextCursor:
+      entries.length === limit
+        ? encodePostCursor({ at: last.created_at, id: last.id })
+        : null,
+  };
+}
+
+// Tells a user they have a new follower, unless they turned
+// follow_notifications off.
+export async function notifyNewFollower(
+  followerId: string,
+  followingId: string
+): Promise<void> {
+  const follower = await getRepositories().profiles.findById(followerId);
+
+  const followerName =
+    follower?.display_name || follower?.username || "Someone";
+
+  await dispatchNotification({
+    type: "follow",
+    recipients: { userIds: [followingId] },
+    actorId: followerId,
+    title: "New follower",
+    message: `${followerName} started following you`,
+    data: {
+      follower_id: followerId,
+      follower_username: follower?.username || null,
+    },
+    channels: ["push"],
+  });
+}
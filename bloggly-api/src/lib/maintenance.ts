@@ -0,0 +1,189 @@
+// src/lib/maintenance.ts
+import { getClientIp } from "./clientIp";
+import { createErrorResponse } from "./errorHandler";
+import { fetchUserRole, roleHasPermission } from "./roles";
+import { SETTINGS_REGISTRY } from "./settings/registry";
+import { supabaseAdmin } from "./supabaseAdmin";
+
+// Runs in src/middleware.ts on the Edge runtime, so it keeps to modules
+// without Node-only imports (no authHelpers or repositories, and the
+// settings registry rather than the repository-backed getSetting).
+
+export const DEFAULT_MAINTENANCE_MESSAGE =
+  SETTINGS_REGISTRY.maintenance_message.default;
+
+// Paths that stay up during maintenance: health so monitoring can tell the
+// difference between maintenance and an outage, and announcements so users
+// can still read what the maintenance is about
+export const MAINTENANCE_EXEMPT_PATHS = ["/api/health", "/api/announcements"];
+
+// Settings are read at most this often per instance. PUT
+// /api/admin/maintenance runs in a different runtime from the middleware,
+// so changes reach it when the cached copy expires.
+const STATE_CACHE_TTL_MS = 15_000;
+
+export interface MaintenanceState {
+  enabled: boolean;
+  message: string;
+  startTime: string | null;
+  endTime: string | null;
+  allowedIps: string[];
+}
+
+let cache: { value: Promise<MaintenanceState>; expiresAt: number } | null =
+  null;
+
+const asTime = (value: unknown): string | null =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value)) ? value : null;
+
+async function loadMaintenanceState(): Promise<MaintenanceState> {
+  const { data, error } = await supabaseAdmin
+    .from("platform_settings")
+    .select("setting_key, setting_value")
+    .in("setting_key", [
+      "maintenance_mode_enabled",
+      "maintenance_message",
+      "maintenance_start_time",
+      "maintenance_end_time",
+      "maintenance_allowed_ips",
+    ]);
+
+  if (error) {
+    throw error;
+  }
+
+  const values = new Map<string, unknown>(
+    (data || []).map((setting) => [setting.setting_key, setting.setting_value])
+  );
+  const message = values.get("maintenance_message");
+  const allowedIps = values.get("maintenance_allowed_ips");
+
+  return {
+    enabled: values.get("maintenance_mode_enabled") === true,
+    message:
+      typeof message === "string" && message
+        ? message
+        : DEFAULT_MAINTENANCE_MESSAGE,
+    startTime: asTime(values.get("maintenance_start_time")),
+    endTime: asTime(values.get("maintenance_end_time")),
+    allowedIps: Array.isArray(allowedIps)
+      ? allowedIps.filter((ip): ip is string => typeof ip === "string")
+      : [],
+  };
+}
+
+// If the settings cannot be read the platform stays up: an unreachable
+// database should not look like a maintenance window
+export function getMaintenanceState(): Promise<MaintenanceState> {
+  const now = Date.now();
+  if (!cache || cache.expiresAt <= now) {
+    cache = {
+      value: loadMaintenanceState().catch((error) => {
+        console.error("Error loading maintenance settings:", error);
+        return {
+          enabled: false,
+          message: DEFAULT_MAINTENANCE_MESSAGE,
+          startTime: null,
+          endTime: null,
+          allowedIps: [],
+        };
+      }),
+      expiresAt: now + STATE_CACHE_TTL_MS,
+    };
+  }
+  return cache.value;
+}
+
+/**
+ * Maintenance is in effect while it is enabled and now falls inside the
+ * scheduled window. A missing start time means "from now on" and a missing
+ * end time "until disabled", so an enabled window opens and closes on its
+ * own.
+ */
+export function isMaintenanceActive(
+  state: MaintenanceState,
+  now: number = Date.now()
+): boolean {
+  if (!state.enabled) {
+    return false;
+  }
+  if (state.startTime && now < Date.parse(state.startTime)) {
+    return false;
+  }
+  if (state.endTime && now >= Date.parse(state.endTime)) {
+    return false;
+  }
+  return true;
+}
+
+// Seconds until the scheduled end, or null when no end is scheduled
+export function getMaintenanceRetryAfter(
+  state: MaintenanceState,
+  now: number = Date.now()
+): number | null {
+  if (!state.endTime) {
+    return null;
+  }
+  return Math.max(Math.ceil((Date.parse(state.endTime) - now) / 1000), 1);
+}
+
+// Whoever can turn maintenance off (admins) keeps access to the API
+async function isMaintenanceManager(request: Request): Promise<boolean> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return false;
+  }
+
+  try {
+    const {
+      data: { user },
+      error,
+    } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (error || !user) {
+      return false;
+    }
+    return roleHasPermission(
+      await fetchUserRole(user.id),
+      "manage_maintenance"
+    );
+  } catch (error) {
+    console.error("Error checking maintenance access:", error);
+    return false;
+  }
+}
+
+/**
+ * The 503 SERVICE_UNAVAILABLE response for a request that arrives during
+ * maintenance, or null when it may go through: maintenance is off, the path
+ * is exempt, the client IP is allowed or the caller is an admin.
+ */
+export async function getMaintenanceResponse(
+  request: Request
+): Promise<Response | null> {
+  const { pathname } = new URL(request.url);
+  if (MAINTENANCE_EXEMPT_PATHS.includes(pathname)) {
+    return null;
+  }
+
+  const state = await getMaintenanceState();
+  const now = Date.now();
+  if (!isMaintenanceActive(state, now)) {
+    return null;
+  }
+
+  if (
+    state.allowedIps.includes(getClientIp(request)) ||
+    (await isMaintenanceManager(request))
+  ) {
+    return null;
+  }
+
+  const retryAfter = getMaintenanceRetryAfter(state, now);
+  return createErrorResponse(
+    state.message,
+    503,
+    undefined,
+    "SERVICE_UNAVAILABLE",
+    retryAfter === null ? undefined : { "Retry-After": String(retryAfter) }
+  );
+}
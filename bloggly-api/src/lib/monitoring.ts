@@ -25,6 +25,7 @@ if (process.env.SENTRY_DSN) {
 }
 
 export interface MonitoringContext {
+  requestId?: string;
   userId?: string;
   username?: string;
   email?: string;
@@ -47,6 +48,7 @@ export function captureException(error: Error, context?: MonitoringContext) {
         scope.setTags({
           endpoint: context.endpoint,
           method: context.method,
+          request_id: context.requestId,
         });
 
         scope.setContext("request", {
@@ -83,6 +85,7 @@ export function captureMessage(
         scope.setTags({
           endpoint: context.endpoint,
           method: context.method,
+          request_id: context.requestId,
         });
       }
 
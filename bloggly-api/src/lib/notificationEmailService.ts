@@ -0,0 +1,398 @@
+// src/lib/notificationEmailService.ts
+import {
+  ActivityEmailKind,
+  ActivityEmailSummary,
+  addUnsubscribeLink,
+  EmailTemplate,
+  generateActivityNotificationEmail,
+  generateCommentNotificationEmail,
+  sendEmail,
+} from "./emailService";
+import {
+  getEmailPreference,
+  getNotificationPreferences,
+  getTypePreference,
+  NotificationRecipient,
+  PreparedEmail,
+} from "./notificationService";
+import { EmailThrottleRecord, getRepositories } from "./repositories";
+import { getUnsubscribeUrl } from "./unsubscribeService";
+
+// At most one email per recipient, kind and post in this window. Events in
+// between are held and summarised in the next email.
+export const EMAIL_THROTTLE_MINUTES = 15;
+// Names an email is given; everyone held is still counted
+const MAX_ACTOR_NAMES = 5;
+// A claim older than this belongs to a send that never finished, and the
+// row can be claimed again
+const CLAIM_TIMEOUT_MINUTES = 5;
+const MAX_WRITE_ATTEMPTS = 3;
+
+export interface ActivityEmailEvent {
+  kind: ActivityEmailKind;
+  postId: string;
+  postTitle: string;
+  postSlug: string;
+  actorName: string;
+  excerpt: string;
+}
+
+// Events an email covers, put back as pending if the send fails
+interface HeldEvents {
+  count: number;
+  // Every distinct actor, newest first
+  actorNames: string[];
+  excerpt: string | null;
+}
+
+interface ThrottleClaim {
+  rowId: string;
+  claimedAt: string;
+  events: HeldEvents;
+}
+
+export interface FlushResult {
+  sent: number;
+  skipped: number;
+}
+
+function buildActivityEmail(
+  recipientEmail: string,
+  recipientName: string,
+  summary: ActivityEmailSummary
+): EmailTemplate {
+  // A single new comment uses the original comment template
+  if (summary.kind === "comment" && summary.count === 1) {
+    return generateCommentNotificationEmail(
+      recipientEmail,
+      recipientName,
+      summary.actorNames[0],
+      summary.postTitle,
+      summary.postSlug,
+      summary.latestExcerpt
+    );
+  }
+
+  return generateActivityNotificationEmail(
+    recipientEmail,
+    recipientName,
+    summary
+  );
+}
+
+function mergeActorNames(latest: string, previous: string[]): string[] {
+  return [latest, ...previous.filter((name) => name !== latest)];
+}
+
+function summarizeActors(
+  actorNames: string[]
+): Pick<ActivityEmailSummary, "actorNames" | "actorCount"> {
+  return {
+    actorNames: actorNames.slice(0, MAX_ACTOR_NAMES),
+    actorCount: actorNames.length,
+  };
+}
+
+function throttleCutoff(now: Date): Date {
+  return new Date(now.getTime() - EMAIL_THROTTLE_MINUTES * 60 * 1000);
+}
+
+function claimCutoff(now: Date): Date {
+  return new Date(now.getTime() - CLAIM_TIMEOUT_MINUTES * 60 * 1000);
+}
+
+function isThrottled(row: EmailThrottleRecord, now: Date): boolean {
+  return (
+    (!!row.last_sent_at && new Date(row.last_sent_at) > throttleCutoff(now)) ||
+    (!!row.claimed_at && new Date(row.claimed_at) > claimCutoff(now))
+  );
+}
+
+// Adds an event to the row's pending summary. Guarded on the count read, so
+// concurrent events never overwrite each other; false means retry.
+async function holdActivity(
+  row: EmailThrottleRecord,
+  activity: ActivityEmailEvent
+): Promise<boolean> {
+  return getRepositories().emailThrottle.updateIf(
+    row.id,
+    { pending_count: row.pending_count },
+    {
+      pending_count: row.pending_count + 1,
+      pending_actor_names: mergeActorNames(
+        activity.actorName,
+        row.pending_actor_names
+      ),
+      pending_excerpt: activity.excerpt,
+      post_title: activity.postTitle,
+    }
+  );
+}
+
+// Takes the right to send the row's next email, along with its pending
+// events. Guarded on everything read, so of two senders only one wins;
+// null means another got there first.
+async function claimRow(
+  row: EmailThrottleRecord,
+  now: Date
+): Promise<ThrottleClaim | null> {
+  const claimedAt = now.toISOString();
+  const claimed = await getRepositories().emailThrottle.updateIf(
+    row.id,
+    {
+      pending_count: row.pending_count,
+      last_sent_at: row.last_sent_at,
+      claimed_at: row.claimed_at,
+    },
+    {
+      claimed_at: claimedAt,
+      pending_count: 0,
+      pending_actor_names: [],
+      pending_excerpt: null,
+    }
+  );
+
+  return claimed
+    ? {
+        rowId: row.id,
+        claimedAt,
+        events: {
+          count: row.pending_count,
+          actorNames: row.pending_actor_names,
+          excerpt: row.pending_excerpt,
+        },
+      }
+    : null;
+}
+
+// First email for a recipient, kind and post: the row is created claimed.
+// Null when a concurrent event created it first.
+async function insertClaimedRow(
+  userId: string,
+  activity: ActivityEmailEvent,
+  now: Date
+): Promise<ThrottleClaim | null> {
+  const claimedAt = now.toISOString();
+  const rowId = await getRepositories().emailThrottle.create({
+    user_id: userId,
+    kind: activity.kind,
+    post_id: activity.postId,
+    post_title: activity.postTitle,
+    post_slug: activity.postSlug,
+    last_sent_at: null,
+    claimed_at: claimedAt,
+    pending_count: 0,
+    pending_actor_names: [],
+    pending_excerpt: null,
+  });
+
+  if (!rowId) {
+    return null;
+  }
+
+  return {
+    rowId,
+    claimedAt,
+    events: { count: 0, actorNames: [], excerpt: null },
+  };
+}
+
+/**
+ * Ends a claim. A sent email starts the throttle window from now; after a
+ * failed send the events it covered go back to pending for the next
+ * flush. Guarded on the claim, so a claim that timed out and was taken
+ * over changes nothing.
+ */
+async function settleClaim(claim: ThrottleClaim, sent: boolean): Promise<void> {
+  const { emailThrottle } = getRepositories();
+  if (sent) {
+    await emailThrottle.updateIf(
+      claim.rowId,
+      { claimed_at: claim.claimedAt },
+      { last_sent_at: new Date().toISOString(), claimed_at: null }
+    );
+    return;
+  }
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const current = await emailThrottle.findById(claim.rowId);
+    if (current?.claimed_at !== claim.claimedAt) {
+      return;
+    }
+
+    const released = await emailThrottle.updateIf(
+      claim.rowId,
+      { claimed_at: claim.claimedAt, pending_count: current.pending_count },
+      {
+        claimed_at: null,
+        pending_count: current.pending_count + claim.events.count,
+        pending_actor_names: current.pending_actor_names
+          .concat(claim.events.actorNames)
+          .filter((name, index, names) => names.indexOf(name) === index),
+        pending_excerpt: current.pending_excerpt || claim.events.excerpt,
+      }
+    );
+
+    if (released) {
+      return;
+    }
+  }
+
+  console.error("Could not release notification email claim:", claim.rowId);
+}
+
+/**
+ * Decides whether a comment, reply or mention is emailed now. When the
+ * recipient has not had one for this post recently, the send is claimed and
+ * the email returned, folding in anything held since; otherwise the event is
+ * held for the next email and null returned. The throttle window only
+ * starts once the email has actually been sent (see settleClaim).
+ */
+export async function prepareActivityEmail(
+  recipient: NotificationRecipient,
+  activity: ActivityEmailEvent
+): Promise<PreparedEmail | null> {
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const now = new Date();
+    const row = await getRepositories().emailThrottle.find(
+      recipient.id,
+      activity.kind,
+      activity.postId
+    );
+
+    if (row && isThrottled(row, now)) {
+      if (await holdActivity(row, activity)) {
+        return null;
+      }
+      continue;
+    }
+
+    const claim = row
+      ? await claimRow(row, now)
+      : await insertClaimedRow(recipient.id, activity, now);
+    if (!claim) {
+      continue;
+    }
+
+    const held = claim.events;
+    const events: HeldEvents = {
+      count: held.count + 1,
+      actorNames: mergeActorNames(activity.actorName, held.actorNames),
+      excerpt: activity.excerpt,
+    };
+
+    return {
+      template: buildActivityEmail(recipient.email, recipient.name, {
+        kind: activity.kind,
+        ...summarizeActors(events.actorNames),
+        postTitle: activity.postTitle,
+        postSlug: activity.postSlug,
+        latestExcerpt: activity.excerpt,
+        count: events.count,
+      }),
+      settle: (sent) => settleClaim({ ...claim, events }, sent),
+    };
+  }
+
+  // Every attempt lost a race with concurrent events for the same post,
+  // whose emails cover the same activity
+  console.warn("Gave up throttling notification email for", recipient.id);
+  return null;
+}
+
+// Sends the summary email for events held back by the throttle once their
+// window has passed. Each row is claimed before sending, so overlapping runs
+// never send the same summary twice, and a failed send keeps its events
+// for the next run.
+export async function flushPendingActivityEmails(): Promise<FlushResult> {
+  const now = new Date();
+  const result: FlushResult = { sent: 0, skipped: 0 };
+
+  const { emailThrottle, profiles } = getRepositories();
+  const rows = await emailThrottle.listDue({
+    sentBefore: throttleCutoff(now).toISOString(),
+    claimedBefore: claimCutoff(now).toISOString(),
+    limit: 500,
+  });
+
+  if (rows.length === 0) {
+    return result;
+  }
+
+  const userIds = [...new Set(rows.map((row) => row.user_id))];
+  const [preferences, recipients] = await Promise.all([
+    getNotificationPreferences(userIds),
+    profiles.findByIds(userIds),
+  ]);
+
+  for (const row of rows) {
+    let claim: ThrottleClaim | null;
+    try {
+      claim = await claimRow(row, now);
+    } catch (claimError) {
+      console.error("Error claiming pending notification email:", claimError);
+      continue;
+    }
+
+    if (!claim) {
+      continue;
+    }
+
+    // Preferences may have changed since the events were held
+    const typePreference = getTypePreference(row.kind);
+    const emailPreference = getEmailPreference(row.kind);
+    const userPreferences = preferences.get(row.user_id)!;
+    const profile = recipients.find(
+      (candidate) => candidate.id === row.user_id
+    );
+    const unsubscribeUrl = getUnsubscribeUrl(row.user_id, emailPreference);
+
+    if (
+      !userPreferences.email_notifications ||
+      (typePreference && !userPreferences[typePreference]) ||
+      !userPreferences[emailPreference] ||
+      !profile?.email ||
+      !unsubscribeUrl
+    ) {
+      // Dropped rather than held: the recipient no longer wants them
+      await emailThrottle.updateIf(
+        claim.rowId,
+        { claimed_at: claim.claimedAt },
+        { claimed_at: null }
+      );
+      result.skipped++;
+      continue;
+    }
+
+    const template = buildActivityEmail(
+      profile.email,
+      profile.display_name || profile.username,
+      {
+        kind: row.kind,
+        ...summarizeActors(row.pending_actor_names),
+        postTitle: row.post_title,
+        postSlug: row.post_slug,
+        latestExcerpt: row.pending_excerpt || "",
+        count: row.pending_count,
+      }
+    );
+
+    const sendResult = await sendEmail(
+      addUnsubscribeLink(template, unsubscribeUrl)
+    );
+
+    try {
+      await settleClaim(claim, sendResult.success);
+    } catch (settleError) {
+      console.error("Error settling notification email claim:", settleError);
+    }
+
+    if (sendResult.success) {
+      result.sent++;
+    } else {
+      result.skipped++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,86 @@
+// src/lib/notificationPubSub.ts
+import { EventEmitter } from "events";
+
+export interface StreamedNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+  is_read: boolean;
+  created_at: string;
+  // Moves forward each time a grouped notification takes in another event
+  updated_at: string;
+  actor_id: string | null;
+}
+
+// What is published for a user. notification_updated is a grouped row that
+// took in another event, sent again under its existing id. unread_changed
+// carries no count: the
+// subscriber re-reads it, so publishers never pay for a count query and
+// concurrent changes cannot deliver a stale number.
+export type NotificationMessage =
+  | { kind: "notification"; notification: StreamedNotification }
+  | { kind: "notification_updated"; notification: StreamedNotification }
+  | { kind: "unread_changed" };
+
+export type NotificationListener = (message: NotificationMessage) => void;
+
+/**
+ * Fan-out of notification changes to open streams. The default keeps
+ * subscribers in process memory, which only reaches streams served by the
+ * same instance; a multi-instance deployment swaps in an implementation
+ * backed by shared infrastructure such as Postgres LISTEN/NOTIFY through
+ * setNotificationPubSub.
+ */
+export interface NotificationPubSub {
+  publish(userId: string, message: NotificationMessage): Promise<void>;
+  // Returns a function that removes the listener
+  subscribe(userId: string, listener: NotificationListener): () => void;
+}
+
+export class InMemoryNotificationPubSub implements NotificationPubSub {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream; the default cap of 10 would warn
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish(userId: string, message: NotificationMessage): Promise<void> {
+    this.emitter.emit(userId, message);
+  }
+
+  subscribe(userId: string, listener: NotificationListener): () => void {
+    this.emitter.on(userId, listener);
+    return () => {
+      this.emitter.off(userId, listener);
+    };
+  }
+}
+
+let pubSub: NotificationPubSub = new InMemoryNotificationPubSub();
+
+export function getNotificationPubSub(): NotificationPubSub {
+  return pubSub;
+}
+
+export function setNotificationPubSub(
+  implementation: NotificationPubSub
+): void {
+  pubSub = implementation;
+}
+
+// Publishing never fails the write that triggered it
+export async function publishNotificationMessage(
+  userIds: string[],
+  message: NotificationMessage
+): Promise<void> {
+  await Promise.all(
+    userIds.map((userId) =>
+      pubSub.publish(userId, message).catch((error) => {
+        console.error("Failed to publish notification message:", error);
+      })
+    )
+  );
+}
@@ -0,0 +1,610 @@
+// src/lib/notificationService.ts
+import { addUnsubscribeLink, EmailTemplate, sendEmail } from "./emailService";
+import { publishNotificationMessage } from "./notificationPubSub";
+import { Role } from "./permissions";
+import { deliverPushNotifications } from "./pushService";
+import {
+  getRepositories,
+  NotificationRecord,
+  ProfileRecord,
+} from "./repositories";
+import { getUnsubscribeUrl, UnsubscribePreference } from "./unsubscribeService";
+
+const RECIPIENT_BATCH_SIZE = 500;
+
+export const NOTIFICATION_CHANNELS = ["in_app", "email", "push"] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES = {
+  email_notifications: true,
+  push_notifications: true,
+  comment_notifications: true,
+  reaction_notifications: true,
+  follow_notifications: true,
+  mention_notifications: true,
+  post_published_notifications: true,
+  comment_emails: true,
+  mention_emails: true,
+  collaboration_emails: true,
+  weekly_digest: true,
+  marketing_emails: false,
+};
+
+export type NotificationPreferences = typeof DEFAULT_NOTIFICATION_PREFERENCES;
+type PreferenceKey = keyof NotificationPreferences;
+
+// The data payload stored with each notification type
+export interface NotificationEventMap {
+  comment: { post_id: string; comment_id: string };
+  reply: { post_id: string; comment_id: string; parent_id: string };
+  mention: { post_id: string; comment_id: string };
+  reaction: { comment_id: string; reaction_type: string };
+  follow: { follower_id: string; follower_username: string | null };
+  post_published: { post_id: string; post_slug: string };
+  collaboration_invited: CollaborationData;
+  collaboration_accepted: CollaborationData;
+  collaboration_declined: CollaborationData;
+  collaboration_role_changed: CollaborationData;
+  collaboration_removed: CollaborationData;
+  moderation: { comment_id: string; status: string; reason: string | null };
+  warning: {
+    report_id: string;
+    content_type: string;
+    content_id: string;
+  };
+  admin_alert: { maintenance_enabled: boolean };
+  announcement: {
+    announcement_id: string;
+    announcement_type: string;
+    priority: string;
+  };
+}
+
+interface CollaborationData {
+  post_id: string;
+  post_slug: string;
+  role: string;
+}
+
+export type NotificationType = keyof NotificationEventMap;
+
+// The preference that switches a type off. Types without one (moderation,
+// warnings, collaboration, announcements) are always delivered in-app.
+const typePreferences: Partial<Record<NotificationType, PreferenceKey>> = {
+  comment: "comment_notifications",
+  reply: "comment_notifications",
+  mention: "mention_notifications",
+  reaction: "reaction_notifications",
+  follow: "follow_notifications",
+  post_published: "post_published_notifications",
+};
+
+export function getTypePreference(type: string): PreferenceKey | undefined {
+  return typePreferences[type as NotificationType];
+}
+
+// The email-only preference for each emailed type, on top of the type's
+// own preference. Unsubscribe links switch these off, so in-app and push
+// delivery carry on.
+const emailPreferences: Partial<
+  Record<NotificationType, UnsubscribePreference>
+> = {
+  comment: "comment_emails",
+  reply: "comment_emails",
+  mention: "mention_emails",
+  collaboration_invited: "collaboration_emails",
+  collaboration_accepted: "collaboration_emails",
+  collaboration_declined: "collaboration_emails",
+  collaboration_role_changed: "collaboration_emails",
+  collaboration_removed: "collaboration_emails",
+};
+
+export function getEmailPreference(type: string): UnsubscribePreference {
+  return emailPreferences[type as NotificationType] || "email_notifications";
+}
+
+/**
+ * Types whose notifications about the same target collapse into one row,
+ * e.g. "Alice and 12 others reacted to your comment". While a recipient's
+ * row for a target is unread and its last activity (updated_at) is within
+ * NOTIFICATION_GROUP_WINDOW_MINUTES, further events update it instead of
+ * adding rows; after a quiet spell a new row starts.
+ */
+export const NOTIFICATION_GROUP_WINDOW_MINUTES =
+  Number(process.env.NOTIFICATION_GROUP_WINDOW_MINUTES) || 60;
+
+// Most recent actors kept on a group row. actor_count keeps counting past
+// it, so an actor who dropped off the list and acts again counts twice.
+const NOTIFICATION_GROUP_ACTOR_LIMIT = 20;
+
+interface NotificationGroup<T extends NotificationType> {
+  target: (data: NotificationEventMap[T]) => string;
+  action: string;
+}
+
+const notificationGroups: {
+  [T in NotificationType]?: NotificationGroup<T>;
+} = {
+  reaction: {
+    target: (data) => data.comment_id,
+    action: "reacted to your comment",
+  },
+  comment: {
+    target: (data) => data.post_id,
+    action: "commented on your post",
+  },
+  reply: {
+    target: (data) => data.parent_id,
+    action: "replied to your comment",
+  },
+  follow: {
+    target: () => "you",
+    action: "started following you",
+  },
+};
+
+export function getNotificationGroupKey<T extends NotificationType>(
+  type: T,
+  data: NotificationEventMap[T]
+): string | null {
+  const group = notificationGroups[type] as NotificationGroup<T> | undefined;
+  return group ? `${type}:${group.target(data)}` : null;
+}
+
+// "Alice reacted…", "Alice and Bob reacted…", "Alice and 12 others reacted…"
+export function formatGroupMessage(
+  type: string,
+  actorNames: string[],
+  actorCount: number
+): string | null {
+  const group = notificationGroups[type as NotificationType];
+  if (!group || actorNames.length === 0) {
+    return null;
+  }
+
+  const [latest] = actorNames;
+  const others = actorCount - 1;
+  if (others <= 0) {
+    return `${latest} ${group.action}`;
+  }
+  if (others === 1 && actorNames[1]) {
+    return `${latest} and ${actorNames[1]} ${group.action}`;
+  }
+  return `${latest} and ${others} other${others === 1 ? "" : "s"} ${group.action}`;
+}
+
+const channelPreferences: Partial<Record<NotificationChannel, PreferenceKey>> =
+  {
+    email: "email_notifications",
+    push: "push_notifications",
+  };
+
+export type NotificationRecipients =
+  | { userIds: string[] }
+  | { roles: Role[] }
+  | { excludeRoles: Role[] }
+  | { followersOf: string }
+  | { everyone: true };
+
+export interface NotificationRecipient {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface NotificationEvent<
+  T extends NotificationType = NotificationType,
+> {
+  type: T;
+  recipients: NotificationRecipients;
+  actorId?: string | null;
+  title: string;
+  message: string;
+  data: NotificationEventMap[T];
+  // Channels beyond in-app to try; each still needs the recipient's consent
+  channels?: NotificationChannel[];
+  // Builds the email for the email channel; null holds it back (throttling)
+  email?: (
+    recipient: NotificationRecipient
+  ) =>
+    | EmailTemplate
+    | PreparedEmail
+    | null
+    | Promise<EmailTemplate | PreparedEmail | null>;
+}
+
+// An email whose builder needs to know how the send went, e.g. so
+// throttling only counts emails that actually went out
+export interface PreparedEmail {
+  template: EmailTemplate;
+  settle: (sent: boolean) => Promise<void>;
+}
+
+export interface DeliveredNotification {
+  userId: string;
+  type: NotificationType;
+  actorId: string | null;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+}
+
+export type ChannelHandler = (
+  notifications: DeliveredNotification[],
+  event: NotificationEvent
+) => Promise<void>;
+
+// Delivery for channels other than in-app and email is plugged in by the
+// modules that own the transport.
+const channelHandlers: Partial<Record<NotificationChannel, ChannelHandler>> =
+  {};
+
+export function registerNotificationChannel(
+  channel: Exclude<NotificationChannel, "in_app" | "email">,
+  handler: ChannelHandler
+): void {
+  channelHandlers[channel] = handler;
+}
+
+registerNotificationChannel("push", deliverPushNotifications);
+
+export interface DispatchResult {
+  in_app: number;
+  email: number;
+  push: number;
+}
+
+/**
+ * The next page of recipient ids an event addresses, in id order after
+ * `after` (from the start when null). Paging on the id rather than an
+ * offset keeps a page stable while profiles are added, so a caller can
+ * store the last id and resume later.
+ */
+export async function getRecipientPage(
+  recipients: NotificationRecipients,
+  after: string | null,
+  limit: number = RECIPIENT_BATCH_SIZE
+): Promise<string[]> {
+  if ("userIds" in recipients) {
+    return [...new Set(recipients.userIds)]
+      .sort()
+      .filter((id) => after === null || id > after)
+      .slice(0, limit);
+  }
+
+  const { follows, profiles } = getRepositories();
+  if ("followersOf" in recipients) {
+    return follows.listFollowerIds(recipients.followersOf, { after, limit });
+  }
+
+  // Profiles without a role are readers and never excluded
+  return profiles.listIds({
+    after,
+    limit,
+    roles: "roles" in recipients ? recipients.roles : undefined,
+    excludeRoles:
+      "excludeRoles" in recipients ? recipients.excludeRoles : undefined,
+  });
+}
+
+// Pages through the recipient ids an event addresses
+async function* resolveRecipientBatches(
+  recipients: NotificationRecipients
+): AsyncGenerator<string[]> {
+  let after: string | null = null;
+  for (;;) {
+    const ids = await getRecipientPage(recipients, after);
+    if (ids.length > 0) {
+      yield ids;
+    }
+    if (ids.length < RECIPIENT_BATCH_SIZE) {
+      return;
+    }
+    after = ids[ids.length - 1];
+  }
+}
+
+export async function getNotificationPreferences(
+  userIds: string[]
+): Promise<Map<string, NotificationPreferences>> {
+  const data = await getRepositories().notifications.findPreferences(userIds);
+
+  const preferences = new Map<string, NotificationPreferences>();
+  for (const userId of userIds) {
+    preferences.set(userId, { ...DEFAULT_NOTIFICATION_PREFERENCES });
+  }
+  for (const row of data) {
+    const stored = Object.fromEntries(
+      Object.entries(row).filter(([, value]) => value !== null)
+    );
+    preferences.set(row.user_id, {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      ...stored,
+    });
+  }
+
+  return preferences;
+}
+
+// Folds the event into recipients' open group rows. Returns the recipients
+// it was folded for; the rest still need a row of their own.
+async function coalesceNotifications(
+  event: NotificationEvent,
+  groupKey: string,
+  recipientIds: string[]
+): Promise<Set<string>> {
+  const { notifications } = getRepositories();
+  const coalesced = new Set<string>();
+  const actorId = event.actorId!;
+  const windowStart = new Date(
+    Date.now() - NOTIFICATION_GROUP_WINDOW_MINUTES * 60 * 1000
+  ).toISOString();
+
+  const openGroups = await notifications.findOpenGroups(
+    recipientIds,
+    groupKey,
+    windowStart
+  );
+
+  if (openGroups.length === 0) {
+    return coalesced;
+  }
+
+  const actorNames = new Map<string, Promise<string>>();
+  const nameOf = (id: string) => {
+    if (!actorNames.has(id)) {
+      actorNames.set(id, getActorName(id));
+    }
+    return actorNames.get(id)!;
+  };
+
+  for (const row of openGroups) {
+    if (coalesced.has(row.user_id)) {
+      continue;
+    }
+
+    const previousActorIds = row.actor_ids || [];
+    const actorIds = [
+      actorId,
+      ...previousActorIds.filter((id) => id !== actorId),
+    ].slice(0, NOTIFICATION_GROUP_ACTOR_LIMIT);
+    const actorCount = previousActorIds.includes(actorId)
+      ? row.actor_count
+      : row.actor_count + 1;
+    // formatGroupMessage names at most the two latest actors
+    const message =
+      formatGroupMessage(
+        event.type,
+        await Promise.all(actorIds.slice(0, 2).map(nameOf)),
+        actorCount
+      ) || event.message;
+
+    // Guarded on the count read above; a concurrent update wins and this
+    // event falls back to a row of its own
+    let updated: NotificationRecord | null;
+    try {
+      updated = await notifications.updateGroup(row.id, row.actor_count, {
+        actor_id: actorId,
+        actor_ids: actorIds,
+        actor_count: actorCount,
+        title: event.title,
+        message,
+        data: event.data as unknown as Record<string, unknown>,
+        updated_at: new Date().toISOString(),
+      });
+    } catch (updateError) {
+      console.error("Error coalescing notification:", updateError);
+      continue;
+    }
+
+    if (updated) {
+      coalesced.add(row.user_id);
+      await publishNotifications([updated], "notification_updated");
+    }
+  }
+
+  return coalesced;
+}
+
+// Tells open notification streams about new or regrouped rows
+async function publishNotifications(
+  rows: NotificationRecord[],
+  kind: "notification" | "notification_updated" = "notification"
+): Promise<void> {
+  await Promise.all(
+    rows.map(({ user_id, ...notification }) =>
+      publishNotificationMessage([user_id], { kind, notification })
+    )
+  );
+  await publishNotificationMessage(
+    rows.map((row) => row.user_id),
+    { kind: "unread_changed" }
+  );
+}
+
+async function deliverEmails(
+  event: NotificationEvent,
+  userIds: string[]
+): Promise<number> {
+  if (!event.email || userIds.length === 0) {
+    return 0;
+  }
+
+  let profiles: ProfileRecord[];
+  try {
+    profiles = await getRepositories().profiles.findByIds(userIds);
+  } catch (error) {
+    console.error("Error loading notification email recipients:", error);
+    return 0;
+  }
+
+  const unsubscribePreference = getEmailPreference(event.type);
+
+  let sent = 0;
+  for (const profile of profiles) {
+    const unsubscribeUrl = getUnsubscribeUrl(profile.id, unsubscribePreference);
+    if (!profile.email || !unsubscribeUrl) {
+      continue;
+    }
+
+    try {
+      const email = await event.email({
+        id: profile.id,
+        email: profile.email,
+        name: profile.display_name || profile.username,
+      });
+      if (!email) {
+        continue;
+      }
+
+      const { template, settle } =
+        "template" in email ? email : { template: email, settle: undefined };
+      let success = false;
+      try {
+        const result = await sendEmail(
+          addUnsubscribeLink(template, unsubscribeUrl)
+        );
+        success = result.success;
+      } finally {
+        await settle?.(success);
+      }
+
+      if (success) {
+        sent++;
+      }
+    } catch (error) {
+      console.error("Failed to send notification email:", error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Delivers a notification event. Recipients are resolved in batches, the
+ * actor never notifies themselves, and each recipient's preferences decide
+ * whether they get the type at all and on which of the requested channels.
+ * Delivery failures are logged rather than thrown, so a notification can
+ * never fail the request that caused it.
+ */
+export async function dispatchNotification<T extends NotificationType>(
+  event: NotificationEvent<T>
+): Promise<DispatchResult> {
+  const result: DispatchResult = { in_app: 0, email: 0, push: 0 };
+  const typePreference = typePreferences[event.type];
+  const channels = (event.channels || []).filter(
+    (channel) => channel !== "in_app"
+  );
+
+  try {
+    for await (const batch of resolveRecipientBatches(event.recipients)) {
+      const candidateIds = batch.filter((id) => id !== event.actorId);
+      if (candidateIds.length === 0) {
+        continue;
+      }
+
+      const preferences = await getNotificationPreferences(candidateIds);
+      const recipientIds = candidateIds.filter(
+        (id) => !typePreference || preferences.get(id)![typePreference]
+      );
+      if (recipientIds.length === 0) {
+        continue;
+      }
+
+      const groupKey = event.actorId
+        ? getNotificationGroupKey(event.type, event.data)
+        : null;
+      let newRecipientIds = recipientIds;
+      if (groupKey) {
+        try {
+          const coalesced = await coalesceNotifications(
+            event as unknown as NotificationEvent,
+            groupKey,
+            recipientIds
+          );
+          result.in_app += coalesced.size;
+          newRecipientIds = recipientIds.filter((id) => !coalesced.has(id));
+        } catch (error) {
+          console.error(`Failed to group ${event.type} notifications:`, error);
+        }
+      }
+
+      const now = new Date().toISOString();
+      try {
+        const inserted = await getRepositories().notifications.insert(
+          newRecipientIds.map((userId) => ({
+            user_id: userId,
+            actor_id: event.actorId || null,
+            type: event.type,
+            title: event.title,
+            message: event.message,
+            data: event.data as unknown as Record<string, unknown>,
+            group_key: groupKey,
+            actor_ids: event.actorId ? [event.actorId] : [],
+            actor_count: event.actorId ? 1 : 0,
+            created_at: now,
+            updated_at: now,
+          }))
+        );
+        result.in_app += newRecipientIds.length;
+        await publishNotifications(inserted);
+      } catch (insertError) {
+        console.error(
+          `Failed to create ${event.type} notifications:`,
+          insertError
+        );
+      }
+
+      for (const channel of channels) {
+        const channelPreference = channelPreferences[channel];
+        const emailPreference =
+          channel === "email" ? getEmailPreference(event.type) : undefined;
+        const channelRecipients = recipientIds.filter(
+          (id) =>
+            (!channelPreference || preferences.get(id)![channelPreference]) &&
+            (!emailPreference || preferences.get(id)![emailPreference])
+        );
+
+        if (channel === "email") {
+          result.email += await deliverEmails(event, channelRecipients);
+          continue;
+        }
+
+        const handler = channelHandlers[channel];
+        if (!handler || channelRecipients.length === 0) {
+          continue;
+        }
+
+        try {
+          await handler(
+            channelRecipients.map((userId) => ({
+              userId,
+              type: event.type,
+              actorId: event.actorId || null,
+              title: event.title,
+              message: event.message,
+              data: event.data as unknown as Record<string, unknown>,
+            })),
+            event as unknown as NotificationEvent
+          );
+          result[channel] += channelRecipients.length;
+        } catch (error) {
+          console.error(`Failed to deliver ${channel} notifications:`, error);
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`Error dispatching ${event.type} notification:`, error);
+  }
+
+  return result;
+}
+
+// Display name for the actor of a notification
+export async function getActorName(actorId: string): Promise<string> {
+  const actor = await getRepositories()
+    .profiles.findById(actorId)
+    .catch(() => null);
+
+  return actor?.display_name || actor?.username || "Someone";
+}
@@ -0,0 +1,373 @@
+// src/lib/openApi.ts
+import { API_ROUTES, RouteAuth, RouteDefinition } from "./apiRoutes";
+import { API_ERROR_CATALOGUE, ApiErrorCode } from "./errorHandler";
+import { MAINTENANCE_EXEMPT_PATHS } from "./maintenance";
+import { REQUEST_ID_HEADER } from "./requestId";
+import packageJson from "../../package.json";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+type JsonSchema = Record<string, unknown>;
+
+const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"] as const;
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+export function parseRouteKey(key: string): {
+  method: HttpMethod;
+  path: string;
+} {
+  const [method, path] = key.split(" ");
+  if (!HTTP_METHODS.includes(method as HttpMethod) || !path) {
+    throw new Error(`Invalid API route key: ${key}`);
+  }
+  return { method: method as HttpMethod, path };
+}
+
+// "GET /api/posts/{idOrSlug}/revisions" -> "getPostsByIdOrSlugRevisions"
+export function getOperationId(method: HttpMethod, path: string): string {
+  const words = path
+    .replace(/^\/api\//, "")
+    .split("/")
+    .flatMap((segment) => {
+      const param = segment.match(/^\{(.+)\}$/);
+      return param ? ["by", param[1]] : segment.split(/[^a-zA-Z0-9]+/);
+    })
+    .filter(Boolean);
+
+  return (
+    method.toLowerCase() +
+    words.map((word) => word[0].toUpperCase() + word.slice(1)).join("")
+  );
+}
+
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  // Query strings and bodies are documented as clients send them, i.e. the
+  // input side of coercions, defaults and transforms
+  const jsonSchema = zodToJsonSchema(schema, {
+    target: "jsonSchema2019-09",
+    $refStrategy: "none",
+    effectStrategy: "input",
+    pipeStrategy: "input",
+  }) as JsonSchema;
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+function getQueryParameters(query: z.ZodTypeAny) {
+  const schema = toJsonSchema(query);
+  const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+  const required = (schema.required || []) as string[];
+
+  return Object.entries(properties).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: "query",
+      required: required.includes(name),
+      ...(description ? { description } : {}),
+      schema: propertySchema,
+    };
+  });
+}
+
+function getPathParameters(path: string) {
+  return [...path.matchAll(/\{([^}]+)\}/g)].map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+}
+
+function getRequestBody(route: RouteDefinition) {
+  if (!route.body) {
+    return undefined;
+  }
+
+  const schema = toJsonSchema(route.body);
+  if (route.bodyType === "multipart") {
+    // File fields have no JSON Schema equivalent and come out empty
+    const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+    for (const [name, property] of Object.entries(properties)) {
+      if (Object.keys(property).length === 0) {
+        properties[name] = {
+          type: "string",
+          contentMediaType: "application/octet-stream",
+        };
+      }
+    }
+  }
+
+  return {
+    required: true,
+    content: {
+      [route.bodyType === "multipart"
+        ? "multipart/form-data"
+        : "application/json"]: { schema },
+    },
+  };
+}
+
+// Error codes a route can return, from its auth level and inputs plus any
+// it lists explicitly
+function getErrorCodes(route: RouteDefinition, path: string): ApiErrorCode[] {
+  const codes = new Set<ApiErrorCode>(route.errors || []);
+
+  if (route.query || route.body) {
+    codes.add("VALIDATION_FAILED");
+  }
+  if (route.auth === "user" || route.auth === "admin") {
+    codes.add("AUTH_REQUIRED");
+    codes.add("USER_BANNED");
+  }
+  if (route.auth === "admin") {
+    codes.add("FORBIDDEN");
+  }
+  if (route.auth === "cron") {
+    codes.add("AUTH_REQUIRED");
+  }
+  codes.add("INTERNAL_ERROR");
+  if (!MAINTENANCE_EXEMPT_PATHS.includes(path)) {
+    codes.add("SERVICE_UNAVAILABLE");
+  }
+
+  return [...codes];
+}
+
+const rateLimitHeaders = {
+  "Retry-After": { $ref: "#/components/headers/RetryAfter" },
+  "RateLimit-Limit": { $ref: "#/components/headers/RateLimitLimit" },
+  "RateLimit-Remaining": { $ref: "#/components/headers/RateLimitRemaining" },
+  "RateLimit-Reset": { $ref: "#/components/headers/RateLimitReset" },
+};
+
+function getErrorResponses(route: RouteDefinition, path: string) {
+  const codesByStatus = new Map<number, ApiErrorCode[]>();
+  for (const code of getErrorCodes(route, path)) {
+    const { status } = API_ERROR_CATALOGUE[code];
+    codesByStatus.set(status, [...(codesByStatus.get(status) || []), code]);
+  }
+
+  return Object.fromEntries(
+    [...codesByStatus.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([status, codes]) => [
+        String(status),
+        {
+          description: codes
+            .map((code) => `${code}: ${API_ERROR_CATALOGUE[code].description}`)
+            .join("\n\n"),
+          headers: {
+            [REQUEST_ID_HEADER]: { $ref: "#/components/headers/RequestId" },
+            ...(status === 429 ? rateLimitHeaders : {}),
+            ...(status === 503
+              ? { "Retry-After": rateLimitHeaders["Retry-After"] }
+              : {}),
+          },
+          content: {
+            "application/json": {
+              schema: {
+                allOf: [
+                  { $ref: "#/components/schemas/ErrorResponse" },
+                  {
+                    properties: {
+                      error: { properties: { code: { enum: codes } } },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      ])
+  );
+}
+
+function getSuccessResponse(route: RouteDefinition) {
+  const data = toJsonSchema(route.response);
+
+  if (route.contentType) {
+    return {
+      description: route.summary,
+      content: { [route.contentType]: { schema: data } },
+    };
+  }
+
+  const meta = route.pagination
+    ? {
+        type: "object",
+        required: ["pagination"],
+        properties: {
+          pagination: {
+            $ref:
+              route.pagination === "page"
+                ? "#/components/schemas/PagePagination"
+                : "#/components/schemas/CursorPagination",
+          },
+        },
+      }
+    : undefined;
+
+  return {
+    description: route.summary,
+    headers: {
+      [REQUEST_ID_HEADER]: { $ref: "#/components/headers/RequestId" },
+    },
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          required: meta ? ["data", "meta"] : ["data"],
+          properties: { data, ...(meta ? { meta } : {}) },
+        },
+      },
+    },
+  };
+}
+
+const securityByAuth: Record<RouteAuth, Record<string, string[]>[]> = {
+  none: [],
+  optional: [{}, { bearerAuth: [] }],
+  user: [{ bearerAuth: [] }],
+  admin: [{ bearerAuth: [] }],
+  cron: [{ cronSecret: [] }],
+};
+
+function buildOperation(
+  method: HttpMethod,
+  path: string,
+  route: RouteDefinition
+) {
+  const parameters = [
+    ...getPathParameters(path),
+    ...(route.query ? getQueryParameters(route.query) : []),
+  ];
+  const requestBody = getRequestBody(route);
+
+  return {
+    operationId: getOperationId(method, path),
+    summary: route.summary,
+    ...(route.description ? { description: route.description } : {}),
+    tags: [route.tag],
+    security: securityByAuth[route.auth],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(requestBody ? { requestBody } : {}),
+    responses: {
+      [String(route.status || 200)]: getSuccessResponse(route),
+      ...getErrorResponses(route, path),
+    },
+  };
+}
+
+let cachedDocument: JsonSchema | null = null;
+
+// The OpenAPI 3.1 document for every route in API_ROUTES. Built once per
+// process since the registry is static.
+export function getOpenApiDocument(): JsonSchema {
+  if (cachedDocument) {
+    return cachedDocument;
+  }
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const [key, route] of Object.entries(API_ROUTES)) {
+    const { method, path } = parseRouteKey(key);
+    paths[path] = {
+      ...paths[path],
+      [method.toLowerCase()]: buildOperation(method, path, route),
+    };
+  }
+
+  cachedDocument = {
+    openapi: "3.1.0",
+    info: {
+      title: "Bloggly API",
+      version: packageJson.version,
+      description:
+        "Success responses are `{ data, meta? }` and errors are `{ error: { code, message, details? } }`. Branch on `error.code`; messages may change.",
+    },
+    servers: [{ url: process.env.API_BASE_URL || "/" }],
+    tags: [...new Set(Object.values(API_ROUTES).map((route) => route.tag))].map(
+      (name) => ({ name })
+    ),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+          description: "A Supabase access token",
+        },
+        cronSecret: {
+          type: "http",
+          scheme: "bearer",
+          description: "The CRON_SECRET shared with the scheduler",
+        },
+      },
+      headers: {
+        RequestId: {
+          description:
+            "Identifies the request in logs; echoed from the request when sent",
+          schema: { type: "string" },
+        },
+        RetryAfter: {
+          description: "Seconds until the request can be retried",
+          schema: { type: "integer" },
+        },
+        RateLimitLimit: {
+          description: "Requests allowed per window by the route's policy",
+          schema: { type: "integer" },
+        },
+        RateLimitRemaining: {
+          description: "Requests left in the current window",
+          schema: { type: "integer" },
+        },
+        RateLimitReset: {
+          description: "Seconds until the quota is fully restored",
+          schema: { type: "integer" },
+        },
+      },
+      schemas: {
+        ErrorResponse: {
+          type: "object",
+          required: ["error"],
+          properties: {
+            error: {
+              type: "object",
+              required: ["code", "message"],
+              properties: {
+                code: {
+                  type: "string",
+                  enum: Object.keys(API_ERROR_CATALOGUE),
+                },
+                message: { type: "string" },
+                details: {},
+              },
+            },
+          },
+        },
+        PagePagination: {
+          type: "object",
+          required: ["page", "limit", "total", "pages"],
+          properties: {
+            page: { type: "integer" },
+            limit: { type: "integer" },
+            total: { type: "integer" },
+            pages: { type: "integer" },
+          },
+        },
+        CursorPagination: {
+          type: "object",
+          required: ["has_more", "next_cursor"],
+          properties: {
+            has_more: { type: "boolean" },
+            next_cursor: { type: ["string", "null"] },
+          },
+        },
+      },
+    },
+  };
+
+  return cachedDocument;
+}
@@ -0,0 +1,84 @@
+// src/lib/permissions.ts
+import { User } from "@supabase/supabase-js";
+import { AuthError, getAuthenticatedUser } from "./authHelpers";
+import { getRepositories } from "./repositories";
+import {
+  Permission,
+  resolveUserRole,
+  Role,
+  roleHasPermission,
+  roleOutranks,
+} from "./roles";
+
+export * from "./roles";
+
+export async function getUserRole(userId: string): Promise<Role> {
+  const profile = await getRepositories().profiles.findById(userId);
+  return resolveUserRole(userId, profile?.role);
+}
+
+// Whether a caller with `role` may act on the account of `targetId`, e.g.
+// ban it: only accounts ranked strictly below the caller qualify
+export async function outranksUser(
+  role: Role,
+  targetId: string
+): Promise<boolean> {
+  return roleOutranks(role, await getUserRole(targetId));
+}
+
+export async function hasPermission(
+  user: User | null,
+  permission: Permission
+): Promise<boolean> {
+  if (!user) {
+    return false;
+  }
+  const role = await getUserRole(user.id);
+  return roleHasPermission(role, permission);
+}
+
+export async function requirePermission(
+  request: Request,
+  permission: Permission
+): Promise<{
+  user: User | null;
+  role: Role | null;
+  error: AuthError | null;
+  status: number;
+}> {
+  const {
+    user,
+    error: authError,
+    status: authStatus,
+  } = await getAuthenticatedUser(request);
+
+  if (!user) {
+    return { user: null, role: null, error: authError, status: authStatus };
+  }
+
+  try {
+    const role = await getUserRole(user.id);
+
+    if (!roleHasPermission(role, permission)) {
+      return {
+        user: null,
+        role,
+        error: {
+          message: `Permission "${permission}" required`,
+          code: "FORBIDDEN",
+        },
+        status: 403,
+      };
+    }
+
+    return { user, role, error: null, status: 200 };
+  } catch (error) {
+    console.error("Error in requirePermission:", error);
+    return {
+      user: null,
+      role: null,
+      error: { message: "Authorization check failed.", code: "INTERNAL_ERROR" },
+      status: 500,
+    };
+  }
+}
@@ -0,0 +1,167 @@
+// src/lib/postHelpers.ts
+import slugify from "slugify";
+import { getRepositories, PostView } from "./repositories";
+import { getSetting, SETTINGS_REGISTRY } from "./settings";
+import { isUuid } from "./utils";
+
+const WORDS_PER_MINUTE = 200;
+const EXCERPT_LENGTH = 160;
+const SLUG_SAVE_ATTEMPTS = 3;
+export const DEFAULT_MAX_POST_LENGTH =
+  SETTINGS_REGISTRY.max_post_length.default;
+
+export const POST_STATUSES = ["draft", "published", "archived"] as const;
+export type PostStatus = (typeof POST_STATUSES)[number];
+
+// Position in a list ordered by a timestamp, newest first. The id breaks
+// ties so posts sharing a timestamp are neither skipped nor repeated.
+export interface PostCursor {
+  at: string;
+  id: string;
+}
+
+// Strips the markdown syntax that would otherwise leak into excerpts and
+// inflate word counts (links keep their text, images are dropped).
+export function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+    .replace(/[*_~]{1,3}([^*_~]+)[*_~]{1,3}/g, "$1")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function calculateReadingTime(markdown: string): number {
+  const words = stripMarkdown(markdown).split(" ").filter(Boolean).length;
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+}
+
+export function generateExcerpt(
+  markdown: string,
+  maxLength: number = EXCERPT_LENGTH
+): string {
+  const text = stripMarkdown(markdown);
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const truncated = text.substring(0, maxLength);
+  const lastSpace = truncated.lastIndexOf(" ");
+  return (
+    (lastSpace > maxLength / 2
+      ? truncated.substring(0, lastSpace)
+      : truncated) + "..."
+  );
+}
+
+// Builds a slug from the title and appends -2, -3, ... until it no longer
+// collides with another post. excludePostId lets a post keep its own slug.
+export async function generateUniqueSlug(
+  title: string,
+  excludePostId?: string
+): Promise<string> {
+  const baseSlug =
+    slugify(title, { lower: true, strict: true }).substring(0, 80) || "post";
+
+  const takenSlugs = new Set(
+    await getRepositories().posts.listSlugs(baseSlug, excludePostId)
+  );
+  if (!takenSlugs.has(baseSlug)) {
+    return baseSlug;
+  }
+
+  let suffix = 2;
+  while (takenSlugs.has(`${baseSlug}-${suffix}`)) {
+    suffix++;
+  }
+  return `${baseSlug}-${suffix}`;
+}
+
+function isSlugConflict(error: unknown): boolean {
+  const { code, message, details } = (error || {}) as {
+    code?: string;
+    message?: string;
+    details?: string;
+  };
+  return code === "23505" && `${message} ${details}`.includes("slug");
+}
+
+// generateUniqueSlug checks before the write, so two saves of the same
+// title can race for one slug. The unique index on posts.slug rejects the
+// loser, which retries with a freshly generated slug.
+export async function saveWithUniqueSlug<T>(
+  title: string,
+  save: (slug: string) => Promise<T>,
+  excludePostId?: string
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const slug = await generateUniqueSlug(title, excludePostId);
+    try {
+      return await save(slug);
+    } catch (error) {
+      if (!isSlugConflict(error) || attempt === SLUG_SAVE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+export function encodePostCursor(cursor: PostCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodePostCursor(value: string): PostCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (
+      typeof cursor?.at === "string" &&
+      !isNaN(new Date(cursor.at).getTime()) &&
+      typeof cursor?.id === "string" &&
+      isUuid(cursor.id)
+    ) {
+      return { at: cursor.at, id: cursor.id };
+    }
+  } catch {
+    // Fall through to the invalid cursor result
+  }
+  return null;
+}
+
+// Looks a post up by UUID or slug. Deleted posts are treated as missing.
+export function findPostByIdOrSlug(idOrSlug: string): Promise<PostView | null> {
+  return getRepositories().posts.findView(idOrSlug);
+}
+
+export function getMaxPostLength(): Promise<number> {
+  return getSetting("max_post_length");
+}
+
+// Checks scheduled_for/unpublish_at against each other and the current time.
+// Returns a message describing the problem, or null when the schedule is valid.
+export function getScheduleError(
+  scheduledFor: string | null | undefined,
+  unpublishAt: string | null | undefined,
+  now: Date = new Date()
+): string | null {
+  if (scheduledFor && new Date(scheduledFor).getTime() <= now.getTime()) {
+    return "scheduled_for must be in the future.";
+  }
+
+  if (unpublishAt && new Date(unpublishAt).getTime() <= now.getTime()) {
+    return "unpublish_at must be in the future.";
+  }
+
+  if (
+    scheduledFor &&
+    unpublishAt &&
+    new Date(unpublishAt).getTime() <= new Date(scheduledFor).getTime()
+  ) {
+    return "unpublish_at must be after scheduled_for.";
+  }
+
+  return null;
+}
@@ -0,0 +1,131 @@
+// src/lib/publishingService.ts
+import { dispatchNotification, getActorName } from "./notificationService";
+import { getRepositories } from "./repositories";
+
+interface PublishedPost {
+  id: string;
+  author_id: string;
+  title: string;
+  slug: string;
+}
+
+export interface ScheduledRunResult {
+  published: string[];
+  unpublished: string[];
+}
+
+// Tells the author's followers that a post went live. Followers who turned
+// post_published_notifications off are skipped by the dispatcher.
+export async function notifyFollowersOfPublication(
+  post: PublishedPost
+): Promise<number> {
+  const authorName = await getActorName(post.author_id);
+
+  const result = await dispatchNotification({
+    type: "post_published",
+    recipients: { followersOf: post.author_id },
+    actorId: post.author_id,
+    title: "New post",
+    message: `${authorName} published "${post.title}"`,
+    data: {
+      post_id: post.id,
+      post_slug: post.slug,
+    },
+    channels: ["push"],
+  });
+
+  return result.in_app;
+}
+
+// Publishes drafts whose scheduled_for has passed and unpublishes posts whose
+// unpublish_at has passed. Every update is guarded on the post still being in
+// the expected state, so overlapping or repeated runs act on each post once.
+export async function processScheduledPosts(
+  now: Date = new Date()
+): Promise<ScheduledRunResult> {
+  const nowIso = now.toISOString();
+  const result: ScheduledRunResult = { published: [], unpublished: [] };
+  const { posts, logs } = getRepositories();
+
+  for (const post of await posts.listDue("publish", nowIso)) {
+    let published: boolean;
+    try {
+      published = await posts.updateIf(
+        post.id,
+        { status: "draft", scheduled_for: post.scheduled_for },
+        {
+          status: "published",
+          published_at: post.published_at || post.scheduled_for,
+          scheduled_for: null,
+        }
+      );
+    } catch (publishError) {
+      console.error(
+        `Error publishing scheduled post ${post.id}:`,
+        publishError
+      );
+      continue;
+    }
+
+    // Another run got here first
+    if (!published) {
+      continue;
+    }
+
+    result.published.push(post.id);
+
+    await logs.logActivity({
+      user_id: post.author_id,
+      action: "post_published",
+      resource_type: "post",
+      resource_id: post.id,
+      metadata: {
+        previous_status: "draft",
+        new_status: "published",
+        scheduled_for: post.scheduled_for,
+      },
+    });
+
+    // Followers only hear about a post the first time it goes live
+    if (!post.published_at) {
+      await notifyFollowersOfPublication(post);
+    }
+  }
+
+  for (const post of await posts.listDue("unpublish", nowIso)) {
+    let unpublished: boolean;
+    try {
+      unpublished = await posts.updateIf(
+        post.id,
+        { status: "published", unpublish_at: post.unpublish_at },
+        { status: "draft", unpublish_at: null }
+      );
+    } catch (unpublishError) {
+      console.error(
+        `Error unpublishing scheduled post ${post.id}:`,
+        unpublishError
+      );
+      continue;
+    }
+
+    if (!unpublished) {
+      continue;
+    }
+
+    result.unpublished.push(post.id);
+
+    await logs.logActivity({
+      user_id: post.author_id,
+      action: "post_unpublished",
+      resource_type: "post",
+      resource_id: post.id,
+      metadata: {
+        previous_status: "published",
+        new_status: "draft",
+        unpublish_at: post.unpublish_at,
+      },
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,218 @@
+// src/lib/pushService.ts
+import webpush, { WebPushError } from "web-push";
+import type { ChannelHandler } from "./notificationService";
+import { getRepositories } from "./repositories";
+import { isPushServiceEndpoint } from "./schemas/notifications";
+
+// Push services drop messages that cannot be delivered within this time
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+export interface PushSubscriptionInput {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  type: string;
+  data: Record<string, unknown>;
+}
+
+export interface PushDeliveryResult {
+  sent: number;
+  failed: number;
+  pruned: number;
+}
+
+/**
+ * Sends one encrypted, VAPID-signed message to a push service and reports
+ * the HTTP status it answered with. The default goes through web-push; tests
+ * and local development can point delivery at a fake push service with
+ * setPushTransport.
+ */
+export interface PushTransport {
+  send(
+    subscription: PushSubscriptionInput,
+    payload: string,
+    options: { TTL: number }
+  ): Promise<{ statusCode: number }>;
+}
+
+export class InvalidPushEndpointError extends Error {
+  status = 400;
+  code = "VALIDATION_FAILED";
+
+  constructor() {
+    super("Endpoint is not a known push service.");
+    this.name = "InvalidPushEndpointError";
+  }
+}
+
+export function getVapidPublicKey(): string | null {
+  return process.env.VAPID_PUBLIC_KEY || null;
+}
+
+export function createWebPushTransport(): PushTransport | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT;
+
+  if (!publicKey || !privateKey || !subject) {
+    return null;
+  }
+
+  const vapidDetails = { subject, publicKey, privateKey };
+
+  return {
+    async send(subscription, payload, options) {
+      try {
+        const response = await webpush.sendNotification(subscription, payload, {
+          ...options,
+          vapidDetails,
+        });
+        return { statusCode: response.statusCode };
+      } catch (error) {
+        // Rejections from the push service still carry its status code
+        if (error instanceof WebPushError) {
+          return { statusCode: error.statusCode };
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+let transport: PushTransport | null | undefined;
+
+function getPushTransport(): PushTransport | null {
+  if (transport === undefined) {
+    transport = createWebPushTransport();
+    if (!transport) {
+      console.error("VAPID keys not configured; push delivery disabled");
+    }
+  }
+  return transport;
+}
+
+export function setPushTransport(implementation: PushTransport | null): void {
+  transport = implementation;
+}
+
+// Registers a device for the user. Registering the same endpoint again
+// refreshes the user's own row; another account registering it gets a row
+// of its own and can never take this one over. Only endpoints on a known
+// push service are stored, so delivery never posts anywhere else.
+export async function savePushSubscription(
+  userId: string,
+  subscription: PushSubscriptionInput,
+  userAgent: string | null
+): Promise<{ id: string; created_at: string }> {
+  if (!isPushServiceEndpoint(subscription.endpoint)) {
+    throw new InvalidPushEndpointError();
+  }
+
+  const { id, created_at } = await getRepositories().pushSubscriptions.save({
+    user_id: userId,
+    endpoint: subscription.endpoint,
+    p256dh: subscription.keys.p256dh,
+    auth: subscription.keys.auth,
+    user_agent: userAgent,
+  });
+  return { id, created_at };
+}
+
+export async function deletePushSubscription(
+  userId: string,
+  endpoint: string
+): Promise<boolean> {
+  return getRepositories().pushSubscriptions.delete(userId, endpoint);
+}
+
+/**
+ * Delivers a payload to every registered device of the given users.
+ * Subscriptions the push service reports as gone (404 or 410) are deleted
+ * so they are not retried; other failures are counted and left in place.
+ */
+export async function sendPushToUsers(
+  userIds: string[],
+  payload: PushPayload
+): Promise<PushDeliveryResult> {
+  const result: PushDeliveryResult = { sent: 0, failed: 0, pruned: 0 };
+  const pushTransport = getPushTransport();
+  if (!pushTransport || userIds.length === 0) {
+    return result;
+  }
+
+  const { pushSubscriptions } = getRepositories();
+  const subscriptions = await pushSubscriptions.listForUsers(userIds);
+  const body = JSON.stringify(payload);
+  const expiredIds: string[] = [];
+  const deliveredIds: string[] = [];
+
+  await Promise.all(
+    subscriptions.map(async (subscription) => {
+      try {
+        const { statusCode } = await pushTransport.send(
+          {
+            endpoint: subscription.endpoint,
+            keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+          },
+          body,
+          { TTL: PUSH_TTL_SECONDS }
+        );
+
+        if (statusCode >= 200 && statusCode < 300) {
+          deliveredIds.push(subscription.id);
+        } else if (statusCode === 404 || statusCode === 410) {
+          expiredIds.push(subscription.id);
+        } else {
+          console.error(
+            `Push service rejected message with status ${statusCode}`
+          );
+          result.failed++;
+        }
+      } catch (sendError) {
+        console.error("Failed to send push message:", sendError);
+        result.failed++;
+      }
+    })
+  );
+
+  result.sent = deliveredIds.length;
+  result.pruned = expiredIds.length;
+
+  try {
+    await pushSubscriptions.deleteMany(expiredIds);
+  } catch (pruneError) {
+    console.error("Error pruning expired push subscriptions:", pruneError);
+  }
+
+  try {
+    await pushSubscriptions.markUsed(deliveredIds, new Date().toISOString());
+  } catch (touchError) {
+    console.error("Error updating push subscriptions:", touchError);
+  }
+
+  return result;
+}
+
+// The push channel for dispatchNotification. Recipients share the event's
+// title and message, so one payload goes to all of them.
+export const deliverPushNotifications: ChannelHandler = async (
+  notifications,
+  event
+) => {
+  await sendPushToUsers(
+    notifications.map((notification) => notification.userId),
+    {
+      title: event.title,
+      body: event.message,
+      type: event.type,
+      data: event.data as unknown as Record<string, unknown>,
+    }
+  );
+};
@@ -0,0 +1,105 @@
+// src/lib/rateLimit/algorithms.ts
+import { RateLimitDecision, RateLimitPolicy } from "./types";
+
+// Counts for the current fixed window and the one before it. The trailing
+// window is estimated by weighting the previous count by how much of it
+// still overlaps, which keeps the state at two numbers per key.
+export interface SlidingWindowState {
+  window: number;
+  count: number;
+  previous: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export function consumeSlidingWindow(
+  state: SlidingWindowState | null,
+  { limit, windowMs }: RateLimitPolicy,
+  now: number
+): { state: SlidingWindowState; decision: RateLimitDecision } {
+  const window = Math.floor(now / windowMs);
+  const current =
+    state?.window === window
+      ? state
+      : { count: 0, previous: state?.window === window - 1 ? state.count : 0 };
+  const { previous } = current;
+  let { count } = current;
+
+  const untilNextWindow = (window + 1) * windowMs - now;
+  const used = (previous * untilNextWindow) / windowMs + count;
+
+  if (used + 1 <= limit) {
+    count++;
+    return {
+      state: { window, count, previous },
+      decision: {
+        allowed: true,
+        limit,
+        remaining: Math.max(Math.floor(limit - used - 1), 0),
+        resetMs: untilNextWindow,
+        retryAfterMs: 0,
+      },
+    };
+  }
+
+  // Room opens up as the previous window's weight decays; if the current
+  // window alone is full, only once it has become the previous one
+  let retryAfterMs: number;
+  if (count + 1 <= limit) {
+    retryAfterMs =
+      untilNextWindow - ((limit - count - 1) * windowMs) / previous;
+  } else {
+    retryAfterMs =
+      untilNextWindow + windowMs - ((limit - 1) * windowMs) / count;
+  }
+  retryAfterMs = Math.max(Math.ceil(retryAfterMs), 1);
+
+  return {
+    state: { window, count, previous },
+    decision: {
+      allowed: false,
+      limit,
+      remaining: 0,
+      resetMs: Math.max(retryAfterMs, untilNextWindow),
+      retryAfterMs,
+    },
+  };
+}
+
+export function consumeTokenBucket(
+  state: TokenBucketState | null,
+  { limit, windowMs }: RateLimitPolicy,
+  now: number
+): { state: TokenBucketState; decision: RateLimitDecision } {
+  const refillPerMs = limit / windowMs;
+  const elapsed = state ? Math.max(now - state.updatedAt, 0) : 0;
+  let tokens = state
+    ? Math.min(limit, state.tokens + elapsed * refillPerMs)
+    : limit;
+
+  const allowed = tokens >= 1;
+  if (allowed) {
+    tokens -= 1;
+  }
+
+  return {
+    state: { tokens, updatedAt: now },
+    decision: {
+      allowed,
+      limit,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((limit - tokens) / refillPerMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    },
+  };
+}
+
+// How long a key's state matters; after this it is equivalent to no state
+export function getStateTtlMs(policy: RateLimitPolicy): number {
+  return policy.algorithm === "sliding_window"
+    ? policy.windowMs * 2
+    : policy.windowMs;
+}
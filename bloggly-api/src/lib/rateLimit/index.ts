@@ -0,0 +1,200 @@
+// src/lib/rateLimit/index.ts
+import { getAuthenticatedUser } from "../authHelpers";
+import { getClientIp } from "../clientIp";
+import { createErrorResponse } from "../errorHandler";
+import { getUserRole, Role } from "../permissions";
+import { getSupabaseAdmin } from "../supabaseAdmin";
+import { MemoryRateLimitStore } from "./memoryStore";
+import {
+  getRateLimitPolicy,
+  isSettingsRateLimit,
+  RateLimitPolicyName,
+} from "./policies";
+import { PostgresRateLimitStore } from "./postgresStore";
+import { RateLimitDecision, RateLimitPolicy, RateLimitStore } from "./types";
+import { NextRequest } from "next/server";
+
+export * from "./types";
+export * from "./policies";
+export { MemoryRateLimitStore } from "./memoryStore";
+export { PostgresRateLimitStore } from "./postgresStore";
+export { RedisRateLimitStore } from "./redisStore";
+export type { RedisEvalClient } from "./redisStore";
+
+// "user" limits signed-in callers per account and everyone else per IP;
+// "ip" always limits per IP
+export type RateLimitKey = "user" | "ip";
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Where counters are kept. RATE_LIMIT_STORE=postgres shares them across
+ * instances through the database; the default keeps them in memory. A
+ * Redis-compatible server is installed with
+ * setRateLimitStore(new RedisRateLimitStore(client)).
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store =
+      process.env.RATE_LIMIT_STORE === "postgres"
+        ? new PostgresRateLimitStore(getSupabaseAdmin())
+        : new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+export function setRateLimitStore(implementation: RateLimitStore | null): void {
+  store = implementation;
+}
+
+// The verified user behind a request, if rate limiting should count it
+// per account. Only a verified token counts, so a forged one cannot spend
+// someone else's quota.
+async function getRateLimitUserId(
+  request: Request,
+  key: RateLimitKey
+): Promise<string | null> {
+  if (key !== "user" || !request.headers.has("authorization")) {
+    return null;
+  }
+  const { user } = await getAuthenticatedUser(request);
+  return user?.id ?? null;
+}
+
+// Who a request is counted against, e.g. "user:<id>" or "ip:203.0.113.7",
+// or null for an anonymous caller whose address is unknown
+export async function getRateLimitPrincipal(
+  request: Request,
+  key: RateLimitKey = "user"
+): Promise<string | null> {
+  return toPrincipal(request, await getRateLimitUserId(request, key));
+}
+
+// The IP comes from getClientIp, so a client cannot pick a fresh quota by
+// sending its own X-Forwarded-For. Without TRUSTED_PROXY_COUNT there is no
+// trustworthy address, and counting every anonymous caller in one shared
+// bucket would let a single client lock everyone else out.
+function toPrincipal(request: Request, userId: string | null): string | null {
+  if (userId) {
+    return `user:${userId}`;
+  }
+  const ip = getClientIp(request);
+  return ip === "unknown" ? null : `ip:${ip}`;
+}
+
+// A role lookup failure only costs the caller the trusted limits
+async function getRateLimitRole(userId: string | null): Promise<Role | null> {
+  if (!userId) {
+    return null;
+  }
+  try {
+    return await getUserRole(userId);
+  } catch (error) {
+    console.error("Error resolving role for rate limiting:", error);
+    return null;
+  }
+}
+
+// Counts a request against the policy. Returns null when the store cannot
+// be reached: limiting then fails open rather than failing every request.
+export async function checkRateLimit(
+  policyName: RateLimitPolicyName,
+  policy: RateLimitPolicy,
+  principal: string
+): Promise<RateLimitDecision | null> {
+  try {
+    return await getRateLimitStore().consume(
+      `ratelimit:${policyName}:${policy.algorithm}:${principal}`,
+      policy,
+      Date.now()
+    );
+  } catch (error) {
+    console.error("Rate limiting error:", error);
+    return null;
+  }
+}
+
+// RateLimit-* fields as in the IETF httpapi-ratelimit-headers draft, plus
+// Retry-After on rejections
+export function getRateLimitHeaders(
+  decision: RateLimitDecision,
+  policy: RateLimitPolicy
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(decision.limit),
+    "RateLimit-Remaining": String(decision.remaining),
+    "RateLimit-Reset": String(Math.ceil(decision.resetMs / 1000)),
+    "RateLimit-Policy": `${policy.limit};w=${Math.ceil(policy.windowMs / 1000)}`,
+  };
+  if (!decision.allowed) {
+    headers["Retry-After"] = String(Math.ceil(decision.retryAfterMs / 1000));
+  }
+  return headers;
+}
+
+type RouteHandler<C> = (request: NextRequest, context: C) => Promise<Response>;
+
+/**
+ * Puts a route handler behind a rate limit policy:
+ *
+ *   export const GET = withRateLimit("api_general", async (request) => { ... });
+ *
+ * Rejected requests get a 429 RATE_LIMITED error without reaching the
+ * handler; every response carries the RateLimit-* headers. Settings-driven
+ * policies look up the caller's role so trusted roles get their higher
+ * limits.
+ *
+ * Anonymous callers are counted by address, so production requires
+ * TRUSTED_PROXY_COUNT: without an address they get a 503 there. Elsewhere
+ * they reach the handler uncounted.
+ */
+export function withRateLimit<C>(
+  policyName: RateLimitPolicyName,
+  handler: RouteHandler<C>,
+  options: { key?: RateLimitKey } = {}
+): RouteHandler<C> {
+  return async (request, context) => {
+    const userId = await getRateLimitUserId(request, options.key ?? "user");
+    const role = isSettingsRateLimit(policyName)
+      ? await getRateLimitRole(userId)
+      : null;
+    const policy = await getRateLimitPolicy(policyName, role);
+    const principal = toPrincipal(request, userId);
+    if (!principal) {
+      if (process.env.NODE_ENV !== "production") {
+        return handler(request, context);
+      }
+      console.error(
+        "Rate limiting cannot identify an anonymous caller; set TRUSTED_PROXY_COUNT"
+      );
+      return createErrorResponse(
+        "Service temporarily unavailable.",
+        503,
+        undefined,
+        "SERVICE_UNAVAILABLE"
+      );
+    }
+
+    const decision = await checkRateLimit(policyName, policy, principal);
+    if (!decision) {
+      return handler(request, context);
+    }
+
+    const headers = getRateLimitHeaders(decision, policy);
+    if (!decision.allowed) {
+      return createErrorResponse(
+        "Rate limit exceeded.",
+        429,
+        undefined,
+        "RATE_LIMITED",
+        headers
+      );
+    }
+
+    const response = await handler(request, context);
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+}
@@ -0,0 +1,57 @@
+// src/lib/rateLimit/memoryStore.ts
+import {
+  consumeSlidingWindow,
+  consumeTokenBucket,
+  getStateTtlMs,
+  SlidingWindowState,
+  TokenBucketState,
+} from "./algorithms";
+import { RateLimitDecision, RateLimitPolicy, RateLimitStore } from "./types";
+
+// Expired keys are dropped in a sweep once the map grows past this
+const SWEEP_THRESHOLD = 10_000;
+
+interface Entry {
+  state: SlidingWindowState | TokenBucketState;
+  expiresAt: number;
+}
+
+/**
+ * Counters in process memory. Each instance limits on its own, so this is
+ * for development, tests and single-instance deployments.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, Entry>();
+
+  async consume(
+    key: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): Promise<RateLimitDecision> {
+    const entry = this.entries.get(key);
+    const state = entry && entry.expiresAt > now ? entry.state : null;
+
+    const { state: nextState, decision } =
+      policy.algorithm === "sliding_window"
+        ? consumeSlidingWindow(state as SlidingWindowState | null, policy, now)
+        : consumeTokenBucket(state as TokenBucketState | null, policy, now);
+
+    if (!entry && this.entries.size >= SWEEP_THRESHOLD) {
+      this.sweep(now);
+    }
+    this.entries.set(key, {
+      state: nextState,
+      expiresAt: now + getStateTtlMs(policy),
+    });
+
+    return decision;
+  }
+
+  private sweep(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,67 @@
+// src/lib/rateLimit/policies.ts
+import { Role } from "../permissions";
+import { getSetting, SettingKey } from "../settings";
+import { RateLimitPolicy } from "./types";
+
+export const RATE_LIMIT_POLICIES = {
+  api_general: { algorithm: "sliding_window", limit: 100, windowMs: 60_000 },
+  // Page views and interactions arrive in bursts as pages load
+  analytics_events: {
+    algorithm: "token_bucket",
+    limit: 100,
+    windowMs: 60_000,
+  },
+} satisfies Record<string, RateLimitPolicy>;
+
+/**
+ * Hourly limits on content creation that admins tune through
+ * platform_settings; the settings registry holds their defaults.
+ */
+export const SETTINGS_RATE_LIMITS = {
+  posts_create: { settingKey: "rate_limit_posts" },
+  comments_create: { settingKey: "rate_limit_comments" },
+  reactions: { settingKey: "rate_limit_reactions" },
+  uploads: { settingKey: "rate_limit_uploads" },
+} satisfies Record<string, { settingKey: SettingKey }>;
+
+// Trusted roles get their settings-driven limits multiplied by the
+// rate_limit_trusted_multiplier setting
+export const TRUSTED_ROLES: readonly Role[] = ["admin", "moderator", "support"];
+
+export type RateLimitPolicyName =
+  | keyof typeof RATE_LIMIT_POLICIES
+  | keyof typeof SETTINGS_RATE_LIMITS;
+
+type SettingsRateLimitName = keyof typeof SETTINGS_RATE_LIMITS;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function isSettingsRateLimit(
+  name: RateLimitPolicyName
+): name is SettingsRateLimitName {
+  return name in SETTINGS_RATE_LIMITS;
+}
+
+/**
+ * The policy a caller is held to. Settings-driven policies come from the
+ * cached platform settings and are raised for trusted roles; role is null for anonymous
+ * callers.
+ */
+export async function getRateLimitPolicy(
+  name: RateLimitPolicyName,
+  role: Role | null = null
+): Promise<RateLimitPolicy> {
+  if (!isSettingsRateLimit(name)) {
+    return RATE_LIMIT_POLICIES[name];
+  }
+
+  const limit = await getSetting(SETTINGS_RATE_LIMITS[name].settingKey);
+  const trusted = role !== null && TRUSTED_ROLES.includes(role);
+  return {
+    algorithm: "sliding_window",
+    limit: trusted
+      ? limit * (await getSetting("rate_limit_trusted_multiplier"))
+      : limit,
+    windowMs: HOUR_MS,
+  };
+}
@@ -0,0 +1,56 @@
+// src/lib/rateLimit/postgresStore.ts
+import { SupabaseClient } from "@supabase/supabase-js";
+import { RateLimitDecision, RateLimitPolicy, RateLimitStore } from "./types";
+
+interface ConsumeRateLimitRow {
+  allowed: boolean;
+  remaining: number;
+  reset_ms: number;
+  retry_after_ms: number;
+}
+
+/**
+ * Counters in Postgres, one round trip per request through the
+ * consume_rate_limit database function
+ * (supabase/migrations/20261019000700_rate_limits.sql):
+ *
+ *   consume_rate_limit(rate_key text, algorithm text, max_requests integer,
+ *                      window_ms integer, now_ms bigint)
+ *     returns table (allowed boolean, remaining integer, reset_ms integer,
+ *                    retry_after_ms integer)
+ *
+ * It locks the key's row, applies the arithmetic of ./algorithms to the
+ * stored state and saves the result, so concurrent requests are serialised
+ * per key.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(private client: SupabaseClient) {}
+
+  async consume(
+    key: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): Promise<RateLimitDecision> {
+    const { data, error } = await this.client
+      .rpc("consume_rate_limit", {
+        rate_key: key,
+        algorithm: policy.algorithm,
+        max_requests: policy.limit,
+        window_ms: policy.windowMs,
+        now_ms: now,
+      })
+      .single<ConsumeRateLimitRow>();
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      allowed: data.allowed,
+      limit: policy.limit,
+      remaining: data.remaining,
+      resetMs: data.reset_ms,
+      retryAfterMs: data.retry_after_ms,
+    };
+  }
+}
@@ -0,0 +1,113 @@
+// src/lib/rateLimit/redisStore.ts
+import { getStateTtlMs } from "./algorithms";
+import { RateLimitDecision, RateLimitPolicy, RateLimitStore } from "./types";
+
+/**
+ * The one command the store needs, so any Redis-compatible server (Redis,
+ * Valkey, KeyDB, Dragonfly) and client can back it, and tests can point it
+ * at a local stand-in. Adapters for the common clients:
+ *
+ *   ioredis:    (script, keys, args) => redis.eval(script, keys.length, ...keys, ...args)
+ *   node-redis: (script, keys, args) => client.eval(script, { keys, arguments: args })
+ */
+export interface RedisEvalClient {
+  eval(script: string, keys: string[], args: string[]): Promise<unknown>;
+}
+
+// The arithmetic of ./algorithms, run server-side so the read, decision and
+// write are one atomic step. The caller passes the time so every instance
+// agrees on window boundaries.
+const CONSUME_SCRIPT = `
+local key = KEYS[1]
+local algorithm = ARGV[1]
+local limit = tonumber(ARGV[2])
+local window_ms = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local ttl = tonumber(ARGV[5])
+
+if algorithm == "sliding_window" then
+  local window = math.floor(now / window_ms)
+  local stored = redis.call("HMGET", key, "window", "count", "previous")
+  local stored_window = tonumber(stored[1])
+  local count, previous = 0, 0
+  if stored_window == window then
+    count = tonumber(stored[2])
+    previous = tonumber(stored[3])
+  elseif stored_window == window - 1 then
+    previous = tonumber(stored[2])
+  end
+
+  local until_next = (window + 1) * window_ms - now
+  local used = previous * until_next / window_ms + count
+  if used + 1 <= limit then
+    redis.call("HSET", key, "window", window, "count", count + 1, "previous", previous)
+    redis.call("PEXPIRE", key, ttl)
+    return {1, math.max(math.floor(limit - used - 1), 0), until_next, 0}
+  end
+
+  local retry
+  if count + 1 <= limit then
+    retry = until_next - (limit - count - 1) * window_ms / previous
+  else
+    retry = until_next + window_ms - (limit - 1) * window_ms / count
+  end
+  retry = math.max(math.ceil(retry), 1)
+  return {0, 0, math.max(retry, until_next), retry}
+end
+
+local refill = limit / window_ms
+local stored = redis.call("HMGET", key, "tokens", "updated_at")
+local stored_tokens, updated_at = tonumber(stored[1]), tonumber(stored[2])
+local tokens = limit
+if stored_tokens and updated_at then
+  local elapsed = math.max(now - updated_at, 0)
+  tokens = math.min(limit, stored_tokens + elapsed * refill)
+end
+
+local allowed, retry = 0, 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+else
+  retry = math.ceil((1 - tokens) / refill)
+end
+
+redis.call("HSET", key, "tokens", string.format("%.17g", tokens), "updated_at", now)
+redis.call("PEXPIRE", key, ttl)
+return {allowed, math.floor(tokens), math.ceil((limit - tokens) / refill), retry}
+`;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private client: RedisEvalClient) {}
+
+  async consume(
+    key: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): Promise<RateLimitDecision> {
+    const reply = await this.client.eval(
+      CONSUME_SCRIPT,
+      [key],
+      [
+        policy.algorithm,
+        String(policy.limit),
+        String(policy.windowMs),
+        String(now),
+        String(getStateTtlMs(policy)),
+      ]
+    );
+
+    if (!Array.isArray(reply) || reply.length !== 4) {
+      throw new Error("Unexpected reply from rate limit script");
+    }
+    const [allowed, remaining, resetMs, retryAfterMs] = reply.map(Number);
+
+    return {
+      allowed: allowed === 1,
+      limit: policy.limit,
+      remaining,
+      resetMs,
+      retryAfterMs,
+    };
+  }
+}
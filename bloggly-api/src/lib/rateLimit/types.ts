@@ -0,0 +1,37 @@
+// src/lib/rateLimit/types.ts
+
+export type RateLimitAlgorithm = "sliding_window" | "token_bucket";
+
+/**
+ * `limit` requests per `windowMs`. A sliding window counts requests over the
+ * trailing window; a token bucket holds up to `limit` tokens and refills at
+ * limit/windowMs, so it absorbs bursts and then settles to the steady rate.
+ */
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Until the quota is fully restored
+  resetMs: number;
+  // Until a denied request can succeed; 0 when allowed
+  retryAfterMs: number;
+}
+
+/**
+ * Where counters live. consume() records one request against the key and
+ * decides it in a single atomic step, so concurrent requests cannot both
+ * take the last slot.
+ */
+export interface RateLimitStore {
+  consume(
+    key: string,
+    policy: RateLimitPolicy,
+    now: number
+  ): Promise<RateLimitDecision>;
+}
@@ -0,0 +1,27 @@
+// src/lib/repositories/index.ts
+import { getSupabaseAdmin } from "../supabaseAdmin";
+import { createSupabaseRepositories } from "./supabase";
+import { Repositories } from "./types";
+
+export * from "./types";
+export { createInMemoryRepositories, createInMemoryStore } from "./memory";
+export type { InMemoryStore } from "./memory";
+export { createSupabaseRepositories } from "./supabase";
+
+let repositories: Repositories | null = null;
+
+/**
+ * The data layer route handlers read and write through. Defaults to the
+ * Supabase implementation; tests swap in createInMemoryRepositories() with
+ * setRepositories, and setRepositories(null) restores the default.
+ */
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    repositories = createSupabaseRepositories(getSupabaseAdmin());
+  }
+  return repositories;
+}
+
+export function setRepositories(implementation: Repositories | null): void {
+  repositories = implementation;
+}
@@ -0,0 +1,2599 @@
+// src/lib/repositories/memory.ts
+import { randomUUID } from "crypto";
+import { StreamedNotification } from "../notificationPubSub";
+import {
+  ActivityLogEntry,
+  AdminActionEntry,
+  AdminNote,
+  AnalyticsEvent,
+  AnnouncementNotificationRecord,
+  AnnouncementRecord,
+  BanRecord,
+  CommentEdit,
+  CommentRecord,
+  CommentView,
+  DigestSendRecord,
+  EmailThrottleRecord,
+  FeedCandidate,
+  FeedSource,
+  FollowDirection,
+  ModerationComment,
+  ModerationCounts,
+  ModerationPost,
+  NewNotification,
+  NewSetting,
+  NotificationGroupView,
+  NotificationListQuery,
+  NotificationRecord,
+  NotificationSelection,
+  NotificationView,
+  PostCollaboratorRecord,
+  PostRecord,
+  PostRevision,
+  PostView,
+  ProfileContact,
+  ProfileDetail,
+  ProfileName,
+  ProfileRecord,
+  ProfileSummary,
+  PushSubscriptionRecord,
+  ReactionRecord,
+  ReportRecord,
+  ReportReview,
+  ReportView,
+  Repositories,
+  SearchHit,
+  SearchQuery,
+  StoredSetting,
+  Tag,
+  TopAuthor,
+  TopTag,
+  UploadRecord,
+} from "./types";
+
+type Timestamped<T> = T & { created_at: string };
+
+// Profiles seed with the columns most tests need; the rest default
+type StoredProfile = ProfileRecord &
+  Partial<Omit<ProfileDetail, keyof ProfileRecord>>;
+
+// Posts seed with their PostRecord columns; the content columns default
+type StoredPost = PostRecord &
+  Partial<Omit<PostView, keyof PostRecord | "author">> & {
+    view_count?: number;
+  };
+
+type StoredNotification = NewNotification & {
+  id: string;
+  is_read: boolean;
+  read_at?: string | null;
+};
+
+/**
+ * The rows behind the in-memory repositories. Tests seed it, run a route
+ * handler against it and then assert on what the handler wrote.
+ */
+export interface InMemoryStore {
+  // Every profile is an Auth user whose access token is the profile id
+  profiles: StoredProfile[];
+  // The ban_duration last set on each Auth user
+  authBanDurations: { user_id: string; duration: string }[];
+  posts: StoredPost[];
+  postRevisions: PostRevision[];
+  postCollaborators: PostCollaboratorRecord[];
+  comments: CommentRecord[];
+  commentEdits: (CommentEdit & { id: string; edited_at: string })[];
+  reactions: ReactionRecord[];
+  notifications: StoredNotification[];
+  notificationPreferences: ({ user_id: string } & Record<string, unknown>)[];
+  pushSubscriptions: PushSubscriptionRecord[];
+  reports: ReportRecord[];
+  settings: StoredSetting[];
+  uploads: UploadRecord[];
+  // Objects in the uploads storage bucket
+  files: { path: string; content_type: string; size: number }[];
+  announcements: AnnouncementRecord[];
+  announcementDismissals: {
+    announcement_id: string;
+    user_id: string;
+    dismissed_at: string;
+  }[];
+  announcementNotifications: AnnouncementNotificationRecord[];
+  bans: BanRecord[];
+  emailThrottle: EmailThrottleRecord[];
+  digestSends: DigestSendRecord[];
+  follows: {
+    id: string;
+    follower_id: string;
+    following_id: string;
+    created_at: string;
+  }[];
+  tags: Tag[];
+  postTags: { post_id: string; tag_id: string }[];
+  tagFollows: { user_id: string; tag_id: string; created_at: string }[];
+  // Which readers have viewed which posts, and when they last did
+  postViews: { post_id: string; user_id: string; viewed_at: string }[];
+  analyticsEvents: AnalyticsEvent[];
+  activityLogs: Timestamped<ActivityLogEntry>[];
+  adminActions: (Timestamped<AdminActionEntry> & { id: string })[];
+  adminNotes: Timestamped<AdminNote>[];
+}
+
+export function createInMemoryStore(
+  seed: Partial<InMemoryStore> = {}
+): InMemoryStore {
+  return {
+    profiles: [],
+    authBanDurations: [],
+    posts: [],
+    postRevisions: [],
+    postCollaborators: [],
+    comments: [],
+    commentEdits: [],
+    reactions: [],
+    notifications: [],
+    notificationPreferences: [],
+    pushSubscriptions: [],
+    reports: [],
+    settings: [],
+    uploads: [],
+    files: [],
+    announcements: [],
+    announcementDismissals: [],
+    announcementNotifications: [],
+    bans: [],
+    emailThrottle: [],
+    digestSends: [],
+    follows: [],
+    tags: [],
+    postTags: [],
+    tagFollows: [],
+    postViews: [],
+    analyticsEvents: [],
+    activityLogs: [],
+    adminActions: [],
+    adminNotes: [],
+    ...seed,
+  };
+}
+
+const now = () => new Date().toISOString();
+
+const EPOCH = new Date(0).toISOString();
+
+function countByStatus(rows: { status: string }[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const { status } of rows) {
+    counts[status] = (counts[status] || 0) + 1;
+  }
+  return counts;
+}
+
+const byNewest = (a: { created_at: string }, b: { created_at: string }) =>
+  b.created_at.localeCompare(a.created_at);
+
+// The user's own column and the other user's column for each side of the
+// follow graph
+function followColumns(direction: FollowDirection) {
+  return direction === "followers"
+    ? (["following_id", "follower_id"] as const)
+    : (["follower_id", "following_id"] as const);
+}
+
+// Splits websearch input into lowercase terms to include and to exclude;
+// quoted phrases stay whole
+function parseSearchTerms(text: string) {
+  const include: string[] = [];
+  const exclude: string[] = [];
+  for (const token of text.match(/-?"[^"]*"|\S+/g) || []) {
+    const negated = token.startsWith("-");
+    const term = (negated ? token.slice(1) : token)
+      .replace(/"/g, "")
+      .toLowerCase();
+    if (term) {
+      (negated ? exclude : include).push(term);
+    }
+  }
+  return { include, exclude };
+}
+
+// Rows are copied on the way in and out, as they would be over the wire
+const copy = <T extends object>(row: T | undefined): T | null =>
+  row ? { ...row } : null;
+
+function toStreamedNotification(row: StoredNotification): StreamedNotification {
+  return {
+    id: row.id,
+    actor_id: row.actor_id,
+    type: row.type,
+    title: row.title,
+    message: row.message,
+    data: row.data,
+    is_read: row.is_read,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+function toNotificationRecord(row: StoredNotification): NotificationRecord {
+  return { ...toStreamedNotification(row), user_id: row.user_id };
+}
+
+function isSelected(
+  row: StoredNotification,
+  selection: NotificationSelection
+): boolean {
+  if ("ids" in selection) {
+    return selection.ids.includes(row.id);
+  }
+  if ("groupKeys" in selection) {
+    return (
+      row.group_key !== null && selection.groupKeys.includes(row.group_key)
+    );
+  }
+  if ("read" in selection) {
+    return row.is_read;
+  }
+  return true;
+}
+
+// Latest activity first, ties broken on the id
+const byLatestActivity = (
+  a: { updated_at: string; id: string },
+  b: { updated_at: string; id: string }
+) => b.updated_at.localeCompare(a.updated_at) || a.id.localeCompare(b.id);
+
+// notification_groups() (supabase/migrations) over an already filtered set
+// of one reader's rows
+function groupNotifications(
+  rows: StoredNotification[],
+  actorLimit: number
+): NotificationGroupView[] {
+  const byGroup = new Map<string, StoredNotification[]>();
+  for (const row of rows) {
+    const groupId = row.group_key ?? row.id;
+    byGroup.set(groupId, [...(byGroup.get(groupId) || []), row]);
+  }
+
+  return [...byGroup.entries()]
+    .map(([groupId, members]) => {
+      const sorted = [...members].sort(byLatestActivity);
+      const latest = sorted[0];
+
+      // Each actor ranks by the latest row they are in, then by where they
+      // appear in it
+      const actors = new Map<
+        string,
+        { updated_at: string; position: number }
+      >();
+      for (const member of members) {
+        member.actor_ids.forEach((actorId, position) => {
+          const seen = actors.get(actorId);
+          actors.set(actorId, {
+            updated_at:
+              seen && seen.updated_at > member.updated_at
+                ? seen.updated_at
+                : member.updated_at,
+            position: seen ? Math.min(seen.position, position) : position,
+          });
+        });
+      }
+      const actorIds = [...actors.entries()]
+        .sort(
+          ([, a], [, b]) =>
+            b.updated_at.localeCompare(a.updated_at) || a.position - b.position
+        )
+        .slice(0, actorLimit)
+        .map(([actorId]) => actorId);
+
+      return {
+        groupId,
+        group: {
+          group_key: latest.group_key,
+          notification_ids: sorted.map((member) => member.id),
+          type: latest.type,
+          title: latest.title,
+          message: latest.message,
+          data: latest.data,
+          actor_ids: actorIds,
+          actor_count: Math.max(
+            ...members.map((member) => member.actor_count),
+            actors.size
+          ),
+          unread_count: members.filter((member) => !member.is_read).length,
+          is_read: members.every((member) => member.is_read),
+          created_at: latest.created_at,
+          updated_at: latest.updated_at,
+        },
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.group.updated_at.localeCompare(a.group.updated_at) ||
+        a.groupId.localeCompare(b.groupId)
+    )
+    .map(({ group }) => group);
+}
+
+/**
+ * Repositories over plain arrays, with the filtering and defaults of the
+ * Supabase implementation, for exercising route handlers without a
+ * database.
+ */
+export function createInMemoryRepositories(
+  store: InMemoryStore = createInMemoryStore()
+): Repositories {
+  const findComment = (id: string) =>
+    store.comments.find((comment) => comment.id === id);
+
+  function toCommentView(comment: CommentRecord): CommentView {
+    const author = store.profiles.find(
+      (profile) => profile.id === comment.author_id
+    );
+    const reactionsCount: CommentView["reactions_count"] = {};
+    for (const reaction of store.reactions) {
+      if (reaction.comment_id === comment.id) {
+        reactionsCount[reaction.reaction_type] =
+          (reactionsCount[reaction.reaction_type] || 0) + 1;
+      }
+    }
+
+    return {
+      ...comment,
+      author: author
+        ? {
+            id: author.id,
+            username: author.username,
+            display_name: author.display_name,
+            avatar_url: author.avatar_url,
+          }
+        : null,
+      reactions_count: reactionsCount,
+      replies_count: store.comments.filter(
+        (reply) => reply.parent_id === comment.id
+      ).length,
+    };
+  }
+
+  const findProfile = (id: string | null) =>
+    store.profiles.find((profile) => profile.id === id);
+
+  const findPost = (id: string) => store.posts.find((post) => post.id === id);
+
+  const findCollaborator = (postId: string, userId: string) =>
+    store.postCollaborators.find(
+      (collaborator) =>
+        collaborator.post_id === postId && collaborator.user_id === userId
+    );
+
+  function toSummary(id: string | null): ProfileSummary | null {
+    const profile = findProfile(id);
+    return profile
+      ? {
+          id: profile.id,
+          username: profile.username,
+          display_name: profile.display_name,
+          avatar_url: profile.avatar_url,
+        }
+      : null;
+  }
+
+  function toPostView(post: StoredPost): PostView {
+    return {
+      content_markdown: "",
+      excerpt: null,
+      reading_time: null,
+      cover_image_url: null,
+      tags: [],
+      scheduled_for: null,
+      unpublish_at: null,
+      created_at: EPOCH,
+      updated_at: EPOCH,
+      ...post,
+      author: toSummary(post.author_id),
+    };
+  }
+
+  function toModerationPost(post: StoredPost): ModerationPost {
+    const view = toPostView(post);
+    return {
+      id: view.id,
+      author_id: view.author_id,
+      title: view.title,
+      slug: view.slug,
+      status: view.status,
+      allow_comments: view.allow_comments,
+      published_at: view.published_at,
+      excerpt: view.excerpt,
+      view_count: post.view_count || 0,
+      created_at: view.created_at,
+      updated_at: view.updated_at,
+      author: toContact(post.author_id),
+      tags: view.tags,
+      comments_count: store.comments.filter(
+        (comment) => comment.post_id === post.id
+      ).length,
+    };
+  }
+
+  // Mirrors the unique index on posts.slug
+  function assertSlugAvailable(slug: string) {
+    if (store.posts.some((post) => post.slug === slug)) {
+      throw Object.assign(
+        new Error(
+          'duplicate key value violates unique constraint "posts_slug_key"'
+        ),
+        { code: "23505", details: `Key (slug)=(${slug}) already exists.` }
+      );
+    }
+  }
+
+  const findAnnouncementNotification = (announcementId: string) =>
+    store.announcementNotifications.find(
+      (send) => send.announcement_id === announcementId
+    );
+
+  const findTag = (id: string | null) =>
+    store.tags.find((tag) => tag.id === id);
+
+  function toName(id: string | null): ProfileName | null {
+    const profile = findProfile(id);
+    return profile
+      ? { username: profile.username, display_name: profile.display_name }
+      : null;
+  }
+
+  function toContact(id: string | null): ProfileContact | null {
+    const profile = findProfile(id);
+    return profile
+      ? {
+          id: profile.id,
+          username: profile.username,
+          display_name: profile.display_name,
+          avatar_url: profile.avatar_url,
+          email: profile.email,
+        }
+      : null;
+  }
+
+  function toModerationComment(comment: CommentRecord): ModerationComment {
+    const post = findPost(comment.post_id);
+    const parent = comment.parent_id ? findComment(comment.parent_id) : null;
+    return {
+      ...comment,
+      author: toContact(comment.author_id),
+      post: post
+        ? {
+            id: post.id,
+            title: post.title,
+            slug: post.slug,
+            author: toName(post.author_id),
+          }
+        : null,
+      parent_comment: parent
+        ? {
+            id: parent.id,
+            content: parent.content,
+            author: toName(parent.author_id),
+          }
+        : null,
+      reactions_count: store.reactions.filter(
+        (reaction) => reaction.comment_id === comment.id
+      ).length,
+      replies_count: store.comments.filter(
+        (reply) => reply.parent_id === comment.id
+      ).length,
+      reports_count: store.reports.filter(
+        (report) =>
+          report.reported_content_type === "comment" &&
+          report.reported_content_id === comment.id
+      ).length,
+    };
+  }
+
+  function toReportView(report: ReportRecord): ReportView {
+    const reviewer = findProfile(report.reviewed_by);
+    return {
+      ...report,
+      reporter: toContact(report.reporter_id),
+      reviewed_by_admin: reviewer
+        ? {
+            id: reviewer.id,
+            username: reviewer.username,
+            display_name: reviewer.display_name,
+          }
+        : null,
+    };
+  }
+
+  function reviewReport(report: ReportRecord, review: ReportReview) {
+    const timestamp = now();
+    Object.assign(report, review, {
+      reviewed_at: timestamp,
+      updated_at: timestamp,
+    });
+    return { ...report };
+  }
+
+  function saveSettings(settings: NewSetting[]): StoredSetting[] {
+    const timestamp = now();
+    return settings.map((setting) => {
+      const row: StoredSetting = {
+        description: null,
+        ...setting,
+        updated_at: timestamp,
+      };
+      store.settings = [
+        ...store.settings.filter(
+          (stored) => stored.setting_key !== setting.setting_key
+        ),
+        row,
+      ];
+      return { ...row };
+    });
+  }
+
+  // The rows each search type looks through, with the text it matches
+  function searchDocuments(
+    { type, tag, authorId }: SearchQuery,
+    inRange: (at: string | null) => boolean
+  ): { text: string; hit: Omit<SearchHit, "rank"> }[] {
+    if (type === "posts") {
+      return store.posts
+        .map(toPostView)
+        .filter(
+          (post) =>
+            post.status === "published" &&
+            (!authorId || post.author_id === authorId) &&
+            (!tag ||
+              post.tags.some(
+                (name) => name.toLowerCase() === tag.toLowerCase()
+              )) &&
+            inRange(post.published_at)
+        )
+        .map((post) => ({
+          text: `${post.title} ${post.content_markdown}`,
+          hit: {
+            id: post.id,
+            title: post.title,
+            slug: post.slug,
+            excerpt: post.excerpt,
+            tags: post.tags,
+            author_id: post.author_id,
+            author_username: post.author?.username ?? null,
+            author_display_name: post.author?.display_name ?? null,
+            published_at: post.published_at,
+          },
+        }));
+    }
+
+    if (type === "comments") {
+      return store.comments
+        .filter((comment) => {
+          const post = findPost(comment.post_id);
+          return (
+            comment.status === "published" &&
+            post?.status === "published" &&
+            (!authorId || comment.author_id === authorId) &&
+            (!tag || Boolean(post.tags?.includes(tag))) &&
+            inRange(comment.created_at)
+          );
+        })
+        .map((comment) => {
+          const post = findPost(comment.post_id)!;
+          const author = toSummary(comment.author_id);
+          return {
+            text: comment.content,
+            hit: {
+              id: comment.id,
+              post_id: post.id,
+              post_title: post.title,
+              post_slug: post.slug,
+              author_id: comment.author_id,
+              author_username: author?.username ?? null,
+              author_display_name: author?.display_name ?? null,
+              created_at: comment.created_at,
+            },
+          };
+        });
+    }
+
+    if (type === "users") {
+      return store.profiles.map((profile) => ({
+        text: [profile.username, profile.display_name, profile.bio]
+          .filter(Boolean)
+          .join(" "),
+        hit: {
+          id: profile.id,
+          username: profile.username,
+          display_name: profile.display_name,
+          avatar_url: profile.avatar_url,
+        },
+      }));
+    }
+
+    return store.tags
+      .filter((candidate) => !candidate.canonical_tag_id)
+      .map((candidate) => ({
+        text: `${candidate.name} ${candidate.description || ""}`,
+        hit: {
+          id: candidate.id,
+          name: candidate.name,
+          slug: candidate.slug,
+          description: candidate.description,
+        },
+      }));
+  }
+
+  const findListed = (userId: string, query: NotificationListQuery) =>
+    store.notifications.filter(
+      (row) =>
+        row.user_id === userId &&
+        (!query.type || row.type === query.type) &&
+        (!query.unreadOnly || !row.is_read)
+    );
+
+  function toNotificationView(row: StoredNotification): NotificationView {
+    const actor = store.profiles.find((profile) => profile.id === row.actor_id);
+    return {
+      id: row.id,
+      actor_id: row.actor_id,
+      type: row.type,
+      title: row.title,
+      message: row.message,
+      data: row.data,
+      is_read: row.is_read,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+      group_key: row.group_key,
+      actor_ids: [...row.actor_ids],
+      actor_count: row.actor_count,
+      actor: actor
+        ? {
+            username: actor.username,
+            display_name: actor.display_name,
+            avatar_url: actor.avatar_url,
+          }
+        : null,
+    };
+  }
+
+  return {
+    auth: {
+      async getUserByToken(token) {
+        const profile = store.profiles.find(
+          (candidate) => candidate.id === token
+        );
+        if (!profile) {
+          return null;
+        }
+        return {
+          id: profile.id,
+          email: profile.email || undefined,
+          aud: "authenticated",
+          app_metadata: {},
+          user_metadata: {},
+          created_at: now(),
+        };
+      },
+
+      async setBanDuration(userId, duration) {
+        store.authBanDurations = [
+          ...store.authBanDurations.filter((ban) => ban.user_id !== userId),
+          { user_id: userId, duration },
+        ];
+      },
+
+      async deleteUser(userId) {
+        // Profiles reference their Auth user and go with it
+        store.profiles = store.profiles.filter(
+          (profile) => profile.id !== userId
+        );
+      },
+    },
+
+    profiles: {
+      async findById(id) {
+        return copy(store.profiles.find((profile) => profile.id === id));
+      },
+
+      async findByIds(ids) {
+        return store.profiles
+          .filter((profile) => ids.includes(profile.id))
+          .map((profile) => ({ ...profile }));
+      },
+
+      async findByUsernames(usernames) {
+        return store.profiles
+          .filter((profile) => usernames.includes(profile.username))
+          .map((profile) => ({ ...profile }));
+      },
+
+      async findByRoles(roles) {
+        return store.profiles
+          .filter((profile) => profile.role && roles.includes(profile.role))
+          .sort((a, b) => a.username.localeCompare(b.username))
+          .map((profile) => ({ ...profile }));
+      },
+
+      async listIds({ after, limit, roles, excludeRoles }) {
+        return store.profiles
+          .filter(
+            (profile) =>
+              (after === null || profile.id > after) &&
+              (!roles ||
+                (profile.role !== null && roles.includes(profile.role))) &&
+              (!excludeRoles ||
+                profile.role === null ||
+                !excludeRoles.includes(profile.role))
+          )
+          .map((profile) => profile.id)
+          .sort()
+          .slice(0, limit);
+      },
+
+      async findDetail(id) {
+        const profile = findProfile(id);
+        return profile
+          ? {
+              bio: null,
+              website_url: null,
+              location: null,
+              social_twitter: null,
+              social_github: null,
+              social_linkedin: null,
+              is_email_verified: false,
+              email_notification_preferences: null,
+              created_at: EPOCH,
+              updated_at: EPOCH,
+              ...profile,
+            }
+          : null;
+      },
+
+      async countActivity(id) {
+        return {
+          posts_by_status: countByStatus(
+            store.posts.filter((post) => post.author_id === id)
+          ),
+          comments_by_status: countByStatus(
+            store.comments.filter((comment) => comment.author_id === id)
+          ),
+          followers_count: store.follows.filter(
+            (follow) => follow.following_id === id
+          ).length,
+          following_count: store.follows.filter(
+            (follow) => follow.follower_id === id
+          ).length,
+        };
+      },
+
+      async updateRole(id, role) {
+        const profile = findProfile(id);
+        if (profile) {
+          Object.assign(profile, { role, updated_at: now() });
+        }
+      },
+    },
+
+    follows: {
+      async exists(followerId, followingId) {
+        return store.follows.some(
+          (follow) =>
+            follow.follower_id === followerId &&
+            follow.following_id === followingId
+        );
+      },
+
+      async create(followerId, followingId) {
+        const exists = store.follows.some(
+          (follow) =>
+            follow.follower_id === followerId &&
+            follow.following_id === followingId
+        );
+        if (exists) {
+          return false;
+        }
+        store.follows.push({
+          id: randomUUID(),
+          follower_id: followerId,
+          following_id: followingId,
+          created_at: now(),
+        });
+        return true;
+      },
+
+      async delete(followerId, followingId) {
+        const remaining = store.follows.filter(
+          (follow) =>
+            follow.follower_id !== followerId ||
+            follow.following_id !== followingId
+        );
+        const removed = remaining.length < store.follows.length;
+        store.follows = remaining;
+        return removed;
+      },
+
+      async list(userId, direction, { limit, after }) {
+        const [ownColumn, otherColumn] = followColumns(direction);
+        return store.follows
+          .filter(
+            (follow) =>
+              follow[ownColumn] === userId &&
+              (!after ||
+                follow.created_at < after.at ||
+                (follow.created_at === after.at && follow.id < after.id))
+          )
+          .sort((a, b) => byNewest(a, b) || b.id.localeCompare(a.id))
+          .slice(0, limit)
+          .map((follow) => {
+            const user = toSummary(follow[otherColumn]);
+            return {
+              id: follow.id,
+              created_at: follow.created_at,
+              user: user && {
+                ...user,
+                bio: findProfile(user.id)?.bio ?? null,
+              },
+            };
+          });
+      },
+
+      async filter(userId, direction, userIds) {
+        const [ownColumn, otherColumn] = followColumns(direction);
+        return store.follows
+          .filter(
+            (follow) =>
+              follow[ownColumn] === userId &&
+              userIds.includes(follow[otherColumn])
+          )
+          .map((follow) => follow[otherColumn]);
+      },
+
+      async listFollowerIds(userId, { after, limit }) {
+        return store.follows
+          .filter(
+            (follow) =>
+              follow.following_id === userId &&
+              (after === null || follow.follower_id > after)
+          )
+          .map((follow) => follow.follower_id)
+          .sort()
+          .slice(0, limit);
+      },
+
+      async listFollowingIds(userId) {
+        return store.follows
+          .filter((follow) => follow.follower_id === userId)
+          .map((follow) => follow.following_id);
+      },
+
+      async listNewFollowers(userId, { from, before, limit }) {
+        const gained = store.follows
+          .filter(
+            (follow) =>
+              follow.following_id === userId &&
+              follow.created_at >= from &&
+              follow.created_at < before
+          )
+          .sort(byNewest);
+        return {
+          followers: gained
+            .slice(0, limit)
+            .map((follow) => toName(follow.follower_id))
+            .filter((name) => name !== null),
+          total: gained.length,
+        };
+      },
+    },
+
+    posts: {
+      async findById(id) {
+        const post = findPost(id);
+        return post
+          ? {
+              id: post.id,
+              author_id: post.author_id,
+              title: post.title,
+              slug: post.slug,
+              status: post.status,
+              allow_comments: post.allow_comments,
+              published_at: post.published_at,
+            }
+          : null;
+      },
+
+      async findView(idOrSlug) {
+        const post = store.posts.find(
+          (candidate) =>
+            (candidate.id === idOrSlug || candidate.slug === idOrSlug) &&
+            candidate.status !== "deleted"
+        );
+        return post ? toPostView(post) : null;
+      },
+
+      async findForModeration(id) {
+        const post = findPost(id);
+        return post ? toModerationPost(post) : null;
+      },
+
+      async list({ authorId, status, tag, orderBy, after, limit }) {
+        const position = (post: PostView) => post[orderBy] || EPOCH;
+        return store.posts
+          .map(toPostView)
+          .filter(
+            (post) =>
+              (!authorId || post.author_id === authorId) &&
+              (!status || post.status === status) &&
+              (!tag || post.tags.includes(tag)) &&
+              (!after ||
+                position(post) < after.at ||
+                (after.id !== undefined &&
+                  position(post) === after.at &&
+                  post.id < after.id))
+          )
+          .sort(
+            (a, b) =>
+              position(b).localeCompare(position(a)) || b.id.localeCompare(a.id)
+          )
+          .slice(0, limit);
+      },
+
+      async listForModeration({ search, status, sort, limit, offset }) {
+        const term = search?.toLowerCase();
+        const matching = store.posts
+          .map(toModerationPost)
+          .filter(
+            (post) =>
+              (!status || post.status === status) &&
+              (!term ||
+                post.title.toLowerCase().includes(term) ||
+                Boolean(post.excerpt?.toLowerCase().includes(term)))
+          )
+          .sort((a, b) =>
+            sort === "most_viewed"
+              ? b.view_count - a.view_count
+              : sort === "oldest"
+                ? -byNewest(a, b)
+                : byNewest(a, b)
+          );
+        return {
+          posts: matching.slice(offset, offset + limit),
+          total: matching.length,
+        };
+      },
+
+      async listSlugs(prefix, excludePostId) {
+        return store.posts
+          .filter(
+            (post) => post.slug.startsWith(prefix) && post.id !== excludePostId
+          )
+          .map((post) => post.slug);
+      },
+
+      async create(post) {
+        assertSlugAvailable(post.slug);
+        const timestamp = now();
+        const created: StoredPost = {
+          ...post,
+          id: randomUUID(),
+          created_at: timestamp,
+          updated_at: timestamp,
+        };
+        store.posts.push(created);
+        return toPostView(created);
+      },
+
+      async update(id, changes) {
+        const post = findPost(id);
+        if (!post) {
+          throw new Error(`Post ${id} not found`);
+        }
+        if (changes.slug !== undefined && changes.slug !== post.slug) {
+          assertSlugAvailable(changes.slug);
+        }
+        Object.assign(post, changes, { updated_at: now() });
+        return toPostView(post);
+      },
+
+      async updateStatus(id, status) {
+        const post = findPost(id);
+        if (post) {
+          post.status = status;
+        }
+      },
+
+      async listDue(schedule, at) {
+        const column =
+          schedule === "publish" ? "scheduled_for" : "unpublish_at";
+        return store.posts
+          .map(toPostView)
+          .filter((post) => {
+            const due = post[column];
+            return (
+              post.status ===
+                (schedule === "publish" ? "draft" : "published") &&
+              due !== null &&
+              due <= at
+            );
+          })
+          .sort((a, b) => (a[column] || "").localeCompare(b[column] || ""));
+      },
+
+      async updateIf(id, expected, changes) {
+        const post = findPost(id);
+        if (!post) {
+          return false;
+        }
+        const view = toPostView(post);
+        const matches = Object.entries(expected).every(
+          ([column, value]) => view[column as keyof typeof expected] === value
+        );
+        if (matches) {
+          Object.assign(post, changes, { updated_at: now() });
+        }
+        return matches;
+      },
+
+      async listPublished({
+        from,
+        before,
+        excludeAuthorId,
+        authorIds,
+        tags,
+        limit,
+      }) {
+        return store.posts
+          .map(toPostView)
+          .filter(
+            (post) =>
+              post.status === "published" &&
+              post.published_at !== null &&
+              post.published_at >= from &&
+              post.published_at < before &&
+              post.author_id !== excludeAuthorId &&
+              (!authorIds || authorIds.includes(post.author_id)) &&
+              (!tags || post.tags.some((name) => tags.includes(name)))
+          )
+          .sort((a, b) =>
+            (b.published_at || "").localeCompare(a.published_at || "")
+          )
+          .slice(0, limit);
+      },
+    },
+
+    revisions: {
+      async create(revision) {
+        const created: PostRevision = {
+          ...revision,
+          id: randomUUID(),
+          revision_number:
+            Math.max(
+              0,
+              ...store.postRevisions
+                .filter((existing) => existing.post_id === revision.post_id)
+                .map((existing) => existing.revision_number)
+            ) + 1,
+          created_at: now(),
+        };
+        store.postRevisions.push(created);
+        return { ...created };
+      },
+
+      async find(postId, revisionNumber) {
+        return copy(
+          store.postRevisions.find(
+            (revision) =>
+              revision.post_id === postId &&
+              revision.revision_number === revisionNumber
+          )
+        );
+      },
+
+      async hasAny(postId) {
+        return store.postRevisions.some(
+          (revision) => revision.post_id === postId
+        );
+      },
+
+      async list(postId, { limit, before }) {
+        return store.postRevisions
+          .filter(
+            (revision) =>
+              revision.post_id === postId &&
+              (!before || revision.revision_number < before)
+          )
+          .sort((a, b) => b.revision_number - a.revision_number)
+          .slice(0, limit)
+          .map((revision) => ({
+            id: revision.id,
+            revision_number: revision.revision_number,
+            title: revision.title,
+            change_summary: revision.change_summary,
+            restored_from: revision.restored_from,
+            created_at: revision.created_at,
+            author: toSummary(revision.author_id),
+          }));
+      },
+    },
+
+    collaborators: {
+      async find(postId, userId) {
+        return copy(findCollaborator(postId, userId));
+      },
+
+      async listForPost(postId) {
+        return store.postCollaborators
+          .filter((collaborator) => collaborator.post_id === postId)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map((collaborator) => ({
+            user_id: collaborator.user_id,
+            role: collaborator.role,
+            invited_by: collaborator.invited_by,
+            accepted_at: collaborator.accepted_at,
+            created_at: collaborator.created_at,
+            user: toSummary(collaborator.user_id),
+          }));
+      },
+
+      async create(collaborator) {
+        const created: PostCollaboratorRecord = {
+          ...collaborator,
+          accepted_at: null,
+          created_at: now(),
+        };
+        store.postCollaborators.push(created);
+        return { ...created };
+      },
+
+      async update(postId, userId, changes) {
+        const collaborator = findCollaborator(postId, userId);
+        if (!collaborator) {
+          throw new Error(`Collaborator ${userId} not found`);
+        }
+        Object.assign(collaborator, changes);
+        return { ...collaborator };
+      },
+
+      async delete(postId, userId) {
+        store.postCollaborators = store.postCollaborators.filter(
+          (collaborator) =>
+            collaborator.post_id !== postId || collaborator.user_id !== userId
+        );
+      },
+    },
+
+    tags: {
+      async findById(id) {
+        return copy(findTag(id));
+      },
+
+      async findByIds(ids) {
+        return store.tags
+          .filter((tag) => ids.includes(tag.id))
+          .map((tag) => ({ ...tag }));
+      },
+
+      async findBySlug(slug) {
+        return copy(store.tags.find((tag) => tag.slug === slug));
+      },
+
+      async list({ search, limit, offset }) {
+        const term = search?.toLowerCase();
+        const matching = store.tags
+          .filter(
+            (tag) =>
+              !tag.canonical_tag_id &&
+              (!term || tag.name.toLowerCase().includes(term))
+          )
+          .sort((a, b) => a.name.localeCompare(b.name));
+        return {
+          tags: matching.slice(offset, offset + limit).map((tag) => ({
+            id: tag.id,
+            name: tag.name,
+            slug: tag.slug,
+            description: tag.description,
+            post_count: store.postTags.filter((link) => link.tag_id === tag.id)
+              .length,
+            follower_count: store.tagFollows.filter(
+              (follow) => follow.tag_id === tag.id
+            ).length,
+          })),
+          total: matching.length,
+        };
+      },
+
+      async create(tag) {
+        if (store.tags.some((existing) => existing.slug === tag.slug)) {
+          return null;
+        }
+        const timestamp = now();
+        const created: Tag = {
+          ...tag,
+          id: randomUUID(),
+          canonical_tag_id: null,
+          created_at: timestamp,
+          updated_at: timestamp,
+        };
+        store.tags.push(created);
+        return { ...created };
+      },
+
+      async updateDescription(id, description) {
+        const tag = findTag(id);
+        if (!tag) {
+          throw new Error(`Tag ${id} not found`);
+        }
+        Object.assign(tag, { description, updated_at: now() });
+        return { ...tag };
+      },
+
+      async listSynonyms(id) {
+        return store.tags
+          .filter((tag) => tag.canonical_tag_id === id)
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map((tag) => ({ id: tag.id, name: tag.name, slug: tag.slug }));
+      },
+
+      async countUsage(id) {
+        return {
+          post_count: store.postTags.filter((link) => link.tag_id === id)
+            .length,
+          follower_count: store.tagFollows.filter(
+            (follow) => follow.tag_id === id
+          ).length,
+        };
+      },
+
+      async setPostTags(postId, tagIds) {
+        store.postTags = [
+          ...store.postTags.filter((link) => link.post_id !== postId),
+          ...tagIds.map((tagId) => ({ post_id: postId, tag_id: tagId })),
+        ];
+      },
+
+      async isFollowing(userId, tagId) {
+        return store.tagFollows.some(
+          (follow) => follow.user_id === userId && follow.tag_id === tagId
+        );
+      },
+
+      async follow(userId, tagId) {
+        const following = store.tagFollows.some(
+          (follow) => follow.user_id === userId && follow.tag_id === tagId
+        );
+        if (!following) {
+          store.tagFollows.push({
+            user_id: userId,
+            tag_id: tagId,
+            created_at: now(),
+          });
+        }
+      },
+
+      async listFollowedNames(userId) {
+        return store.tagFollows
+          .filter((follow) => follow.user_id === userId)
+          .flatMap((follow) => findTag(follow.tag_id)?.name ?? []);
+      },
+
+      async unfollow(userId, tagId) {
+        store.tagFollows = store.tagFollows.filter(
+          (follow) => follow.user_id !== userId || follow.tag_id !== tagId
+        );
+      },
+
+      async merge(sources, target) {
+        const sourceIds = sources.map((tag) => tag.id);
+        const sourceNames = sources.map((tag) => tag.name);
+
+        for (const tag of store.tags) {
+          if (
+            tag.id !== target.id &&
+            (sourceIds.includes(tag.id) ||
+              (tag.canonical_tag_id &&
+                sourceIds.includes(tag.canonical_tag_id)))
+          ) {
+            Object.assign(tag, {
+              canonical_tag_id: target.id,
+              updated_at: now(),
+            });
+          }
+        }
+
+        // Links and follows move over unless the target already has them
+        const moved = <T extends { tag_id: string }>(
+          rows: T[],
+          key: (row: T) => string
+        ) => {
+          const kept = rows.filter((row) => !sourceIds.includes(row.tag_id));
+          const targetKeys = new Set(
+            kept.filter((row) => row.tag_id === target.id).map(key)
+          );
+          for (const row of rows) {
+            if (sourceIds.includes(row.tag_id) && !targetKeys.has(key(row))) {
+              targetKeys.add(key(row));
+              kept.push({ ...row, tag_id: target.id });
+            }
+          }
+          return kept;
+        };
+        store.postTags = moved(store.postTags, (link) => link.post_id);
+        store.tagFollows = moved(store.tagFollows, (follow) => follow.user_id);
+
+        const renamed = store.posts.filter((post) =>
+          post.tags?.some((name) => sourceNames.includes(name))
+        );
+        for (const post of renamed) {
+          post.tags = [
+            ...new Set(
+              post.tags!.map((name) =>
+                sourceNames.includes(name) ? target.name : name
+              )
+            ),
+          ];
+        }
+        return renamed.length;
+      },
+    },
+
+    comments: {
+      async findById(id) {
+        return copy(findComment(id));
+      },
+
+      async findView(id) {
+        const comment = findComment(id);
+        return comment ? toCommentView(comment) : null;
+      },
+
+      async listThreads({ postId, limit, before, sort }) {
+        const byDate = (a: CommentRecord, b: CommentRecord) =>
+          a.created_at.localeCompare(b.created_at);
+
+        const threads = store.comments
+          .filter(
+            (comment) =>
+              comment.post_id === postId &&
+              comment.parent_id === null &&
+              comment.status === "published" &&
+              (!before || comment.created_at < before)
+          )
+          .map(toCommentView)
+          .sort((a, b) =>
+            sort === "oldest"
+              ? byDate(a, b)
+              : sort === "newest"
+                ? byDate(b, a)
+                : b.like_count - a.like_count || byDate(b, a)
+          );
+
+        return threads.slice(0, limit).map((thread) => ({
+          ...thread,
+          replies: store.comments
+            .filter((reply) => reply.parent_id === thread.id)
+            .map(toCommentView),
+        }));
+      },
+
+      async create(comment) {
+        const timestamp = now();
+        const row: CommentRecord = {
+          ...comment,
+          id: randomUUID(),
+          is_flagged_as_spam: false,
+          like_count: 0,
+          created_at: timestamp,
+          updated_at: timestamp,
+          edited_at: null,
+          deleted_at: null,
+        };
+        store.comments.push(row);
+        return toCommentView(row);
+      },
+
+      async update(id, changes) {
+        const comment = findComment(id);
+        if (comment) {
+          Object.assign(comment, changes, { updated_at: now() });
+        }
+      },
+
+      async delete(id) {
+        // Mirrors the foreign keys: replies and reactions go with the
+        // comment, at any depth and whatever order the rows are stored in
+        const removed = new Set([id]);
+        let grew = true;
+        while (grew) {
+          grew = false;
+          for (const comment of store.comments) {
+            if (
+              comment.parent_id &&
+              removed.has(comment.parent_id) &&
+              !removed.has(comment.id)
+            ) {
+              removed.add(comment.id);
+              grew = true;
+            }
+          }
+        }
+        store.comments = store.comments.filter(
+          (comment) => !removed.has(comment.id)
+        );
+        store.reactions = store.reactions.filter(
+          (reaction) => !removed.has(reaction.comment_id)
+        );
+      },
+
+      async addEdit(edit) {
+        store.commentEdits.push({
+          ...edit,
+          id: randomUUID(),
+          edited_at: now(),
+        });
+      },
+
+      async listEdits(commentId) {
+        return store.commentEdits
+          .filter((edit) => edit.comment_id === commentId)
+          .sort((a, b) => b.edited_at.localeCompare(a.edited_at))
+          .map((edit) => ({
+            id: edit.id,
+            previous_content: edit.previous_content,
+            edit_reason: edit.edit_reason,
+            edited_at: edit.edited_at,
+            edited_by: toName(edit.edited_by),
+          }));
+      },
+
+      async listReplies(commentId) {
+        return store.comments
+          .filter((reply) => reply.parent_id === commentId)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map(toCommentView);
+      },
+
+      async listByAuthor(authorId, limit) {
+        return store.comments
+          .filter((comment) => comment.author_id === authorId)
+          .sort(byNewest)
+          .slice(0, limit)
+          .map((comment) => ({ ...comment }));
+      },
+
+      async listReceived(userId, { from, before, limit }) {
+        return store.comments
+          .filter(
+            (comment) =>
+              findPost(comment.post_id)?.author_id === userId &&
+              comment.status === "published" &&
+              comment.author_id !== userId &&
+              comment.created_at >= from &&
+              comment.created_at < before
+          )
+          .sort(byNewest)
+          .slice(0, limit)
+          .map((comment) => {
+            const post = findPost(comment.post_id)!;
+            return {
+              id: comment.id,
+              content: comment.content,
+              created_at: comment.created_at,
+              author: toName(comment.author_id),
+              post: { title: post.title, slug: post.slug },
+              reactions_count: store.reactions.filter(
+                (reaction) => reaction.comment_id === comment.id
+              ).length,
+            };
+          });
+      },
+
+      async findForModeration(id) {
+        const comment = findComment(id);
+        return comment ? toModerationComment(comment) : null;
+      },
+
+      async listForModeration(query) {
+        const search = query.search?.toLowerCase();
+        const matching = store.comments
+          .filter(
+            (comment) =>
+              (!search || comment.content.toLowerCase().includes(search)) &&
+              (!query.status || comment.status === query.status) &&
+              (query.spam === undefined ||
+                comment.is_flagged_as_spam === query.spam) &&
+              (!query.authorId || comment.author_id === query.authorId) &&
+              (!query.postId || comment.post_id === query.postId)
+          )
+          .sort((a, b) => (query.ascending ? byNewest(b, a) : byNewest(a, b)));
+
+        return {
+          comments: matching
+            .slice(query.offset, query.offset + query.limit)
+            .map(toModerationComment),
+          total: matching.length,
+        };
+      },
+
+      async countForModeration() {
+        const counts: ModerationCounts = { status_counts: {}, spam_counts: {} };
+        for (const comment of store.comments) {
+          const spam = comment.is_flagged_as_spam ? "spam" : "not_spam";
+          counts.status_counts[comment.status] =
+            (counts.status_counts[comment.status] || 0) + 1;
+          counts.spam_counts[spam] = (counts.spam_counts[spam] || 0) + 1;
+        }
+        return counts;
+      },
+
+      async updateMany(ids, changes) {
+        const timestamp = now();
+        return store.comments
+          .filter((comment) => ids.includes(comment.id))
+          .map((comment) => ({
+            ...Object.assign(comment, changes, { updated_at: timestamp }),
+          }));
+      },
+    },
+
+    reactions: {
+      async find(commentId, userId) {
+        return copy(
+          store.reactions.find(
+            (reaction) =>
+              reaction.comment_id === commentId && reaction.user_id === userId
+          )
+        );
+      },
+
+      async create(reaction) {
+        store.reactions.push({
+          ...reaction,
+          id: randomUUID(),
+          created_at: now(),
+          updated_at: null,
+        });
+      },
+
+      async updateType(id, reactionType) {
+        const reaction = store.reactions.find(
+          (candidate) => candidate.id === id
+        );
+        if (reaction) {
+          reaction.reaction_type = reactionType;
+          reaction.updated_at = now();
+        }
+      },
+
+      async delete(id) {
+        store.reactions = store.reactions.filter(
+          (reaction) => reaction.id !== id
+        );
+      },
+
+      async listForComment(commentId) {
+        return store.reactions
+          .filter((reaction) => reaction.comment_id === commentId)
+          .map((reaction) => {
+            const user = store.profiles.find(
+              (profile) => profile.id === reaction.user_id
+            );
+            return {
+              reaction_type: reaction.reaction_type,
+              user: {
+                username: user?.username || "unknown",
+                display_name: user?.display_name || null,
+                avatar_url: user?.avatar_url || null,
+              },
+            };
+          });
+      },
+    },
+
+    notifications: {
+      async insert(notifications) {
+        const rows = notifications.map((notification) => ({
+          ...notification,
+          id: randomUUID(),
+          is_read: false,
+        }));
+        store.notifications.push(...rows);
+        return rows.map(toNotificationRecord);
+      },
+
+      async findOpenGroups(userIds, groupKey, since) {
+        return store.notifications
+          .filter(
+            (row) =>
+              userIds.includes(row.user_id) &&
+              row.group_key === groupKey &&
+              !row.is_read &&
+              row.updated_at >= since
+          )
+          .map(({ id, user_id, actor_ids, actor_count }) => ({
+            id,
+            user_id,
+            actor_ids: [...actor_ids],
+            actor_count,
+          }));
+      },
+
+      async updateGroup(id, expectedCount, changes) {
+        const row = store.notifications.find(
+          (candidate) =>
+            candidate.id === id && candidate.actor_count === expectedCount
+        );
+        if (!row) {
+          return null;
+        }
+        Object.assign(row, changes);
+        return toNotificationRecord(row);
+      },
+
+      async countUnread(userId) {
+        return store.notifications.filter(
+          (row) => row.user_id === userId && !row.is_read
+        ).length;
+      },
+
+      async list(userId, query) {
+        const rows = findListed(userId, query).sort(byLatestActivity);
+        return {
+          notifications: rows
+            .slice(query.offset, query.offset + query.limit)
+            .map(toNotificationView),
+          total: rows.length,
+        };
+      },
+
+      async listGroups(userId, query) {
+        const groups = groupNotifications(
+          findListed(userId, query),
+          query.actorLimit
+        );
+        return {
+          groups: groups.slice(query.offset, query.offset + query.limit),
+          total: groups.length,
+        };
+      },
+
+      async findOwnedIds(userId, ids) {
+        return store.notifications
+          .filter((row) => row.user_id === userId && ids.includes(row.id))
+          .map((row) => row.id);
+      },
+
+      async setRead(userId, selection, isRead) {
+        const rows = store.notifications.filter(
+          (row) => row.user_id === userId && isSelected(row, selection)
+        );
+        const readAt = isRead ? now() : null;
+        for (const row of rows) {
+          row.is_read = isRead;
+          row.read_at = readAt;
+        }
+        return rows.map(toNotificationView);
+      },
+
+      async delete(userId, selection) {
+        const before = store.notifications.length;
+        store.notifications = store.notifications.filter(
+          (row) => row.user_id !== userId || !isSelected(row, selection)
+        );
+        return before - store.notifications.length;
+      },
+
+      async findVersion(userId, id) {
+        return (
+          store.notifications.find(
+            (row) => row.id === id && row.user_id === userId
+          )?.updated_at || null
+        );
+      },
+
+      async listUpdatedSince(userId, since, limit) {
+        return store.notifications
+          .filter((row) => row.user_id === userId && row.updated_at > since)
+          .sort((a, b) => a.updated_at.localeCompare(b.updated_at))
+          .slice(0, limit)
+          .map(toStreamedNotification);
+      },
+
+      async findPreferences(userIds) {
+        return store.notificationPreferences
+          .filter((row) => userIds.includes(row.user_id))
+          .map((row) => ({ ...row }));
+      },
+
+      async savePreferences(userId, changes) {
+        let row = store.notificationPreferences.find(
+          (candidate) => candidate.user_id === userId
+        );
+        if (!row) {
+          row = { user_id: userId, created_at: now() };
+          store.notificationPreferences.push(row);
+        }
+        Object.assign(row, changes, { user_id: userId, updated_at: now() });
+        return { ...row };
+      },
+    },
+
+    pushSubscriptions: {
+      async listForUser(userId) {
+        return store.pushSubscriptions
+          .filter((subscription) => subscription.user_id === userId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map((subscription) => ({ ...subscription }));
+      },
+
+      async listForUsers(userIds) {
+        return store.pushSubscriptions
+          .filter((subscription) => userIds.includes(subscription.user_id))
+          .map((subscription) => ({ ...subscription }));
+      },
+
+      async save(subscription) {
+        const existing = store.pushSubscriptions.find(
+          (candidate) =>
+            candidate.user_id === subscription.user_id &&
+            candidate.endpoint === subscription.endpoint
+        );
+        if (existing) {
+          Object.assign(existing, subscription, { created_at: now() });
+          return { ...existing };
+        }
+        const row: PushSubscriptionRecord = {
+          ...subscription,
+          id: randomUUID(),
+          created_at: now(),
+          last_used_at: null,
+        };
+        store.pushSubscriptions.push(row);
+        return { ...row };
+      },
+
+      async delete(userId, endpoint) {
+        const before = store.pushSubscriptions.length;
+        store.pushSubscriptions = store.pushSubscriptions.filter(
+          (subscription) =>
+            subscription.user_id !== userId ||
+            subscription.endpoint !== endpoint
+        );
+        return store.pushSubscriptions.length < before;
+      },
+
+      async deleteMany(ids) {
+        store.pushSubscriptions = store.pushSubscriptions.filter(
+          (subscription) => !ids.includes(subscription.id)
+        );
+      },
+
+      async markUsed(ids, usedAt) {
+        for (const subscription of store.pushSubscriptions) {
+          if (ids.includes(subscription.id)) {
+            subscription.last_used_at = usedAt;
+          }
+        }
+      },
+    },
+
+    reports: {
+      async findById(id) {
+        return copy(store.reports.find((report) => report.id === id));
+      },
+
+      async review(id, review) {
+        const report = store.reports.find((candidate) => candidate.id === id);
+        if (!report) {
+          throw new Error(`Report ${id} not found`);
+        }
+        return reviewReport(report, review);
+      },
+
+      async reviewMany(ids, review) {
+        return store.reports
+          .filter((report) => ids.includes(report.id))
+          .map((report) => reviewReport(report, review));
+      },
+
+      async findView(id) {
+        const report = store.reports.find((candidate) => candidate.id === id);
+        return report ? toReportView(report) : null;
+      },
+
+      async list(query) {
+        const matching = store.reports
+          .filter(
+            (report) =>
+              (!query.contentType ||
+                report.reported_content_type === query.contentType) &&
+              (!query.status || report.status === query.status) &&
+              (!query.severity || report.severity === query.severity)
+          )
+          .sort((a, b) => {
+            switch (query.sort) {
+              case "oldest":
+                return byNewest(b, a);
+              case "severity":
+                return (b.severity ?? "").localeCompare(a.severity ?? "");
+              case "status":
+                return a.status.localeCompare(b.status);
+              default:
+                return byNewest(a, b);
+            }
+          });
+
+        return {
+          reports: matching
+            .slice(query.offset, query.offset + query.limit)
+            .map(toReportView),
+          total: matching.length,
+        };
+      },
+
+      async listForContent(contentType, contentIds, options = {}) {
+        return store.reports
+          .filter(
+            (report) =>
+              report.reported_content_type === contentType &&
+              contentIds.includes(report.reported_content_id) &&
+              report.id !== options.excludeId
+          )
+          .sort(byNewest)
+          .slice(0, options.limit)
+          .map(toReportView);
+      },
+
+      async listPendingContentIds(contentType) {
+        return [
+          ...new Set(
+            store.reports
+              .filter(
+                (report) =>
+                  report.reported_content_type === contentType &&
+                  report.status === "pending"
+              )
+              .map((report) => report.reported_content_id)
+          ),
+        ];
+      },
+    },
+
+    settings: {
+      async get(key) {
+        return copy(
+          store.settings.find((setting) => setting.setting_key === key)
+        );
+      },
+
+      async getMany(keys) {
+        return store.settings
+          .filter((setting) => keys.includes(setting.setting_key))
+          .map((setting) => ({ ...setting }));
+      },
+
+      async list() {
+        return [...store.settings]
+          .sort(
+            (a, b) =>
+              (a.category ?? "").localeCompare(b.category ?? "") ||
+              a.setting_key.localeCompare(b.setting_key)
+          )
+          .map((setting) => ({ ...setting }));
+      },
+
+      async save(settings) {
+        return saveSettings(settings);
+      },
+
+      async replaceAll(settings) {
+        store.settings = [];
+        saveSettings(settings);
+      },
+    },
+
+    uploads: {
+      async create(upload) {
+        const row: UploadRecord = {
+          ...upload,
+          id: randomUUID(),
+          created_at: now(),
+        };
+        store.uploads.push(row);
+        return { ...row };
+      },
+
+      async findForUser(id, userId) {
+        return copy(
+          store.uploads.find(
+            (upload) => upload.id === id && upload.user_id === userId
+          )
+        );
+      },
+
+      async listForUser(userId, { context, limit }) {
+        return store.uploads
+          .filter(
+            (upload) =>
+              upload.user_id === userId &&
+              (!context || upload.context === context)
+          )
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .slice(0, limit)
+          .map((upload) => ({ ...upload }));
+      },
+
+      async delete(id) {
+        store.uploads = store.uploads.filter((upload) => upload.id !== id);
+      },
+
+      async putFile(path, bytes, contentType) {
+        if (store.files.some((file) => file.path === path)) {
+          throw new Error(`File already exists: ${path}`);
+        }
+        store.files.push({
+          path,
+          content_type: contentType,
+          size: bytes.length,
+        });
+        return `https://storage.test/uploads/${path}`;
+      },
+
+      async removeFiles(paths) {
+        store.files = store.files.filter((file) => !paths.includes(file.path));
+      },
+    },
+
+    announcements: {
+      async findById(id) {
+        return copy(
+          store.announcements.find((announcement) => announcement.id === id)
+        );
+      },
+
+      async list() {
+        return [...store.announcements]
+          .sort(
+            (a, b) =>
+              b.priority.localeCompare(a.priority) ||
+              b.created_at.localeCompare(a.created_at)
+          )
+          .map((announcement) => ({
+            ...announcement,
+            created_by: toName(announcement.created_by),
+          }));
+      },
+
+      async create(announcement) {
+        const createdAt = now();
+        const row: AnnouncementRecord = {
+          ...announcement,
+          id: randomUUID(),
+          created_at: createdAt,
+          updated_at: createdAt,
+        };
+        store.announcements.push(row);
+        return { ...row };
+      },
+
+      async listShowing(audiences, timestamp) {
+        return store.announcements
+          .filter(
+            (announcement) =>
+              announcement.is_active &&
+              audiences.includes(announcement.target_audience) &&
+              (!announcement.starts_at ||
+                announcement.starts_at <= timestamp) &&
+              (!announcement.expires_at || announcement.expires_at > timestamp)
+          )
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map((announcement) => ({ ...announcement }));
+      },
+
+      async update(id, changes) {
+        const announcement = store.announcements.find(
+          (candidate) => candidate.id === id
+        );
+        if (!announcement) {
+          throw new Error(`Announcement ${id} not found`);
+        }
+        Object.assign(announcement, changes, { updated_at: now() });
+        return { ...announcement };
+      },
+
+      async delete(id) {
+        store.announcements = store.announcements.filter(
+          (announcement) => announcement.id !== id
+        );
+        store.announcementDismissals = store.announcementDismissals.filter(
+          (dismissal) => dismissal.announcement_id !== id
+        );
+      },
+
+      async findDismissed(userId, announcementIds) {
+        return store.announcementDismissals
+          .filter(
+            (dismissal) =>
+              dismissal.user_id === userId &&
+              announcementIds.includes(dismissal.announcement_id)
+          )
+          .map((dismissal) => dismissal.announcement_id);
+      },
+
+      async dismiss(announcementId, userId) {
+        const dismissed = store.announcementDismissals.some(
+          (dismissal) =>
+            dismissal.announcement_id === announcementId &&
+            dismissal.user_id === userId
+        );
+        if (!dismissed) {
+          store.announcementDismissals.push({
+            announcement_id: announcementId,
+            user_id: userId,
+            dismissed_at: now(),
+          });
+        }
+      },
+
+      async queueNotification(announcementId, actorId) {
+        let send = findAnnouncementNotification(announcementId);
+        if (!send) {
+          send = {
+            announcement_id: announcementId,
+            actor_id: actorId,
+            status: "pending",
+            last_recipient_id: null,
+            in_app: 0,
+            push: 0,
+            claimed_at: null,
+            created_at: now(),
+            completed_at: null,
+          };
+          store.announcementNotifications.push(send);
+        }
+        return { ...send };
+      },
+
+      async listPendingNotifications(at, limit) {
+        return store.announcementNotifications
+          .flatMap((send) => {
+            const announcement = store.announcements.find(
+              (candidate) => candidate.id === send.announcement_id
+            );
+            return send.status === "pending" &&
+              announcement?.is_active &&
+              (announcement.starts_at === null || announcement.starts_at <= at)
+              ? [{ ...send, announcement: { ...announcement } }]
+              : [];
+          })
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .slice(0, limit);
+      },
+
+      async claimNotification(announcementId, claimedAt, staleBefore) {
+        const send = findAnnouncementNotification(announcementId);
+        if (
+          send?.status !== "pending" ||
+          (send.claimed_at !== null && send.claimed_at >= staleBefore)
+        ) {
+          return false;
+        }
+        send.claimed_at = claimedAt;
+        return true;
+      },
+
+      async updateNotification(announcementId, claimedAt, changes) {
+        const send = findAnnouncementNotification(announcementId);
+        if (send?.claimed_at !== claimedAt) {
+          return false;
+        }
+        Object.assign(send, changes);
+        return true;
+      },
+    },
+
+    bans: {
+      async find(userId) {
+        return copy(store.bans.find((ban) => ban.user_id === userId));
+      },
+
+      async create(ban) {
+        if (store.bans.some((existing) => existing.user_id === ban.user_id)) {
+          throw new Error(`User ${ban.user_id} is already banned`);
+        }
+        store.bans.push({ ...ban });
+      },
+
+      async delete(userId) {
+        store.bans = store.bans.filter((ban) => ban.user_id !== userId);
+      },
+
+      async deleteExpired(userId, timestamp) {
+        store.bans = store.bans.filter(
+          (ban) =>
+            ban.user_id !== userId ||
+            !ban.expires_at ||
+            ban.expires_at > timestamp
+        );
+      },
+    },
+
+    emailThrottle: {
+      async find(userId, kind, postId) {
+        return copy(
+          store.emailThrottle.find(
+            (row) =>
+              row.user_id === userId &&
+              row.kind === kind &&
+              row.post_id === postId
+          )
+        );
+      },
+
+      async findById(id) {
+        return copy(store.emailThrottle.find((row) => row.id === id));
+      },
+
+      async listDue({ sentBefore, claimedBefore, limit }) {
+        return store.emailThrottle
+          .filter(
+            (row) =>
+              row.pending_count > 0 &&
+              (row.last_sent_at === null || row.last_sent_at <= sentBefore) &&
+              (row.claimed_at === null || row.claimed_at < claimedBefore)
+          )
+          .sort((a, b) =>
+            (a.last_sent_at || "").localeCompare(b.last_sent_at || "")
+          )
+          .slice(0, limit)
+          .map((row) => ({ ...row }));
+      },
+
+      async create(row) {
+        const exists = store.emailThrottle.some(
+          (existing) =>
+            existing.user_id === row.user_id &&
+            existing.kind === row.kind &&
+            existing.post_id === row.post_id
+        );
+        if (exists) {
+          return null;
+        }
+        const id = randomUUID();
+        store.emailThrottle.push({ ...row, id });
+        return id;
+      },
+
+      async updateIf(id, expected, changes) {
+        const row = store.emailThrottle.find(
+          (candidate) => candidate.id === id
+        );
+        const matches =
+          row !== undefined &&
+          Object.entries(expected).every(
+            ([column, value]) => row[column as keyof typeof expected] === value
+          );
+        if (matches) {
+          Object.assign(row, changes);
+        }
+        return matches;
+      },
+    },
+
+    digestSends: {
+      async find(userId, periodStart) {
+        return copy(
+          store.digestSends.find(
+            (send) =>
+              send.user_id === userId && send.period_start === periodStart
+          )
+        );
+      },
+
+      async create(userId, periodStart, claimedAt) {
+        const exists = store.digestSends.some(
+          (send) => send.user_id === userId && send.period_start === periodStart
+        );
+        if (exists) {
+          return null;
+        }
+        const id = randomUUID();
+        store.digestSends.push({
+          id,
+          user_id: userId,
+          period_start: periodStart,
+          status: "pending",
+          reason: null,
+          summary: null,
+          attempts: 1,
+          claimed_at: claimedAt,
+          created_at: claimedAt,
+          completed_at: null,
+        });
+        return id;
+      },
+
+      async update(id, changes) {
+        const send = store.digestSends.find((candidate) => candidate.id === id);
+        if (send) {
+          Object.assign(send, changes);
+        }
+      },
+
+      async updateIf(id, expected, changes) {
+        const send = store.digestSends.find(
+          (candidate) =>
+            candidate.id === id &&
+            candidate.status === expected.status &&
+            candidate.attempts === expected.attempts
+        );
+        if (send) {
+          Object.assign(send, changes);
+        }
+        return send !== undefined;
+      },
+    },
+
+    feed: {
+      async listCandidates(readerId, { from, to, perSource }) {
+        const followedAuthors = new Set(
+          store.follows
+            .filter((follow) => follow.follower_id === readerId)
+            .map((follow) => follow.following_id)
+        );
+        const followedTags = new Set(
+          store.tagFollows
+            .filter((follow) => follow.user_id === readerId)
+            .map((follow) => findTag(follow.tag_id)?.name)
+        );
+        const collaborators = new Set<string>();
+        for (const collaborator of store.postCollaborators) {
+          const author = findPost(collaborator.post_id)?.author_id;
+          if (!collaborator.accepted_at || !author) {
+            continue;
+          }
+          if (collaborator.user_id === readerId) {
+            collaborators.add(author);
+          } else if (author === readerId) {
+            collaborators.add(collaborator.user_id);
+          }
+        }
+
+        const viewed = new Set(
+          store.postViews
+            .filter((view) => view.user_id === readerId)
+            .map((view) => view.post_id)
+        );
+
+        const eligible = store.posts
+          .map((post) => ({
+            ...toPostView(post),
+            view_count: post.view_count ?? null,
+          }))
+          .filter(
+            (post) =>
+              post.status === "published" &&
+              post.published_at !== null &&
+              post.published_at >= from &&
+              post.published_at <= to &&
+              post.author_id !== readerId &&
+              !viewed.has(post.id)
+          );
+        const byPublished = [...eligible].sort((a, b) =>
+          (b.published_at || "").localeCompare(a.published_at || "")
+        );
+
+        const sources: [FeedSource, typeof eligible][] = [
+          [
+            "trending",
+            [...eligible].sort(
+              (a, b) => (b.view_count || 0) - (a.view_count || 0)
+            ),
+          ],
+          [
+            "followed_author",
+            byPublished.filter((post) => followedAuthors.has(post.author_id)),
+          ],
+          [
+            "followed_tag",
+            byPublished.filter((post) =>
+              post.tags.some((name) => followedTags.has(name))
+            ),
+          ],
+          [
+            "collaborator",
+            byPublished.filter((post) => collaborators.has(post.author_id)),
+          ],
+        ];
+
+        const candidates = new Map<string, FeedCandidate>();
+        for (const [source, posts] of sources) {
+          for (const post of posts.slice(0, perSource)) {
+            const existing = candidates.get(post.id);
+            if (existing) {
+              existing.sources.push(source);
+            } else {
+              candidates.set(post.id, { post, sources: [source] });
+            }
+          }
+        }
+        return [...candidates.values()];
+      },
+    },
+
+    // Matches case-insensitive substrings instead of ranking lexemes: a
+    // row's rank is how many times the included terms occur in it
+    search: {
+      async search(query) {
+        const { include, exclude } = parseSearchTerms(query.text);
+        const inRange = (at: string | null) =>
+          at !== null &&
+          (!query.from || at >= query.from) &&
+          (!query.to || at <= query.to);
+
+        const documents = searchDocuments(query, inRange);
+        return documents
+          .map(({ text, hit }) => {
+            const lower = text.toLowerCase();
+            const rank = include.every((term) => lower.includes(term))
+              ? include.reduce(
+                  (sum, term) => sum + lower.split(term).length - 1,
+                  0
+                )
+              : 0;
+            return exclude.some((term) => lower.includes(term))
+              ? null
+              : { ...hit, rank };
+          })
+          .filter((hit): hit is SearchHit => hit !== null && hit.rank > 0)
+          .filter(
+            (hit) =>
+              !query.after ||
+              hit.rank < query.after.rank ||
+              (hit.rank === query.after.rank && hit.id > query.after.id)
+          )
+          .sort((a, b) => b.rank - a.rank || a.id.localeCompare(b.id))
+          .slice(0, query.limit);
+      },
+    },
+
+    // Reads the columns the Supabase reports use from the rows the store
+    // has; nothing here writes error logs, so there are none to count
+    analytics: {
+      async recordEvent(event) {
+        store.analyticsEvents.push({ ...event });
+      },
+
+      async incrementPostViews(postId) {
+        const post = findPost(postId);
+        if (post) {
+          post.view_count = (post.view_count || 0) + 1;
+        }
+      },
+
+      async recordPostView(userId, postId) {
+        const viewedAt = now();
+        const view = store.postViews.find(
+          (candidate) =>
+            candidate.user_id === userId && candidate.post_id === postId
+        );
+        if (view) {
+          view.viewed_at = viewedAt;
+        } else {
+          store.postViews.push({
+            user_id: userId,
+            post_id: postId,
+            viewed_at: viewedAt,
+          });
+        }
+      },
+
+      async ping() {},
+
+      async getAuthorActivity(authorId, { from, before }) {
+        const inRange = (at: string | null) =>
+          at !== null && at >= from && at < before;
+        const authored = store.posts.filter(
+          (post) => post.author_id === authorId
+        );
+        const commentsOn = (postIds: string[]) =>
+          store.comments.filter((comment) => postIds.includes(comment.post_id));
+        const received = commentsOn(authored.map((post) => post.id));
+        const reactionsOn = (comments: CommentRecord[]) =>
+          store.reactions.filter((reaction) =>
+            comments.some((comment) => comment.id === reaction.comment_id)
+          );
+
+        return {
+          posts: authored
+            .filter(
+              (post) =>
+                post.status === "published" && inRange(post.published_at)
+            )
+            .map((post) => {
+              const comments = commentsOn([post.id]);
+              return {
+                title: post.title,
+                slug: post.slug,
+                views: post.view_count || 0,
+                reactions: reactionsOn(comments).length,
+                comments: comments.length,
+              };
+            }),
+          reactions_received: reactionsOn(received).filter((reaction) =>
+            inRange(reaction.created_at)
+          ).length,
+          comments_received: received.filter((comment) =>
+            inRange(comment.created_at)
+          ).length,
+          followers_gained: store.follows.filter(
+            (follow) =>
+              follow.following_id === authorId && inRange(follow.created_at)
+          ).length,
+        };
+      },
+
+      async listReadingHistory(userId, from) {
+        return store.postViews
+          .filter((view) => view.user_id === userId && view.viewed_at >= from)
+          .flatMap((view) => {
+            const post = findPost(view.post_id);
+            if (!post) {
+              return [];
+            }
+            const { tags, reading_time } = toPostView(post);
+            return [
+              {
+                viewed_at: view.viewed_at,
+                tags,
+                reading_time: reading_time || 0,
+              },
+            ];
+          });
+      },
+
+      async listEventTimes(userId, from) {
+        return store.analyticsEvents
+          .filter(
+            (event) => event.user_id === userId && event.created_at >= from
+          )
+          .map((event) => event.created_at)
+          .sort((a, b) => b.localeCompare(a));
+      },
+
+      async count(resource, range = {}) {
+        const createdAt: Record<typeof resource, () => string[]> = {
+          profiles: () =>
+            store.profiles.map((profile) => profile.created_at || EPOCH),
+          posts: () => store.posts.map((post) => toPostView(post).created_at),
+          comments: () => store.comments.map((comment) => comment.created_at),
+        };
+        return createdAt[resource]().filter(
+          (at) =>
+            (!range.from || at >= range.from) &&
+            (!range.before || at < range.before)
+        ).length;
+      },
+
+      async sumPostViews() {
+        return store.posts.reduce(
+          (sum, post) => sum + (post.view_count || 0),
+          0
+        );
+      },
+
+      async countActiveUsers(from) {
+        return new Set(
+          store.activityLogs
+            .filter((log) => log.created_at >= from)
+            .map((log) => log.user_id)
+        ).size;
+      },
+
+      async countErrors() {
+        return 0;
+      },
+
+      async listTopPosts(limit) {
+        return store.posts
+          .filter((post) => post.status === "published")
+          .sort((a, b) => (b.view_count || 0) - (a.view_count || 0))
+          .slice(0, limit)
+          .map((post) => ({
+            id: post.id,
+            title: post.title,
+            slug: post.slug,
+            view_count: post.view_count || 0,
+            author: toName(post.author_id),
+          }));
+      },
+
+      async listTopAuthors(from, limit) {
+        const authors = new Map<string, TopAuthor>();
+        for (const post of store.posts) {
+          const author = toSummary(post.author_id);
+          if (
+            author &&
+            post.status === "published" &&
+            toPostView(post).created_at >= from
+          ) {
+            const counted = authors.get(author.id) || {
+              ...author,
+              post_count: 0,
+            };
+            counted.post_count++;
+            authors.set(author.id, counted);
+          }
+        }
+        return [...authors.values()]
+          .sort((a, b) => b.post_count - a.post_count)
+          .slice(0, limit);
+      },
+
+      async listTopTags(from, limit) {
+        const counts = new Map<string, TopTag>();
+        for (const use of store.postTags) {
+          const post = findPost(use.post_id);
+          const tag = findTag(use.tag_id);
+          const counted = findTag(tag?.canonical_tag_id || null) || tag;
+          if (counted && post && toPostView(post).created_at >= from) {
+            const entry = counts.get(counted.id) || {
+              id: counted.id,
+              name: counted.name,
+              usage_count: 0,
+            };
+            entry.usage_count++;
+            counts.set(counted.id, entry);
+          }
+        }
+        return [...counts.values()]
+          .sort((a, b) => b.usage_count - a.usage_count)
+          .slice(0, limit);
+      },
+    },
+
+    logs: {
+      async logActivity(entry) {
+        store.activityLogs.push({ ...entry, created_at: now() });
+      },
+
+      async logAdminAction(entry) {
+        store.adminActions.push({
+          ...entry,
+          id: randomUUID(),
+          created_at: now(),
+        });
+      },
+
+      async addAdminNote(note) {
+        store.adminNotes.push({ ...note, created_at: now() });
+      },
+
+      async listAdminActions(targetId, limit) {
+        return store.adminActions
+          .filter((action) => action.target_id === targetId)
+          .sort(byNewest)
+          .slice(0, limit)
+          .map((action) => ({
+            id: action.id,
+            action_type: action.action_type,
+            details: action.details,
+            created_at: action.created_at,
+            admin: toName(action.admin_id),
+          }));
+      },
+
+      // activity_logs and user_activity_logs are one store here
+      async listUserActivity(userId, limit) {
+        return store.activityLogs
+          .filter((entry) => entry.user_id === userId)
+          .sort(byNewest)
+          .slice(0, limit)
+          .map((entry) => ({
+            action_type: entry.action,
+            created_at: entry.created_at,
+          }));
+      },
+    },
+  };
+}
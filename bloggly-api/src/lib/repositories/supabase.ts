@@ -0,0 +1,2970 @@
+// src/lib/repositories/supabase.ts
+import { SupabaseClient } from "@supabase/supabase-js";
+import { isUuid } from "../utils";
+import {
+  AdminActionView,
+  AnnouncementView,
+  CommentEditView,
+  CommentThread,
+  CommentView,
+  FeedCandidate,
+  FollowDirection,
+  FollowEntry,
+  ModerationComment,
+  ModerationCounts,
+  ModerationPost,
+  NewSetting,
+  NotificationGroupView,
+  NotificationSelection,
+  NotificationView,
+  PostCollaboratorView,
+  PostRevisionSummary,
+  ProfileName,
+  ReactionType,
+  ReactionWithUser,
+  ReadingHistoryEntry,
+  ReceivedComment,
+  Repositories,
+  SearchHit,
+  SearchQuery,
+  StoredSetting,
+  TagListing,
+  TopAuthor,
+  TopPost,
+} from "./types";
+
+const PROFILE_SUMMARY = "id, username, display_name, avatar_url";
+
+const COMMENT_VIEW = `
+  *,
+  author:profiles(${PROFILE_SUMMARY}),
+  reactions_count:comment_reactions(reaction_type, count),
+  replies_count:comments!parent_id(count)
+`;
+
+const PROFILE_NAME = "username, display_name";
+
+const POST_VIEW = `*, author:profiles(${PROFILE_SUMMARY})`;
+
+const MODERATION_POST = `
+  id, author_id, title, slug, excerpt, status, allow_comments, published_at,
+  view_count, created_at, updated_at,
+  author:profiles(${PROFILE_SUMMARY}, email),
+  tags:post_tags(tag:tags(name)),
+  comments_count:comments(count)
+`;
+
+// The listing leaves the content out; find() returns a whole revision
+const REVISION_SUMMARY = `
+  id, revision_number, title, change_summary, restored_from, created_at,
+  author:profiles!author_id(${PROFILE_SUMMARY})
+`;
+
+const TAG_COLUMNS =
+  "id, name, slug, description, canonical_tag_id, created_by, created_at, updated_at";
+
+// Each search type is ranked by a database function that applies
+// websearch_to_tsquery against the table's tsvector and returns ts_rank as
+// `rank` plus ts_headline output for highlighting, ordered by (rank, id).
+// They share one signature; filters a type has no column for are ignored.
+const searchFunctions: Record<SearchQuery["type"], string> = {
+  posts: "search_posts",
+  comments: "search_comments",
+  users: "search_profiles",
+  tags: "search_tags",
+};
+
+// How often a revision is renumbered after losing a race for its number
+const REVISION_SAVE_ATTEMPTS = 5;
+
+const COLLABORATOR_COLUMNS =
+  "post_id, user_id, role, invited_by, accepted_at, created_at";
+
+const MODERATION_COMMENT = `
+  *,
+  author:profiles(${PROFILE_SUMMARY}, email),
+  post:posts(id, title, slug, author:profiles(${PROFILE_NAME})),
+  parent_comment:comments!parent_id(
+    id,
+    content,
+    author:profiles(${PROFILE_NAME})
+  ),
+  reactions_count:comment_reactions(count),
+  replies_count:comments!parent_id(count),
+  reports_count:content_reports!reported_content_id(count)
+`;
+
+const REPORT_VIEW = `
+  *,
+  reporter:profiles!reporter_id(${PROFILE_SUMMARY}, email),
+  reviewed_by_admin:profiles!reviewed_by(id, ${PROFILE_NAME})
+`;
+
+const STREAMED_NOTIFICATION =
+  "id, actor_id, type, title, message, data, is_read, created_at, updated_at";
+
+const NOTIFICATION_COLUMNS = `user_id, ${STREAMED_NOTIFICATION}`;
+
+const NOTIFICATION_VIEW = `
+  id, actor_id, type, title, message, data, is_read, created_at, updated_at,
+  group_key, actor_ids, actor_count,
+  actor:profiles!notifications_actor_id_fkey(username, display_name, avatar_url)
+`;
+
+const SETTING_COLUMNS =
+  "setting_key, setting_value, category, description, updated_by, updated_at";
+
+const PUSH_SUBSCRIPTION_COLUMNS =
+  "id, user_id, endpoint, p256dh, auth, user_agent, created_at, last_used_at";
+
+// A row of notification_groups() (supabase/migrations)
+interface NotificationGroupRow extends NotificationGroupView {
+  total_groups: number;
+}
+
+function toNotificationGroup(row: NotificationGroupRow): NotificationGroupView {
+  return {
+    group_key: row.group_key,
+    notification_ids: row.notification_ids,
+    type: row.type,
+    title: row.title,
+    message: row.message,
+    data: row.data,
+    actor_ids: row.actor_ids,
+    actor_count: row.actor_count,
+    unread_count: row.unread_count,
+    is_read: row.is_read,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+interface Filterable<T> {
+  eq(column: string, value: unknown): T;
+  in(column: string, values: unknown[]): T;
+}
+
+// Narrows a query on one reader's notifications to the selection
+function applySelection<T extends Filterable<T>>(
+  query: T,
+  selection: NotificationSelection
+): T {
+  if ("ids" in selection) {
+    return query.in("id", selection.ids);
+  }
+  if ("groupKeys" in selection) {
+    return query.in("group_key", selection.groupKeys);
+  }
+  if ("read" in selection) {
+    return query.eq("is_read", true);
+  }
+  return query;
+}
+
+interface CommentViewRow
+  extends Omit<CommentView, "reactions_count" | "replies_count"> {
+  reactions_count?: { reaction_type: ReactionType; count: number }[];
+  replies_count?: { count: number }[];
+  replies?: CommentViewRow[];
+}
+
+// PostgREST returns aggregates of embedded tables as arrays of rows
+function toCommentView(row: CommentViewRow): CommentView {
+  return {
+    ...row,
+    reactions_count: Object.fromEntries(
+      (row.reactions_count || []).map((reaction) => [
+        reaction.reaction_type,
+        reaction.count,
+      ])
+    ),
+    replies_count: row.replies_count?.[0]?.count || 0,
+  };
+}
+
+type Counted<T, K extends keyof T> = Omit<T, K> & {
+  [Key in K]?: { count: number }[];
+};
+
+type ModerationCommentRow = Counted<
+  ModerationComment,
+  "reactions_count" | "replies_count" | "reports_count"
+>;
+
+function toModerationComment(row: ModerationCommentRow): ModerationComment {
+  return {
+    ...row,
+    reactions_count: row.reactions_count?.[0]?.count || 0,
+    replies_count: row.replies_count?.[0]?.count || 0,
+    reports_count: row.reports_count?.[0]?.count || 0,
+  };
+}
+
+type ModerationPostRow = Counted<
+  Omit<ModerationPost, "tags">,
+  "comments_count"
+> & {
+  tags: { tag: { name: string } | null }[] | null;
+};
+
+function toModerationPost(row: ModerationPostRow): ModerationPost {
+  return {
+    ...row,
+    tags: (row.tags || []).flatMap(({ tag }) => (tag ? [tag.name] : [])),
+    comments_count: row.comments_count?.[0]?.count || 0,
+  };
+}
+
+// Escapes user input for use inside a PostgREST ilike filter string. LIKE
+// wildcards are escaped, and the characters PostgREST uses to separate
+// filters are removed along with "*", which PostgREST reads as "%" and
+// which no escape survives. The input can only ever be a literal substring.
+function escapeLikePattern(value: string): string {
+  return value
+    .replace(/[,()"*]/g, " ")
+    .replace(/[\\%_]/g, (match) => `\\${match}`)
+    .trim();
+}
+
+// The user's own column and the other user's column for each side of the
+// follow graph: followers are rows pointing at the user, following rows
+// from the user
+function followColumns(direction: FollowDirection) {
+  return direction === "followers"
+    ? (["following_id", "follower_id"] as const)
+    : (["follower_id", "following_id"] as const);
+}
+
+type TagListingRow = Counted<TagListing, "post_count" | "follower_count">;
+
+type ReceivedCommentRow = Counted<ReceivedComment, "reactions_count"> & {
+  post: { author_id: string; title: string; slug: string };
+};
+
+async function listFollowedAuthorIds(
+  client: SupabaseClient,
+  userId: string
+): Promise<string[]> {
+  const { data, error } = await client
+    .from("follows")
+    .select("following_id")
+    .eq("follower_id", userId);
+
+  if (error) {
+    throw error;
+  }
+  return data.map((follow) => follow.following_id);
+}
+
+async function listFollowedTagNames(
+  client: SupabaseClient,
+  userId: string
+): Promise<string[]> {
+  const { data, error } = await client
+    .from("tag_follows")
+    .select("tag:tags(name)")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+  return (data as unknown as { tag: { name: string } | null }[])
+    .map((row) => row.tag?.name)
+    .filter((name): name is string => !!name);
+}
+
+// PostgREST filter for the rows after the cursor in (column, id) descending
+// order. Callers validate the cursor, so neither value can carry filter
+// syntax.
+function cursorFilter(column: string, after: { at: string; id: string }) {
+  const at = new Date(after.at).toISOString();
+  return `${column}.lt.${at},and(${column}.eq.${at},id.lt.${after.id})`;
+}
+
+function toCommentThread(row: CommentViewRow): CommentThread {
+  return {
+    ...toCommentView(row),
+    replies: (row.replies || []).map(toCommentView),
+  };
+}
+
+function countByStatus(rows: { status: string }[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const { status } of rows) {
+    counts[status] = (counts[status] || 0) + 1;
+  }
+  return counts;
+}
+
+async function logWrite(
+  write: PromiseLike<{ error: unknown }>,
+  description: string
+): Promise<void> {
+  const { error } = await write;
+  if (error) {
+    console.error(`Error writing ${description}:`, error);
+  }
+}
+
+// Report reads come back empty when they fail; see AnalyticsRepository
+async function logRead<T>(
+  read: PromiseLike<{ data: T | null; error: unknown }>,
+  fallback: T,
+  description: string
+): Promise<T> {
+  const { data, error } = await read;
+  if (error) {
+    console.error(`Error reading ${description}:`, error);
+  }
+  return data ?? fallback;
+}
+
+async function logCount(
+  read: PromiseLike<{ count: number | null; error: unknown }>,
+  description: string
+): Promise<number> {
+  const { count, error } = await read;
+  if (error) {
+    console.error(`Error counting ${description}:`, error);
+  }
+  return count || 0;
+}
+
+export function createSupabaseRepositories(
+  client: SupabaseClient
+): Repositories {
+  async function saveSettings(
+    settings: NewSetting[]
+  ): Promise<StoredSetting[]> {
+    if (settings.length === 0) {
+      return [];
+    }
+    const updatedAt = new Date().toISOString();
+    const { data, error } = await client
+      .from("platform_settings")
+      .upsert(
+        settings.map((setting) => ({ ...setting, updated_at: updatedAt })),
+        { onConflict: "setting_key" }
+      )
+      .select(SETTING_COLUMNS);
+
+    if (error) {
+      throw error;
+    }
+    return data;
+  }
+
+  return {
+    auth: {
+      async getUserByToken(token) {
+        const {
+          data: { user },
+          error,
+        } = await client.auth.getUser(token);
+
+        if (error) {
+          // Auth answers 4xx for tokens it does not accept
+          if (error.status && error.status >= 400 && error.status < 500) {
+            return null;
+          }
+          throw error;
+        }
+        return user;
+      },
+
+      async setBanDuration(userId, duration) {
+        const { error } = await client.auth.admin.updateUserById(userId, {
+          ban_duration: duration,
+        });
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async deleteUser(userId) {
+        const { error } = await client.auth.admin.deleteUser(userId);
+
+        if (error) {
+          throw error;
+        }
+      },
+    },
+
+    profiles: {
+      async findById(id) {
+        const { data, error } = await client
+          .from("profiles")
+          .select(`${PROFILE_SUMMARY}, email, role`)
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async findByIds(ids) {
+        if (ids.length === 0) {
+          return [];
+        }
+        const { data, error } = await client
+          .from("profiles")
+          .select(`${PROFILE_SUMMARY}, email, role`)
+          .in("id", ids);
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async findByUsernames(usernames) {
+        if (usernames.length === 0) {
+          return [];
+        }
+        const { data, error } = await client
+          .from("profiles")
+          .select(`${PROFILE_SUMMARY}, email, role`)
+          .in("username", usernames);
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async findByRoles(roles) {
+        const { data, error } = await client
+          .from("profiles")
+          .select(`${PROFILE_SUMMARY}, email, role`)
+          .in("role", roles)
+          .order("username");
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async listIds({ after, limit, roles, excludeRoles }) {
+        let query = client
+          .from("profiles")
+          .select("id")
+          .order("id")
+          .limit(limit);
+
+        if (after) {
+          query = query.gt("id", after);
+        }
+        if (roles) {
+          query = query.in("role", roles);
+        } else if (excludeRoles) {
+          query = query.or(
+            `role.is.null,role.not.in.(${excludeRoles.join(",")})`
+          );
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+          throw error;
+        }
+        return data.map((profile) => profile.id);
+      },
+
+      async findDetail(id) {
+        const { data, error } = await client
+          .from("profiles")
+          .select(
+            `${PROFILE_SUMMARY}, email, role, bio, website_url, location,
+            social_twitter, social_github, social_linkedin, is_email_verified,
+            email_notification_preferences, created_at, updated_at`
+          )
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async countActivity(id) {
+        const count = (column: string) =>
+          client
+            .from("follows")
+            .select("id", { count: "exact", head: true })
+            .eq(column, id);
+        const [posts, comments, followers, following] = await Promise.all([
+          client.from("posts").select("status").eq("author_id", id),
+          client.from("comments").select("status").eq("author_id", id),
+          count("following_id"),
+          count("follower_id"),
+        ]);
+
+        const failed = [posts, comments, followers, following].find(
+          (result) => result.error
+        );
+        if (failed) {
+          throw failed.error;
+        }
+        return {
+          posts_by_status: countByStatus(posts.data || []),
+          comments_by_status: countByStatus(comments.data || []),
+          followers_count: followers.count || 0,
+          following_count: following.count || 0,
+        };
+      },
+
+      async updateRole(id, role) {
+        const { error } = await client
+          .from("profiles")
+          .update({ role, updated_at: new Date().toISOString() })
+          .eq("id", id);
+
+        if (error) {
+          throw error;
+        }
+      },
+    },
+
+    follows: {
+      async exists(followerId, followingId) {
+        const { data, error } = await client
+          .from("follows")
+          .select("id")
+          .eq("follower_id", followerId)
+          .eq("following_id", followingId)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data !== null;
+      },
+
+      async create(followerId, followingId) {
+        const { data, error } = await client
+          .from("follows")
+          .upsert(
+            {
+              follower_id: followerId,
+              following_id: followingId,
+              created_at: new Date().toISOString(),
+            },
+            { onConflict: "follower_id,following_id", ignoreDuplicates: true }
+          )
+          .select("id")
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data !== null;
+      },
+
+      async delete(followerId, followingId) {
+        const { data, error } = await client
+          .from("follows")
+          .delete()
+          .eq("follower_id", followerId)
+          .eq("following_id", followingId)
+          .select("id");
+
+        if (error) {
+          throw error;
+        }
+        return data.length > 0;
+      },
+
+      async list(userId, direction, { limit, after }) {
+        const [ownColumn, otherColumn] = followColumns(direction);
+        let query = client
+          .from("follows")
+          .select(
+            `id, created_at,
+            user:profiles!${otherColumn}(${PROFILE_SUMMARY}, bio)`
+          )
+          .eq(ownColumn, userId)
+          .order("created_at", { ascending: false })
+          .order("id", { ascending: false })
+          .limit(limit);
+
+        if (after) {
+          query = query.or(cursorFilter("created_at", after));
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+          throw error;
+        }
+        return data as unknown as FollowEntry[];
+      },
+
+      async filter(userId, direction, userIds) {
+        const [ownColumn, otherColumn] = followColumns(direction);
+        const { data, error } = await client
+          .from("follows")
+          .select(otherColumn)
+          .eq(ownColumn, userId)
+          .in(otherColumn, userIds);
+
+        if (error) {
+          throw error;
+        }
+        return (data as unknown as Record<string, string>[]).map(
+          (follow) => follow[otherColumn]
+        );
+      },
+
+      async listFollowerIds(userId, { after, limit }) {
+        let query = client
+          .from("follows")
+          .select("follower_id")
+          .eq("following_id", userId)
+          .order("follower_id")
+          .limit(limit);
+
+        if (after) {
+          query = query.gt("follower_id", after);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+          throw error;
+        }
+        return data.map((follow) => follow.follower_id);
+      },
+
+      async listFollowingIds(userId) {
+        return listFollowedAuthorIds(client, userId);
+      },
+
+      async listNewFollowers(userId, { from, before, limit }) {
+        const { data, error, count } = await client
+          .from("follows")
+          .select("follower:profiles!follower_id(username, display_name)", {
+            count: "exact",
+          })
+          .eq("following_id", userId)
+          .gte("created_at", from)
+          .lt("created_at", before)
+          .order("created_at", { ascending: false })
+          .limit(limit);
+
+        if (error) {
+          throw error;
+        }
+        return {
+          followers: (
+            data as unknown as { follower: ProfileName | null }[]
+          ).flatMap((row) => (row.follower ? [row.follower] : [])),
+          total: count || 0,
+        };
+      },
+    },
+
+    posts: {
+      async findById(id) {
+        const { data, error } = await client
+          .from("posts")
+          .select(
+            "id, author_id, title, slug, status, allow_comments, published_at"
+          )
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async findView(idOrSlug) {
+        const { data, error } = await client
+          .from("posts")
+          .select(POST_VIEW)
+          .eq(isUuid(idOrSlug) ? "id" : "slug", idOrSlug)
+          .neq("status", "deleted")
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async findForModeration(id) {
+        const { data, error } = await client
+          .from("posts")
+          .select(MODERATION_POST)
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data
+          ? toModerationPost(data as unknown as ModerationPostRow)
+          : null;
+      },
+
+      async list({ authorId, status, tag, orderBy, after, limit }) {
+        let query = client
+          .from("posts")
+          .select(POST_VIEW)
+          .order(orderBy, { ascending: false })
+          .order("id", { ascending: false })
+          .limit(limit);
+
+        if (authorId) {
+          query = query.eq("author_id", authorId);
+        }
+        if (status) {
+          query = query.eq("status", status);
+        }
+        if (tag) {
+          query = query.contains("tags", [tag]);
+        }
+        if (after) {
+          const { at, id } = after;
+          query = id
+            ? query.or(cursorFilter(orderBy, { at, id }))
+            : query.lt(orderBy, at);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async listForModeration({ search, status, sort, limit, offset }) {
+        let query = client
+          .from("posts")
+          .select(MODERATION_POST, { count: "exact" })
+          .range(offset, offset + limit - 1);
+
+        if (search) {
+          const pattern = escapeLikePattern(search);
+          query = query.or(
+            `title.ilike.%${pattern}%,excerpt.ilike.%${pattern}%`
+          );
+        }
+        if (status) {
+          query = query.eq("status", status);
+        }
+        query =
+          sort === "most_viewed"
+            ? query.order("view_count", { ascending: false })
+            : query.order("created_at", { ascending: sort === "oldest" });
+
+        const { data, error, count } = await query;
+
+        if (error) {
+          throw error;
+        }
+        return {
+          posts: (data as unknown as ModerationPostRow[]).map(toModerationPost),
+          total: count || 0,
+        };
+      },
+
+      async listSlugs(prefix, excludePostId) {
+        let query = client
+          .from("posts")
+          .select("slug")
+          .like("slug", `${escapeLikePattern(prefix)}%`);
+
+        if (excludePostId) {
+          query = query.neq("id", excludePostId);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+          throw error;
+        }
+        return data.map((row) => row.slug);
+      },
+
+      async create(post) {
+        const now = new Date().toISOString();
+        const { data, error } = await client
+          .from("posts")
+          .insert({ ...post, created_at: now, updated_at: now })
+          .select(POST_VIEW)
+          .single();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async update(id, changes) {
+        const { data, error } = await client
+          .from("posts")
+          .update({ ...changes, updated_at: new Date().toISOString() })
+          .eq("id", id)
+          .select(POST_VIEW)
+          .single();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async updateStatus(id, status) {
+        const { error } = await client
+          .from("posts")
+          .update({ status })
+          .eq("id", id);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async listDue(schedule, now) {
+        const column =
+          schedule === "publish" ? "scheduled_for" : "unpublish_at";
+        const { data, error } = await client
+          .from("posts")
+          .select(POST_VIEW)
+          .eq("status", schedule === "publish" ? "draft" : "published")
+          .not(column, "is", null)
+          .lte(column, now)
+          .order(column, { ascending: true });
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async updateIf(id, expected, changes) {
+        let query = client
+          .from("posts")
+          .update({ ...changes, updated_at: new Date().toISOString() })
+          .eq("id", id);
+
+        for (const [column, value] of Object.entries(expected)) {
+          query =
+            value === null ? query.is(column, null) : query.eq(column, value);
+        }
+
+        const { data, error } = await query.select("id").maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data !== null;
+      },
+
+      async listPublished({
+        from,
+        before,
+        excludeAuthorId,
+        authorIds,
+        tags,
+        limit,
+      }) {
+        let query = client
+          .from("posts")
+          .select(POST_VIEW)
+          .eq("status", "published")
+          .gte("published_at", from)
+          .lt("published_at", before)
+          .neq("author_id", excludeAuthorId)
+          .order("published_at", { ascending: false })
+          .limit(limit);
+
+        if (authorIds) {
+          query = query.in("author_id", authorIds);
+        }
+        if (tags) {
+          query = query.overlaps("tags", tags);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+    },
+
+    revisions: {
+      // Two saves of one post can read the same latest number. The unique
+      // constraint on (post_id, revision_number) rejects the loser, which
+      // reads the latest number again and retries.
+      async create(revision) {
+        for (let attempt = 1; ; attempt++) {
+          const { data: latest, error: latestError } = await client
+            .from("post_revisions")
+            .select("revision_number")
+            .eq("post_id", revision.post_id)
+            .order("revision_number", { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+          if (latestError) {
+            throw latestError;
+          }
+
+          const { data, error } = await client
+            .from("post_revisions")
+            .insert({
+              ...revision,
+              revision_number: (latest?.revision_number || 0) + 1,
+              created_at: new Date().toISOString(),
+            })
+            .select()
+            .single();
+
+          if (!error) {
+            return data;
+          }
+          if (error.code !== "23505" || attempt === REVISION_SAVE_ATTEMPTS) {
+            throw error;
+          }
+        }
+      },
+
+      async find(postId, revisionNumber) {
+        const { data, error } = await client
+          .from("post_revisions")
+          .select("*")
+          .eq("post_id", postId)
+          .eq("revision_number", revisionNumber)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async hasAny(postId) {
+        const { count, error } = await client
+          .from("post_revisions")
+          .select("id", { count: "exact", head: true })
+          .eq("post_id", postId);
+
+        if (error) {
+          throw error;
+        }
+        return Boolean(count);
+      },
+
+      async list(postId, { limit, before }) {
+        let query = client
+          .from("post_revisions")
+          .select(REVISION_SUMMARY)
+          .eq("post_id", postId)
+          .order("revision_number", { ascending: false })
+          .limit(limit);
+
+        if (before) {
+          query = query.lt("revision_number", before);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+          throw error;
+        }
+        return data as unknown as PostRevisionSummary[];
+      },
+    },
+
+    collaborators: {
+      async find(postId, userId) {
+        const { data, error } = await client
+          .from("post_collaborators")
+          .select(COLLABORATOR_COLUMNS)
+          .eq("post_id", postId)
+          .eq("user_id", userId)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async listForPost(postId) {
+        const { data, error } = await client
+          .from("post_collaborators")
+          .select(
+            `user_id, role, invited_by, accepted_at, created_at,
+            user:profiles!user_id(${PROFILE_SUMMARY})`
+          )
+          .eq("post_id", postId)
+          .order("created_at", { ascending: true });
+
+        if (error) {
+          throw error;
+        }
+        return data as unknown as PostCollaboratorView[];
+      },
+
+      async create(collaborator) {
+        const { data, error } = await client
+          .from("post_collaborators")
+          .insert({
+            ...collaborator,
+            accepted_at: null,
+            created_at: new Date().toISOString(),
+          })
+          .select(COLLABORATOR_COLUMNS)
+          .single();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async update(postId, userId, changes) {
+        const { data, error } = await client
+          .from("post_collaborators")
+          .update(changes)
+          .eq("post_id", postId)
+          .eq("user_id", userId)
+          .select(COLLABORATOR_COLUMNS)
+          .single();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async delete(postId, userId) {
+        const { error } = await client
+          .from("post_collaborators")
+          .delete()
+          .eq("post_id", postId)
+          .eq("user_id", userId);
+
+        if (error) {
+          throw error;
+        }
+      },
+    },
+
+    tags: {
+      async findById(id) {
+        const { data, error } = await client
+          .from("tags")
+          .select(TAG_COLUMNS)
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async findByIds(ids) {
+        const { data, error } = await client
+          .from("tags")
+          .select(TAG_COLUMNS)
+          .in("id", ids);
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async findBySlug(slug) {
+        const { data, error } = await client
+          .from("tags")
+          .select(TAG_COLUMNS)
+          .eq("slug", slug)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async list({ search, limit, offset }) {
+        let query = client
+          .from("tags")
+          .select(
+            `
+            id,
+            name,
+            slug,
+            description,
+            post_count:post_tags(count),
+            follower_count:tag_follows(count)
+          `,
+            { count: "exact" }
+          )
+          .is("canonical_tag_id", null)
+          .order("name", { ascending: true })
+          .range(offset, offset + limit - 1);
+
+        const pattern = search ? escapeLikePattern(search) : "";
+        if (pattern) {
+          query = query.ilike("name", `%${pattern}%`);
+        }
+
+        const { data, error, count } = await query;
+
+        if (error) {
+          throw error;
+        }
+        return {
+          tags: (data as unknown as TagListingRow[]).map((row) => ({
+            ...row,
+            post_count: row.post_count?.[0]?.count || 0,
+            follower_count: row.follower_count?.[0]?.count || 0,
+          })),
+          total: count || 0,
+        };
+      },
+
+      async create(tag) {
+        const now = new Date().toISOString();
+        const { data, error } = await client
+          .from("tags")
+          .upsert(
+            { ...tag, created_at: now, updated_at: now },
+            { onConflict: "slug", ignoreDuplicates: true }
+          )
+          .select(TAG_COLUMNS)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async updateDescription(id, description) {
+        const { data, error } = await client
+          .from("tags")
+          .update({ description, updated_at: new Date().toISOString() })
+          .eq("id", id)
+          .select(TAG_COLUMNS)
+          .single();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async listSynonyms(id) {
+        const { data, error } = await client
+          .from("tags")
+          .select("id, name, slug")
+          .eq("canonical_tag_id", id)
+          .order("name", { ascending: true });
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async countUsage(id) {
+        const [posts, followers] = await Promise.all([
+          client
+            .from("post_tags")
+            .select("post_id", { count: "exact", head: true })
+            .eq("tag_id", id),
+          client
+            .from("tag_follows")
+            .select("user_id", { count: "exact", head: true })
+            .eq("tag_id", id),
+        ]);
+
+        if (posts.error) {
+          throw posts.error;
+        }
+        if (followers.error) {
+          throw followers.error;
+        }
+        return {
+          post_count: posts.count || 0,
+          follower_count: followers.count || 0,
+        };
+      },
+
+      async setPostTags(postId, tagIds) {
+        const { error: deleteError } = await client
+          .from("post_tags")
+          .delete()
+          .eq("post_id", postId);
+
+        if (deleteError) {
+          throw deleteError;
+        }
+
+        if (tagIds.length === 0) {
+          return;
+        }
+
+        const { error } = await client
+          .from("post_tags")
+          .insert(tagIds.map((tagId) => ({ post_id: postId, tag_id: tagId })));
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async isFollowing(userId, tagId) {
+        const { data, error } = await client
+          .from("tag_follows")
+          .select("user_id")
+          .eq("user_id", userId)
+          .eq("tag_id", tagId)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data !== null;
+      },
+
+      async listFollowedNames(userId) {
+        return listFollowedTagNames(client, userId);
+      },
+
+      async follow(userId, tagId) {
+        const { error } = await client.from("tag_follows").upsert(
+          {
+            user_id: userId,
+            tag_id: tagId,
+            created_at: new Date().toISOString(),
+          },
+          { onConflict: "user_id,tag_id", ignoreDuplicates: true }
+        );
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async unfollow(userId, tagId) {
+        const { error } = await client
+          .from("tag_follows")
+          .delete()
+          .eq("user_id", userId)
+          .eq("tag_id", tagId);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      // merge_tags runs the whole merge in one transaction
+      async merge(sources, target) {
+        const { data, error } = await client.rpc("merge_tags", {
+          source_ids: sources.map((tag) => tag.id),
+          target_id: target.id,
+        });
+
+        if (error) {
+          throw error;
+        }
+        return data as number;
+      },
+    },
+
+    comments: {
+      async findById(id) {
+        const { data, error } = await client
+          .from("comments")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async findView(id) {
+        const { data, error } = await client
+          .from("comments")
+          .select(COMMENT_VIEW)
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data ? toCommentView(data as CommentViewRow) : null;
+      },
+
+      async listThreads({ postId, limit, before, sort }) {
+        let query = client
+          .from("comments")
+          .select(
+            `${COMMENT_VIEW},
+            replies:comments!parent_id(
+              *,
+              author:profiles(${PROFILE_SUMMARY}),
+              reactions_count:comment_reactions(reaction_type, count)
+            )`
+          )
+          .eq("post_id", postId)
+          .is("parent_id", null)
+          .eq("status", "published")
+          .limit(limit);
+
+        switch (sort) {
+          case "newest":
+            query = query.order("created_at", { ascending: false });
+            break;
+          case "oldest":
+            query = query.order("created_at", { ascending: true });
+            break;
+          case "top":
+          default:
+            // Order by reaction count, then by created_at
+            query = query
+              .order("like_count", { ascending: false })
+              .order("created_at", { ascending: false });
+            break;
+        }
+
+        if (before) {
+          query = query.lt("created_at", before);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+          throw error;
+        }
+        return (data as CommentViewRow[]).map(toCommentThread);
+      },
+
+      async create(comment) {
+        const now = new Date().toISOString();
+        const { data, error } = await client
+          .from("comments")
+          .insert({ ...comment, created_at: now, updated_at: now })
+          .select(COMMENT_VIEW)
+          .single();
+
+        if (error) {
+          throw error;
+        }
+        return toCommentView(data as CommentViewRow);
+      },
+
+      async update(id, changes) {
+        const { error } = await client
+          .from("comments")
+          .update({ ...changes, updated_at: new Date().toISOString() })
+          .eq("id", id);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async delete(id) {
+        const { error } = await client.from("comments").delete().eq("id", id);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async addEdit(edit) {
+        const { error } = await client
+          .from("comment_edit_history")
+          .insert({ ...edit, edited_at: new Date().toISOString() });
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async listEdits(commentId) {
+        const { data, error } = await client
+          .from("comment_edit_history")
+          .select(
+            `id, previous_content, edit_reason, edited_at,
+            edited_by:profiles(${PROFILE_NAME})`
+          )
+          .eq("comment_id", commentId)
+          .order("edited_at", { ascending: false });
+
+        if (error) {
+          throw error;
+        }
+        return data as unknown as CommentEditView[];
+      },
+
+      async listReplies(commentId) {
+        const { data, error } = await client
+          .from("comments")
+          .select(COMMENT_VIEW)
+          .eq("parent_id", commentId)
+          .order("created_at", { ascending: true });
+
+        if (error) {
+          throw error;
+        }
+        return (data as CommentViewRow[]).map(toCommentView);
+      },
+
+      async listByAuthor(authorId, limit) {
+        const { data, error } = await client
+          .from("comments")
+          .select("*")
+          .eq("author_id", authorId)
+          .order("created_at", { ascending: false })
+          .limit(limit);
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async listReceived(userId, { from, before, limit }) {
+        const { data, error } = await client
+          .from("comments")
+          .select(
+            `
+            id,
+            content,
+            created_at,
+            author:profiles(username, display_name),
+            post:posts!inner(author_id, title, slug),
+            reactions_count:comment_reactions(count)
+          `
+          )
+          .eq("post.author_id", userId)
+          .eq("status", "published")
+          .neq("author_id", userId)
+          .gte("created_at", from)
+          .lt("created_at", before)
+          .order("created_at", { ascending: false })
+          .limit(limit);
+
+        if (error) {
+          throw error;
+        }
+        return (data as unknown as ReceivedCommentRow[]).map(
+          ({ post, reactions_count, ...comment }) => ({
+            ...comment,
+            post: { title: post.title, slug: post.slug },
+            reactions_count: reactions_count?.[0]?.count || 0,
+          })
+        );
+      },
+
+      async findForModeration(id) {
+        const { data, error } = await client
+          .from("comments")
+          .select(MODERATION_COMMENT)
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data ? toModerationComment(data as ModerationCommentRow) : null;
+      },
+
+      async listForModeration(query) {
+        let select = client
+          .from("comments")
+          .select(MODERATION_COMMENT, { count: "exact" });
+
+        if (query.search) {
+          select = select.ilike("content", `%${query.search}%`);
+        }
+        if (query.status) {
+          select = select.eq("status", query.status);
+        }
+        if (query.spam !== undefined) {
+          select = select.eq("is_flagged_as_spam", query.spam);
+        }
+        if (query.authorId) {
+          select = select.eq("author_id", query.authorId);
+        }
+        if (query.postId) {
+          select = select.eq("post_id", query.postId);
+        }
+
+        const { data, error, count } = await select
+          .order("created_at", { ascending: query.ascending })
+          .range(query.offset, query.offset + query.limit - 1);
+
+        if (error) {
+          throw error;
+        }
+        return {
+          comments: (data as ModerationCommentRow[]).map(toModerationComment),
+          total: count || 0,
+        };
+      },
+
+      async countForModeration() {
+        const { data, error } = await client
+          .from("comments")
+          .select("status, is_flagged_as_spam");
+
+        if (error) {
+          throw error;
+        }
+        const counts: ModerationCounts = { status_counts: {}, spam_counts: {} };
+        for (const comment of data) {
+          const spam = comment.is_flagged_as_spam ? "spam" : "not_spam";
+          counts.status_counts[comment.status] =
+            (counts.status_counts[comment.status] || 0) + 1;
+          counts.spam_counts[spam] = (counts.spam_counts[spam] || 0) + 1;
+        }
+        return counts;
+      },
+
+      async updateMany(ids, changes) {
+        if (ids.length === 0) {
+          return [];
+        }
+        const { data, error } = await client
+          .from("comments")
+          .update({ ...changes, updated_at: new Date().toISOString() })
+          .in("id", ids)
+          .select();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+    },
+
+    reactions: {
+      async find(commentId, userId) {
+        const { data, error } = await client
+          .from("comment_reactions")
+          .select("*")
+          .eq("comment_id", commentId)
+          .eq("user_id", userId)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async create(reaction) {
+        const { error } = await client
+          .from("comment_reactions")
+          .insert({ ...reaction, created_at: new Date().toISOString() });
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async updateType(id, reactionType) {
+        const { error } = await client
+          .from("comment_reactions")
+          .update({
+            reaction_type: reactionType,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", id);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async delete(id) {
+        const { error } = await client
+          .from("comment_reactions")
+          .delete()
+          .eq("id", id);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async listForComment(commentId) {
+        const { data, error } = await client
+          .from("comment_reactions")
+          .select(
+            "reaction_type, user:profiles(username, display_name, avatar_url)"
+          )
+          .eq("comment_id", commentId);
+
+        if (error) {
+          throw error;
+        }
+        return data as unknown as ReactionWithUser[];
+      },
+    },
+
+    notifications: {
+      async insert(notifications) {
+        if (notifications.length === 0) {
+          return [];
+        }
+        const { data, error } = await client
+          .from("notifications")
+          .insert(notifications)
+          .select(NOTIFICATION_COLUMNS);
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async findOpenGroups(userIds, groupKey, since) {
+        const { data, error } = await client
+          .from("notifications")
+          .select("id, user_id, actor_ids, actor_count")
+          .in("user_id", userIds)
+          .eq("group_key", groupKey)
+          .eq("is_read", false)
+          .gte("updated_at", since);
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async updateGroup(id, expectedCount, changes) {
+        const { data, error } = await client
+          .from("notifications")
+          .update(changes)
+          .eq("id", id)
+          .eq("actor_count", expectedCount)
+          .select(NOTIFICATION_COLUMNS)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async countUnread(userId) {
+        const { count, error } = await client
+          .from("notifications")
+          .select("*", { count: "exact", head: true })
+          .eq("user_id", userId)
+          .eq("is_read", false);
+
+        if (error) {
+          throw error;
+        }
+        return count || 0;
+      },
+
+      async list(userId, { type, unreadOnly, limit, offset }) {
+        let query = client
+          .from("notifications")
+          .select(NOTIFICATION_VIEW, { count: "exact" })
+          .eq("user_id", userId)
+          .order("updated_at", { ascending: false })
+          .range(offset, offset + limit - 1);
+
+        if (type) {
+          query = query.eq("type", type);
+        }
+        if (unreadOnly) {
+          query = query.eq("is_read", false);
+        }
+
+        const { data, error, count } = await query;
+
+        if (error) {
+          throw error;
+        }
+        return {
+          notifications: data as unknown as NotificationView[],
+          total: count || 0,
+        };
+      },
+
+      async listGroups(
+        userId,
+        { type, unreadOnly, limit, offset, actorLimit }
+      ) {
+        const { data, error } = await client.rpc("notification_groups", {
+          reader_id: userId,
+          type_filter: type || null,
+          unread_only: unreadOnly,
+          result_limit: limit,
+          result_offset: offset,
+          actor_limit: actorLimit,
+        });
+
+        if (error) {
+          throw error;
+        }
+
+        const rows = (data || []) as NotificationGroupRow[];
+        return {
+          groups: rows.map(toNotificationGroup),
+          total: rows[0]?.total_groups || 0,
+        };
+      },
+
+      async findOwnedIds(userId, ids) {
+        if (ids.length === 0) {
+          return [];
+        }
+        const { data, error } = await client
+          .from("notifications")
+          .select("id")
+          .in("id", ids)
+          .eq("user_id", userId);
+
+        if (error) {
+          throw error;
+        }
+        return data.map((row) => row.id);
+      },
+
+      async setRead(userId, selection, isRead) {
+        const { data, error } = await applySelection(
+          client
+            .from("notifications")
+            .update({
+              is_read: isRead,
+              read_at: isRead ? new Date().toISOString() : null,
+            })
+            .eq("user_id", userId),
+          selection
+        ).select(NOTIFICATION_VIEW);
+
+        if (error) {
+          throw error;
+        }
+        return data as unknown as NotificationView[];
+      },
+
+      async delete(userId, selection) {
+        const { data, error } = await applySelection(
+          client.from("notifications").delete().eq("user_id", userId),
+          selection
+        ).select("id");
+
+        if (error) {
+          throw error;
+        }
+        return data.length;
+      },
+
+      async findVersion(userId, id) {
+        const { data, error } = await client
+          .from("notifications")
+          .select("updated_at")
+          .eq("id", id)
+          .eq("user_id", userId)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data?.updated_at || null;
+      },
+
+      async listUpdatedSince(userId, since, limit) {
+        const { data, error } = await client
+          .from("notifications")
+          .select(STREAMED_NOTIFICATION)
+          .eq("user_id", userId)
+          .gt("updated_at", since)
+          .order("updated_at", { ascending: true })
+          .limit(limit);
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async findPreferences(userIds) {
+        const { data, error } = await client
+          .from("notification_preferences")
+          .select("*")
+          .in("user_id", userIds);
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async savePreferences(userId, changes) {
+        const { data, error } = await client
+          .from("notification_preferences")
+          .upsert(
+            {
+              ...changes,
+              user_id: userId,
+              updated_at: new Date().toISOString(),
+            },
+            { onConflict: "user_id" }
+          )
+          .select()
+          .single();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+    },
+
+    pushSubscriptions: {
+      async listForUser(userId) {
+        const { data, error } = await client
+          .from("push_subscriptions")
+          .select(PUSH_SUBSCRIPTION_COLUMNS)
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false });
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async listForUsers(userIds) {
+        if (userIds.length === 0) {
+          return [];
+        }
+        const { data, error } = await client
+          .from("push_subscriptions")
+          .select(PUSH_SUBSCRIPTION_COLUMNS)
+          .in("user_id", userIds);
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async save(subscription) {
+        const { data, error } = await client
+          .from("push_subscriptions")
+          .upsert(
+            { ...subscription, created_at: new Date().toISOString() },
+            { onConflict: "user_id,endpoint" }
+          )
+          .select(PUSH_SUBSCRIPTION_COLUMNS)
+          .single();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async delete(userId, endpoint) {
+        const { data, error } = await client
+          .from("push_subscriptions")
+          .delete()
+          .eq("user_id", userId)
+          .eq("endpoint", endpoint)
+          .select("id");
+
+        if (error) {
+          throw error;
+        }
+        return data.length > 0;
+      },
+
+      async deleteMany(ids) {
+        if (ids.length === 0) {
+          return;
+        }
+        const { error } = await client
+          .from("push_subscriptions")
+          .delete()
+          .in("id", ids);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async markUsed(ids, usedAt) {
+        if (ids.length === 0) {
+          return;
+        }
+        const { error } = await client
+          .from("push_subscriptions")
+          .update({ last_used_at: usedAt })
+          .in("id", ids);
+
+        if (error) {
+          throw error;
+        }
+      },
+    },
+
+    reports: {
+      async findById(id) {
+        const { data, error } = await client
+          .from("content_reports")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async review(id, review) {
+        const now = new Date().toISOString();
+        const { data, error } = await client
+          .from("content_reports")
+          .update({ ...review, reviewed_at: now, updated_at: now })
+          .eq("id", id)
+          .select()
+          .single();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async reviewMany(ids, review) {
+        if (ids.length === 0) {
+          return [];
+        }
+        const now = new Date().toISOString();
+        const { data, error } = await client
+          .from("content_reports")
+          .update({ ...review, reviewed_at: now, updated_at: now })
+          .in("id", ids)
+          .select();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async findView(id) {
+        const { data, error } = await client
+          .from("content_reports")
+          .select(REPORT_VIEW)
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async list(query) {
+        let select = client
+          .from("content_reports")
+          .select(REPORT_VIEW, { count: "exact" });
+
+        if (query.contentType) {
+          select = select.eq("reported_content_type", query.contentType);
+        }
+        if (query.status) {
+          select = select.eq("status", query.status);
+        }
+        if (query.severity) {
+          select = select.eq("severity", query.severity);
+        }
+
+        switch (query.sort) {
+          case "oldest":
+            select = select.order("created_at", { ascending: true });
+            break;
+          case "severity":
+            select = select.order("severity", { ascending: false });
+            break;
+          case "status":
+            select = select.order("status", { ascending: true });
+            break;
+          default:
+            select = select.order("created_at", { ascending: false });
+            break;
+        }
+
+        const { data, error, count } = await select.range(
+          query.offset,
+          query.offset + query.limit - 1
+        );
+
+        if (error) {
+          throw error;
+        }
+        return { reports: data, total: count || 0 };
+      },
+
+      async listForContent(contentType, contentIds, options = {}) {
+        if (contentIds.length === 0) {
+          return [];
+        }
+        let select = client
+          .from("content_reports")
+          .select(REPORT_VIEW)
+          .eq("reported_content_type", contentType)
+          .in("reported_content_id", contentIds)
+          .order("created_at", { ascending: false });
+
+        if (options.excludeId) {
+          select = select.neq("id", options.excludeId);
+        }
+        if (options.limit) {
+          select = select.limit(options.limit);
+        }
+
+        const { data, error } = await select;
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async listPendingContentIds(contentType) {
+        const { data, error } = await client
+          .from("content_reports")
+          .select("reported_content_id")
+          .eq("reported_content_type", contentType)
+          .eq("status", "pending");
+
+        if (error) {
+          throw error;
+        }
+        return [...new Set(data.map((row) => row.reported_content_id))];
+      },
+    },
+
+    settings: {
+      async get(key) {
+        const { data, error } = await client
+          .from("platform_settings")
+          .select("setting_key, setting_value, updated_by, updated_at")
+          .eq("setting_key", key)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async getMany(keys) {
+        const { data, error } = await client
+          .from("platform_settings")
+          .select("setting_key, setting_value, updated_by, updated_at")
+          .in("setting_key", keys);
+
+        if (error) {
+          throw error;
+        }
+        return data || [];
+      },
+
+      async list() {
+        const { data, error } = await client
+          .from("platform_settings")
+          .select(SETTING_COLUMNS)
+          .order("category", { ascending: true })
+          .order("setting_key", { ascending: true });
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async save(settings) {
+        return saveSettings(settings);
+      },
+
+      async replaceAll(settings) {
+        const keys = settings.map((setting) => setting.setting_key);
+        let removal = client.from("platform_settings").delete();
+        removal =
+          keys.length > 0
+            ? removal.not("setting_key", "in", `(${keys.join(",")})`)
+            : removal.neq("setting_key", "");
+        const { error } = await removal;
+
+        if (error) {
+          throw error;
+        }
+        await saveSettings(settings);
+      },
+    },
+
+    uploads: {
+      async create(upload) {
+        const { data, error } = await client
+          .from("uploads")
+          .insert({ ...upload, created_at: new Date().toISOString() })
+          .select()
+          .single();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async findForUser(id, userId) {
+        const { data, error } = await client
+          .from("uploads")
+          .select("*")
+          .eq("id", id)
+          .eq("user_id", userId)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async listForUser(userId, { context, limit }) {
+        let query = client
+          .from("uploads")
+          .select("*")
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false })
+          .limit(limit);
+
+        if (context) {
+          query = query.eq("context", context);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async delete(id) {
+        const { error } = await client.from("uploads").delete().eq("id", id);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async putFile(path, bytes, contentType) {
+        const bucket = client.storage.from("uploads");
+        const { error } = await bucket.upload(path, bytes, {
+          contentType,
+          cacheControl: "3600",
+          upsert: false,
+        });
+
+        if (error) {
+          throw error;
+        }
+        return bucket.getPublicUrl(path).data.publicUrl;
+      },
+
+      async removeFiles(paths) {
+        const { error } = await client.storage.from("uploads").remove(paths);
+
+        if (error) {
+          throw error;
+        }
+      },
+    },
+
+    announcements: {
+      async findById(id) {
+        const { data, error } = await client
+          .from("platform_announcements")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async list() {
+        const { data, error } = await client
+          .from("platform_announcements")
+          .select(`*, created_by:profiles(${PROFILE_NAME})`)
+          .order("priority", { ascending: false })
+          .order("created_at", { ascending: false });
+
+        if (error) {
+          throw error;
+        }
+        return data as unknown as AnnouncementView[];
+      },
+
+      async create(announcement) {
+        const createdAt = new Date().toISOString();
+        const { data, error } = await client
+          .from("platform_announcements")
+          .insert({
+            ...announcement,
+            created_at: createdAt,
+            updated_at: createdAt,
+          })
+          .select()
+          .single();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async listShowing(audiences, now) {
+        const { data, error } = await client
+          .from("platform_announcements")
+          .select("*")
+          .eq("is_active", true)
+          .in("target_audience", audiences)
+          .or(`starts_at.is.null,starts_at.lte.${now}`)
+          .or(`expires_at.is.null,expires_at.gt.${now}`)
+          .order("created_at", { ascending: false });
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async update(id, changes) {
+        const { data, error } = await client
+          .from("platform_announcements")
+          .update({ ...changes, updated_at: new Date().toISOString() })
+          .eq("id", id)
+          .select()
+          .single();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async delete(id) {
+        const { error } = await client
+          .from("platform_announcements")
+          .delete()
+          .eq("id", id);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async findDismissed(userId, announcementIds) {
+        if (announcementIds.length === 0) {
+          return [];
+        }
+
+        const { data, error } = await client
+          .from("announcement_dismissals")
+          .select("announcement_id")
+          .eq("user_id", userId)
+          .in("announcement_id", announcementIds);
+
+        if (error) {
+          throw error;
+        }
+        return data.map((row) => row.announcement_id);
+      },
+
+      async dismiss(announcementId, userId) {
+        const { error } = await client.from("announcement_dismissals").upsert(
+          {
+            announcement_id: announcementId,
+            user_id: userId,
+            dismissed_at: new Date().toISOString(),
+          },
+          { onConflict: "announcement_id,user_id", ignoreDuplicates: true }
+        );
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async queueNotification(announcementId, actorId) {
+        const { data: created, error } = await client
+          .from("announcement_notifications")
+          .upsert(
+            {
+              announcement_id: announcementId,
+              actor_id: actorId,
+              status: "pending",
+              created_at: new Date().toISOString(),
+            },
+            { onConflict: "announcement_id", ignoreDuplicates: true }
+          )
+          .select("*")
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        if (created) {
+          return created;
+        }
+
+        const { data: existing, error: existingError } = await client
+          .from("announcement_notifications")
+          .select("*")
+          .eq("announcement_id", announcementId)
+          .single();
+
+        if (existingError) {
+          throw existingError;
+        }
+        return existing;
+      },
+
+      async listPendingNotifications(now, limit) {
+        const { data, error } = await client
+          .from("announcement_notifications")
+          .select("*, announcement:platform_announcements!inner(*)")
+          .eq("status", "pending")
+          .eq("announcement.is_active", true)
+          .or(`starts_at.is.null,starts_at.lte.${now}`, {
+            referencedTable: "announcement",
+          })
+          .order("created_at")
+          .limit(limit);
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async claimNotification(announcementId, claimedAt, staleBefore) {
+        const { data, error } = await client
+          .from("announcement_notifications")
+          .update({ claimed_at: claimedAt })
+          .eq("announcement_id", announcementId)
+          .eq("status", "pending")
+          .or(`claimed_at.is.null,claimed_at.lt.${staleBefore}`)
+          .select("announcement_id")
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data !== null;
+      },
+
+      async updateNotification(announcementId, claimedAt, changes) {
+        const { data, error } = await client
+          .from("announcement_notifications")
+          .update(changes)
+          .eq("announcement_id", announcementId)
+          .eq("claimed_at", claimedAt)
+          .select("announcement_id")
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data !== null;
+      },
+    },
+
+    bans: {
+      async find(userId) {
+        const { data, error } = await client
+          .from("banned_users")
+          .select("user_id, reason, banned_at, banned_by, expires_at")
+          .eq("user_id", userId)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async create(ban) {
+        const { error } = await client.from("banned_users").insert(ban);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async delete(userId) {
+        const { error } = await client
+          .from("banned_users")
+          .delete()
+          .eq("user_id", userId);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async deleteExpired(userId, now) {
+        const { error } = await client
+          .from("banned_users")
+          .delete()
+          .eq("user_id", userId)
+          .lte("expires_at", now);
+
+        if (error) {
+          throw error;
+        }
+      },
+    },
+
+    emailThrottle: {
+      async find(userId, kind, postId) {
+        const { data, error } = await client
+          .from("notification_email_throttle")
+          .select("*")
+          .eq("user_id", userId)
+          .eq("kind", kind)
+          .eq("post_id", postId)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async findById(id) {
+        const { data, error } = await client
+          .from("notification_email_throttle")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async listDue({ sentBefore, claimedBefore, limit }) {
+        const { data, error } = await client
+          .from("notification_email_throttle")
+          .select("*")
+          .gt("pending_count", 0)
+          .or(`last_sent_at.is.null,last_sent_at.lte.${sentBefore}`)
+          .or(`claimed_at.is.null,claimed_at.lt.${claimedBefore}`)
+          .order("last_sent_at", { ascending: true, nullsFirst: true })
+          .limit(limit);
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async create(row) {
+        const { data, error } = await client
+          .from("notification_email_throttle")
+          .insert(row)
+          .select("id")
+          .single();
+
+        if (error) {
+          if (error.code === "23505") {
+            return null;
+          }
+          throw error;
+        }
+        return data.id;
+      },
+
+      async updateIf(id, expected, changes) {
+        let query = client
+          .from("notification_email_throttle")
+          .update(changes)
+          .eq("id", id);
+
+        for (const [column, value] of Object.entries(expected)) {
+          query =
+            value === null ? query.is(column, null) : query.eq(column, value);
+        }
+
+        const { data, error } = await query.select("id").maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data !== null;
+      },
+    },
+
+    digestSends: {
+      async find(userId, periodStart) {
+        const { data, error } = await client
+          .from("digest_sends")
+          .select("*")
+          .eq("user_id", userId)
+          .eq("period_start", periodStart)
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+
+      async create(userId, periodStart, claimedAt) {
+        const { data, error } = await client
+          .from("digest_sends")
+          .upsert(
+            {
+              user_id: userId,
+              period_start: periodStart,
+              status: "pending",
+              attempts: 1,
+              claimed_at: claimedAt,
+              created_at: claimedAt,
+            },
+            { onConflict: "user_id,period_start", ignoreDuplicates: true }
+          )
+          .select("id")
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data?.id ?? null;
+      },
+
+      async update(id, changes) {
+        const { error } = await client
+          .from("digest_sends")
+          .update(changes)
+          .eq("id", id);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async updateIf(id, expected, changes) {
+        const { data, error } = await client
+          .from("digest_sends")
+          .update(changes)
+          .eq("id", id)
+          .eq("status", expected.status)
+          .eq("attempts", expected.attempts)
+          .select("id")
+          .maybeSingle();
+
+        if (error) {
+          throw error;
+        }
+        return data !== null;
+      },
+    },
+
+    feed: {
+      async listCandidates(readerId, { from, to, perSource }) {
+        // The sources, authors and viewed posts are joined in the database,
+        // so no list of followed authors has to fit in the request URL
+        const { data, error } = await client.rpc("feed_candidates", {
+          reader_id: readerId,
+          from_date: from,
+          to_date: to,
+          per_source: perSource,
+        });
+
+        if (error) {
+          throw error;
+        }
+        return (data || []) as FeedCandidate[];
+      },
+    },
+
+    search: {
+      async search({ type, text, tag, authorId, from, to, after, limit }) {
+        const { data, error } = await client.rpc(searchFunctions[type], {
+          search_query: text,
+          tag_filter: tag || null,
+          author_filter: authorId || null,
+          from_date: from || null,
+          to_date: to || null,
+          cursor_rank: after?.rank ?? null,
+          cursor_id: after?.id ?? null,
+          result_limit: limit,
+        });
+
+        if (error) {
+          throw error;
+        }
+        return (data || []) as SearchHit[];
+      },
+    },
+
+    analytics: {
+      async recordEvent(event) {
+        const { error } = await client.from("analytics_events").insert(event);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async incrementPostViews(postId) {
+        await logWrite(
+          client.rpc("increment_post_views", { post_uuid: postId }),
+          "post view count"
+        );
+      },
+
+      async recordPostView(userId, postId) {
+        await logWrite(
+          client.from("post_views").upsert(
+            {
+              user_id: userId,
+              post_id: postId,
+              viewed_at: new Date().toISOString(),
+            },
+            { onConflict: "user_id,post_id" }
+          ),
+          "post view"
+        );
+      },
+
+      async ping() {
+        const { error } = await client
+          .from("profiles")
+          .select("id", { count: "exact", head: true });
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async getAuthorActivity(authorId, { from, before }) {
+        const [posts, reactions, comments, followers] = await Promise.all([
+          logRead(
+            client
+              .from("posts")
+              .select(
+                "title, slug, views_count, reactions_count, comments_count"
+              )
+              .eq("author_id", authorId)
+              .eq("status", "published")
+              .gte("published_at", from)
+              .lt("published_at", before),
+            [],
+            "author posts"
+          ),
+          logCount(
+            client
+              .from("reactions")
+              .select("id", { count: "exact", head: true })
+              .eq("post_author_id", authorId)
+              .gte("created_at", from)
+              .lt("created_at", before),
+            "reactions received"
+          ),
+          logCount(
+            client
+              .from("comments")
+              .select("id", { count: "exact", head: true })
+              .eq("post_author_id", authorId)
+              .gte("created_at", from)
+              .lt("created_at", before),
+            "comments received"
+          ),
+          logCount(
+            client
+              .from("follows")
+              .select("follower_id", { count: "exact", head: true })
+              .eq("following_id", authorId)
+              .gte("created_at", from)
+              .lt("created_at", before),
+            "followers gained"
+          ),
+        ]);
+
+        return {
+          posts: posts.map((post) => ({
+            title: post.title,
+            slug: post.slug,
+            views: post.views_count || 0,
+            reactions: post.reactions_count || 0,
+            comments: post.comments_count || 0,
+          })),
+          reactions_received: reactions,
+          comments_received: comments,
+          followers_gained: followers,
+        };
+      },
+
+      async listReadingHistory(userId, from) {
+        const views = await logRead(
+          client
+            .from("post_views")
+            .select("viewed_at, post:posts!inner(tags, reading_time)")
+            .eq("user_id", userId)
+            .gte("viewed_at", from),
+          [],
+          "reading history"
+        );
+
+        return (
+          views as unknown as {
+            viewed_at: string;
+            post: { tags: string[] | null; reading_time: number | null };
+          }[]
+        ).map(
+          (view): ReadingHistoryEntry => ({
+            viewed_at: view.viewed_at,
+            tags: view.post.tags || [],
+            reading_time: view.post.reading_time || 0,
+          })
+        );
+      },
+
+      async listEventTimes(userId, from) {
+        const events = await logRead(
+          client
+            .from("analytics_events")
+            .select("created_at")
+            .eq("user_id", userId)
+            .gte("created_at", from)
+            .order("created_at", { ascending: false }),
+          [],
+          "analytics events"
+        );
+        return events.map((event) => event.created_at);
+      },
+
+      async count(resource, range = {}) {
+        let select = client
+          .from(resource)
+          .select("id", { count: "exact", head: true });
+        if (range.from) {
+          select = select.gte("created_at", range.from);
+        }
+        if (range.before) {
+          select = select.lt("created_at", range.before);
+        }
+        return logCount(select, resource);
+      },
+
+      async sumPostViews() {
+        const posts = await logRead(
+          client.from("posts").select("view_count"),
+          [],
+          "post views"
+        );
+        return posts.reduce((sum, post) => sum + (post.view_count || 0), 0);
+      },
+
+      async countActiveUsers(from) {
+        const logs = await logRead(
+          client
+            .from("user_activity_logs")
+            .select("user_id")
+            .gte("created_at", from),
+          [],
+          "active users"
+        );
+        return new Set(logs.map((log) => log.user_id)).size;
+      },
+
+      async countErrors(from) {
+        return logCount(
+          client
+            .from("error_logs")
+            .select("id", { count: "exact", head: true })
+            .gte("created_at", from),
+          "error logs"
+        );
+      },
+
+      async listTopPosts(limit) {
+        const posts = await logRead(
+          client
+            .from("posts")
+            .select(
+              `id, title, slug, view_count, author:profiles(${PROFILE_NAME})`
+            )
+            .eq("status", "published")
+            .order("view_count", { ascending: false })
+            .limit(limit),
+          [],
+          "top posts"
+        );
+        return posts as unknown as TopPost[];
+      },
+
+      async listTopAuthors(from, limit) {
+        const posts = await logRead(
+          client
+            .from("posts")
+            .select(`author:profiles(${PROFILE_SUMMARY})`)
+            .eq("status", "published")
+            .gte("created_at", from),
+          [],
+          "top authors"
+        );
+
+        const authors = new Map<string, TopAuthor>();
+        for (const { author } of posts as unknown as {
+          author: TopAuthor | null;
+        }[]) {
+          if (author) {
+            const counted = authors.get(author.id) || {
+              ...author,
+              post_count: 0,
+            };
+            counted.post_count++;
+            authors.set(author.id, counted);
+          }
+        }
+        return [...authors.values()]
+          .sort((a, b) => b.post_count - a.post_count)
+          .slice(0, limit);
+      },
+
+      async listTopTags(from, limit) {
+        const uses = await logRead(
+          client
+            .from("post_tags")
+            .select(
+              `tag:tags(id, name, canonical:tags!canonical_tag_id(id, name)),
+              post:posts!inner(created_at)`
+            )
+            .gte("post.created_at", from),
+          [],
+          "top tags"
+        );
+
+        type TagName = { id: string; name: string };
+        const counts = new Map<string, TagName & { usage_count: number }>();
+        for (const { tag } of uses as unknown as {
+          tag: (TagName & { canonical: TagName | null }) | null;
+        }[]) {
+          const counted = tag?.canonical || tag;
+          if (counted) {
+            const entry = counts.get(counted.id) || {
+              id: counted.id,
+              name: counted.name,
+              usage_count: 0,
+            };
+            entry.usage_count++;
+            counts.set(counted.id, entry);
+          }
+        }
+        return [...counts.values()]
+          .sort((a, b) => b.usage_count - a.usage_count)
+          .slice(0, limit);
+      },
+    },
+
+    logs: {
+      async logActivity(entry) {
+        await logWrite(
+          client.from("activity_logs").insert(entry),
+          "activity log"
+        );
+      },
+
+      async logAdminAction(entry) {
+        await logWrite(
+          client
+            .from("admin_activity_logs")
+            .insert({ ...entry, created_at: new Date().toISOString() }),
+          "admin activity log"
+        );
+      },
+
+      async addAdminNote(note) {
+        await logWrite(
+          client
+            .from("admin_notes")
+            .insert({ ...note, created_at: new Date().toISOString() }),
+          "admin note"
+        );
+      },
+
+      async listAdminActions(targetId, limit) {
+        let select = client
+          .from("admin_activity_logs")
+          .select(
+            `id, action_type, details, created_at,
+            admin:profiles!admin_id(${PROFILE_NAME})`
+          )
+          .eq("target_id", targetId)
+          .order("created_at", { ascending: false });
+
+        if (limit) {
+          select = select.limit(limit);
+        }
+
+        const { data, error } = await select;
+
+        if (error) {
+          throw error;
+        }
+        return data as unknown as AdminActionView[];
+      },
+
+      async listUserActivity(userId, limit) {
+        const { data, error } = await client
+          .from("user_activity_logs")
+          .select("action_type, created_at")
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false })
+          .limit(limit);
+
+        if (error) {
+          throw error;
+        }
+        return data;
+      },
+    },
+  };
+}
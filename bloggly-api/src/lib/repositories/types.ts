@@ -0,0 +1,1269 @@
+// src/lib/repositories/types.ts
+import type { User } from "@supabase/supabase-js";
+import type { ActivityEmailKind } from "../emailService";
+import { StreamedNotification } from "../notificationPubSub";
+import { announcementAudience } from "../schemas/admin";
+import { reactionSchema } from "../schemas/comments";
+import { z } from "zod";
+
+export type ReactionType = z.infer<typeof reactionSchema>["reaction_type"];
+
+export interface ProfileSummary {
+  id: string;
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+}
+
+export interface ProfileRecord extends ProfileSummary {
+  email: string | null;
+  role: string | null;
+}
+
+export type ProfileName = Pick<ProfileSummary, "username" | "display_name">;
+
+export type ProfileContact = ProfileSummary & { email: string | null };
+
+export interface ProfileDetail extends ProfileRecord {
+  bio: string | null;
+  website_url: string | null;
+  location: string | null;
+  social_twitter: string | null;
+  social_github: string | null;
+  social_linkedin: string | null;
+  is_email_verified: boolean;
+  email_notification_preferences: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// What a user has written and who follows them
+export interface ProfileActivity {
+  posts_by_status: Record<string, number>;
+  comments_by_status: Record<string, number>;
+  followers_count: number;
+  following_count: number;
+}
+
+export interface PostRecord {
+  id: string;
+  author_id: string;
+  title: string;
+  slug: string;
+  status: string;
+  allow_comments: boolean;
+  published_at: string | null;
+}
+
+// A post with its content and author, as the post routes return it
+export interface PostView extends PostRecord {
+  content_markdown: string;
+  excerpt: string | null;
+  reading_time: number | null;
+  cover_image_url: string | null;
+  tags: string[];
+  scheduled_for: string | null;
+  unpublish_at: string | null;
+  created_at: string;
+  updated_at: string;
+  author: ProfileSummary | null;
+}
+
+export type NewPost = Omit<
+  PostView,
+  "id" | "author" | "created_at" | "updated_at"
+>;
+
+export type PostChanges = Partial<Omit<NewPost, "author_id">>;
+
+// Newest first by the column, then by id, starting after the cursor
+// A cursor without an id starts strictly before its time
+export interface PostListQuery {
+  authorId?: string;
+  status?: string;
+  tag?: string;
+  orderBy: "published_at" | "updated_at";
+  after?: { at: string; id?: string };
+  limit: number;
+}
+
+// Which scheduled change is due: drafts to publish or posts to unpublish
+export type PostSchedule = "publish" | "unpublish";
+
+// A post as moderators see it
+export interface ModerationPost extends PostRecord {
+  excerpt: string | null;
+  view_count: number;
+  created_at: string;
+  updated_at: string;
+  author: ProfileContact | null;
+  tags: string[];
+  comments_count: number;
+}
+
+export interface ModerationPostQuery {
+  search?: string;
+  status?: string;
+  sort: "newest" | "oldest" | "most_viewed";
+  limit: number;
+  offset: number;
+}
+
+export interface PostRevision {
+  id: string;
+  post_id: string;
+  revision_number: number;
+  title: string;
+  content_markdown: string;
+  excerpt: string | null;
+  tags: string[];
+  author_id: string;
+  change_summary: string | null;
+  restored_from: number | null;
+  created_at: string;
+}
+
+// Revision numbers are allocated when the revision is saved
+export type NewPostRevision = Omit<
+  PostRevision,
+  "id" | "revision_number" | "created_at"
+>;
+
+// A revision as the history lists it, without its content
+export type PostRevisionSummary = Pick<
+  PostRevision,
+  | "id"
+  | "revision_number"
+  | "title"
+  | "change_summary"
+  | "restored_from"
+  | "created_at"
+> & { author: ProfileSummary | null };
+
+export interface PostCollaboratorRecord {
+  post_id: string;
+  user_id: string;
+  role: string;
+  invited_by: string | null;
+  accepted_at: string | null;
+  created_at: string;
+}
+
+export interface PostCollaboratorView
+  extends Omit<PostCollaboratorRecord, "post_id"> {
+  user: ProfileSummary | null;
+}
+
+export type FollowDirection = "followers" | "following";
+
+// One of a user's follows, described by the user on its other end
+export interface FollowEntry {
+  id: string;
+  created_at: string;
+  user: (ProfileSummary & { bio: string | null }) | null;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  // Set on synonyms: the tag they were merged into
+  canonical_tag_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewTag = Pick<Tag, "name" | "slug" | "description" | "created_by">;
+
+export type TagSummary = Pick<Tag, "id" | "name" | "slug">;
+
+export interface TagListing extends TagSummary {
+  description: string | null;
+  post_count: number;
+  follower_count: number;
+}
+
+export type FeedSource =
+  | "followed_author"
+  | "followed_tag"
+  | "collaborator"
+  | "trending";
+
+export interface FeedPost extends PostView {
+  view_count: number | null;
+}
+
+export interface FeedCandidate {
+  post: FeedPost;
+  // Every source that reached the post
+  sources: FeedSource[];
+}
+
+export interface FeedCandidateQuery {
+  // Published in [from, to]
+  from: string;
+  to: string;
+  // Most posts taken from each source
+  perSource: number;
+}
+
+// Ranked by the search functions in
+// supabase/migrations/20261019000100_search_functions.sql, highest rank
+// first, then by id
+export interface SearchQuery {
+  type: "posts" | "comments" | "users" | "tags";
+  // websearch_to_tsquery input
+  text: string;
+  tag?: string;
+  authorId?: string;
+  from?: string;
+  to?: string;
+  after?: { rank: number; id: string };
+  limit: number;
+}
+
+export interface SearchHit {
+  id: string;
+  rank: number;
+  [key: string]: unknown;
+}
+
+// A comment someone else left on one of the user's posts
+export interface ReceivedComment {
+  id: string;
+  content: string;
+  created_at: string;
+  author: ProfileName | null;
+  post: { title: string; slug: string };
+  reactions_count: number;
+}
+
+// When one recipient was last emailed about a kind of activity on a post,
+// and the events held back since
+export interface EmailThrottleRecord {
+  id: string;
+  user_id: string;
+  kind: ActivityEmailKind;
+  post_id: string;
+  post_title: string;
+  post_slug: string;
+  // Null until the first email for the row has gone out
+  last_sent_at: string | null;
+  // Set while an email for the row is being sent
+  claimed_at: string | null;
+  pending_count: number;
+  pending_actor_names: string[];
+  pending_excerpt: string | null;
+}
+
+export type NewEmailThrottle = Omit<EmailThrottleRecord, "id">;
+
+export type EmailThrottleChanges = Partial<
+  Omit<EmailThrottleRecord, "id" | "user_id" | "kind" | "post_id">
+>;
+
+export type DigestSendStatus = "pending" | "sent" | "skipped" | "failed";
+
+// One user's digest for one week
+export interface DigestSendRecord {
+  id: string;
+  user_id: string;
+  // The ISO date of the week's Monday
+  period_start: string;
+  status: DigestSendStatus;
+  reason: string | null;
+  summary: Record<string, unknown> | null;
+  attempts: number;
+  claimed_at: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export type DigestSendChanges = Partial<
+  Pick<
+    DigestSendRecord,
+    "status" | "reason" | "summary" | "attempts" | "claimed_at" | "completed_at"
+  >
+>;
+
+export type AnnouncementNotificationStatus = "pending" | "sent" | "expired";
+
+// Pushing one announcement out to its audience
+export interface AnnouncementNotificationRecord {
+  announcement_id: string;
+  actor_id: string | null;
+  status: AnnouncementNotificationStatus;
+  // Where the next page of recipients starts
+  last_recipient_id: string | null;
+  in_app: number;
+  push: number;
+  claimed_at: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export type AnnouncementNotificationChanges = Partial<
+  Omit<
+    AnnouncementNotificationRecord,
+    "announcement_id" | "actor_id" | "created_at"
+  >
+>;
+
+export interface AnalyticsEvent {
+  user_id: string | null;
+  event_type: string;
+  post_id: string | null;
+  data: Record<string, unknown>;
+  client_ip: string;
+  user_agent: string;
+  created_at: string;
+}
+
+// What one author's posts drew in over a period
+export interface AuthorActivity {
+  // Posts published in the period
+  posts: {
+    title: string;
+    slug: string;
+    views: number;
+    reactions: number;
+    comments: number;
+  }[];
+  reactions_received: number;
+  comments_received: number;
+  followers_gained: number;
+}
+
+// A post the reader viewed
+export interface ReadingHistoryEntry {
+  viewed_at: string;
+  tags: string[];
+  reading_time: number;
+}
+
+// Tables the platform reports count rows of by created_at
+export type CountedResource = "profiles" | "posts" | "comments";
+
+export interface TopPost {
+  id: string;
+  title: string;
+  slug: string;
+  view_count: number;
+  author: ProfileName | null;
+}
+
+export type TopAuthor = ProfileSummary & { post_count: number };
+
+export interface TopTag {
+  id: string;
+  name: string;
+  usage_count: number;
+}
+
+export type CommentStatus =
+  | "published"
+  | "flagged"
+  | "deleted"
+  | "pending"
+  | "draft";
+
+export interface CommentRecord {
+  id: string;
+  post_id: string;
+  author_id: string;
+  parent_id: string | null;
+  content: string;
+  status: CommentStatus;
+  is_spam: boolean;
+  is_flagged_as_spam: boolean;
+  // Stored tally of like reactions; the "top" sort orders by it
+  like_count: number;
+  created_at: string;
+  updated_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+}
+
+// A comment as the API returns it, with its author and reaction tallies
+export interface CommentView extends CommentRecord {
+  author: ProfileSummary | null;
+  reactions_count: Partial<Record<ReactionType, number>>;
+  replies_count: number;
+}
+
+export interface CommentThread extends CommentView {
+  replies: CommentView[];
+}
+
+export type NewComment = Pick<
+  CommentRecord,
+  "post_id" | "author_id" | "parent_id" | "content" | "is_spam" | "status"
+>;
+
+export type CommentUpdate = Partial<
+  Pick<
+    CommentRecord,
+    "content" | "status" | "is_flagged_as_spam" | "edited_at" | "deleted_at"
+  >
+>;
+
+export interface CommentThreadQuery {
+  postId: string;
+  limit: number;
+  // Only comments created before this time
+  before?: string;
+  sort: "newest" | "oldest" | "top";
+}
+
+// A comment as moderators review it, with where it sits and how much
+// attention it has drawn
+export interface ModerationComment extends CommentRecord {
+  author: ProfileContact | null;
+  post: {
+    id: string;
+    title: string;
+    slug: string;
+    author: ProfileName | null;
+  } | null;
+  parent_comment: {
+    id: string;
+    content: string;
+    author: ProfileName | null;
+  } | null;
+  reactions_count: number;
+  replies_count: number;
+  reports_count: number;
+}
+
+export interface ModerationCommentQuery {
+  search?: string;
+  status?: CommentStatus;
+  spam?: boolean;
+  authorId?: string;
+  postId?: string;
+  ascending: boolean;
+  limit: number;
+  offset: number;
+}
+
+export interface ModerationCounts {
+  status_counts: Record<string, number>;
+  spam_counts: Record<string, number>;
+}
+
+export interface CommentEditView {
+  id: string;
+  previous_content: string;
+  edit_reason: string | null;
+  edited_at: string;
+  edited_by: ProfileName | null;
+}
+
+export interface CommentEdit {
+  comment_id: string;
+  previous_content: string;
+  edited_by: string;
+  edit_reason: string;
+}
+
+export interface ReactionRecord {
+  id: string;
+  comment_id: string;
+  user_id: string;
+  reaction_type: ReactionType;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface ReactionWithUser {
+  reaction_type: ReactionType;
+  user: Pick<ProfileSummary, "username" | "display_name" | "avatar_url">;
+}
+
+export interface NotificationRecord extends StreamedNotification {
+  user_id: string;
+}
+
+// A notification as its reader lists it, with who caused it
+export interface NotificationView extends StreamedNotification {
+  group_key: string | null;
+  actor_ids: string[];
+  actor_count: number;
+  actor: Pick<
+    ProfileSummary,
+    "username" | "display_name" | "avatar_url"
+  > | null;
+}
+
+export interface NotificationListQuery {
+  type?: string;
+  unreadOnly: boolean;
+  limit: number;
+  offset: number;
+}
+
+// Rows that share a group key merged into one entry, with the ids of the
+// rows and the latest actors across them
+export interface NotificationGroupView {
+  group_key: string | null;
+  notification_ids: string[];
+  type: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+  actor_ids: string[];
+  actor_count: number;
+  unread_count: number;
+  is_read: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Which of a reader's notifications a bulk change applies to
+export type NotificationSelection =
+  | { ids: string[] }
+  | { groupKeys: string[] }
+  | { read: true }
+  | { all: true };
+
+export type NotificationPreferenceRow = { user_id: string } & Record<
+  string,
+  unknown
+>;
+
+export interface NewNotification {
+  user_id: string;
+  actor_id: string | null;
+  type: string;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+  group_key: string | null;
+  actor_ids: string[];
+  actor_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NotificationGroup {
+  id: string;
+  user_id: string;
+  actor_ids: string[];
+  actor_count: number;
+}
+
+export type NotificationGroupUpdate = Pick<
+  NewNotification,
+  | "actor_id"
+  | "actor_ids"
+  | "actor_count"
+  | "title"
+  | "message"
+  | "data"
+  | "updated_at"
+>;
+
+export type ReportContentType = "post" | "comment" | "user";
+
+export type ReportStatus = "pending" | "reviewed" | "resolved" | "dismissed";
+
+export interface ReportRecord {
+  id: string;
+  reporter_id: string;
+  reported_content_type: ReportContentType;
+  reported_content_id: string;
+  reason: string;
+  description: string | null;
+  severity: string | null;
+  status: ReportStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  admin_notes: string | null;
+  action_taken: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReportView extends ReportRecord {
+  reporter: ProfileContact | null;
+  reviewed_by_admin: Pick<
+    ProfileSummary,
+    "id" | "username" | "display_name"
+  > | null;
+}
+
+export interface ReportListQuery {
+  contentType?: ReportContentType;
+  status?: ReportStatus;
+  severity?: string;
+  sort: "newest" | "oldest" | "severity" | "status";
+  limit: number;
+  offset: number;
+}
+
+export interface ReportReview {
+  status: ReportStatus;
+  reviewed_by: string;
+  admin_notes?: string | null;
+  action_taken: string | null;
+}
+
+export interface SettingRecord {
+  setting_key: string;
+  setting_value: unknown;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export interface StoredSetting extends SettingRecord {
+  category: string | null;
+  description: string | null;
+}
+
+export type NewSetting = Omit<StoredSetting, "updated_at" | "description"> & {
+  description?: string | null;
+};
+
+export interface UploadRecord {
+  id: string;
+  user_id: string;
+  filename: string;
+  original_name: string;
+  file_type: string;
+  file_size: number;
+  public_url: string;
+  context: string;
+  created_at: string;
+}
+
+export type NewUpload = Omit<UploadRecord, "id" | "created_at">;
+
+export interface PushSubscriptionRecord {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent: string | null;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+export type NewPushSubscription = Pick<
+  PushSubscriptionRecord,
+  "user_id" | "endpoint" | "p256dh" | "auth" | "user_agent"
+>;
+
+export type AnnouncementAudience = z.infer<typeof announcementAudience>;
+
+export interface AnnouncementRecord {
+  id: string;
+  title: string;
+  message: string;
+  type: string;
+  is_active: boolean;
+  priority: string;
+  starts_at: string | null;
+  expires_at: string | null;
+  target_audience: AnnouncementAudience;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AnnouncementUpdate = Partial<
+  Pick<
+    AnnouncementRecord,
+    | "title"
+    | "message"
+    | "type"
+    | "is_active"
+    | "priority"
+    | "starts_at"
+    | "expires_at"
+    | "target_audience"
+  >
+>;
+
+export type NewAnnouncement = Omit<
+  AnnouncementRecord,
+  "id" | "created_at" | "updated_at"
+>;
+
+// An announcement as the maintenance page lists it
+export type AnnouncementView = Omit<AnnouncementRecord, "created_by"> & {
+  created_by: ProfileName | null;
+};
+
+export interface BanRecord {
+  user_id: string;
+  reason: string;
+  banned_at: string;
+  banned_by: string | null;
+  expires_at: string | null;
+}
+
+export interface ActivityLogEntry {
+  user_id: string;
+  action: string;
+  resource_type: string;
+  resource_id: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AdminActionEntry {
+  admin_id: string;
+  action_type: string;
+  // Null for bulk actions, which list their targets in details
+  target_id: string | null;
+  details: Record<string, unknown>;
+}
+
+export interface UserActivityView {
+  action_type: string;
+  created_at: string;
+}
+
+export interface AdminActionView {
+  id: string;
+  action_type: string;
+  details: Record<string, unknown>;
+  created_at: string;
+  admin: ProfileName | null;
+}
+
+export interface AdminNote {
+  content_type: ReportContentType;
+  content_id: string;
+  admin_id: string;
+  notes: string;
+}
+
+/**
+ * Supabase Auth, which holds accounts and sessions rather than rows.
+ * getUserByToken returns null for a token that is invalid or expired and
+ * throws when Auth cannot be asked.
+ */
+export interface AuthRepository {
+  getUserByToken(token: string): Promise<User | null>;
+  // Auth refuses sign-in and token refresh while a ban_duration such as
+  // "24h" is in effect; "none" lifts it
+  setBanDuration(userId: string, duration: string): Promise<void>;
+  deleteUser(userId: string): Promise<void>;
+}
+
+/**
+ * Lookups return null for a missing row and every method throws on a
+ * database error, so callers only branch on what they found.
+ */
+export interface ProfileRepository {
+  findById(id: string): Promise<ProfileRecord | null>;
+  // Ids without a profile are left out
+  findByIds(ids: string[]): Promise<ProfileRecord[]>;
+  findByUsernames(usernames: string[]): Promise<ProfileRecord[]>;
+  // Ordered by username
+  findByRoles(roles: string[]): Promise<ProfileRecord[]>;
+  // Profile ids in order after `after`, optionally only those with one of
+  // roles or without any of excludeRoles (readers have no role)
+  listIds(options: {
+    after: string | null;
+    limit: number;
+    roles?: string[];
+    excludeRoles?: string[];
+  }): Promise<string[]>;
+  findDetail(id: string): Promise<ProfileDetail | null>;
+  countActivity(id: string): Promise<ProfileActivity>;
+  updateRole(id: string, role: string): Promise<void>;
+}
+
+export interface FollowRepository {
+  exists(followerId: string, followingId: string): Promise<boolean>;
+  // False when the follow already existed
+  create(followerId: string, followingId: string): Promise<boolean>;
+  // False when there was no follow to remove
+  delete(followerId: string, followingId: string): Promise<boolean>;
+  // One side of the user's follow graph, newest first and then by id,
+  // starting after the cursor
+  list(
+    userId: string,
+    direction: FollowDirection,
+    options: { limit: number; after?: { at: string; id: string } }
+  ): Promise<FollowEntry[]>;
+  // The ones among userIds on that side of the user's follow graph
+  filter(
+    userId: string,
+    direction: FollowDirection,
+    userIds: string[]
+  ): Promise<string[]>;
+  // The user's followers in id order after `after`
+  listFollowerIds(
+    userId: string,
+    options: { after: string | null; limit: number }
+  ): Promise<string[]>;
+  listFollowingIds(userId: string): Promise<string[]>;
+  // Followers gained in [from, before), newest first, and how many in all
+  listNewFollowers(
+    userId: string,
+    options: { from: string; before: string; limit: number }
+  ): Promise<{ followers: ProfileName[]; total: number }>;
+}
+
+export interface PostRepository {
+  findById(id: string): Promise<PostRecord | null>;
+  // By UUID or slug; deleted posts are left out
+  findView(idOrSlug: string): Promise<PostView | null>;
+  findForModeration(id: string): Promise<ModerationPost | null>;
+  list(query: PostListQuery): Promise<PostView[]>;
+  listForModeration(
+    query: ModerationPostQuery
+  ): Promise<{ posts: ModerationPost[]; total: number }>;
+  // Slugs of other posts that start with the prefix
+  listSlugs(prefix: string, excludePostId?: string): Promise<string[]>;
+  // Both throw the database's unique violation (23505) on a taken slug
+  create(post: NewPost): Promise<PostView>;
+  // Sets updated_at along with the given fields
+  update(id: string, changes: PostChanges): Promise<PostView>;
+  updateStatus(id: string, status: string): Promise<void>;
+  // Posts whose scheduled change is due at the given time, earliest first
+  listDue(schedule: PostSchedule, now: string): Promise<PostView[]>;
+  // Applies the changes only while the post still has the expected values;
+  // false when it no longer does
+  updateIf(
+    id: string,
+    expected: Partial<
+      Pick<PostView, "status" | "scheduled_for" | "unpublish_at">
+    >,
+    changes: PostChanges
+  ): Promise<boolean>;
+  // Published in [from, before) by anyone but excludeAuthorId, newest
+  // first, optionally only by one of authorIds or carrying one of tags
+  listPublished(query: {
+    from: string;
+    before: string;
+    excludeAuthorId: string;
+    authorIds?: string[];
+    tags?: string[];
+    limit: number;
+  }): Promise<PostView[]>;
+}
+
+export interface PostRevisionRepository {
+  create(revision: NewPostRevision): Promise<PostRevision>;
+  find(postId: string, revisionNumber: number): Promise<PostRevision | null>;
+  hasAny(postId: string): Promise<boolean>;
+  // Newest first, below the revision number given as before
+  list(
+    postId: string,
+    options: { limit: number; before?: number }
+  ): Promise<PostRevisionSummary[]>;
+}
+
+export interface PostCollaboratorRepository {
+  find(postId: string, userId: string): Promise<PostCollaboratorRecord | null>;
+  // Oldest invitation first
+  listForPost(postId: string): Promise<PostCollaboratorView[]>;
+  create(
+    collaborator: Omit<PostCollaboratorRecord, "accepted_at" | "created_at">
+  ): Promise<PostCollaboratorRecord>;
+  update(
+    postId: string,
+    userId: string,
+    changes: Partial<Pick<PostCollaboratorRecord, "role" | "accepted_at">>
+  ): Promise<PostCollaboratorRecord>;
+  delete(postId: string, userId: string): Promise<void>;
+}
+
+export interface TagRepository {
+  findById(id: string): Promise<Tag | null>;
+  findByIds(ids: string[]): Promise<Tag[]>;
+  findBySlug(slug: string): Promise<Tag | null>;
+  // Canonical tags by name, and how many match in all
+  list(query: {
+    search?: string;
+    limit: number;
+    offset: number;
+  }): Promise<{ tags: TagListing[]; total: number }>;
+  // Null when the slug is taken
+  create(tag: NewTag): Promise<Tag | null>;
+  updateDescription(id: string, description: string | null): Promise<Tag>;
+  // Tags merged into the tag, by name
+  listSynonyms(id: string): Promise<TagSummary[]>;
+  countUsage(
+    id: string
+  ): Promise<{ post_count: number; follower_count: number }>;
+  // Replaces the post's post_tags rows
+  setPostTags(postId: string, tagIds: string[]): Promise<void>;
+  isFollowing(userId: string, tagId: string): Promise<boolean>;
+  listFollowedNames(userId: string): Promise<string[]>;
+  follow(userId: string, tagId: string): Promise<void>;
+  unfollow(userId: string, tagId: string): Promise<void>;
+  /**
+   * Folds the sources into the target: they and their synonyms redirect to
+   * it, and their post links, follows and the names stored on posts move
+   * over. Returns how many posts had their tag names rewritten.
+   */
+  merge(sources: Tag[], target: Tag): Promise<number>;
+}
+
+export interface CommentRepository {
+  findById(id: string): Promise<CommentRecord | null>;
+  findView(id: string): Promise<CommentView | null>;
+  // Published top-level comments of a post with their replies
+  listThreads(query: CommentThreadQuery): Promise<CommentThread[]>;
+  create(comment: NewComment): Promise<CommentView>;
+  // Sets updated_at along with the given fields
+  update(id: string, changes: CommentUpdate): Promise<void>;
+  // Removes the row for good; reactions and reports cascade
+  delete(id: string): Promise<void>;
+  addEdit(edit: CommentEdit): Promise<void>;
+  // Newest first
+  listEdits(commentId: string): Promise<CommentEditView[]>;
+  listReplies(commentId: string): Promise<CommentView[]>;
+  // The author's most recent comments
+  listByAuthor(authorId: string, limit: number): Promise<CommentRecord[]>;
+  // Published comments others left on the user's posts in [from, before),
+  // newest first
+  listReceived(
+    userId: string,
+    options: { from: string; before: string; limit: number }
+  ): Promise<ReceivedComment[]>;
+  findForModeration(id: string): Promise<ModerationComment | null>;
+  listForModeration(
+    query: ModerationCommentQuery
+  ): Promise<{ comments: ModerationComment[]; total: number }>;
+  countForModeration(): Promise<ModerationCounts>;
+  // Sets updated_at along with the given fields; returns the updated rows
+  updateMany(ids: string[], changes: CommentUpdate): Promise<CommentRecord[]>;
+}
+
+export interface ReactionRepository {
+  find(commentId: string, userId: string): Promise<ReactionRecord | null>;
+  create(
+    reaction: Pick<ReactionRecord, "comment_id" | "user_id" | "reaction_type">
+  ): Promise<void>;
+  updateType(id: string, reactionType: ReactionType): Promise<void>;
+  delete(id: string): Promise<void>;
+  listForComment(commentId: string): Promise<ReactionWithUser[]>;
+}
+
+export interface NotificationRepository {
+  insert(notifications: NewNotification[]): Promise<NotificationRecord[]>;
+  // Unread rows of the group with activity at or after `since`
+  findOpenGroups(
+    userIds: string[],
+    groupKey: string,
+    since: string
+  ): Promise<NotificationGroup[]>;
+  // Only applies while actor_count is still expectedCount; null otherwise
+  updateGroup(
+    id: string,
+    expectedCount: number,
+    changes: NotificationGroupUpdate
+  ): Promise<NotificationRecord | null>;
+  countUnread(userId: string): Promise<number>;
+  // A page of the reader's notifications, latest activity first, and how
+  // many match in all
+  list(
+    userId: string,
+    query: NotificationListQuery
+  ): Promise<{ notifications: NotificationView[]; total: number }>;
+  // A page of groups, merged and paginated together so a group is never
+  // split across pages, each with its latest `actorLimit` actors, and how
+  // many groups match in all. Rows without a group key are groups of their
+  // own.
+  listGroups(
+    userId: string,
+    query: NotificationListQuery & { actorLimit: number }
+  ): Promise<{ groups: NotificationGroupView[]; total: number }>;
+  // The ones among ids that belong to the reader
+  findOwnedIds(userId: string, ids: string[]): Promise<string[]>;
+  // Sets is_read and read_at; returns the rows changed
+  setRead(
+    userId: string,
+    selection: NotificationSelection,
+    isRead: boolean
+  ): Promise<NotificationView[]>;
+  // Returns how many rows were deleted
+  delete(userId: string, selection: NotificationSelection): Promise<number>;
+  // updated_at of one of the reader's notifications; null when it is not
+  // theirs or no longer exists
+  findVersion(userId: string, id: string): Promise<string | null>;
+  // The reader's notifications with activity after `since`, oldest first
+  listUpdatedSince(
+    userId: string,
+    since: string,
+    limit: number
+  ): Promise<StreamedNotification[]>;
+  // Stored preference rows; users without one are left out
+  findPreferences(userIds: string[]): Promise<NotificationPreferenceRow[]>;
+  // Creates the user's row on first save and updates it after that
+  savePreferences(
+    userId: string,
+    changes: Record<string, unknown>
+  ): Promise<NotificationPreferenceRow>;
+}
+
+export interface ReportRepository {
+  findById(id: string): Promise<ReportRecord | null>;
+  review(id: string, review: ReportReview): Promise<ReportRecord>;
+  reviewMany(ids: string[], review: ReportReview): Promise<ReportRecord[]>;
+  findView(id: string): Promise<ReportView | null>;
+  list(
+    query: ReportListQuery
+  ): Promise<{ reports: ReportView[]; total: number }>;
+  // Reports against any of the given items, newest first
+  listForContent(
+    contentType: ReportContentType,
+    contentIds: string[],
+    options?: { excludeId?: string; limit?: number }
+  ): Promise<ReportView[]>;
+  // Items of the type with at least one pending report
+  listPendingContentIds(contentType: ReportContentType): Promise<string[]>;
+}
+
+export interface SettingsRepository {
+  get(key: string): Promise<SettingRecord | null>;
+  // Only the keys that are set
+  getMany(keys: string[]): Promise<SettingRecord[]>;
+  // Ordered by category, then key
+  list(): Promise<StoredSetting[]>;
+  // Inserts or overwrites each setting by key
+  save(settings: NewSetting[]): Promise<StoredSetting[]>;
+  // Saves the settings and removes every other stored key
+  replaceAll(settings: NewSetting[]): Promise<void>;
+}
+
+export interface UploadRepository {
+  create(upload: NewUpload): Promise<UploadRecord>;
+  findForUser(id: string, userId: string): Promise<UploadRecord | null>;
+  listForUser(
+    userId: string,
+    options: { context?: string; limit: number }
+  ): Promise<UploadRecord[]>;
+  delete(id: string): Promise<void>;
+  // Stores the file in the uploads bucket and returns its public URL
+  putFile(
+    path: string,
+    bytes: Uint8Array,
+    contentType: string
+  ): Promise<string>;
+  removeFiles(paths: string[]): Promise<void>;
+}
+
+export interface PushSubscriptionRepository {
+  // Newest first
+  listForUser(userId: string): Promise<PushSubscriptionRecord[]>;
+  listForUsers(userIds: string[]): Promise<PushSubscriptionRecord[]>;
+  // Saving an endpoint the user already registered refreshes that row
+  save(subscription: NewPushSubscription): Promise<PushSubscriptionRecord>;
+  // False when the user had no subscription for the endpoint
+  delete(userId: string, endpoint: string): Promise<boolean>;
+  deleteMany(ids: string[]): Promise<void>;
+  markUsed(ids: string[], usedAt: string): Promise<void>;
+}
+
+/**
+ * Dismissals are kept in announcement_dismissals, one row per user and
+ * announcement:
+ *
+ *   announcement_id uuid references platform_announcements on delete cascade,
+ *   user_id uuid references profiles on delete cascade,
+ *   dismissed_at timestamptz, primary key (announcement_id, user_id)
+ */
+export interface AnnouncementRepository {
+  findById(id: string): Promise<AnnouncementRecord | null>;
+  // Every announcement, highest priority and then newest first
+  list(): Promise<AnnouncementView[]>;
+  create(announcement: NewAnnouncement): Promise<AnnouncementRecord>;
+  // Active, started and unexpired at `now` for any of the audiences,
+  // newest first
+  listShowing(
+    audiences: AnnouncementAudience[],
+    now: string
+  ): Promise<AnnouncementRecord[]>;
+  // Sets updated_at along with the given fields
+  update(id: string, changes: AnnouncementUpdate): Promise<AnnouncementRecord>;
+  // Removes the row for good; dismissals cascade
+  delete(id: string): Promise<void>;
+  // The ones among announcementIds the user has dismissed
+  findDismissed(userId: string, announcementIds: string[]): Promise<string[]>;
+  // Dismissing twice keeps the first dismissal
+  dismiss(announcementId: string, userId: string): Promise<void>;
+  // Queues the announcement's send unless it already has one; returns the
+  // send either way
+  queueNotification(
+    announcementId: string,
+    actorId: string
+  ): Promise<AnnouncementNotificationRecord>;
+  // Pending sends of active announcements that have started by `now`,
+  // oldest queued first
+  listPendingNotifications(
+    now: string,
+    limit: number
+  ): Promise<
+    (AnnouncementNotificationRecord & { announcement: AnnouncementRecord })[]
+  >;
+  // Claims a pending send unless it holds a claim taken after staleBefore;
+  // false when it was not claimed
+  claimNotification(
+    announcementId: string,
+    claimedAt: string,
+    staleBefore: string
+  ): Promise<boolean>;
+  // Applies the changes only while the send is still under the claim
+  updateNotification(
+    announcementId: string,
+    claimedAt: string,
+    changes: AnnouncementNotificationChanges
+  ): Promise<boolean>;
+}
+
+export interface BanRepository {
+  find(userId: string): Promise<BanRecord | null>;
+  create(ban: BanRecord): Promise<void>;
+  delete(userId: string): Promise<void>;
+  // Deletes the ban only if it ran out at or before `now`
+  deleteExpired(userId: string, now: string): Promise<void>;
+}
+
+export interface EmailThrottleRepository {
+  find(
+    userId: string,
+    kind: ActivityEmailKind,
+    postId: string
+  ): Promise<EmailThrottleRecord | null>;
+  findById(id: string): Promise<EmailThrottleRecord | null>;
+  // Rows with held events whose last email went out at or before
+  // sentBefore and with no claim taken after claimedBefore, the longest
+  // waiting first
+  listDue(options: {
+    sentBefore: string;
+    claimedBefore: string;
+    limit: number;
+  }): Promise<EmailThrottleRecord[]>;
+  // Null when the recipient already has a row for the kind and post
+  create(row: NewEmailThrottle): Promise<string | null>;
+  // Applies the changes only while the row still has the expected values;
+  // false when it no longer does
+  updateIf(
+    id: string,
+    expected: Partial<
+      Pick<EmailThrottleRecord, "pending_count" | "last_sent_at" | "claimed_at">
+    >,
+    changes: EmailThrottleChanges
+  ): Promise<boolean>;
+}
+
+export interface DigestSendRepository {
+  find(userId: string, periodStart: string): Promise<DigestSendRecord | null>;
+  // A pending first attempt claimed at claimedAt; null when the user
+  // already has a send for the period
+  create(
+    userId: string,
+    periodStart: string,
+    claimedAt: string
+  ): Promise<string | null>;
+  update(id: string, changes: DigestSendChanges): Promise<void>;
+  // Applies the changes only while the send still has the expected values;
+  // false when it no longer does
+  updateIf(
+    id: string,
+    expected: Pick<DigestSendRecord, "status" | "attempts">,
+    changes: DigestSendChanges
+  ): Promise<boolean>;
+}
+
+export interface FeedRepository {
+  // Published posts by other authors, collected from each source the reader
+  // has, leaving out posts they have viewed
+  listCandidates(
+    readerId: string,
+    query: FeedCandidateQuery
+  ): Promise<FeedCandidate[]>;
+}
+
+export interface SearchRepository {
+  search(query: SearchQuery): Promise<SearchHit[]>;
+}
+
+/**
+ * Reports are best effort: a read that fails is logged and comes back empty
+ * or zero, and the view counters are only logged when they fail, so one
+ * missing table never takes a whole dashboard down.
+ */
+export interface AnalyticsRepository {
+  recordEvent(event: AnalyticsEvent): Promise<void>;
+  incrementPostViews(postId: string): Promise<void>;
+  // Keeps one view per reader and post, stamped with the latest visit
+  recordPostView(userId: string, postId: string): Promise<void>;
+  // The one check that throws: fails when the database cannot be reached
+  ping(): Promise<void>;
+  getAuthorActivity(
+    authorId: string,
+    range: { from: string; before: string }
+  ): Promise<AuthorActivity>;
+  listReadingHistory(
+    userId: string,
+    from: string
+  ): Promise<ReadingHistoryEntry[]>;
+  // When the user's events happened, newest first
+  listEventTimes(userId: string, from: string): Promise<string[]>;
+  // Rows created from `from` up to `before`, each end open when omitted
+  count(
+    resource: CountedResource,
+    range?: { from?: string; before?: string }
+  ): Promise<number>;
+  // view_count summed over every post
+  sumPostViews(): Promise<number>;
+  // Distinct users with activity logged since `from`
+  countActiveUsers(from: string): Promise<number>;
+  countErrors(from: string): Promise<number>;
+  // Published posts, most viewed first
+  listTopPosts(limit: number): Promise<TopPost[]>;
+  // Authors by posts published since `from`, most first
+  listTopAuthors(from: string, limit: number): Promise<TopAuthor[]>;
+  // Tags by use on posts created since `from`, synonyms counting towards
+  // their canonical tag
+  listTopTags(from: string, limit: number): Promise<TopTag[]>;
+}
+
+// Audit writes are best effort: failures are logged, never thrown
+export interface ActivityLogRepository {
+  logActivity(entry: ActivityLogEntry): Promise<void>;
+  logAdminAction(entry: AdminActionEntry): Promise<void>;
+  addAdminNote(note: AdminNote): Promise<void>;
+  // Newest first
+  listAdminActions(
+    targetId: string,
+    limit?: number
+  ): Promise<AdminActionView[]>;
+  // The user's latest actions, newest first
+  listUserActivity(userId: string, limit: number): Promise<UserActivityView[]>;
+}
+
+export interface Repositories {
+  auth: AuthRepository;
+  profiles: ProfileRepository;
+  follows: FollowRepository;
+  posts: PostRepository;
+  revisions: PostRevisionRepository;
+  collaborators: PostCollaboratorRepository;
+  tags: TagRepository;
+  comments: CommentRepository;
+  reactions: ReactionRepository;
+  notifications: NotificationRepository;
+  pushSubscriptions: PushSubscriptionRepository;
+  reports: ReportRepository;
+  settings: SettingsRepository;
+  uploads: UploadRepository;
+  announcements: AnnouncementRepository;
+  bans: BanRepository;
+  emailThrottle: EmailThrottleRepository;
+  digestSends: DigestSendRepository;
+  feed: FeedRepository;
+  search: SearchRepository;
+  analytics: AnalyticsRepository;
+  logs: ActivityLogRepository;
+}
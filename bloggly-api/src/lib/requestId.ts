@@ -0,0 +1,13 @@
+// src/lib/requestId.ts
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+// Client-supplied ids are kept so calls can be traced end to end, as long as
+// they look like an id rather than arbitrary header content
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{8,128}$/;
+
+export function resolveRequestId(incoming: string | null): string {
+  return incoming && REQUEST_ID_PATTERN.test(incoming)
+    ? incoming
+    : crypto.randomUUID();
+}
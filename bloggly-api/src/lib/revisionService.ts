@@ -0,0 +1,137 @@
+// src/lib/revisionService.ts
+import { Change, diffLines, diffWords } from "diff";
+import { getRepositories, PostRevision, PostView } from "./repositories";
+
+interface CreateRevisionOptions {
+  postId: string;
+  authorId: string;
+  title: string;
+  contentMarkdown: string;
+  excerpt: string | null;
+  tags: string[];
+  changeSummary: string | null;
+  restoredFrom?: number;
+}
+
+export type DiffGranularity = "line" | "word";
+
+export interface DiffChange {
+  type: "added" | "removed" | "unchanged";
+  value: string;
+}
+
+// Fields whose changes produce a new revision when a post is saved
+export const REVISIONED_FIELDS = [
+  "title",
+  "content_markdown",
+  "excerpt",
+  "tags",
+] as const;
+
+export async function createPostRevision({
+  postId,
+  authorId,
+  title,
+  contentMarkdown,
+  excerpt,
+  tags,
+  changeSummary,
+  restoredFrom,
+}: CreateRevisionOptions): Promise<PostRevision> {
+  return getRepositories().revisions.create({
+    post_id: postId,
+    title,
+    content_markdown: contentMarkdown,
+    excerpt,
+    tags,
+    author_id: authorId,
+    change_summary: changeSummary,
+    restored_from: restoredFrom ?? null,
+  });
+}
+
+// Posts created before revisions were recorded have none. Their current
+// content is kept as the first revision before they are edited, so the
+// original is not lost.
+export async function ensureBaselineRevision(post: PostView): Promise<void> {
+  if (await getRepositories().revisions.hasAny(post.id)) {
+    return;
+  }
+
+  await createPostRevision({
+    postId: post.id,
+    authorId: post.author_id,
+    title: post.title,
+    contentMarkdown: post.content_markdown,
+    excerpt: post.excerpt,
+    tags: post.tags || [],
+    changeSummary: "Original version",
+  });
+}
+
+export function getPostRevision(
+  postId: string,
+  revisionNumber: number
+): Promise<PostRevision | null> {
+  return getRepositories().revisions.find(postId, revisionNumber);
+}
+
+// Summarises which revisioned fields a save touched, e.g. "Updated title, content"
+export function describeChanges(changedFields: string[]): string {
+  const labels = changedFields.map((field) =>
+    field === "content_markdown" ? "content" : field
+  );
+  return `Updated ${labels.join(", ")}`;
+}
+
+function toDiffChanges(changes: Change[]): DiffChange[] {
+  return changes.map((change) => ({
+    type: change.added ? "added" : change.removed ? "removed" : "unchanged",
+    value: change.value,
+  }));
+}
+
+function countUnits(
+  changes: DiffChange[],
+  type: DiffChange["type"],
+  granularity: DiffGranularity
+): number {
+  return changes
+    .filter((change) => change.type === type)
+    .reduce((sum, change) => {
+      const units =
+        granularity === "line"
+          ? change.value.split("\n").filter((line) => line.length > 0)
+          : change.value.split(/\s+/).filter((word) => word.length > 0);
+      return sum + units.length;
+    }, 0);
+}
+
+export function diffRevisions(
+  from: PostRevision,
+  to: PostRevision,
+  granularity: DiffGranularity = "line"
+) {
+  const content = toDiffChanges(
+    granularity === "line"
+      ? diffLines(from.content_markdown, to.content_markdown)
+      : diffWords(from.content_markdown, to.content_markdown)
+  );
+  const title = toDiffChanges(diffWords(from.title, to.title));
+
+  return {
+    from: from.revision_number,
+    to: to.revision_number,
+    granularity,
+    title,
+    content,
+    tags: {
+      added: to.tags.filter((tag) => !from.tags.includes(tag)),
+      removed: from.tags.filter((tag) => !to.tags.includes(tag)),
+    },
+    stats: {
+      added: countUnits(content, "added", granularity),
+      removed: countUnits(content, "removed", granularity),
+    },
+  };
+}
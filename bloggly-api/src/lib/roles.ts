@@ -0,0 +1,101 @@
+// src/lib/roles.ts
+import { supabaseAdmin } from "./supabaseAdmin";
+
+// Roles and what they may do. Free of Node-only imports so src/middleware.ts
+// can use it on the Edge runtime; request checks are in ./permissions.
+
+export const ROLES = [
+  "admin",
+  "moderator",
+  "support",
+  "author",
+  "reader",
+] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const DEFAULT_ROLE: Role = "reader";
+
+export const PERMISSIONS = [
+  "view_analytics",
+  "view_users",
+  "delete_users",
+  "ban_users",
+  "manage_roles",
+  "moderate_comments",
+  "moderate_posts",
+  "delete_content",
+  "view_reports",
+  "manage_reports",
+  "view_settings",
+  "edit_settings",
+  "manage_maintenance",
+  "manage_announcements",
+  "manage_tags",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Authors and readers hold no platform permissions; what they can do with
+// their own content is decided per resource (see checkPostAuthorization).
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  moderator: [
+    "view_users",
+    "ban_users",
+    "moderate_comments",
+    "moderate_posts",
+    "view_reports",
+    "manage_reports",
+    "manage_tags",
+  ],
+  support: ["view_users", "view_reports", "view_analytics"],
+  author: [],
+  reader: [],
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && ROLES.includes(value as Role);
+}
+
+export function roleHasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// ROLES runs from most to least privileged
+export function roleOutranks(role: Role, other: Role): boolean {
+  return ROLES.indexOf(role) < ROLES.indexOf(other);
+}
+
+export function getRolesWithPermission(permission: Permission): Role[] {
+  return ROLES.filter((role) => roleHasPermission(role, permission));
+}
+
+// The role a profile's stored role grants. The bootstrap admin keeps full
+// access even before a profile role is set.
+export function resolveUserRole(userId: string, storedRole: unknown): Role {
+  if (
+    process.env.YOUR_PLATFORM_ADMIN_USER_ID &&
+    userId === process.env.YOUR_PLATFORM_ADMIN_USER_ID
+  ) {
+    return "admin";
+  }
+  return isRole(storedRole) ? storedRole : DEFAULT_ROLE;
+}
+
+// Reads the role straight from Supabase for the Edge middleware, which
+// cannot load the repositories; route handlers use getUserRole from
+// ./permissions
+export async function fetchUserRole(userId: string): Promise<Role> {
+  const { data: profile, error } = await supabaseAdmin
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return resolveUserRole(userId, profile?.role);
+}
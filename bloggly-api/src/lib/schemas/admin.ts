@@ -0,0 +1,254 @@
+// src/lib/schemas/admin.ts
+import { ROLES } from "../permissions";
+import { SETTING_KEYS, SETTINGS_REGISTRY } from "../settings/registry";
+import { z } from "zod";
+
+export const adminAnalyticsSchema = z.object({
+  period: z.enum(["7d", "30d", "90d", "1y"]).optional().default("30d"),
+  metrics: z
+    .array(z.enum(["users", "posts", "comments", "views", "engagement"]))
+    .optional(),
+});
+
+export const getAdminCommentsSchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  search: z.string().optional(),
+  status: z
+    .enum(["all", "published", "flagged", "deleted", "pending"])
+    .optional()
+    .default("all"),
+  spam_filter: z.enum(["all", "spam", "not_spam"]).optional().default("all"),
+  sort: z
+    .enum(["newest", "oldest", "most_reported"])
+    .optional()
+    .default("newest"),
+  user_id: z.string().uuid().optional(),
+  post_id: z.string().uuid().optional(),
+});
+
+export const bulkUpdateCommentsSchema = z.object({
+  comment_ids: z.array(z.string().uuid()),
+  action: z.enum(["approve", "flag", "delete", "mark_spam", "unmark_spam"]),
+  reason: z.string().max(500).optional(),
+});
+
+export const adminUpdateCommentSchema = z.object({
+  status: z.enum(["published", "flagged", "deleted", "pending"]).optional(),
+  is_flagged_as_spam: z.boolean().optional(),
+  admin_notes: z.string().max(1000).optional(),
+});
+
+export const commentModerationActionSchema = z.object({
+  action_type: z.enum([
+    "approve_comment",
+    "delete_comment",
+    "flag_comment",
+    "mark_spam",
+    "unmark_spam",
+    "edit_comment",
+    "restore_comment",
+  ]),
+  reason: z.string().max(500).optional(),
+  new_content: z.string().max(2000).optional(), // For edit_comment action
+});
+
+export const maintenanceSchema = z.object({
+  is_enabled: z.boolean(),
+  message: z.string().max(1000).optional(),
+  estimated_duration: z.string().max(100).optional(), // e.g., "2 hours", "30 minutes"
+  start_time: z.string().datetime().optional(),
+  end_time: z.string().datetime().optional(),
+  allowed_ips: z.array(z.string().ip()).max(10).optional(), // IPs that can access during maintenance
+});
+
+const announcementType = z.enum(["info", "warning", "success", "error"]);
+const announcementPriority = z.enum(["low", "medium", "high"]);
+// "users" is everyone signed in except admins, as for notifications
+export const announcementAudience = z.enum(["all", "users", "admins"]);
+
+const startsBeforeExpiry = (data: {
+  starts_at?: string | null;
+  expires_at?: string | null;
+}) =>
+  !data.starts_at ||
+  !data.expires_at ||
+  new Date(data.starts_at) < new Date(data.expires_at);
+
+export const announcementSchema = z
+  .object({
+    title: z.string().min(1).max(200),
+    message: z.string().min(1).max(2000),
+    type: announcementType.optional().default("info"),
+    is_active: z.boolean().optional().default(true),
+    priority: announcementPriority.optional().default("medium"),
+    // Hidden until then; shown straight away when omitted
+    starts_at: z.string().datetime().optional(),
+    expires_at: z.string().datetime().optional(),
+    target_audience: announcementAudience.optional().default("all"),
+  })
+  .refine(startsBeforeExpiry, {
+    message: "starts_at must be before expires_at",
+    path: ["starts_at"],
+  });
+
+// Setting is_active to false deactivates an announcement; null clears a time
+export const updateAnnouncementSchema = z
+  .object({
+    title: z.string().min(1).max(200).optional(),
+    message: z.string().min(1).max(2000).optional(),
+    type: announcementType.optional(),
+    is_active: z.boolean().optional(),
+    priority: announcementPriority.optional(),
+    starts_at: z.string().datetime().nullable().optional(),
+    expires_at: z.string().datetime().nullable().optional(),
+    target_audience: announcementAudience.optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  })
+  .refine(startsBeforeExpiry, {
+    message: "starts_at must be before expires_at",
+    path: ["starts_at"],
+  });
+
+export const getAdminPostsSchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  search: z.string().optional(),
+  status: z
+    .enum(["all", "published", "draft", "archived"])
+    .optional()
+    .default("all"),
+  reported: z
+    .enum(["all", "reported", "not_reported"])
+    .optional()
+    .default("all"),
+  sort: z
+    .enum(["newest", "oldest", "most_viewed", "most_commented"])
+    .optional()
+    .default("newest"),
+});
+
+export const getReportsSchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  type: z.enum(["all", "post", "comment", "user"]).optional().default("all"),
+  status: z
+    .enum(["all", "pending", "reviewed", "resolved", "dismissed"])
+    .optional()
+    .default("all"),
+  severity: z.enum(["all", "low", "medium", "high"]).optional().default("all"),
+  sort: z
+    .enum(["newest", "oldest", "severity", "status"])
+    .optional()
+    .default("newest"),
+});
+
+export const updateReportSchema = z.object({
+  status: z.enum(["reviewed", "resolved", "dismissed"]),
+  admin_notes: z.string().max(1000).optional(),
+  action_taken: z.string().max(500).optional(),
+});
+
+export const bulkUpdateReportsSchema = z.object({
+  report_ids: z.array(z.string().uuid()),
+  status: z.enum(["reviewed", "resolved", "dismissed"]),
+  admin_notes: z.string().max(1000).optional(),
+  action_taken: z.string().max(500).optional(),
+});
+
+export const reportModerationActionSchema = z.object({
+  action_type: z.enum([
+    "approve_content",
+    "delete_content",
+    "flag_content",
+    "ban_user",
+    "warn_user",
+    "dismiss_report",
+  ]),
+  reason: z.string().max(500).optional(),
+  duration_days: z.number().int().min(1).max(365).optional(), // For temporary bans
+});
+
+// Reports a value that does not fit its key's registry schema as an issue
+// on the value field
+function checkSettingValue(
+  key: keyof typeof SETTINGS_REGISTRY,
+  value: unknown,
+  path: (string | number)[],
+  ctx: z.RefinementCtx
+) {
+  const result = SETTINGS_REGISTRY[key].schema.safeParse(value);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      ctx.addIssue({ ...issue, path: [...path, ...issue.path] });
+    }
+  }
+}
+
+export const updateSettingSchema = z
+  .object({
+    setting_key: z.enum(SETTING_KEYS),
+    setting_value: z.unknown(),
+    description: z.string().max(500).optional(),
+  })
+  .superRefine((data, ctx) =>
+    checkSettingValue(
+      data.setting_key,
+      data.setting_value,
+      ["setting_value"],
+      ctx
+    )
+  );
+
+export const bulkUpdateSettingsSchema = z.object({
+  settings: z
+    .array(
+      z
+        .object({
+          key: z.enum(SETTING_KEYS),
+          value: z.unknown(),
+          description: z.string().max(500).optional(),
+        })
+        .superRefine((data, ctx) =>
+          checkSettingValue(data.key, data.value, ["value"], ctx)
+        )
+    )
+    .min(1),
+});
+
+export const mergeTagsSchema = z.object({
+  source_tag_ids: z.array(z.string().uuid()).min(1).max(20),
+  target_tag_id: z.string().uuid(),
+  reason: z.string().max(500).optional(),
+});
+
+export const banUserSchema = z.object({
+  reason: z
+    .string()
+    .min(1, "Ban reason is required")
+    .max(500, "Reason too long"),
+  duration_days: z.number().int().min(1).max(365).optional(), // Optional for permanent ban
+});
+
+export const grantRoleSchema = z.object({
+  role: z.enum(ROLES),
+  reason: z.string().max(500).optional(),
+});
+
+export const revokeRoleSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export const getSettingsSchema = z.object({
+  category: z.string().max(50).optional(),
+  search: z.string().max(100).optional(),
+});
+
+export const getMaintenanceSchema = z.object({
+  type: z
+    .enum(["maintenance", "announcements", "all"])
+    .optional()
+    .default("all"),
+});
@@ -0,0 +1,22 @@
+// src/lib/schemas/analytics.ts
+import { z } from "zod";
+
+export const analyticsEventSchema = z.object({
+  event_type: z.enum([
+    "page_view",
+    "post_view",
+    "post_read",
+    "search",
+    "click",
+    "scroll",
+    "time_spent",
+  ]),
+  post_id: z.string().optional(),
+  data: z.record(z.any()).optional(),
+  timestamp: z.string().optional(),
+});
+
+export const dashboardSchema = z.object({
+  // Days to look back
+  timeframe: z.coerce.number().int().min(1).max(365).optional().default(30),
+});
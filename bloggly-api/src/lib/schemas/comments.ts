@@ -0,0 +1,23 @@
+// src/lib/schemas/comments.ts
+import { z } from "zod";
+
+export const createCommentSchema = z.object({
+  post_id: z.string().uuid(),
+  content: z.string().min(1).max(2000),
+  parent_id: z.string().uuid().optional(),
+});
+
+export const getCommentsSchema = z.object({
+  post_id: z.string().uuid(),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+  cursor: z.string().optional(),
+  sort: z.enum(["newest", "oldest", "top"]).optional().default("top"),
+});
+
+export const updateCommentSchema = z.object({
+  content: z.string().min(1).max(2000),
+});
+
+export const reactionSchema = z.object({
+  reaction_type: z.enum(["like", "love", "insightful", "unicorn"]),
+});
@@ -0,0 +1,14 @@
+// src/lib/schemas/cron.ts
+import { z } from "zod";
+
+export const weeklyDigestSchema = z.object({
+  // Any time within the week after the one to summarise; defaults to now
+  reference_date: z.string().datetime().optional(),
+  limit: z.number().int().min(1).max(500).default(100),
+  cursor: z.string().uuid().optional(),
+});
+
+export const announcementNotificationsSchema = z.object({
+  // Recipients to push to in this run, across queued announcements
+  limit: z.number().int().min(1).max(5000).default(1000),
+});
@@ -0,0 +1,99 @@
+// src/lib/schemas/notifications.ts
+import { z } from "zod";
+
+export const notificationPreferencesSchema = z.object({
+  email_notifications: z.boolean().optional(),
+  push_notifications: z.boolean().optional(),
+  comment_notifications: z.boolean().optional(),
+  reaction_notifications: z.boolean().optional(),
+  follow_notifications: z.boolean().optional(),
+  mention_notifications: z.boolean().optional(),
+  post_published_notifications: z.boolean().optional(),
+  comment_emails: z.boolean().optional(),
+  mention_emails: z.boolean().optional(),
+  collaboration_emails: z.boolean().optional(),
+  weekly_digest: z.boolean().optional(),
+  marketing_emails: z.boolean().optional(),
+});
+
+// Hosts of the push services browsers hand out endpoints on. The server
+// POSTs to the endpoint, so any other host is refused rather than letting a
+// client aim those requests elsewhere. A leading "." matches subdomains.
+export const PUSH_SERVICE_HOSTS = [
+  "fcm.googleapis.com",
+  "android.googleapis.com",
+  "updates.push.services.mozilla.com",
+  ".push.apple.com",
+  ".notify.windows.com",
+];
+
+export function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== "https:" || url.port || url.username || url.password) {
+    return false;
+  }
+
+  const host = url.hostname.toLowerCase();
+  return PUSH_SERVICE_HOSTS.some((allowed) =>
+    allowed.startsWith(".") ? host.endsWith(allowed) : host === allowed
+  );
+}
+
+// The shape of PushSubscription.toJSON() in the browser
+export const registerPushSubscriptionSchema = z.object({
+  endpoint: z
+    .string()
+    .url()
+    .refine(isPushServiceEndpoint, "Endpoint is not a known push service."),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+export const unregisterPushSubscriptionSchema = z.object({
+  endpoint: z.string().url(),
+});
+
+export const getNotificationsSchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+  // comment, reaction, follow, mention, etc.
+  type: z.string().max(50).optional(),
+  unread: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+  grouped: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+export const updateNotificationsSchema = z.object({
+  notification_ids: z.array(z.string().uuid()).optional(),
+  group_keys: z.array(z.string().min(1)).optional(),
+  action: z.enum(["mark_read", "mark_unread"]).optional().default("mark_read"),
+});
+
+export const deleteNotificationsSchema = z.object({
+  // Comma-separated notification ids
+  ids: z
+    .string()
+    .optional()
+    .transform((value) => value?.split(",").filter(Boolean)),
+  all: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+  read: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
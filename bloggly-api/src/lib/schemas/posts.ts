@@ -0,0 +1,81 @@
+// src/lib/schemas/posts.ts
+import { COLLABORATOR_ROLES } from "../collaborationService";
+import { z } from "zod";
+
+export function createPostSchema(maxPostLength: number) {
+  return z.object({
+    title: z.string().min(1).max(200),
+    content_markdown: z.string().min(1).max(maxPostLength),
+    excerpt: z.string().max(300).optional(),
+    cover_image_url: z.string().url().optional(),
+    tags: z.array(z.string().min(1).max(30)).max(10).optional().default([]),
+    allow_comments: z.boolean().optional().default(true),
+    status: z.enum(["draft", "published"]).optional().default("draft"),
+    scheduled_for: z.string().datetime().optional(),
+    unpublish_at: z.string().datetime().optional(),
+  });
+}
+
+export const getPostsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+  cursor: z.string().max(200).optional(),
+  author_id: z.string().uuid().optional(),
+  tag: z.string().max(30).optional(),
+  mine: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+  status: z.enum(["draft", "published", "archived"]).optional(),
+});
+
+export function updatePostSchema(maxPostLength: number) {
+  return z
+    .object({
+      title: z.string().min(1).max(200).optional(),
+      content_markdown: z.string().min(1).max(maxPostLength).optional(),
+      excerpt: z.string().max(300).optional(),
+      cover_image_url: z.string().url().nullable().optional(),
+      tags: z.array(z.string().min(1).max(30)).max(10).optional(),
+      allow_comments: z.boolean().optional(),
+      scheduled_for: z.string().datetime().nullable().optional(),
+      unpublish_at: z.string().datetime().nullable().optional(),
+      change_summary: z.string().max(200).optional(),
+    })
+    .refine(
+      (data) => Object.keys(data).some((key) => key !== "change_summary"),
+      { message: "At least one field must be provided" }
+    );
+}
+
+export const postActionSchema = z.object({
+  action: z.enum(["publish", "unpublish", "archive"]),
+});
+
+export const getFeedSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+  cursor: z.string().max(500).optional(),
+});
+
+export const getRevisionsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  cursor: z.coerce.number().int().min(1).optional(),
+});
+
+export const revisionDiffSchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1),
+  granularity: z.enum(["line", "word"]).optional().default("line"),
+});
+
+export const inviteCollaboratorSchema = z.object({
+  user_id: z.string().uuid(),
+  role: z.enum(COLLABORATOR_ROLES),
+});
+
+export const updateCollaboratorRoleSchema = z.object({
+  role: z.enum(COLLABORATOR_ROLES),
+});
+
+export const respondToInvitationSchema = z.object({
+  action: z.enum(["accept", "decline"]),
+});
@@ -0,0 +1,148 @@
+// src/lib/schemas/responses.ts
+import { z } from "zod";
+
+// Shapes of the `data` member of success responses, used for the OpenAPI
+// spec. Rows come straight from the database, so object schemas are open
+// (passthrough) and list only the fields clients can rely on.
+
+export const messageResponse = z
+  .object({
+    message: z.string(),
+  })
+  .passthrough();
+
+export const profileSummary = z
+  .object({
+    id: z.string().uuid(),
+    username: z.string(),
+    display_name: z.string().nullable(),
+    avatar_url: z.string().nullable(),
+  })
+  .passthrough();
+
+export const post = z
+  .object({
+    id: z.string().uuid(),
+    author_id: z.string().uuid(),
+    title: z.string(),
+    slug: z.string(),
+    content_markdown: z.string().optional(),
+    excerpt: z.string().nullable().optional(),
+    cover_image_url: z.string().nullable().optional(),
+    tags: z.array(z.string()).optional(),
+    status: z.enum(["draft", "published", "archived"]),
+    allow_comments: z.boolean().optional(),
+    published_at: z.string().datetime().nullable(),
+    scheduled_for: z.string().datetime().nullable().optional(),
+    unpublish_at: z.string().datetime().nullable().optional(),
+    created_at: z.string().datetime(),
+    updated_at: z.string().datetime(),
+  })
+  .passthrough();
+
+export const comment = z
+  .object({
+    id: z.string().uuid(),
+    post_id: z.string().uuid(),
+    parent_id: z.string().uuid().nullable(),
+    content: z.string(),
+    created_at: z.string().datetime(),
+    updated_at: z.string().datetime().optional(),
+  })
+  .passthrough();
+
+// Top-level comments from GET /api/comments, with reaction counts keyed by
+// reaction type
+const reactionCounts = z.record(z.number().int());
+
+export const threadedComment = comment.extend({
+  author: profileSummary,
+  reactions_count: reactionCounts,
+  replies_count: z.number().int(),
+  replies: z.array(
+    comment.extend({ author: profileSummary, reactions_count: reactionCounts })
+  ),
+});
+
+export const tag = z
+  .object({
+    id: z.string().uuid(),
+    name: z.string(),
+    slug: z.string(),
+    description: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+export const revision = z
+  .object({
+    revision_number: z.number().int(),
+    title: z.string(),
+    created_at: z.string().datetime(),
+  })
+  .passthrough();
+
+export const collaborator = z
+  .object({
+    post_id: z.string().uuid(),
+    user_id: z.string().uuid(),
+    role: z.string(),
+  })
+  .passthrough();
+
+export const notification = z
+  .object({
+    id: z.string().uuid(),
+    type: z.string(),
+    title: z.string(),
+    message: z.string(),
+    is_read: z.boolean(),
+    created_at: z.string().datetime(),
+    updated_at: z.string().datetime(),
+    data: z.record(z.unknown()),
+    group_key: z.string().nullable(),
+    actor_count: z.number().int(),
+  })
+  .passthrough();
+
+export const followStatus = z.object({
+  is_following: z.boolean(),
+  follows_you: z.boolean(),
+  is_mutual: z.boolean(),
+});
+
+export const upload = z
+  .object({
+    id: z.string().uuid(),
+    url: z.string().url(),
+    filename: z.string(),
+  })
+  .passthrough();
+
+export const announcement = z
+  .object({
+    id: z.string().uuid(),
+    title: z.string(),
+    message: z.string(),
+    type: z.enum(["info", "warning", "success", "error"]),
+    priority: z.enum(["low", "medium", "high"]),
+    target_audience: z.enum(["all", "users", "admins"]),
+    starts_at: z.string().datetime().nullable(),
+    expires_at: z.string().datetime().nullable(),
+    created_at: z.string().datetime(),
+  })
+  .passthrough();
+
+// Progress pushing a high priority announcement to its audience, with the
+// recipients reached per channel so far; null when it is not sent out
+export const announcementNotifications = z
+  .object({
+    status: z.enum(["pending", "sent", "expired"]),
+    in_app: z.number().int(),
+    push: z.number().int(),
+    created_at: z.string().datetime(),
+    completed_at: z.string().datetime().nullable(),
+  })
+  .nullable();
+
+// Responses not described field by field
+export const anyObject = z.record(z.unknown());
@@ -0,0 +1,22 @@
+// src/lib/schemas/search.ts
+import { SEARCH_TYPES } from "../searchService";
+import { z } from "zod";
+
+export const searchSchema = z
+  .object({
+    q: z.string().min(1).max(500),
+    type: z
+      .enum(["all", ...SEARCH_TYPES])
+      .optional()
+      .default("all"),
+    tag: z.string().max(30).optional(),
+    author_id: z.string().uuid().optional(),
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+    limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+    cursor: z.string().max(500).optional(),
+  })
+  .refine((data) => !(data.cursor && data.type === "all"), {
+    message: "A cursor can only be used when searching a single type",
+    path: ["cursor"],
+  });
@@ -0,0 +1,22 @@
+// src/lib/schemas/tags.ts
+import { z } from "zod";
+
+export const getTagsSchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(50),
+  q: z.string().max(30).optional(),
+});
+
+export const createTagSchema = z.object({
+  name: z.string().min(1).max(30),
+  description: z.string().max(500).optional(),
+});
+
+export const updateTagSchema = z.object({
+  description: z.string().max(500).nullable(),
+});
+
+export const getTagPostsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+  cursor: z.string().datetime().optional(),
+});
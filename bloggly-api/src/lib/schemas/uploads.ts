@@ -0,0 +1,19 @@
+// src/lib/schemas/uploads.ts
+import { z } from "zod";
+
+export const UPLOAD_CONTEXTS = ["post", "avatar", "general"] as const;
+
+// multipart/form-data fields
+export const uploadFileSchema = z.object({
+  file: z.instanceof(File),
+  context: z.enum(UPLOAD_CONTEXTS).optional(),
+});
+
+export const getUploadsSchema = z.object({
+  context: z.enum(UPLOAD_CONTEXTS).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(20),
+});
+
+export const deleteUploadSchema = z.object({
+  id: z.string().uuid(),
+});
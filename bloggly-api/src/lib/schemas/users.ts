@@ -0,0 +1,7 @@
+// src/lib/schemas/users.ts
+import { z } from "zod";
+
+export const followListSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+  cursor: z.string().max(200).optional(),
+});
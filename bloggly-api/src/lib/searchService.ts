@@ -0,0 +1,140 @@
+// src/lib/searchService.ts
+import { getClientIp } from "./clientIp";
+import { getRepositories, SearchHit } from "./repositories";
+import { isUuid } from "./utils";
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_QUERY_TERMS = 12;
+
+export const SEARCH_TYPES = ["posts", "comments", "users", "tags"] as const;
+export type SearchType = (typeof SEARCH_TYPES)[number];
+
+export interface ParsedSearchQuery {
+  // Normalised text handed to websearch_to_tsquery
+  text: string;
+  terms: string[];
+}
+
+export interface SearchFilters {
+  tag?: string;
+  authorId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface SearchCursor {
+  rank: number;
+  id: string;
+}
+
+export interface SearchPage {
+  results: SearchHit[];
+  nextCursor: string | null;
+}
+
+// Reduces free text to words, quoted phrases and "-" exclusions, the subset
+// of websearch syntax we support. Everything else is dropped, so the query
+// can never produce a tsquery syntax error. Returns null when nothing
+// searchable is left.
+export function parseSearchQuery(raw: string): ParsedSearchQuery | null {
+  const cleaned = raw
+    .normalize("NFKC")
+    .slice(0, MAX_QUERY_LENGTH)
+    .replace(/[^\p{L}\p{N}\s"'-]/gu, " ");
+
+  const tokens = cleaned.match(/-?"[^"]*"|[^\s"]+/g) || [];
+  const terms: string[] = [];
+
+  for (const token of tokens) {
+    const negated = token.startsWith("-");
+    const body = (negated ? token.slice(1) : token)
+      .replace(/"/g, "")
+      .replace(/^['-]+|['-]+$/g, "")
+      .trim();
+
+    if (!body) {
+      continue;
+    }
+
+    const term = body.includes(" ") ? `"${body}"` : body;
+    terms.push(negated ? `-${term}` : term);
+
+    if (terms.length === MAX_QUERY_TERMS) {
+      break;
+    }
+  }
+
+  // A query made only of exclusions matches nothing useful
+  if (!terms.some((term) => !term.startsWith("-"))) {
+    return null;
+  }
+
+  return { text: terms.join(" "), terms };
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeSearchCursor(value: string): SearchCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+    // The id goes to the search function as a uuid, so anything else would
+    // fail there as a server error instead of an invalid cursor
+    if (
+      Number.isFinite(cursor?.rank) &&
+      typeof cursor?.id === "string" &&
+      isUuid(cursor.id)
+    ) {
+      return { rank: cursor.rank, id: cursor.id };
+    }
+  } catch {
+    // Fall through to the invalid cursor result
+  }
+  return null;
+}
+
+export async function searchContent(
+  type: SearchType,
+  query: ParsedSearchQuery,
+  filters: SearchFilters,
+  limit: number,
+  cursor: SearchCursor | null
+): Promise<SearchPage> {
+  const results = await getRepositories().search.search({
+    type,
+    text: query.text,
+    ...filters,
+    after: cursor || undefined,
+    limit,
+  });
+  const last = results[results.length - 1];
+
+  return {
+    results,
+    nextCursor:
+      results.length === limit && last
+        ? encodeSearchCursor({ rank: last.rank, id: last.id })
+        : null,
+  };
+}
+
+export async function recordSearchEvent(
+  request: Request,
+  userId: string | null,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    await getRepositories().analytics.recordEvent({
+      user_id: userId,
+      event_type: "search",
+      post_id: null,
+      data,
+      client_ip: getClientIp(request),
+      user_agent: request.headers.get("user-agent") || "unknown",
+      created_at: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error recording search event:", error);
+  }
+}
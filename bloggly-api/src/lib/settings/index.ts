@@ -0,0 +1,149 @@
+// src/lib/settings/index.ts
+import { getRepositories, SettingRecord } from "../repositories";
+import {
+  isSettingKey,
+  SETTING_KEYS,
+  SettingKey,
+  SETTINGS_REGISTRY,
+  SettingValue,
+} from "./registry";
+
+export * from "./registry";
+
+// Admin writes invalidate this instance's copy straight away; other
+// instances pick changes up when it expires
+const CACHE_TTL_MS = 60_000;
+
+const REDACTED = "[redacted]";
+
+let cache: {
+  value: Promise<Map<SettingKey, unknown>>;
+  expiresAt: number;
+} | null = null;
+
+// Stored values that no longer match their schema are ignored in favour of
+// the default rather than handed to code that trusts the type
+async function loadSettings(): Promise<Map<SettingKey, unknown>> {
+  const values = new Map<SettingKey, unknown>();
+  try {
+    const rows = await getRepositories().settings.getMany(SETTING_KEYS);
+    for (const row of rows) {
+      if (!isSettingKey(row.setting_key)) {
+        continue;
+      }
+      const parsed = SETTINGS_REGISTRY[row.setting_key].schema.safeParse(
+        row.setting_value
+      );
+      if (parsed.success) {
+        values.set(row.setting_key, parsed.data);
+      } else {
+        console.warn(
+          `Ignoring invalid value for setting ${row.setting_key}:`,
+          parsed.error.issues
+        );
+      }
+    }
+  } catch (error) {
+    console.error("Error loading platform settings:", error);
+  }
+  return values;
+}
+
+/**
+ * A platform setting's current value, typed by the registry:
+ *
+ *   const maxFileSizeMb = await getSetting("max_file_size_mb"); // number
+ *
+ * All settings are loaded together and cached; when a key has no valid
+ * stored value, or the database cannot be reached, its default is returned.
+ */
+export async function getSetting<K extends SettingKey>(
+  key: K
+): Promise<SettingValue<K>> {
+  const now = Date.now();
+  if (!cache || cache.expiresAt <= now) {
+    cache = { value: loadSettings(), expiresAt: now + CACHE_TTL_MS };
+  }
+  const values = await cache.value;
+  return (
+    values.has(key) ? values.get(key) : SETTINGS_REGISTRY[key].default
+  ) as SettingValue<K>;
+}
+
+// Called after platform_settings changes so new values apply immediately
+export function invalidateSettingsCache(): void {
+  cache = null;
+}
+
+// Value as it may appear in logs and exports
+export function redactSettingValue(key: string, value: unknown): unknown {
+  return isSettingKey(key) && SETTINGS_REGISTRY[key].sensitive
+    ? REDACTED
+    : value;
+}
+
+export interface MergedSetting {
+  setting_key: string;
+  setting_value: unknown;
+  default_value: unknown;
+  is_default: boolean;
+  category: string;
+  type: string | null;
+  description: string | null;
+  sensitive: boolean;
+  // False for stored keys the registry does not know
+  registered: boolean;
+  updated_by: string | null;
+  updated_at: string | null;
+}
+
+/**
+ * Every registered setting with its stored value where there is one and its
+ * default otherwise, followed by any stored keys outside the registry.
+ */
+export function mergeSettings(
+  rows: (SettingRecord & {
+    category?: string | null;
+    description?: string | null;
+  })[]
+): MergedSetting[] {
+  const stored = new Map(rows.map((row) => [row.setting_key, row]));
+
+  const registered = SETTING_KEYS.map((key): MergedSetting => {
+    const definition = SETTINGS_REGISTRY[key];
+    const row = stored.get(key);
+    return {
+      setting_key: key,
+      setting_value: row ? row.setting_value : definition.default,
+      default_value: definition.default,
+      is_default: !row,
+      category: definition.category,
+      type: definition.type,
+      description: row?.description || definition.description,
+      sensitive: definition.sensitive,
+      registered: true,
+      updated_by: row?.updated_by ?? null,
+      updated_at: row?.updated_at ?? null,
+    };
+  });
+
+  const unregistered = rows
+    .filter((row) => !isSettingKey(row.setting_key))
+    .map(
+      (row): MergedSetting => ({
+        setting_key: row.setting_key,
+        setting_value: row.setting_value,
+        default_value: null,
+        is_default: false,
+        category: row.category || "general",
+        type: null,
+        description: row.description ?? null,
+        sensitive: false,
+        registered: false,
+        updated_by: row.updated_by,
+        updated_at: row.updated_at,
+      })
+    );
+
+  return [...registered, ...unregistered];
+}
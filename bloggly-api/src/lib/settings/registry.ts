@@ -0,0 +1,236 @@
+// src/lib/settings/registry.ts
+import { z } from "zod";
+
+export const SETTING_CATEGORIES = {
+  general: "General platform settings",
+  security: "Security and authentication settings",
+  email: "Email service and template settings",
+  moderation: "Content moderation and spam detection",
+  features: "Feature flags and experimental settings",
+  rate_limiting: "Rate limiting and API throttling",
+  notifications: "Notification preferences and delivery",
+  storage: "File storage and media settings",
+  maintenance: "Maintenance mode",
+};
+
+export type SettingCategory = keyof typeof SETTING_CATEGORIES;
+
+// How admin tools should present a value; the schema is what is enforced
+export type SettingType =
+  | "string"
+  | "integer"
+  | "boolean"
+  | "datetime"
+  | "string_list";
+
+export interface SettingDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  category: SettingCategory;
+  type: SettingType;
+  schema: S;
+  // Applies while platform_settings has no valid row for the key
+  default: z.infer<S>;
+  description: string;
+  // Redacted from admin activity logs and settings exports
+  sensitive: boolean;
+}
+
+const defineSetting = <S extends z.ZodTypeAny>(
+  definition: SettingDefinition<S>
+) => definition;
+
+const positiveInteger = z.number().int().min(1);
+
+/**
+ * Every key platform_settings may hold. Writes through the admin API are
+ * validated against the key's schema, and readers get the default when a
+ * key has no stored value (see getSetting).
+ */
+export const SETTINGS_REGISTRY = {
+  site_name: defineSetting({
+    category: "general",
+    type: "string",
+    schema: z.string().min(1).max(100),
+    default: "Bloggly",
+    description: "Platform name",
+    sensitive: false,
+  }),
+  max_post_length: defineSetting({
+    category: "general",
+    type: "integer",
+    schema: z.number().int().min(1000),
+    default: 50000,
+    description: "Maximum post content length",
+    sensitive: false,
+  }),
+  max_comment_length: defineSetting({
+    category: "general",
+    type: "integer",
+    schema: z.number().int().min(100),
+    default: 2000,
+    description: "Maximum comment length",
+    sensitive: false,
+  }),
+  allow_user_registration: defineSetting({
+    category: "security",
+    type: "boolean",
+    schema: z.boolean(),
+    default: true,
+    description: "Allow new user registrations",
+    sensitive: false,
+  }),
+  require_email_verification: defineSetting({
+    category: "security",
+    type: "boolean",
+    schema: z.boolean(),
+    default: true,
+    description: "Require email verification for new accounts",
+    sensitive: false,
+  }),
+  rate_limit_posts: defineSetting({
+    category: "rate_limiting",
+    type: "integer",
+    schema: positiveInteger,
+    default: 10,
+    description: "Posts per hour limit",
+    sensitive: false,
+  }),
+  rate_limit_comments: defineSetting({
+    category: "rate_limiting",
+    type: "integer",
+    schema: positiveInteger,
+    default: 30,
+    description: "Comments per hour limit",
+    sensitive: false,
+  }),
+  rate_limit_reactions: defineSetting({
+    category: "rate_limiting",
+    type: "integer",
+    schema: positiveInteger,
+    default: 120,
+    description: "Reactions per hour limit",
+    sensitive: false,
+  }),
+  rate_limit_uploads: defineSetting({
+    category: "rate_limiting",
+    type: "integer",
+    schema: positiveInteger,
+    default: 20,
+    description: "Uploads per hour limit",
+    sensitive: false,
+  }),
+  rate_limit_trusted_multiplier: defineSetting({
+    category: "rate_limiting",
+    type: "integer",
+    schema: positiveInteger,
+    default: 5,
+    description:
+      "Multiplier on hourly limits for admins, moderators and support",
+    sensitive: false,
+  }),
+  enable_spam_detection: defineSetting({
+    category: "moderation",
+    type: "boolean",
+    schema: z.boolean(),
+    default: true,
+    description: "Enable automatic spam detection",
+    sensitive: false,
+  }),
+  auto_flag_threshold: defineSetting({
+    category: "moderation",
+    type: "integer",
+    schema: positiveInteger,
+    default: 3,
+    description: "Auto-flag content after X reports",
+    sensitive: false,
+  }),
+  smtp_enabled: defineSetting({
+    category: "email",
+    type: "boolean",
+    schema: z.boolean(),
+    default: false,
+    description: "Enable SMTP email delivery",
+    sensitive: false,
+  }),
+  file_upload_enabled: defineSetting({
+    category: "storage",
+    type: "boolean",
+    schema: z.boolean(),
+    default: true,
+    description: "Allow file uploads",
+    sensitive: false,
+  }),
+  max_file_size_mb: defineSetting({
+    category: "storage",
+    type: "integer",
+    schema: z.number().int().min(1).max(50),
+    default: 5,
+    description: "Maximum file size in MB",
+    sensitive: false,
+  }),
+  // Written by PUT /api/admin/maintenance and read by src/middleware.ts
+  maintenance_mode_enabled: defineSetting({
+    category: "maintenance",
+    type: "boolean",
+    schema: z.boolean(),
+    default: false,
+    description: "Answer API requests with 503 during the maintenance window",
+    sensitive: false,
+  }),
+  maintenance_message: defineSetting({
+    category: "maintenance",
+    type: "string",
+    schema: z.string().max(1000),
+    default:
+      "The platform is currently undergoing maintenance. Please check back soon.",
+    description: "Message returned during maintenance",
+    sensitive: false,
+  }),
+  maintenance_estimated_duration: defineSetting({
+    category: "maintenance",
+    type: "string",
+    schema: z.string().max(100).nullable(),
+    default: null,
+    description: "Expected length of the maintenance, e.g. 2 hours",
+    sensitive: false,
+  }),
+  maintenance_start_time: defineSetting({
+    category: "maintenance",
+    type: "datetime",
+    schema: z.string().datetime().nullable(),
+    default: null,
+    description: "When maintenance starts; immediately when empty",
+    sensitive: false,
+  }),
+  maintenance_end_time: defineSetting({
+    category: "maintenance",
+    type: "datetime",
+    schema: z.string().datetime().nullable(),
+    default: null,
+    description: "When maintenance ends; used for Retry-After",
+    sensitive: false,
+  }),
+  maintenance_allowed_ips: defineSetting({
+    category: "maintenance",
+    type: "string_list",
+    schema: z.array(z.string().ip()).max(10),
+    default: [],
+    description:
+      "Client IPs that keep access during maintenance (needs TRUSTED_PROXY_COUNT)",
+    sensitive: true,
+  }),
+};
+
+export type SettingKey = keyof typeof SETTINGS_REGISTRY;
+
+export type SettingValue<K extends SettingKey> = z.infer<
+  (typeof SETTINGS_REGISTRY)[K]["schema"]
+>;
+
+export const SETTING_KEYS = Object.keys(SETTINGS_REGISTRY) as [
+  SettingKey,
+  ...SettingKey[],
+];
+
+export function isSettingKey(key: string): key is SettingKey {
+  return Object.prototype.hasOwnProperty.call(SETTINGS_REGISTRY, key);
+}
@@ -1,29 +1,45 @@
 // src/lib/supabaseAdmin.ts
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 
-const supabaseUrl =
-  process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
+let client: SupabaseClient | null = null;
 
-if (!supabaseUrl) {
-  throw new Error(
-    "CRITICAL: SUPABASE_URL (or NEXT_PUBLIC_SUPABASE_URL) is not defined for admin client."
-  );
-}
-if (!supabaseServiceKey) {
-  throw new Error(
-    "CRITICAL: SUPABASE_SERVICE_KEY is not defined for admin client."
-  );
-}
+// The client is created on first use rather than at import, so modules that
+// only reach the database through a replaced data layer (see
+// lib/repositories) load without Supabase credentials.
+export function getSupabaseAdmin(): SupabaseClient {
+  if (client) {
+    return client;
+  }
+
+  const supabaseUrl =
+    process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
+
+  if (!supabaseUrl) {
+    throw new Error(
+      "CRITICAL: SUPABASE_URL (or NEXT_PUBLIC_SUPABASE_URL) is not defined for admin client."
+    );
+  }
+  if (!supabaseServiceKey) {
+    throw new Error(
+      "CRITICAL: SUPABASE_SERVICE_KEY is not defined for admin client."
+    );
+  }
 
-export const supabaseAdmin: SupabaseClient = createClient(
-  supabaseUrl,
-  supabaseServiceKey,
-  {
+  client = createClient(supabaseUrl, supabaseServiceKey, {
     auth: {
       autoRefreshToken: false,
       persistSession: false,
       detectSessionInUrl: false,
     },
-  }
-);
+  });
+  return client;
+}
+
+export const supabaseAdmin: SupabaseClient = new Proxy({} as SupabaseClient, {
+  get(_target, property) {
+    const admin = getSupabaseAdmin();
+    const value = Reflect.get(admin, property);
+    return typeof value === "function" ? value.bind(admin) : value;
+  },
+});
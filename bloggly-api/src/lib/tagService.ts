@@ -0,0 +1,101 @@
+// src/lib/tagService.ts
+import slugify from "slugify";
+import { getRepositories, Tag } from "./repositories";
+
+export interface MergeTagsResult {
+  target: Tag;
+  merged: Tag[];
+  posts_updated: number;
+}
+
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+export function generateTagSlug(name: string): string {
+  return slugify(name, { lower: true, strict: true });
+}
+
+export async function findTagBySlug(slug: string): Promise<Tag | null> {
+  return getRepositories().tags.findBySlug(slug);
+}
+
+// Follows a synonym through to the tag it was merged into. Canonical tags
+// resolve to themselves.
+export async function resolveCanonicalTag(tag: Tag): Promise<Tag> {
+  if (!tag.canonical_tag_id) {
+    return tag;
+  }
+
+  const canonical = await getRepositories().tags.findById(tag.canonical_tag_id);
+  if (!canonical) {
+    throw new Error(`Canonical tag ${tag.canonical_tag_id} not found`);
+  }
+
+  return canonical;
+}
+
+// Maps free-form tag names to canonical tags, creating tags that do not
+// exist yet. The result is de-duplicated and keeps the input order, so two
+// synonyms on one post collapse into a single canonical tag.
+export async function resolveTagNames(
+  names: string[],
+  createdBy: string
+): Promise<Tag[]> {
+  const resolved: Tag[] = [];
+
+  for (const rawName of names) {
+    const name = normalizeTagName(rawName);
+    const slug = generateTagSlug(name);
+    if (!slug) {
+      continue;
+    }
+
+    let tag = await findTagBySlug(slug);
+    if (!tag) {
+      const created = await getRepositories().tags.create({
+        name,
+        slug,
+        description: null,
+        created_by: createdBy,
+      });
+
+      // Created concurrently by another request
+      tag = created || (await findTagBySlug(slug));
+      if (!tag) {
+        continue;
+      }
+    }
+
+    const canonical = await resolveCanonicalTag(tag);
+    if (!resolved.some((existing) => existing.id === canonical.id)) {
+      resolved.push(canonical);
+    }
+  }
+
+  return resolved;
+}
+
+// Replaces a post's post_tags rows with the given canonical tags
+export async function syncPostTags(postId: string, tags: Tag[]): Promise<void> {
+  await getRepositories().tags.setPostTags(
+    postId,
+    tags.map((tag) => tag.id)
+  );
+}
+
+// Folds the source tags into the target: they become synonyms that redirect
+// to it, and their post links, follows and the tag names stored on posts are
+// all moved over. Synonyms of a source tag are re-pointed at the target too.
+export async function mergeTags(
+  sources: Tag[],
+  target: Tag
+): Promise<MergeTagsResult> {
+  const postsUpdated = await getRepositories().tags.merge(sources, target);
+
+  return {
+    target,
+    merged: sources,
+    posts_updated: postsUpdated,
+  };
+}
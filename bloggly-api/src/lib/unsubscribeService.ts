@@ -0,0 +1,92 @@
+// src/lib/unsubscribeService.ts
+import { createHmac, timingSafeEqual } from "crypto";
+import { getRepositories } from "./repositories";
+
+const apiBaseUrl = process.env.API_BASE_URL || "http://localhost:3000";
+
+// The notification_preferences columns that only govern email, which are
+// all an unsubscribe link can switch off. In-app and push delivery are
+// untouched.
+export const EMAIL_PREFERENCES = [
+  "email_notifications",
+  "comment_emails",
+  "mention_emails",
+  "collaboration_emails",
+  "weekly_digest",
+  "marketing_emails",
+] as const;
+
+export type UnsubscribePreference = (typeof EMAIL_PREFERENCES)[number];
+
+export interface UnsubscribeRequest {
+  userId: string;
+  preference: UnsubscribePreference;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+function toPreference(value: string): UnsubscribePreference | null {
+  return (EMAIL_PREFERENCES as readonly string[]).includes(value)
+    ? (value as UnsubscribePreference)
+    : null;
+}
+
+// Tokens are `<userId>.<preference>.<signature>`. They do not expire, so a
+// link in an old email keeps working, and they can only ever switch the one
+// preference they name off.
+export function createUnsubscribeToken(
+  userId: string,
+  preference: UnsubscribePreference
+): string | null {
+  const secret = process.env.UNSUBSCRIBE_SECRET;
+  if (!secret) {
+    console.error("UNSUBSCRIBE_SECRET not configured");
+    return null;
+  }
+
+  const payload = `${userId}.${preference}`;
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+export function verifyUnsubscribeToken(
+  token: string
+): UnsubscribeRequest | null {
+  const secret = process.env.UNSUBSCRIBE_SECRET;
+  const [userId, preference, signature] = token.split(".");
+  if (!secret || !userId || !preference || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${userId}.${preference}`, secret));
+  const provided = Buffer.from(signature);
+  if (
+    provided.length !== expected.length ||
+    !timingSafeEqual(provided, expected)
+  ) {
+    return null;
+  }
+
+  const emailPreference = toPreference(preference);
+  return emailPreference ? { userId, preference: emailPreference } : null;
+}
+
+export function getUnsubscribeUrl(
+  userId: string,
+  preference: UnsubscribePreference
+): string | null {
+  const token = createUnsubscribeToken(userId, preference);
+  return token
+    ? `${apiBaseUrl}/api/notifications/unsubscribe?token=${encodeURIComponent(token)}`
+    : null;
+}
+
+export async function applyUnsubscribe({
+  userId,
+  preference,
+}: UnsubscribeRequest): Promise<void> {
+  await getRepositories().notifications.savePreferences(userId, {
+    [preference]: false,
+  });
+}
@@ -0,0 +1,29 @@
+// src/lib/utils.ts
+
+// Usernames are letters, digits and underscores
+const MENTION_PATTERN = /(^|[^\w@])@(\w{1,50})\b/g;
+
+// Most users notified from one piece of content
+const MAX_MENTIONS = 20;
+
+/**
+ * The usernames @mentioned in some text, each once and in the order they
+ * first appear. An @ inside a word, as in an email address, is
+ * not a mention.
+ */
+export function extractMentions(content: string): string[] {
+  const usernames = new Set<string>();
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    usernames.add(match[2]);
+    if (usernames.size >= MAX_MENTIONS) {
+      break;
+    }
+  }
+  return [...usernames];
+}
+
+export function isUuid(value: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+    value
+  );
+}
@@ -0,0 +1,29 @@
+// src/middleware.ts
+import { NextRequest, NextResponse } from "next/server";
+import { getMaintenanceResponse } from "@/lib/maintenance";
+import { REQUEST_ID_HEADER, resolveRequestId } from "@/lib/requestId";
+
+// Every API request carries a request id: handlers read it from the request
+// headers and clients get it back in the X-Request-Id response header.
+// During maintenance requests are answered here with a 503 (see
+// src/lib/maintenance.ts).
+export async function middleware(request: NextRequest) {
+  const requestId = resolveRequestId(request.headers.get(REQUEST_ID_HEADER));
+
+  const maintenanceResponse = await getMaintenanceResponse(request);
+  if (maintenanceResponse) {
+    maintenanceResponse.headers.set(REQUEST_ID_HEADER, requestId);
+    return maintenanceResponse;
+  }
+
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(REQUEST_ID_HEADER, requestId);
+
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};
@@ -0,0 +1,313 @@
+-- supabase/migrations/20261019000100_search_functions.sql
+--
+-- Full-text search behind GET /api/search (src/lib/searchService.ts).
+--
+-- Each searchable table gets a weighted tsvector column and a GIN index.
+-- The search_* functions share one signature: they apply
+-- websearch_to_tsquery to the already-sanitised query, filter, rank with
+-- ts_rank and page by (rank desc, id asc) after the cursor. Filters a type
+-- has no column for are ignored. Highlights are ts_headline output over
+-- HTML-escaped text, so <mark> is the only markup they contain.
+
+create or replace function search_array_to_text(value text[])
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select coalesce(array_to_string(value, ' '), '')
+$$;
+
+create or replace function search_escape_html(value text)
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select replace(replace(replace(coalesce(value, ''), '&', '&amp;'), '<', '&lt;'), '>', '&gt;')
+$$;
+
+create or replace function search_headline(document text, query tsquery)
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select ts_headline(
+    'english',
+    search_escape_html(document),
+    query,
+    'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2'
+  )
+$$;
+
+-- Posts: title, then tags, then excerpt, then body
+alter table posts
+  add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', search_array_to_text(tags)), 'B') ||
+    setweight(to_tsvector('english', coalesce(excerpt, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(content_markdown, '')), 'D')
+  ) stored;
+
+create index if not exists posts_search_vector_idx
+  on posts using gin (search_vector);
+
+alter table comments
+  add column if not exists search_vector tsvector
+  generated always as (to_tsvector('english', coalesce(content, ''))) stored;
+
+create index if not exists comments_search_vector_idx
+  on comments using gin (search_vector);
+
+-- Profiles use the simple configuration so usernames are not stemmed
+alter table profiles
+  add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('simple', coalesce(username, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(display_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(bio, '')), 'C')
+  ) stored;
+
+create index if not exists profiles_search_vector_idx
+  on profiles using gin (search_vector);
+
+alter table tags
+  add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C')
+  ) stored;
+
+create index if not exists tags_search_vector_idx
+  on tags using gin (search_vector);
+
+-- Published posts
+create or replace function search_posts(
+  search_query text,
+  tag_filter text default null,
+  author_filter uuid default null,
+  from_date timestamptz default null,
+  to_date timestamptz default null,
+  cursor_rank real default null,
+  cursor_id uuid default null,
+  result_limit integer default 20
+)
+returns table (
+  id uuid,
+  rank real,
+  title text,
+  slug text,
+  excerpt text,
+  tags text[],
+  author_id uuid,
+  author_username text,
+  author_display_name text,
+  published_at timestamptz,
+  title_highlight text,
+  content_highlight text
+)
+language sql
+stable
+as $$
+  with query as (
+    select websearch_to_tsquery('english', search_query) as tsq
+  ),
+  matches as (
+    select p.*, ts_rank(p.search_vector, query.tsq) as match_rank, query.tsq
+    from posts p, query
+    where p.search_vector @@ query.tsq
+      and p.status = 'published'
+      and (author_filter is null or p.author_id = author_filter)
+      and (from_date is null or p.published_at >= from_date)
+      and (to_date is null or p.published_at <= to_date)
+      and (
+        tag_filter is null
+        or exists (
+          select 1 from unnest(p.tags) as post_tag
+          where lower(post_tag) = lower(tag_filter)
+        )
+      )
+  )
+  select
+    m.id,
+    m.match_rank,
+    m.title,
+    m.slug,
+    m.excerpt,
+    m.tags,
+    m.author_id,
+    a.username,
+    a.display_name,
+    m.published_at,
+    search_headline(m.title, m.tsq),
+    search_headline(m.content_markdown, m.tsq)
+  from matches m
+  left join profiles a on a.id = m.author_id
+  where cursor_rank is null
+    or m.match_rank < cursor_rank
+    or (m.match_rank = cursor_rank and m.id > cursor_id)
+  order by m.match_rank desc, m.id asc
+  limit least(greatest(result_limit, 1), 50)
+$$;
+
+-- Published comments on published posts; tag_filter applies to the post
+create or replace function search_comments(
+  search_query text,
+  tag_filter text default null,
+  author_filter uuid default null,
+  from_date timestamptz default null,
+  to_date timestamptz default null,
+  cursor_rank real default null,
+  cursor_id uuid default null,
+  result_limit integer default 20
+)
+returns table (
+  id uuid,
+  rank real,
+  post_id uuid,
+  post_title text,
+  post_slug text,
+  author_id uuid,
+  author_username text,
+  author_display_name text,
+  created_at timestamptz,
+  content_highlight text
+)
+language sql
+stable
+as $$
+  with query as (
+    select websearch_to_tsquery('english', search_query) as tsq
+  ),
+  matches as (
+    select c.*, ts_rank(c.search_vector, query.tsq) as match_rank, query.tsq
+    from comments c
+    join posts p on p.id = c.post_id
+    cross join query
+    where c.search_vector @@ query.tsq
+      and c.status = 'published'
+      and p.status = 'published'
+      and (author_filter is null or c.author_id = author_filter)
+      and (from_date is null or c.created_at >= from_date)
+      and (to_date is null or c.created_at <= to_date)
+      and (
+        tag_filter is null
+        or exists (
+          select 1 from unnest(p.tags) as post_tag
+          where lower(post_tag) = lower(tag_filter)
+        )
+      )
+  )
+  select
+    m.id,
+    m.match_rank,
+    m.post_id,
+    p.title,
+    p.slug,
+    m.author_id,
+    a.username,
+    a.display_name,
+    m.created_at,
+    search_headline(m.content, m.tsq)
+  from matches m
+  join posts p on p.id = m.post_id
+  left join profiles a on a.id = m.author_id
+  where cursor_rank is null
+    or m.match_rank < cursor_rank
+    or (m.match_rank = cursor_rank and m.id > cursor_id)
+  order by m.match_rank desc, m.id asc
+  limit least(greatest(result_limit, 1), 50)
+$$;
+
+-- Author profiles; the tag, author and date filters do not apply
+create or replace function search_profiles(
+  search_query text,
+  tag_filter text default null,
+  author_filter uuid default null,
+  from_date timestamptz default null,
+  to_date timestamptz default null,
+  cursor_rank real default null,
+  cursor_id uuid default null,
+  result_limit integer default 20
+)
+returns table (
+  id uuid,
+  rank real,
+  username text,
+  display_name text,
+  avatar_url text,
+  bio_highlight text
+)
+language sql
+stable
+as $$
+  with query as (
+    select websearch_to_tsquery('simple', search_query) as tsq
+  ),
+  matches as (
+    select pr.*, ts_rank(pr.search_vector, query.tsq) as match_rank, query.tsq
+    from profiles pr, query
+    where pr.search_vector @@ query.tsq
+  )
+  select
+    m.id,
+    m.match_rank,
+    m.username,
+    m.display_name,
+    m.avatar_url,
+    search_headline(m.bio, m.tsq)
+  from matches m
+  where cursor_rank is null
+    or m.match_rank < cursor_rank
+    or (m.match_rank = cursor_rank and m.id > cursor_id)
+  order by m.match_rank desc, m.id asc
+  limit least(greatest(result_limit, 1), 50)
+$$;
+
+-- Canonical tags only; synonyms point at one of them
+create or replace function search_tags(
+  search_query text,
+  tag_filter text default null,
+  author_filter uuid default null,
+  from_date timestamptz default null,
+  to_date timestamptz default null,
+  cursor_rank real default null,
+  cursor_id uuid default null,
+  result_limit integer default 20
+)
+returns table (
+  id uuid,
+  rank real,
+  name text,
+  slug text,
+  description text,
+  description_highlight text
+)
+language sql
+stable
+as $$
+  with query as (
+    select websearch_to_tsquery('simple', search_query) as tsq
+  ),
+  matches as (
+    select t.*, ts_rank(t.search_vector, query.tsq) as match_rank, query.tsq
+    from tags t, query
+    where t.search_vector @@ query.tsq
+      and t.canonical_tag_id is null
+  )
+  select
+    m.id,
+    m.match_rank,
+    m.name,
+    m.slug,
+    m.description,
+    search_headline(m.description, m.tsq)
+  from matches m
+  where cursor_rank is null
+    or m.match_rank < cursor_rank
+    or (m.match_rank = cursor_rank and m.id > cursor_id)
+  order by m.match_rank desc, m.id asc
+  limit least(greatest(result_limit, 1), 50)
+$$;
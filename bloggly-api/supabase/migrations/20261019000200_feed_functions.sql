@@ -0,0 +1,16 @@
+-- supabase/migrations/20261019000200_feed_functions.sql
+--
+-- Used by buildFeed (src/lib/feedService.ts) to drop posts the reader has
+-- already viewed. The candidate ids travel in the request body, so the
+-- few hundred a feed collects do not have to fit in a URL.
+
+create or replace function viewed_post_ids(reader_id uuid, candidate_ids uuid[])
+returns setof uuid
+language sql
+stable
+as $$
+  select pv.post_id
+  from post_views pv
+  where pv.user_id = reader_id
+    and pv.post_id = any(candidate_ids)
+$$;
@@ -0,0 +1,34 @@
+-- supabase/migrations/20261019000300_notification_emails.sql
+--
+-- Email-only notification preferences, which unsubscribe links switch off
+-- without touching in-app or push delivery, and the per recipient, kind
+-- and post throttle used by src/lib/notificationEmailService.ts.
+
+alter table notification_preferences
+  add column if not exists comment_emails boolean not null default true,
+  add column if not exists mention_emails boolean not null default true,
+  add column if not exists collaboration_emails boolean not null default true;
+
+create table if not exists notification_email_throttle (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles(id) on delete cascade,
+  kind text not null check (kind in ('comment', 'reply', 'mention')),
+  post_id uuid not null references posts(id) on delete cascade,
+  post_title text not null,
+  post_slug text not null,
+  last_sent_at timestamptz,
+  claimed_at timestamptz,
+  pending_count integer not null default 0,
+  pending_actor_names text[] not null default '{}',
+  pending_excerpt text,
+  unique (user_id, kind, post_id)
+);
+
+-- Tables created before sends were claimed
+alter table notification_email_throttle
+  add column if not exists claimed_at timestamptz,
+  alter column last_sent_at drop not null;
+
+create index if not exists notification_email_throttle_pending_idx
+  on notification_email_throttle (last_sent_at)
+  where pending_count > 0;
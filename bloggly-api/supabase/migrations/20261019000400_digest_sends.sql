@@ -0,0 +1,25 @@
+-- supabase/migrations/20261019000400_digest_sends.sql
+--
+-- One row per user and digest week, claimed before the digest is built
+-- (src/lib/digestService.ts). Failed sends are retried by later runs until
+-- attempts reaches the limit; claimed_at lets a run take over a pending
+-- send whose run died.
+
+create table if not exists digest_sends (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles(id) on delete cascade,
+  period_start date not null,
+  status text not null check (status in ('pending', 'sent', 'skipped', 'failed')),
+  reason text,
+  summary jsonb,
+  attempts integer not null default 1,
+  claimed_at timestamptz,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz,
+  unique (user_id, period_start)
+);
+
+-- Tables created before failed sends were retried
+alter table digest_sends
+  add column if not exists attempts integer not null default 1,
+  add column if not exists claimed_at timestamptz;
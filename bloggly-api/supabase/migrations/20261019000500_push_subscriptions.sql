@@ -0,0 +1,34 @@
+-- supabase/migrations/20261019000500_push_subscriptions.sql
+--
+-- Web Push devices (src/lib/pushService.ts). Rows are unique per user and
+-- endpoint, so registering an endpoint another account already holds adds
+-- a row instead of moving theirs.
+
+create table if not exists push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles(id) on delete cascade,
+  endpoint text not null,
+  p256dh text not null,
+  auth text not null,
+  user_agent text,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  constraint push_subscriptions_user_endpoint_key unique (user_id, endpoint)
+);
+
+-- Tables created when endpoints were unique across users
+alter table push_subscriptions
+  drop constraint if exists push_subscriptions_endpoint_key;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'push_subscriptions_user_endpoint_key'
+  ) then
+    alter table push_subscriptions
+      add constraint push_subscriptions_user_endpoint_key
+      unique (user_id, endpoint);
+  end if;
+end
+$$;
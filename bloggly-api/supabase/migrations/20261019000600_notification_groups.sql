@@ -0,0 +1,111 @@
+-- supabase/migrations/20261019000600_notification_groups.sql
+--
+-- Grouped notifications (src/lib/notificationService.ts). updated_at is the
+-- last event folded into a row: coalescing windows on it and lists order by
+-- it, so a group that keeps getting activity stays current.
+
+alter table notifications
+  add column if not exists group_key text,
+  add column if not exists actor_ids uuid[] not null default '{}',
+  add column if not exists actor_count integer not null default 0,
+  add column if not exists updated_at timestamptz;
+
+update notifications set updated_at = created_at where updated_at is null;
+
+alter table notifications
+  alter column updated_at set default now(),
+  alter column updated_at set not null;
+
+create index if not exists notifications_user_updated_idx
+  on notifications (user_id, updated_at desc);
+
+create index if not exists notifications_open_groups_idx
+  on notifications (group_key, user_id, updated_at)
+  where not is_read and group_key is not null;
+
+-- A page of the reader's notifications with rows that share a group key
+-- (events beyond the coalescing window land in separate rows) merged, for
+-- GET /api/notifications?grouped=true. Rows without a key are groups of
+-- their own. total_groups is the group count across all pages.
+create or replace function notification_groups(
+  reader_id uuid,
+  type_filter text default null,
+  unread_only boolean default false,
+  result_limit integer default 20,
+  result_offset integer default 0,
+  actor_limit integer default 3
+)
+returns table (
+  group_key text,
+  notification_ids uuid[],
+  type text,
+  title text,
+  message text,
+  data jsonb,
+  actor_ids uuid[],
+  actor_count integer,
+  unread_count integer,
+  is_read boolean,
+  created_at timestamptz,
+  updated_at timestamptz,
+  total_groups bigint
+)
+language sql
+stable
+as $$
+  with matching as (
+    select n.*, coalesce(n.group_key, n.id::text) as group_id
+    from notifications n
+    where n.user_id = reader_id
+      and (type_filter is null or n.type = type_filter)
+      and (not unread_only or not n.is_read)
+  ),
+  page as (
+    select
+      m.group_id,
+      array_agg(m.id order by m.updated_at desc, m.id) as notification_ids,
+      max(m.actor_count) as max_actor_count,
+      (count(*) filter (where not m.is_read))::integer as unread_count,
+      bool_and(m.is_read) as is_read,
+      max(m.updated_at) as updated_at,
+      count(*) over () as total_groups
+    from matching m
+    group by m.group_id
+    order by max(m.updated_at) desc, m.group_id
+    limit result_limit
+    offset result_offset
+  )
+  select
+    latest.group_key,
+    p.notification_ids,
+    latest.type,
+    latest.title,
+    latest.message,
+    latest.data,
+    array(
+      select a.actor_id
+      from matching m, unnest(m.actor_ids) with ordinality a(actor_id, position)
+      where m.group_id = p.group_id
+      group by a.actor_id
+      order by max(m.updated_at) desc, min(a.position)
+      limit actor_limit
+    ),
+    -- Rows cap actor_ids, so the widest single row's count is kept when it
+    -- beats the distinct actors still listed
+    greatest(
+      p.max_actor_count,
+      (
+        select count(distinct a.actor_id)
+        from matching m, unnest(m.actor_ids) a(actor_id)
+        where m.group_id = p.group_id
+      )::integer
+    ),
+    p.unread_count,
+    p.is_read,
+    latest.created_at,
+    p.updated_at,
+    p.total_groups
+  from page p
+  join matching latest on latest.id = p.notification_ids[1]
+  order by p.updated_at desc, p.group_id;
+$$;
@@ -0,0 +1,153 @@
+-- supabase/migrations/20261019000700_rate_limits.sql
+--
+-- Rate limit counters for RATE_LIMIT_STORE=postgres
+-- (src/lib/rateLimit/postgresStore.ts). consume_rate_limit applies the
+-- arithmetic of src/lib/rateLimit/algorithms.ts to a key's row while holding
+-- its lock, so concurrent requests for a key are decided one at a time.
+
+create table if not exists rate_limits (
+  key text primary key,
+  -- sliding_window: the current fixed window and the counts for it and the
+  -- window before
+  window_index bigint,
+  count integer not null default 0,
+  previous integer not null default 0,
+  -- token_bucket
+  tokens double precision,
+  updated_at_ms bigint,
+  -- State older than this is treated as absent
+  expires_at_ms bigint not null default 0
+);
+
+create index if not exists rate_limits_expires_idx
+  on rate_limits (expires_at_ms);
+
+create or replace function consume_rate_limit(
+  rate_key text,
+  algorithm text,
+  max_requests integer,
+  window_ms integer,
+  now_ms bigint
+)
+returns table (
+  allowed boolean,
+  remaining integer,
+  reset_ms integer,
+  retry_after_ms integer
+)
+language plpgsql
+as $$
+declare
+  stored rate_limits%rowtype;
+  has_state boolean;
+  current_window bigint;
+  current_count integer := 0;
+  previous_count integer := 0;
+  until_next double precision;
+  used double precision;
+  retry double precision;
+  refill double precision;
+  bucket double precision;
+begin
+  insert into rate_limits (key) values (rate_key)
+  on conflict (key) do nothing;
+
+  select * into stored from rate_limits where key = rate_key for update;
+  has_state := stored.expires_at_ms > now_ms;
+
+  if algorithm = 'sliding_window' then
+    current_window := floor(now_ms::double precision / window_ms);
+    if has_state and stored.window_index = current_window then
+      current_count := stored.count;
+      previous_count := stored.previous;
+    elsif has_state and stored.window_index = current_window - 1 then
+      previous_count := stored.count;
+    end if;
+
+    until_next := (current_window + 1) * window_ms - now_ms;
+    used := previous_count * until_next / window_ms + current_count;
+
+    if used + 1 <= max_requests then
+      update rate_limits
+      set window_index = current_window,
+          count = current_count + 1,
+          previous = previous_count,
+          expires_at_ms = now_ms + window_ms * 2
+      where key = rate_key;
+
+      return query select
+        true,
+        greatest(floor(max_requests - used - 1), 0)::integer,
+        until_next::integer,
+        0;
+      return;
+    end if;
+
+    -- Room opens up as the previous window's weight decays; if the current
+    -- window alone is full, only once it has become the previous one
+    if current_count + 1 <= max_requests then
+      retry := until_next
+        - (max_requests - current_count - 1)::double precision * window_ms
+          / previous_count;
+    else
+      retry := until_next + window_ms
+        - (max_requests - 1)::double precision * window_ms / current_count;
+    end if;
+    retry := greatest(ceil(retry), 1);
+
+    update rate_limits
+    set window_index = current_window,
+        count = current_count,
+        previous = previous_count,
+        expires_at_ms = now_ms + window_ms * 2
+    where key = rate_key;
+
+    return query select
+      false,
+      0,
+      greatest(retry, until_next)::integer,
+      retry::integer;
+    return;
+  end if;
+
+  -- token_bucket
+  refill := max_requests::double precision / window_ms;
+  bucket := max_requests;
+  if has_state and stored.tokens is not null then
+    bucket := least(
+      max_requests,
+      stored.tokens + greatest(now_ms - stored.updated_at_ms, 0) * refill
+    );
+  end if;
+
+  allowed := bucket >= 1;
+  if allowed then
+    bucket := bucket - 1;
+  end if;
+
+  update rate_limits
+  set tokens = bucket,
+      updated_at_ms = now_ms,
+      expires_at_ms = now_ms + window_ms
+  where key = rate_key;
+
+  return query select
+    allowed,
+    floor(bucket)::integer,
+    ceil((max_requests - bucket) / refill)::integer,
+    case when allowed then 0 else ceil((1 - bucket) / refill)::integer end;
+end;
+$$;
+
+-- Rows whose state has expired; safe to run at any time, e.g. from pg_cron
+create or replace function prune_rate_limits()
+returns integer
+language sql
+as $$
+  with removed as (
+    delete from rate_limits
+    where expires_at_ms < (extract(epoch from now()) * 1000)::bigint
+    returning 1
+  )
+  select count(*)::integer from removed;
+$$;
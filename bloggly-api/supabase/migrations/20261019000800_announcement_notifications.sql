@@ -0,0 +1,23 @@
+-- supabase/migrations/20261019000800_announcement_notifications.sql
+--
+-- One row per high priority announcement that is pushed to its audience
+-- (src/lib/announcementService.ts). The admin request only queues the row;
+-- POST /api/cron/announcement-notifications sends it once the announcement
+-- has started, a page of recipients at a time. last_recipient_id is the
+-- resume point, and claimed_at lets a run take over a send whose run died.
+
+create table if not exists announcement_notifications (
+  announcement_id uuid primary key references platform_announcements(id) on delete cascade,
+  actor_id uuid references profiles(id) on delete set null,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'expired')),
+  last_recipient_id uuid,
+  in_app integer not null default 0,
+  push integer not null default 0,
+  claimed_at timestamptz,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists announcement_notifications_pending_idx
+  on announcement_notifications (created_at)
+  where status = 'pending';
@@ -0,0 +1,46 @@
+-- supabase/migrations/20261019000900_post_revisions.sql
+--
+-- Saved versions of a post, numbered from 1 per post (src/lib/revisionService.ts).
+-- The number is allocated by reading the latest one, so two edits saved at
+-- once can pick the same number; the unique constraint rejects the second
+-- insert and the repository retries it with a fresh number.
+
+create table if not exists post_revisions (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references posts(id) on delete cascade,
+  revision_number integer not null,
+  title text not null,
+  content_markdown text not null,
+  excerpt text,
+  tags text[] not null default '{}',
+  author_id uuid references profiles(id) on delete set null,
+  change_summary text,
+  restored_from integer,
+  created_at timestamptz not null default now(),
+  unique (post_id, revision_number)
+);
+
+-- Tables created before the constraint may already hold a number twice.
+-- Renumber only the posts where that happened, keeping the saved order.
+update post_revisions revision
+set revision_number = numbered.position
+from (
+  select
+    id,
+    row_number() over (
+      partition by post_id
+      order by revision_number, created_at, id
+    ) as position
+  from post_revisions
+  where post_id in (
+    select post_id
+    from post_revisions
+    group by post_id, revision_number
+    having count(*) > 1
+  )
+) numbered
+where revision.id = numbered.id
+  and revision.revision_number <> numbered.position;
+
+create unique index if not exists post_revisions_post_id_revision_number_key
+  on post_revisions (post_id, revision_number);
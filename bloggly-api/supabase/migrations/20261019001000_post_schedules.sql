@@ -0,0 +1,18 @@
+-- supabase/migrations/20261019001000_post_schedules.sql
+--
+-- When a draft goes live and when a published post is taken down again,
+-- both applied by the scheduled-posts cron (src/lib/publishingService.ts).
+-- The columns are cleared once acted on, so the partial indexes only hold
+-- posts that are still waiting.
+
+alter table posts
+  add column if not exists scheduled_for timestamptz,
+  add column if not exists unpublish_at timestamptz;
+
+create index if not exists posts_scheduled_for_idx
+  on posts (scheduled_for)
+  where status = 'draft' and scheduled_for is not null;
+
+create index if not exists posts_unpublish_at_idx
+  on posts (unpublish_at)
+  where status = 'published' and unpublish_at is not null;
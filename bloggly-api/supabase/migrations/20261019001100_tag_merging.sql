@@ -0,0 +1,86 @@
+-- supabase/migrations/20261019001100_tag_merging.sql
+--
+-- Tag synonyms and tag follows (src/lib/tagService.ts). A tag with a
+-- canonical_tag_id is a synonym that resolves to that tag.
+--
+-- merge_tags folds source tags into a target in one transaction, so a merge
+-- that fails part way leaves nothing half moved: the sources and their
+-- synonyms redirect to the target, post links and follows move over unless
+-- the target already has them, and the tag names stored on posts are
+-- rewritten. Returns how many posts had their names rewritten.
+
+alter table tags
+  add column if not exists canonical_tag_id uuid references tags(id) on delete set null;
+
+create index if not exists tags_canonical_tag_id_idx
+  on tags (canonical_tag_id)
+  where canonical_tag_id is not null;
+
+create table if not exists tag_follows (
+  user_id uuid not null references profiles(id) on delete cascade,
+  tag_id uuid not null references tags(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, tag_id)
+);
+
+create index if not exists tag_follows_tag_id_idx on tag_follows (tag_id);
+
+create or replace function merge_tags(source_ids uuid[], target_id uuid)
+returns integer
+language plpgsql
+as $$
+declare
+  target_name text;
+  source_names text[];
+  renamed integer;
+begin
+  select name into target_name from tags where id = target_id;
+  if target_name is null then
+    raise exception 'Tag % not found', target_id using errcode = 'P0002';
+  end if;
+
+  select coalesce(array_agg(name), '{}') into source_names
+  from tags
+  where id = any(source_ids);
+
+  update tags
+  set canonical_tag_id = target_id, updated_at = now()
+  where (id = any(source_ids) or canonical_tag_id = any(source_ids))
+    and id <> target_id;
+
+  insert into post_tags (post_id, tag_id)
+  select distinct post_id, target_id
+  from post_tags
+  where tag_id = any(source_ids)
+  on conflict (post_id, tag_id) do nothing;
+
+  delete from post_tags where tag_id = any(source_ids);
+
+  insert into tag_follows (user_id, tag_id, created_at)
+  select user_id, target_id, min(created_at)
+  from tag_follows
+  where tag_id = any(source_ids)
+  group by user_id
+  on conflict (user_id, tag_id) do nothing;
+
+  delete from tag_follows where tag_id = any(source_ids);
+
+  -- Each name once, in the order it first appears
+  update posts
+  set tags = array(
+    select merged.name
+    from (
+      select
+        case when tag.name = any(source_names) then target_name else tag.name end as name,
+        min(tag.position) as position
+      from unnest(posts.tags) with ordinality as tag(name, position)
+      group by 1
+    ) merged
+    order by merged.position
+  )
+  where tags && source_names;
+
+  get diagnostics renamed = row_count;
+  return renamed;
+end;
+$$;
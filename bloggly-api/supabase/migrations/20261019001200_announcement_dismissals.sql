@@ -0,0 +1,19 @@
+-- supabase/migrations/20261019001200_announcement_dismissals.sql
+--
+-- Announcements show from starts_at (immediately when null) until
+-- expires_at, and each user can dismiss one for good
+-- (src/app/api/announcements). Dismissals go with the announcement or the
+-- user when either is deleted.
+
+alter table platform_announcements
+  add column if not exists starts_at timestamptz;
+
+create table if not exists announcement_dismissals (
+  announcement_id uuid not null references platform_announcements(id) on delete cascade,
+  user_id uuid not null references profiles(id) on delete cascade,
+  dismissed_at timestamptz not null default now(),
+  primary key (announcement_id, user_id)
+);
+
+create index if not exists announcement_dismissals_user_id_idx
+  on announcement_dismissals (user_id);
@@ -0,0 +1,116 @@
+-- supabase/migrations/20261019001300_feed_candidates.sql
+--
+-- Collects the candidates buildFeed (src/lib/feedService.ts) ranks in one
+-- call. Each source (trending, followed authors, followed tags and
+-- collaborators) contributes up to per_source published posts by other
+-- authors, leaving out posts the reader has viewed. Followed authors and
+-- collaborators are joined here rather than sent as id lists, so a reader
+-- following thousands of authors does not overflow a request URL.
+--
+-- Returns each post once as JSON shaped like the posts select with its
+-- author embedded, with every source that reached it.
+
+create or replace function feed_candidates(
+  reader_id uuid,
+  from_date timestamptz,
+  to_date timestamptz,
+  per_source integer
+)
+returns table (post jsonb, sources text[])
+language sql
+stable
+as $$
+  with eligible as (
+    select p.*
+    from posts p
+    where p.status = 'published'
+      and p.published_at between from_date and to_date
+      and p.author_id <> reader_id
+      and not exists (
+        select 1
+        from post_views pv
+        where pv.user_id = reader_id
+          and pv.post_id = p.id
+      )
+  ),
+  followed_authors as (
+    select f.following_id as author_id
+    from follows f
+    where f.follower_id = reader_id
+  ),
+  followed_tags as (
+    select t.name
+    from tag_follows tf
+    join tags t on t.id = tf.tag_id
+    where tf.user_id = reader_id
+  ),
+  -- Owners of posts the reader collaborates on and collaborators on the
+  -- reader's own posts
+  collaborators as (
+    select owner_post.author_id
+    from post_collaborators pc
+    join posts owner_post on owner_post.id = pc.post_id
+    where pc.user_id = reader_id
+      and pc.accepted_at is not null
+    union
+    select pc.user_id
+    from post_collaborators pc
+    join posts own_post on own_post.id = pc.post_id
+    where own_post.author_id = reader_id
+      and pc.accepted_at is not null
+  ),
+  picks as (
+    (
+      select e.id, 'trending' as source, 1 as position
+      from eligible e
+      order by e.view_count desc nulls last
+      limit per_source
+    )
+    union all
+    (
+      select e.id, 'followed_author', 2
+      from eligible e
+      where e.author_id in (select author_id from followed_authors)
+      order by e.published_at desc
+      limit per_source
+    )
+    union all
+    (
+      select e.id, 'followed_tag', 3
+      from eligible e
+      where e.tags && array(select name from followed_tags)
+      order by e.published_at desc
+      limit per_source
+    )
+    union all
+    (
+      select e.id, 'collaborator', 4
+      from eligible e
+      where e.author_id in (select author_id from collaborators)
+      order by e.published_at desc
+      limit per_source
+    )
+  ),
+  reached as (
+    select id, array_agg(source order by position) as sources
+    from picks
+    group by id
+  )
+  select
+    to_jsonb(e) || jsonb_build_object(
+      'author',
+      case when a.id is null then null else jsonb_build_object(
+        'id', a.id,
+        'username', a.username,
+        'display_name', a.display_name,
+        'avatar_url', a.avatar_url
+      ) end
+    ),
+    r.sources
+  from reached r
+  join eligible e on e.id = r.id
+  left join profiles a on a.id = e.author_id
+$$;
+
+-- Superseded by the viewed posts check in feed_candidates
+drop function if exists viewed_post_ids(uuid, uuid[]);
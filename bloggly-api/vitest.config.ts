@@ -0,0 +1,14 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    // Modules that create clients at import need a key; nothing is sent
+    env: { RESEND_API_KEY: "re_test" },
+    setupFiles: ["./src/__tests__/support/setup.ts"],
+  },
+});